@@ -0,0 +1,67 @@
+import { createAIHandler } from '../lib/aiHandler';
+import { AIError, createChatCompletion, parseJsonContent } from '../lib/openai';
+import { formatStageKeysForPrompt, getPipelineStages } from '../lib/pipeline';
+import { getCustomFields } from '../lib/customFields';
+
+interface FieldMapping {
+  name: string | null;
+  phone_number: string | null;
+  destination: string | null;
+  status: string | null;
+  price: string | null;
+  country: string | null;
+  // Column header per custom field key
+  custom_fields: Record<string, string | null>;
+}
+
+const handler = createAIHandler<FieldMapping>('field-mapping', async (body, supabase) => {
+  const { headers, sampleRows } = body;
+
+  if (!Array.isArray(headers) || !Array.isArray(sampleRows)) {
+    throw new AIError('invalid_request', 'headers and sampleRows are required', 400);
+  }
+
+  const stages = await getPipelineStages(supabase);
+  const customFields = await getCustomFields(supabase);
+  const customFieldLines = customFields.map((field) => `- ${field.key} (${field.label_en})`).join('\n');
+
+  const prompt = `You are a data mapping assistant for a travel CRM system.
+
+Given these column headers and sample data, map them to these required fields:
+- name (client's full name)
+- phone_number (phone/mobile number with country code)
+- destination (where client wants to travel)
+- status (must be one of: ${formatStageKeysForPrompt(stages)})
+- price (trip cost/price in numbers)
+- country (client's home country - OPTIONAL, we can detect from phone number)
+${customFields.length > 0 ? `
+Also map these agency-specific fields inside "custom_fields", by key (OPTIONAL, null if no column matches):
+${customFieldLines}
+` : ''}
+Headers: ${JSON.stringify(headers)}
+
+Sample rows (first 3):
+${JSON.stringify(sampleRows.slice(0, 3))}
+
+IMPORTANT: For phone numbers, look for columns with international format (+countrycode) or any phone/mobile columns.
+The country field is OPTIONAL - if you see a phone number with country code, you can leave country as null.
+
+Return ONLY a JSON object mapping the required fields to the column headers. Use null if no match found.
+
+Example: {"name": "Full Name", "phone_number": "Phone", "destination": "Travel To", "status": "Lead Status", "price": "Cost", "country": null, "custom_fields": {}}
+
+For status field: if the data doesn't exactly match our status options, map to the closest column that indicates lead/booking status.`;
+
+  const { content, totalTokens } = await createChatCompletion(
+    [
+      { role: 'system', content: 'You are a data mapping expert. Return only valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    { temperature: 0.3, maxTokens: 200 + customFields.length * 20 }
+  );
+
+  const mapping = parseJsonContent<FieldMapping>(content);
+  return { result: { ...mapping, custom_fields: mapping.custom_fields || {} }, totalTokens };
+}, 'import.run');
+
+export { handler };
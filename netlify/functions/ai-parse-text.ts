@@ -0,0 +1,118 @@
+import { createAIHandler } from '../lib/aiHandler';
+import { AIError, createChatCompletion, parseJsonContent } from '../lib/openai';
+import { formatStageKeysForPrompt, getEntryStageKey, getPipelineStages } from '../lib/pipeline';
+
+interface ParsedClient {
+  name: string;
+  phone_number: string;
+  destination: string;
+  destinations?: { place: string; nights: number | null }[];
+  price: string;
+  status?: string;
+  country?: string;
+  travel_start_date?: string | null;
+  travel_end_date?: string | null;
+  adults?: number | null;
+  children?: number | null;
+  hotel_class?: number | null;
+  services?: string[];
+}
+
+const MAX_TEXT_LENGTH = 20000;
+
+const handler = createAIHandler<ParsedClient[]>('parse-text', async (body, supabase) => {
+  const { text } = body;
+
+  if (!text || typeof text !== 'string') {
+    throw new AIError('invalid_request', 'text is required', 400);
+  }
+
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new AIError('invalid_request', `text must be at most ${MAX_TEXT_LENGTH} characters`, 400);
+  }
+
+  const stages = await getPipelineStages(supabase);
+  const entryStage = JSON.stringify(getEntryStageKey(stages));
+
+  const prompt = `You are a data extraction assistant for a travel CRM system.
+
+Extract client information from the following messy text. Each client entry might be separated by blank lines or in any format.
+
+Extract these fields for EACH client found:
+- name (client's full name)
+- phone_number (with country code in international format like +964, +90, +1, etc.)
+- destination (where they want to travel - city or country; for several places, list them in travel order joined with " - ")
+- destinations (the same places in travel order as [{"place": "Istanbul", "nights": 3}], nights null if not mentioned)
+- price (trip cost - extract ONLY the number)
+- status (one of: ${formatStageKeysForPrompt(stages)} - if not clear, use ${entryStage})
+- travel_start_date and travel_end_date (YYYY-MM-DD, or null if not mentioned)
+- adults and children (number of travellers, or null)
+- hotel_class (hotel stars 1-5, or null)
+- services (array of requested services such as "Flights", "Hotel", "Transfers"; [] if none)
+
+Text to parse:
+"""
+${text}
+"""
+
+Return ONLY a JSON array of objects. Each object represents one client.
+Example format:
+[
+  {
+    "name": "Ahmet Yarin",
+    "phone_number": "+964 780 327 8288",
+    "destination": "Bursa",
+    "destinations": [{ "place": "Bursa", "nights": null }],
+    "price": "240",
+    "status": ${entryStage},
+    "travel_start_date": "2025-07-01",
+    "travel_end_date": "2025-07-05",
+    "adults": 2,
+    "children": 0,
+    "hotel_class": 4,
+    "services": ["Hotel", "Transfers"]
+  },
+  {
+    "name": "John Doe",
+    "phone_number": "+90 532 123 4567",
+    "destination": "Paris",
+    "destinations": [{ "place": "Paris", "nights": null }],
+    "price": "1500",
+    "status": ${entryStage},
+    "travel_start_date": null,
+    "travel_end_date": null,
+    "adults": null,
+    "children": null,
+    "hotel_class": null,
+    "services": []
+  }
+]
+
+IMPORTANT:
+- Extract ALL clients found in the text
+- Phone numbers MUST include country code (add + if missing)
+- Price should be ONLY the number (remove currency symbols)
+- If status is unclear, use ${entryStage}
+- Return valid JSON array only, no other text`;
+
+  const { content, totalTokens } = await createChatCompletion(
+    [
+      {
+        role: 'system',
+        content: 'You are a data extraction expert. Extract client information from unstructured text and return valid JSON only.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    { temperature: 0.2, maxTokens: 2000 }
+  );
+
+  const parsedClients = parseJsonContent<ParsedClient[]>(content);
+
+  if (!Array.isArray(parsedClients)) {
+    throw new AIError('upstream_error', 'AI did not return an array of clients', 502);
+  }
+
+  return { result: parsedClients, totalTokens };
+}, 'import.run');
+
+export { handler };
@@ -0,0 +1,83 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { getClientIp, requireSession, revokeUserSessions } from '../lib/session';
+import { checkLockout, lockoutResponse, recordLoginEvent } from '../lib/loginThrottle';
+import { setUserPassword, validatePassword } from '../lib/password';
+import { logAgentAudit } from '../lib/audit';
+
+// Self-service password change for the signed-in user
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const claims = await requireSession(supabase, event);
+
+    if (!claims) {
+      return errorResponse(401, 'Session expired. Please log in again.', 'session_expired');
+    }
+
+    if (claims.impersonator_id) {
+      return errorResponse(403, 'This action is blocked while viewing as another user.', 'impersonation_blocked');
+    }
+
+    const { currentPassword, newPassword } = JSON.parse(event.body || '{}');
+
+    if (!currentPassword || !newPassword || typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+      return errorResponse(400, 'Current and new password are required');
+    }
+
+    // Wrong current passwords count towards the same lockout as failed logins
+    const email = claims.email.toLowerCase();
+    const lockout = await checkLockout(supabase, email, getClientIp(event));
+    if (lockout.locked) {
+      return lockoutResponse(lockout);
+    }
+
+    const { data, error } = await supabase.rpc('authenticate_user', {
+      p_email: claims.email,
+      p_password: currentPassword,
+    });
+
+    if (error) throw error;
+
+    if (!Array.isArray(data) || !data[0] || data[0].id !== claims.sub) {
+      await recordLoginEvent(supabase, event, {
+        email,
+        userId: claims.sub,
+        success: false,
+        failureReason: 'invalid_current_password',
+      });
+      return errorResponse(400, 'Current password is incorrect', 'invalid_password');
+    }
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return errorResponse(400, passwordError, 'weak_password');
+    }
+
+    await setUserPassword(supabase, claims.sub, newPassword);
+    // Sign out other devices but keep the session that made the change
+    await revokeUserSessions(supabase, claims.sub, claims.sid);
+
+    await logAgentAudit(supabase, {
+      actorId: claims.sub,
+      agentId: claims.sub,
+      actionType: 'password_change',
+    });
+
+    return jsonResponse(200, { success: true });
+  } catch (error) {
+    console.error('Change password error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
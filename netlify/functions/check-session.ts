@@ -0,0 +1,32 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { getActiveSessionUser, requireSession } from '../lib/session';
+
+// Polled by the open app so revoked sessions are signed out within seconds,
+// even when the user is idle and makes no other requests.
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const claims = await requireSession(supabase, event);
+
+    if (!claims || !(await getActiveSessionUser(supabase, claims.sub))) {
+      return errorResponse(401, 'Session expired. Please log in again.', 'session_expired');
+    }
+
+    return jsonResponse(200, { active: true });
+  } catch (error) {
+    console.error('Check session error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
@@ -0,0 +1,80 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { getActiveSessionUser, requireSession, revokeUserSessions, userHasPermission } from '../lib/session';
+import { disableMfa, MFA_REQUIRED_ROLE, verifyUserTotp } from '../lib/mfa';
+import { logAgentAudit } from '../lib/audit';
+
+// Turns two-factor off. Users can disable their own with a current code (unless
+// their role requires it); user managers can reset another user's, e.g. after
+// a lost phone, so the user enrolls again.
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const claims = await requireSession(supabase, event);
+
+    if (!claims) {
+      return errorResponse(401, 'Session expired. Please log in again.', 'session_expired');
+    }
+
+    if (claims.impersonator_id) {
+      return errorResponse(403, 'This action is blocked while viewing as another user.', 'impersonation_blocked');
+    }
+
+    const { userId, code } = JSON.parse(event.body || '{}');
+
+    if (userId && userId !== claims.sub) {
+      if (typeof userId !== 'string' || !(await userHasPermission(supabase, claims.sub, 'users.manage'))) {
+        return errorResponse(403, 'You do not have permission to reset two-factor authentication', 'forbidden');
+      }
+
+      await disableMfa(supabase, userId);
+      // Whoever holds the old device should not stay signed in
+      await revokeUserSessions(supabase, userId);
+
+      await logAgentAudit(supabase, {
+        actorId: claims.sub,
+        agentId: userId,
+        actionType: 'mfa_reset',
+      });
+
+      return jsonResponse(200, { success: true });
+    }
+
+    const user = await getActiveSessionUser(supabase, claims.sub);
+    if (!user) {
+      return errorResponse(401, 'Session expired. Please log in again.', 'session_expired');
+    }
+
+    if (user.role === MFA_REQUIRED_ROLE) {
+      return errorResponse(403, 'Two-factor authentication is required for your role', 'mfa_required_for_role');
+    }
+
+    if (typeof code !== 'string' || !(await verifyUserTotp(supabase, user.id, code))) {
+      return errorResponse(400, 'Invalid verification code', 'invalid_mfa_code');
+    }
+
+    await disableMfa(supabase, user.id);
+
+    await logAgentAudit(supabase, {
+      actorId: user.id,
+      agentId: user.id,
+      actionType: 'mfa_disable',
+    });
+
+    return jsonResponse(200, { success: true });
+  } catch (error) {
+    console.error('Disable MFA error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
@@ -0,0 +1,56 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { hashToken, revokeSession } from '../lib/session';
+import { logAgentAudit } from '../lib/audit';
+
+// Closes an impersonation session, whether the admin ended it or it ran out.
+// Takes the refresh token so expired sessions can still be closed and logged.
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const { refreshToken } = JSON.parse(event.body || '{}');
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return errorResponse(400, 'refreshToken is required');
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: session, error } = await supabase
+      .from('user_sessions')
+      .select('id, user_id, impersonator_id, expires_at, revoked_at')
+      .eq('refresh_token_hash', hashToken(refreshToken))
+      .maybeSingle();
+
+    if (error) throw error;
+
+    // Already closed sessions were logged when they were closed
+    if (!session || !session.impersonator_id || session.revoked_at) {
+      return jsonResponse(200, { success: true });
+    }
+
+    await revokeSession(supabase, session.id);
+
+    await logAgentAudit(supabase, {
+      actorId: session.impersonator_id,
+      agentId: session.user_id,
+      actionType: 'impersonation_end',
+      fieldChanged: 'reason',
+      newValue: new Date(session.expires_at) < new Date() ? 'expired' : 'ended',
+    });
+
+    return jsonResponse(200, { success: true });
+  } catch (error) {
+    console.error('End impersonation error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
@@ -0,0 +1,144 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { createSession, getActiveSessionUser, requireSession } from '../lib/session';
+import { recordLoginEvent } from '../lib/loginThrottle';
+import {
+  claimChallengeAttempt,
+  completeMfaChallenge,
+  enableMfa,
+  generateRecoveryCodes,
+  getMfaChallenge,
+  getOtpauthUrl,
+  getUserMfa,
+  MfaChallenge,
+  startEnrollment,
+  verifyUserTotp,
+} from '../lib/mfa';
+import { logAgentAudit } from '../lib/audit';
+
+type EnrollAction = 'start' | 'confirm' | 'regenerate_recovery_codes';
+
+// TOTP enrollment. Signed-in users call it with their bearer token to opt in
+// from their profile; admins without MFA call it with the `enroll` challenge
+// token from `login`, and confirming then also signs them in.
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const { action, mfaToken, code } = JSON.parse(event.body || '{}') as {
+      action?: EnrollAction;
+      mfaToken?: string;
+      code?: string;
+    };
+
+    if (!action || !['start', 'confirm', 'regenerate_recovery_codes'].includes(action)) {
+      return errorResponse(400, 'Unknown action');
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    let challenge: MfaChallenge | null = null;
+    let userId: string;
+
+    if (mfaToken) {
+      challenge = await getMfaChallenge(supabase, mfaToken, 'enroll');
+      if (!challenge) {
+        return errorResponse(401, 'Your verification session has expired. Please log in again.', 'mfa_expired');
+      }
+      userId = challenge.user_id;
+    } else {
+      const claims = await requireSession(supabase, event);
+      if (!claims) {
+        return errorResponse(401, 'Session expired. Please log in again.', 'session_expired');
+      }
+      if (claims.impersonator_id) {
+        return errorResponse(403, 'This action is blocked while viewing as another user.', 'impersonation_blocked');
+      }
+      userId = claims.sub;
+    }
+
+    const user = await getActiveSessionUser(supabase, userId);
+    if (!user) {
+      return errorResponse(403, 'Your account has been deactivated. Please contact an administrator.');
+    }
+
+    const mfa = await getUserMfa(supabase, user.id);
+
+    if (action === 'start') {
+      if (mfa?.enabled_at) {
+        return errorResponse(409, 'Two-factor authentication is already enabled', 'mfa_already_enabled');
+      }
+
+      const secret = await startEnrollment(supabase, user.id);
+      return jsonResponse(200, { secret, otpauthUrl: getOtpauthUrl(secret, user.email) });
+    }
+
+    if (typeof code !== 'string') {
+      return errorResponse(400, 'Verification code is required');
+    }
+
+    if (action === 'regenerate_recovery_codes') {
+      if (challenge || !mfa?.enabled_at) {
+        return errorResponse(400, 'Two-factor authentication is not enabled', 'mfa_not_enabled');
+      }
+      if (!(await verifyUserTotp(supabase, user.id, code))) {
+        return errorResponse(400, 'Invalid verification code', 'invalid_mfa_code');
+      }
+
+      const recoveryCodes = await generateRecoveryCodes(supabase, user.id);
+      await logAgentAudit(supabase, {
+        actorId: user.id,
+        agentId: user.id,
+        actionType: 'mfa_recovery_codes_regenerated',
+      });
+      return jsonResponse(200, { recoveryCodes });
+    }
+
+    // confirm
+    if (!mfa) {
+      return errorResponse(400, 'Start enrollment first', 'mfa_not_started');
+    }
+    if (mfa.enabled_at) {
+      return errorResponse(409, 'Two-factor authentication is already enabled', 'mfa_already_enabled');
+    }
+
+    const claimed = !challenge || (await claimChallengeAttempt(supabase, challenge));
+    if (!claimed || !(await verifyUserTotp(supabase, user.id, code, true))) {
+      return errorResponse(400, 'Invalid verification code', 'invalid_mfa_code');
+    }
+
+    if (challenge && !(await completeMfaChallenge(supabase, challenge))) {
+      return errorResponse(401, 'Your verification session has expired. Please log in again.', 'mfa_expired');
+    }
+
+    await enableMfa(supabase, user.id);
+    const recoveryCodes = await generateRecoveryCodes(supabase, user.id);
+
+    await logAgentAudit(supabase, {
+      actorId: user.id,
+      agentId: user.id,
+      actionType: 'mfa_enroll',
+    });
+
+    if (!challenge) {
+      return jsonResponse(200, { recoveryCodes });
+    }
+
+    const session = await createSession(supabase, user, event);
+    await recordLoginEvent(supabase, event, { email: user.email.toLowerCase(), userId: user.id, success: true });
+
+    return jsonResponse(200, { recoveryCodes, user, session });
+  } catch (error) {
+    console.error('Enroll MFA error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
@@ -1,13 +1,35 @@
 import { Handler } from '@netlify/functions';
-import { createClient } from '@supabase/supabase-js';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { aiErrorResponse, authorizeAIRequest } from '../lib/aiHandler';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { recordUsage } from '../lib/aiQuota';
+import { markBatchFailed, parseExtractionRequest } from '../lib/leadExtraction';
+import { AIError, createChatCompletion } from '../lib/openai';
+import { getEntryStageKey, getPipelineStages } from '../lib/pipeline';
+import { formatCustomFieldsForPrompt, getCustomFields } from '../lib/customFields';
+import { ConversationFormat, formatTripDetailsForPrompt } from '../lib/tripDetails';
 
 interface ExtractedLead {
   name: string;
   phone_number: string;
   destination: string;
+  destinations?: { place: string; nights: number | null }[];
   status: string;
   price: string;
-  services?: string;
+  travel_start_date?: string | null;
+  travel_end_date?: string | null;
+  adults?: number | null;
+  children?: number | null;
+  hotel_class?: number | null;
+  services?: string[] | string;
+  // Values of admin-defined fields by field key
+  custom_fields?: Record<string, unknown>;
+}
+
+interface ChunkResult {
+  leads: ExtractedLead[];
+  totalTokens: number;
 }
 
 function estimateTokens(text: string): number {
@@ -36,61 +58,35 @@ function chunkConversation(text: string, maxTokens: number = 6000): string[] {
   return chunks;
 }
 
-const handler: Handler = async (event) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  };
+const ENDPOINT = 'extract-leads-background';
 
+const handler: Handler = async (event) => {
   if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' };
+    return jsonResponse(200, {});
   }
 
   if (event.httpMethod !== 'POST') {
-    return {
-      statusCode: 405,
-      headers,
-      body: JSON.stringify({ error: 'Method not allowed' }),
-    };
+    return errorResponse(405, 'Method not allowed', 'invalid_request');
   }
 
+  let body: Record<string, unknown>;
   try {
-    const { conversationText, batchId } = JSON.parse(event.body || '{}');
-
-    if (!conversationText || typeof conversationText !== 'string') {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({ error: 'conversationText is required' }),
-      };
-    }
-
-    if (!batchId) {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({ error: 'batchId is required' }),
-      };
-    }
+    body = JSON.parse(event.body || '{}');
+  } catch {
+    return errorResponse(400, 'Invalid JSON body', 'invalid_request');
+  }
 
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-    const SUPABASE_URL = process.env.VITE_SUPABASE_URL;
-    const SUPABASE_KEY = process.env.VITE_SUPABASE_ANON_KEY;
-
-    if (!OPENAI_API_KEY || !SUPABASE_URL || !SUPABASE_KEY) {
-      console.error('Missing environment variables');
-      return {
-        statusCode: 500,
-        headers,
-        body: JSON.stringify({ error: 'Server configuration error' }),
-      };
-    }
+  // Netlify answers 202 and discards this response, so every failure once the
+  // batch is known is written to the batch for the import screen to show.
+  const requestedBatchId = typeof body.batchId === 'string' ? body.batchId : null;
+  let supabase: SupabaseClient | null = null;
 
-    // Initialize Supabase client
-    const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+  try {
+    supabase = getSupabaseAdmin();
+    const userId = await authorizeAIRequest(supabase, event, 'import.run');
+    const { conversationText, batchId } = parseExtractionRequest(body);
 
-    // Update status to processing
+    // Batches are written with the service role; the caller was verified above
     await supabase
       .from('import_batches')
       .update({ 
@@ -99,10 +95,15 @@ const handler: Handler = async (event) => {
       })
       .eq('id', batchId);
 
+    // Every extracted lead starts in the pipeline's entry stage
+    const entryStage = getEntryStageKey(await getPipelineStages(supabase));
+    const customFieldsPrompt = formatCustomFieldsForPrompt(await getCustomFields(supabase));
+
     const estimatedTokens = estimateTokens(conversationText);
     console.log(`[${batchId}] Conversation estimated tokens: ${estimatedTokens}`);
 
     let allLeads: ExtractedLead[] = [];
+    let totalTokens = 0;
 
     if (estimatedTokens > 6000) {
       const chunks = chunkConversation(conversationText, 6000);
@@ -124,12 +125,13 @@ const handler: Handler = async (event) => {
         console.log(`[${batchId}] Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)}`);
         
         const batchPromises = batch.map((chunk, index) => 
-          extractLeadsFromChunk(chunk, OPENAI_API_KEY, i + index + 1, chunks.length)
+          extractLeadsFromChunk(chunk, i + index + 1, chunks.length, entryStage, customFieldsPrompt)
         );
         
         const batchResults = await Promise.all(batchPromises);
-        batchResults.forEach(leads => {
-          allLeads = allLeads.concat(leads);
+        batchResults.forEach(chunkResult => {
+          allLeads = allLeads.concat(chunkResult.leads);
+          totalTokens += chunkResult.totalTokens;
         });
 
         // Update progress
@@ -142,9 +144,13 @@ const handler: Handler = async (event) => {
           .eq('id', batchId);
       }
     } else {
-      allLeads = await extractLeadsFromChunk(conversationText, OPENAI_API_KEY, 1, 1);
+      const chunkResult = await extractLeadsFromChunk(conversationText, 1, 1, entryStage, customFieldsPrompt);
+      allLeads = chunkResult.leads;
+      totalTokens = chunkResult.totalTokens;
     }
 
+    await recordUsage(supabase, userId, ENDPOINT, totalTokens);
+
     // Remove duplicate leads based on phone number
     const uniqueLeads = Array.from(
       new Map(allLeads.map(lead => [lead.phone_number, lead])).values()
@@ -165,54 +171,22 @@ const handler: Handler = async (event) => {
 
     console.log(`[${batchId}] Processing completed successfully`);
 
-    return {
-      statusCode: 200,
-      headers,
-      body: JSON.stringify({ 
-        message: 'Background processing completed',
-        leadsCount: uniqueLeads.length 
-      }),
-    };
+    return jsonResponse(200, {
+      message: 'Background processing completed',
+      leadsCount: uniqueLeads.length,
+    });
 
   } catch (error) {
-    console.error('Function error:', error);
-    
-    // Try to update batch status to failed
-    try {
-      const { batchId } = JSON.parse(event.body || '{}');
-      if (batchId) {
-        const SUPABASE_URL = process.env.VITE_SUPABASE_URL;
-        const SUPABASE_KEY = process.env.VITE_SUPABASE_ANON_KEY;
-        
-        if (SUPABASE_URL && SUPABASE_KEY) {
-          const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
-          await supabase
-            .from('import_batches')
-            .update({ 
-              status: 'failed',
-              error_message: error instanceof Error ? error.message : 'Unknown error',
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', batchId);
-        }
-      }
-    } catch (updateError) {
-      console.error('Failed to update batch status:', updateError);
+    if (supabase && requestedBatchId) {
+      await markBatchFailed(supabase, requestedBatchId, error);
     }
 
-    return {
-      statusCode: 500,
-      headers,
-      body: JSON.stringify({ 
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      }),
-    };
+    return aiErrorResponse(ENDPOINT, error);
   }
 };
 
 // Detect data format
-function detectDataFormat(text: string): 'whatsapp' | 'structured' | 'csv-like' {
+function detectDataFormat(text: string): ConversationFormat {
   const lines = text.trim().split('\n').filter(l => l.trim());
   const firstLine = lines[0] || '';
   
@@ -234,10 +208,11 @@ function detectDataFormat(text: string): 'whatsapp' | 'structured' | 'csv-like'
 
 async function extractLeadsFromChunk(
   text: string,
-  apiKey: string,
   chunkNumber: number,
-  totalChunks: number
-): Promise<ExtractedLead[]> {
+  totalChunks: number,
+  entryStage: string,
+  customFieldsPrompt: string
+): Promise<ChunkResult> {
   const format = detectDataFormat(text);
   
   let prompt = '';
@@ -251,21 +226,21 @@ CRITICAL RULES:
 1. Extract EVERY person with a phone number
 2. NO PHONE NUMBER = SKIP THIS PERSON (do not include)
 3. Each person = 1 lead
-4. Multiple destinations: "Istanbul - Trabzon"
-5. Status: ALWAYS "New Lead"
+4. Multiple destinations: one entry per stop in "destinations"
+5. Status: ALWAYS ${JSON.stringify(entryStage)}
 
 REQUIRED FIELDS:
 - name: From conversation
 - phone_number: REQUIRED (any format: +90..., 05..., etc.). Must be present!
-- destination: Cities discussed
-- status: "New Lead"
+- destinations: Cities discussed (see TRIP DETAILS)
+- status: ${JSON.stringify(entryStage)}
 - price: All prices mentioned or "Not discussed"
 
-CONVERSATION:
+${formatTripDetailsForPrompt(format)}${customFieldsPrompt}CONVERSATION:
 ${text}
 
 Return ONLY valid JSON. Skip leads without phone numbers:
-[{"name":"Name","phone_number":"+90 XXX","destination":"City","status":"New Lead","price":"Details"}]`;
+[{"name":"Name","phone_number":"+90 XXX","destinations":[{"place":"Istanbul","nights":3},{"place":"Trabzon","nights":4}],"status":${JSON.stringify(entryStage)},"price":"Details","travel_start_date":"2025-07-01","travel_end_date":"2025-07-08","adults":2,"children":1,"hotel_class":4,"services":["Hotel","Transfers"]}]`;
   } else {
     // For structured/CSV-like data
     prompt = `Extract leads from structured data. CRITICAL: Extract EVERY SINGLE ROW.
@@ -276,55 +251,42 @@ RULES:
 1. Extract ALL entries - DO NOT skip any rows
 2. NO PHONE NUMBER = SKIP (required!)
 3. Parse format: CSV, comma-separated, key-value, etc.
-4. Status: ALWAYS "New Lead"
+4. Status: ALWAYS ${JSON.stringify(entryStage)}
 5. IMPORTANT: If data has 50 rows, return 50 leads (minus header if CSV)
 
-DATA:
+${formatTripDetailsForPrompt(format)}${customFieldsPrompt}DATA:
 ${text}
 
 Return COMPLETE JSON array with ALL entries:
-[{"name":"Name","phone_number":"+90 XXX","destination":"City","status":"New Lead","price":"400tl"}]`;
+[{"name":"Name","phone_number":"+90 XXX","destinations":[{"place":"City","nights":null}],"status":${JSON.stringify(entryStage)},"price":"400tl","travel_start_date":null,"travel_end_date":null,"adults":null,"children":null,"hotel_class":null,"services":[]}]`;
   }
 
   prompt += `
 
 Empty array if no leads with phone numbers: []`;
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a lead extraction expert. Return ONLY valid JSON arrays. No markdown, no explanations. Extract EVERY SINGLE lead from the data provided.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.1, // Lower temperature for more consistent extraction
-        max_tokens: 4000, // Increased from 2000 to handle more leads
-      }),
-    });
+  let totalTokens = 0;
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error(`OpenAI API Error (chunk ${chunkNumber}):`, errorData);
-      return [];
-    }
+  try {
+    const completion = await createChatCompletion(
+      [
+        {
+          role: 'system',
+          content: 'You are a lead extraction expert. Return ONLY valid JSON arrays. No markdown, no explanations. Extract EVERY SINGLE lead from the data provided.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      { temperature: 0.1, maxTokens: 4000 }
+    );
+    totalTokens = completion.totalTokens;
 
-    const data = await response.json();
     let leads: ExtractedLead[] = [];
 
     try {
-      const content = data.choices[0].message.content.trim();
+      const content = completion.content.trim();
       const cleanedContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
       leads = JSON.parse(cleanedContent);
 
@@ -345,8 +307,12 @@ Empty array if no leads with phone numbers: []`;
           return false;
         }
         
-        lead.destination = lead.destination || 'Not specified';
-        lead.status = 'New Lead';
+        // The joined text is the client's destination summary; the stops are kept alongside
+        const places = Array.isArray(lead.destinations)
+          ? lead.destinations.map((stop) => stop?.place).filter(Boolean)
+          : [];
+        lead.destination = places.join(' - ') || lead.destination || 'Not specified';
+        lead.status = entryStage;
         lead.price = lead.price || 'Not discussed';
         
         return true;
@@ -356,13 +322,15 @@ Empty array if no leads with phone numbers: []`;
 
     } catch (parseError) {
       console.error(`Error parsing chunk ${chunkNumber}:`, parseError);
-      return [];
+      return { leads: [], totalTokens };
     }
 
-    return leads;
+    return { leads, totalTokens };
   } catch (error) {
+    // A missing API key fails the whole request rather than every chunk
+    if (error instanceof AIError && error.code === 'server_error') throw error;
     console.error(`Error processing chunk ${chunkNumber}:`, error);
-    return [];
+    return { leads: [], totalTokens };
   }
 }
 
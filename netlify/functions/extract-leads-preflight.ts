@@ -0,0 +1,37 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { aiErrorResponse, authorizeAIRequest } from '../lib/aiHandler';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { parseExtractionRequest } from '../lib/leadExtraction';
+
+// Runs the session, permission, quota and body checks of extract-leads-background
+// synchronously. A background function always answers 202, so this is the only
+// way the client can see those errors before starting the job.
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed', 'invalid_request');
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    await authorizeAIRequest(supabase, event, 'import.run');
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return errorResponse(400, 'Invalid JSON body', 'invalid_request');
+    }
+
+    parseExtractionRequest(body);
+    return jsonResponse(200, { result: { ready: true } });
+  } catch (error) {
+    return aiErrorResponse('extract-leads-preflight', error);
+  }
+};
+
+export { handler };
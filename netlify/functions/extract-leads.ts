@@ -1,12 +1,29 @@
-import { Handler } from '@netlify/functions';
+import { createAIHandler } from '../lib/aiHandler';
+import { AIError, createChatCompletion } from '../lib/openai';
+import { getEntryStageKey, getPipelineStages } from '../lib/pipeline';
+import { formatCustomFieldsForPrompt, getCustomFields } from '../lib/customFields';
+import { ConversationFormat, formatTripDetailsForPrompt } from '../lib/tripDetails';
 
 interface ExtractedLead {
   name: string;
   phone_number: string;
   destination: string;
+  destinations?: { place: string; nights: number | null }[];
   status: string;
   price: string;
-  services?: string;
+  travel_start_date?: string | null;
+  travel_end_date?: string | null;
+  adults?: number | null;
+  children?: number | null;
+  hotel_class?: number | null;
+  services?: string[] | string;
+  // Values of admin-defined fields by field key
+  custom_fields?: Record<string, unknown>;
+}
+
+interface ChunkResult {
+  leads: ExtractedLead[];
+  totalTokens: number;
 }
 
 function estimateTokens(text: string): number {
@@ -35,104 +52,62 @@ function chunkConversation(text: string, maxTokens: number = 6000): string[] {
   return chunks;
 }
 
-const handler: Handler = async (event) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  };
+const handler = createAIHandler<ExtractedLead[]>('extract-leads', async (body, supabase) => {
+  const { conversationText } = body;
 
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' };
+  if (!conversationText || typeof conversationText !== 'string') {
+    throw new AIError('invalid_request', 'conversationText is required', 400);
   }
 
-  if (event.httpMethod !== 'POST') {
-    return {
-      statusCode: 405,
-      headers,
-      body: JSON.stringify({ error: 'Method not allowed' }),
-    };
-  }
+  // Every extracted lead starts in the pipeline's entry stage
+  const entryStage = getEntryStageKey(await getPipelineStages(supabase));
+  const customFieldsPrompt = formatCustomFieldsForPrompt(await getCustomFields(supabase));
 
-  try {
-    const { conversationText } = JSON.parse(event.body || '{}');
-
-    if (!conversationText || typeof conversationText !== 'string') {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({ error: 'conversationText is required' }),
-      };
-    }
-
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+  const estimatedTokens = estimateTokens(conversationText);
+  console.log(`Conversation estimated tokens: ${estimatedTokens}`);
 
-    if (!OPENAI_API_KEY) {
-      console.error('OPENAI_API_KEY not found in environment');
-      return {
-        statusCode: 500,
-        headers,
-        body: JSON.stringify({ error: 'Server configuration error' }),
-      };
-    }
+  let allLeads: ExtractedLead[] = [];
+  let totalTokens = 0;
 
-    const estimatedTokens = estimateTokens(conversationText);
-    console.log(`Conversation estimated tokens: ${estimatedTokens}`);
+  if (estimatedTokens > 6000) {
+    // Chunk the conversation
+    const chunks = chunkConversation(conversationText, 6000);
+    console.log(`Splitting conversation into ${chunks.length} chunks`);
 
-    let allLeads: ExtractedLead[] = [];
-
-    if (estimatedTokens > 6000) {
-      // Chunk the conversation
-      const chunks = chunkConversation(conversationText, 6000);
-      console.log(`Splitting conversation into ${chunks.length} chunks`);
-
-      // Process chunks in parallel (batches of 3 to avoid rate limits)
-      const batchSize = 3;
-      for (let i = 0; i < chunks.length; i += batchSize) {
-        const batch = chunks.slice(i, i + batchSize);
-        console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)} (chunks ${i + 1}-${Math.min(i + batchSize, chunks.length)})`);
-        
-        const batchPromises = batch.map((chunk, index) => 
-          extractLeadsFromChunk(chunk, OPENAI_API_KEY, i + index + 1, chunks.length)
-        );
-        
-        const batchResults = await Promise.all(batchPromises);
-        batchResults.forEach(leads => {
-          allLeads = allLeads.concat(leads);
-        });
-      }
-    } else {
-      allLeads = await extractLeadsFromChunk(conversationText, OPENAI_API_KEY, 1, 1);
+    // Process chunks in parallel (batches of 3 to avoid rate limits)
+    const batchSize = 3;
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize);
+      console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)} (chunks ${i + 1}-${Math.min(i + batchSize, chunks.length)})`);
+      
+      const batchPromises = batch.map((chunk, index) => 
+        extractLeadsFromChunk(chunk, i + index + 1, chunks.length, entryStage, customFieldsPrompt)
+      );
+      
+      const batchResults = await Promise.all(batchPromises);
+      batchResults.forEach(chunkResult => {
+        allLeads = allLeads.concat(chunkResult.leads);
+        totalTokens += chunkResult.totalTokens;
+      });
     }
+  } else {
+    const chunkResult = await extractLeadsFromChunk(conversationText, 1, 1, entryStage, customFieldsPrompt);
+    allLeads = chunkResult.leads;
+    totalTokens = chunkResult.totalTokens;
+  }
 
-    // Remove duplicate leads based on phone number
-    const uniqueLeads = Array.from(
-      new Map(allLeads.map(lead => [lead.phone_number, lead])).values()
-    );
-
-    console.log(`Total unique leads extracted: ${uniqueLeads.length}`);
+  // Remove duplicate leads based on phone number
+  const uniqueLeads = Array.from(
+    new Map(allLeads.map(lead => [lead.phone_number, lead])).values()
+  );
 
-    return {
-      statusCode: 200,
-      headers,
-      body: JSON.stringify({ leads: uniqueLeads }),
-    };
+  console.log(`Total unique leads extracted: ${uniqueLeads.length}`);
 
-  } catch (error) {
-    console.error('Function error:', error);
-    return {
-      statusCode: 500,
-      headers,
-      body: JSON.stringify({ 
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      }),
-    };
-  }
-};
+  return { result: uniqueLeads, totalTokens };
+}, 'import.run');
 
 // Detect data format
-function detectDataFormat(text: string): 'whatsapp' | 'structured' | 'csv-like' {
+function detectDataFormat(text: string): ConversationFormat {
   const lines = text.trim().split('\n').filter(l => l.trim());
   const firstLine = lines[0] || '';
   
@@ -151,10 +126,11 @@ function detectDataFormat(text: string): 'whatsapp' | 'structured' | 'csv-like'
 
 async function extractLeadsFromChunk(
   text: string,
-  apiKey: string,
   chunkNumber: number,
-  totalChunks: number
-): Promise<ExtractedLead[]> {
+  totalChunks: number,
+  entryStage: string,
+  customFieldsPrompt: string
+): Promise<ChunkResult> {
   const format = detectDataFormat(text);
   
   let prompt = '';
@@ -167,62 +143,49 @@ CRITICAL: NO PHONE NUMBER = SKIP THIS PERSON
 RULES:
 1. Extract EVERY person with phone number
 2. Phone number REQUIRED (any format)
-3. Status: "New Lead"
+3. Status: ${JSON.stringify(entryStage)}
 
-DATA:
+${formatTripDetailsForPrompt(format)}${customFieldsPrompt}DATA:
 ${text}
 
 JSON only:
-[{"name":"Name","phone_number":"+90 XXX","destination":"City","status":"New Lead","price":"Details"}]`;
+[{"name":"Name","phone_number":"+90 XXX","destinations":[{"place":"Istanbul","nights":3},{"place":"Trabzon","nights":4}],"status":${JSON.stringify(entryStage)},"price":"Details","travel_start_date":"2025-07-01","travel_end_date":"2025-07-08","adults":2,"children":1,"hotel_class":4,"services":["Hotel","Transfers"]}]`;
   } else {
     prompt = `Extract ALL leads from structured data. DO NOT skip any rows.
 
 CRITICAL: Extract EVERY entry with phone number.
 
-DATA:
+${formatTripDetailsForPrompt(format)}${customFieldsPrompt}DATA:
 ${text}
 
 Return COMPLETE JSON with ALL entries:
-[{"name":"Name","phone_number":"+90 XXX","destination":"City","status":"New Lead","price":"400tl"}]`;
+[{"name":"Name","phone_number":"+90 XXX","destinations":[{"place":"City","nights":null}],"status":${JSON.stringify(entryStage)},"price":"400tl","travel_start_date":null,"travel_end_date":null,"adults":null,"children":null,"hotel_class":null,"services":[]}]`;
   }
 
   prompt += `\n\nEmpty array if no phone numbers: []`;
 
+  let totalTokens = 0;
+
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a lead extraction expert. Return ONLY valid JSON arrays. Extract EVERY SINGLE lead from the data.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 4000,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error(`OpenAI API Error (chunk ${chunkNumber}):`, errorData);
-      return [];
-    }
+    const completion = await createChatCompletion(
+      [
+        {
+          role: 'system',
+          content: 'You are a lead extraction expert. Return ONLY valid JSON arrays. Extract EVERY SINGLE lead from the data.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      { temperature: 0.1, maxTokens: 4000 }
+    );
+    totalTokens = completion.totalTokens;
 
-    const data = await response.json();
     let leads: ExtractedLead[] = [];
 
     try {
-      const content = data.choices[0].message.content.trim();
+      const content = completion.content.trim();
       console.log(`Chunk ${chunkNumber} raw response length:`, content.length);
       
       // Remove markdown code blocks if present
@@ -235,14 +198,14 @@ Return COMPLETE JSON with ALL entries:
       } else {
         console.error(`Chunk ${chunkNumber}: No JSON array found in response`);
         console.error('Content:', content.substring(0, 500));
-        return [];
+        return { leads: [], totalTokens };
       }
       
       leads = JSON.parse(cleanedContent);
 
       if (!Array.isArray(leads)) {
         console.error(`Chunk ${chunkNumber}: Response is not an array`);
-        return [];
+        return { leads: [], totalTokens };
       }
 
       leads = leads.filter(lead => {
@@ -260,8 +223,12 @@ Return COMPLETE JSON with ALL entries:
           return false;
         }
         
-        lead.destination = lead.destination || 'Not specified';
-        lead.status = 'New Lead';
+        // The joined text is the client's destination summary; the stops are kept alongside
+        const places = Array.isArray(lead.destinations)
+          ? lead.destinations.map((stop) => stop?.place).filter(Boolean)
+          : [];
+        lead.destination = places.join(' - ') || lead.destination || 'Not specified';
+        lead.status = entryStage;
         lead.price = lead.price || 'Not discussed';
         
         return true;
@@ -271,14 +238,16 @@ Return COMPLETE JSON with ALL entries:
 
     } catch (parseError) {
       console.error(`Error parsing chunk ${chunkNumber}:`, parseError);
-      console.error('Raw content (first 1000 chars):', data.choices[0].message.content.substring(0, 1000));
-      return [];
+      console.error('Raw content (first 1000 chars):', completion.content.substring(0, 1000));
+      return { leads: [], totalTokens };
     }
 
-    return leads;
+    return { leads, totalTokens };
   } catch (error) {
+    // A missing API key fails the whole request rather than every chunk
+    if (error instanceof AIError && error.code === 'server_error') throw error;
     console.error(`Error processing chunk ${chunkNumber}:`, error);
-    return [];
+    return { leads: [], totalTokens };
   }
 }
 
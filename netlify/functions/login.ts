@@ -0,0 +1,115 @@
+import { Handler } from '@netlify/functions';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { createSession, getClientIp, getRolePermissions, SessionUser } from '../lib/session';
+import { checkLockout, lockoutResponse, recordLoginEvent } from '../lib/loginThrottle';
+import { createMfaChallenge, isMfaEnabled, MFA_REQUIRED_ROLE } from '../lib/mfa';
+
+// Failed attempts are linked to the account when the email exists
+async function findUserId(supabase: SupabaseClient, email: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('users')
+    .select('id')
+    .ilike('email', email.replace(/[%_\\]/g, '\\$&'))
+    .maybeSingle();
+  return data?.id || null;
+}
+
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const { email, password } = JSON.parse(event.body || '{}');
+
+    if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
+      return errorResponse(400, 'Email and password are required');
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const supabase = getSupabaseAdmin();
+
+    const lockout = await checkLockout(supabase, normalizedEmail, getClientIp(event));
+    if (lockout.locked) {
+      await recordLoginEvent(supabase, event, {
+        email: normalizedEmail,
+        userId: await findUserId(supabase, normalizedEmail),
+        success: false,
+        failureReason: lockout.reason,
+      });
+      return lockoutResponse(lockout);
+    }
+
+    const { data, error } = await supabase.rpc('authenticate_user', {
+      p_email: normalizedEmail,
+      p_password: password,
+    });
+
+    if (error) {
+      console.error('authenticate_user error:', error);
+      return errorResponse(500, 'Internal server error');
+    }
+
+    const user = Array.isArray(data) ? data[0] : null;
+
+    if (!user) {
+      await recordLoginEvent(supabase, event, {
+        email: normalizedEmail,
+        userId: await findUserId(supabase, normalizedEmail),
+        success: false,
+        failureReason: 'invalid_credentials',
+      });
+      return errorResponse(401, 'Invalid email or password');
+    }
+
+    if (user.is_active === false) {
+      await recordLoginEvent(supabase, event, {
+        email: normalizedEmail,
+        userId: user.id,
+        success: false,
+        failureReason: 'inactive',
+      });
+      return errorResponse(403, 'Your account has been deactivated. Please contact an administrator.');
+    }
+
+    // The password was right, but no session is issued until the second factor
+    // is verified (or, for roles that require it, enrolled). The login counts as
+    // successful only once that step completes.
+    if (await isMfaEnabled(supabase, user.id)) {
+      return jsonResponse(200, {
+        mfa_required: true,
+        mfa_token: await createMfaChallenge(supabase, user.id, 'verify'),
+      });
+    }
+
+    if (user.role === MFA_REQUIRED_ROLE) {
+      return jsonResponse(200, {
+        mfa_enrollment_required: true,
+        mfa_token: await createMfaChallenge(supabase, user.id, 'enroll'),
+      });
+    }
+
+    const sessionUser: SessionUser = {
+      id: user.id,
+      email: user.email,
+      full_name: user.full_name,
+      role: user.role,
+      permissions: await getRolePermissions(supabase, user.role),
+    };
+    const session = await createSession(supabase, sessionUser, event);
+    await recordLoginEvent(supabase, event, { email: normalizedEmail, userId: user.id, success: true });
+
+    return jsonResponse(200, { user: sessionUser, session });
+  } catch (error) {
+    console.error('Login function error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
@@ -0,0 +1,42 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { hashToken, revokeSession } from '../lib/session';
+
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const { refreshToken } = JSON.parse(event.body || '{}');
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return errorResponse(400, 'refreshToken is required');
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: session, error } = await supabase
+      .from('user_sessions')
+      .select('id')
+      .eq('refresh_token_hash', hashToken(refreshToken))
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (session) {
+      await revokeSession(supabase, session.id);
+    }
+
+    return jsonResponse(200, { success: true });
+  } catch (error) {
+    console.error('Logout function error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
@@ -0,0 +1,36 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { refreshSession } from '../lib/session';
+
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const { refreshToken } = JSON.parse(event.body || '{}');
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return errorResponse(400, 'refreshToken is required');
+    }
+
+    const supabase = getSupabaseAdmin();
+    const result = await refreshSession(supabase, refreshToken);
+
+    if (!result) {
+      return errorResponse(401, 'Session expired. Please log in again.', 'session_expired');
+    }
+
+    return jsonResponse(200, result);
+  } catch (error) {
+    console.error('Refresh session error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
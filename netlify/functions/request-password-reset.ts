@@ -0,0 +1,89 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { getClientIp } from '../lib/session';
+import { allowResetRequest, createResetToken, RESET_TOKEN_TTL_SECONDS } from '../lib/password';
+import { getAppUrl, sendMail } from '../lib/mailer';
+import { logAgentAudit } from '../lib/audit';
+
+// Always answers with the same message so the endpoint cannot be used to
+// discover which email addresses have accounts.
+const GENERIC_RESPONSE = {
+  success: true,
+  message: 'If an account exists for this email, a reset link has been sent.',
+};
+
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const { email } = JSON.parse(event.body || '{}');
+
+    if (!email || typeof email !== 'string') {
+      return errorResponse(400, 'Email is required');
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const ipAddress = getClientIp(event);
+    const supabase = getSupabaseAdmin();
+
+    // Checked before the account lookup so the limit applies to every address alike
+    if (!(await allowResetRequest(supabase, normalizedEmail, ipAddress))) {
+      return errorResponse(429, 'Too many reset requests. Please try again later.', 'too_many_requests');
+    }
+
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('id, email, full_name, is_active')
+      .ilike('email', normalizedEmail.replace(/[%_\\]/g, '\\$&'))
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!user || user.is_active === false) {
+      return jsonResponse(200, GENERIC_RESPONSE);
+    }
+
+    // A failure from here on must look the same as an unknown email
+    try {
+      const token = await createResetToken(supabase, user.id, ipAddress);
+      const resetUrl = `${getAppUrl()}/?reset_token=${token}`;
+
+      await sendMail(
+        user.email,
+        'Reset your Taktik CRM password',
+        [
+          `Hello ${user.full_name},`,
+          '',
+          'We received a request to reset your Taktik CRM password.',
+          `Open this link within ${RESET_TOKEN_TTL_SECONDS / 60} minutes to choose a new one:`,
+          '',
+          resetUrl,
+          '',
+          'The link works once. If you did not ask for a reset, you can ignore this email.',
+        ].join('\n')
+      );
+
+      await logAgentAudit(supabase, {
+        actorId: user.id,
+        agentId: user.id,
+        actionType: 'password_reset_request',
+      });
+    } catch (deliveryError) {
+      console.error('Password reset delivery error:', deliveryError);
+    }
+
+    return jsonResponse(200, GENERIC_RESPONSE);
+  } catch (error) {
+    console.error('Request password reset error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
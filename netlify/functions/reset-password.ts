@@ -0,0 +1,53 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { revokeUserSessions } from '../lib/session';
+import { consumeResetToken, setUserPassword, validatePassword } from '../lib/password';
+import { logAgentAudit } from '../lib/audit';
+
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const { token, password } = JSON.parse(event.body || '{}');
+
+    if (!token || !password || typeof token !== 'string' || typeof password !== 'string') {
+      return errorResponse(400, 'Token and new password are required');
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return errorResponse(400, passwordError, 'weak_password');
+    }
+
+    const supabase = getSupabaseAdmin();
+    const userId = await consumeResetToken(supabase, token);
+
+    if (!userId) {
+      return errorResponse(400, 'This reset link is invalid or has expired.', 'invalid_token');
+    }
+
+    await setUserPassword(supabase, userId, password);
+    // Anyone holding the old password may already be signed in
+    await revokeUserSessions(supabase, userId);
+
+    await logAgentAudit(supabase, {
+      actorId: userId,
+      agentId: userId,
+      actionType: 'password_reset',
+    });
+
+    return jsonResponse(200, { success: true });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
@@ -0,0 +1,72 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { createImpersonationSession, getActiveSessionUser, requireSession } from '../lib/session';
+import { logAgentAudit } from '../lib/audit';
+
+// Opens a time-boxed "view as agent" session for an admin. The admin's own
+// session stays open in the browser and is resumed when impersonation ends.
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+    const claims = await requireSession(supabase, event);
+
+    if (!claims) {
+      return errorResponse(401, 'Session expired. Please log in again.', 'session_expired');
+    }
+
+    if (claims.impersonator_id) {
+      return errorResponse(403, 'This action is blocked while viewing as another user.', 'impersonation_blocked');
+    }
+
+    const admin = await getActiveSessionUser(supabase, claims.sub);
+    if (!admin || !admin.permissions.includes('users.impersonate')) {
+      return errorResponse(403, 'You do not have permission to view the app as another user', 'forbidden');
+    }
+
+    const { userId, allowDestructive } = JSON.parse(event.body || '{}');
+
+    if (!userId || typeof userId !== 'string') {
+      return errorResponse(400, 'userId is required');
+    }
+
+    if (userId === admin.id) {
+      return errorResponse(400, 'You cannot view the app as yourself');
+    }
+
+    const user = await getActiveSessionUser(supabase, userId);
+    if (!user) {
+      return errorResponse(404, 'User not found or inactive');
+    }
+
+    // Impersonating another impersonator would hand out their admin rights
+    if (user.permissions.includes('users.impersonate')) {
+      return errorResponse(403, 'Administrators cannot be impersonated', 'forbidden');
+    }
+
+    const result = await createImpersonationSession(supabase, admin, user, allowDestructive === true, event);
+
+    await logAgentAudit(supabase, {
+      actorId: admin.id,
+      agentId: user.id,
+      actionType: 'impersonation_start',
+      fieldChanged: 'allow_destructive',
+      newValue: String(allowDestructive === true),
+    });
+
+    return jsonResponse(200, result);
+  } catch (error) {
+    console.error('Start impersonation error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
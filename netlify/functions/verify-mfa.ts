@@ -0,0 +1,96 @@
+import { Handler } from '@netlify/functions';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { createSession, getActiveSessionUser, getClientIp } from '../lib/session';
+import { checkLockout, lockoutResponse, recordLoginEvent } from '../lib/loginThrottle';
+import {
+  claimChallengeAttempt,
+  completeMfaChallenge,
+  consumeRecoveryCode,
+  getMfaChallenge,
+  verifyUserTotp,
+} from '../lib/mfa';
+import { logAgentAudit } from '../lib/audit';
+
+// Second login step: exchanges the challenge token from `login` plus an
+// authenticator code (or a recovery code) for a session.
+const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, {});
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  try {
+    const { mfaToken, code, recoveryCode } = JSON.parse(event.body || '{}');
+
+    if (!mfaToken || typeof mfaToken !== 'string' || (typeof code !== 'string' && typeof recoveryCode !== 'string')) {
+      return errorResponse(400, 'Verification code is required');
+    }
+
+    const supabase = getSupabaseAdmin();
+    const challenge = await getMfaChallenge(supabase, mfaToken, 'verify');
+
+    if (!challenge) {
+      return errorResponse(401, 'Your verification session has expired. Please log in again.', 'mfa_expired');
+    }
+
+    const user = await getActiveSessionUser(supabase, challenge.user_id);
+    if (!user) {
+      return errorResponse(403, 'Your account has been deactivated. Please contact an administrator.');
+    }
+
+    const email = user.email.toLowerCase();
+    const lockout = await checkLockout(supabase, email, getClientIp(event));
+    if (lockout.locked) {
+      await recordLoginEvent(supabase, event, {
+        email,
+        userId: user.id,
+        success: false,
+        failureReason: lockout.reason,
+      });
+      return lockoutResponse(lockout);
+    }
+
+    const usedRecoveryCode = typeof recoveryCode === 'string';
+    const verified =
+      (await claimChallengeAttempt(supabase, challenge)) &&
+      (usedRecoveryCode
+        ? await consumeRecoveryCode(supabase, user.id, recoveryCode)
+        : await verifyUserTotp(supabase, user.id, code));
+
+    if (!verified) {
+      await recordLoginEvent(supabase, event, {
+        email,
+        userId: user.id,
+        success: false,
+        failureReason: 'invalid_mfa_code',
+      });
+      return errorResponse(401, 'Invalid verification code', 'invalid_mfa_code');
+    }
+
+    if (!(await completeMfaChallenge(supabase, challenge))) {
+      return errorResponse(401, 'Your verification session has expired. Please log in again.', 'mfa_expired');
+    }
+
+    if (usedRecoveryCode) {
+      await logAgentAudit(supabase, {
+        actorId: user.id,
+        agentId: user.id,
+        actionType: 'mfa_recovery_code_used',
+      });
+    }
+
+    const session = await createSession(supabase, user, event);
+    await recordLoginEvent(supabase, event, { email, userId: user.id, success: true });
+
+    return jsonResponse(200, { user, session });
+  } catch (error) {
+    console.error('Verify MFA error:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+};
+
+export { handler };
@@ -0,0 +1,79 @@
+import { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { errorResponse, jsonResponse } from './http';
+import { requireSession, userHasPermission } from './session';
+import { AIError } from './openai';
+import { assertWithinQuota, recordUsage } from './aiQuota';
+
+interface AIRunResult<T> {
+  result: T;
+  totalTokens: number;
+}
+
+// Session verification, optional permission check and per-user quota shared by
+// every endpoint that calls OpenAI. Returns the caller's user id.
+export async function authorizeAIRequest(
+  supabase: SupabaseClient,
+  event: HandlerEvent,
+  permission?: string
+): Promise<string> {
+  const claims = await requireSession(supabase, event);
+
+  if (!claims) {
+    throw new AIError('unauthorized', 'Session expired. Please log in again.', 401);
+  }
+
+  if (permission && !(await userHasPermission(supabase, claims.sub, permission))) {
+    throw new AIError('forbidden', `Missing permission: ${permission}`, 403);
+  }
+
+  await assertWithinQuota(supabase, claims.sub);
+  return claims.sub;
+}
+
+// Typed `{ error, code }` response for a failed AI request
+export function aiErrorResponse(endpoint: string, error: unknown): HandlerResponse {
+  if (error instanceof AIError) {
+    return errorResponse(error.statusCode, error.message, error.code);
+  }
+  console.error(`${endpoint} error:`, error);
+  return errorResponse(500, 'Internal server error', 'server_error');
+}
+
+// Wraps an AI proxy endpoint with session verification, an optional permission
+// check, per-user quotas, usage recording and typed `{ error, code }` responses.
+export function createAIHandler<T>(
+  endpoint: string,
+  run: (body: Record<string, unknown>, supabase: SupabaseClient) => Promise<AIRunResult<T>>,
+  permission?: string
+): Handler {
+  return async (event) => {
+    if (event.httpMethod === 'OPTIONS') {
+      return jsonResponse(200, {});
+    }
+
+    if (event.httpMethod !== 'POST') {
+      return errorResponse(405, 'Method not allowed', 'invalid_request');
+    }
+
+    try {
+      const supabase = getSupabaseAdmin();
+      const userId = await authorizeAIRequest(supabase, event, permission);
+
+      let body: Record<string, unknown>;
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return errorResponse(400, 'Invalid JSON body', 'invalid_request');
+      }
+
+      const { result, totalTokens } = await run(body, supabase);
+      await recordUsage(supabase, userId, endpoint, totalTokens);
+
+      return jsonResponse(200, { result });
+    } catch (error) {
+      return aiErrorResponse(endpoint, error);
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AIError } from './openai';
+
+// Per-user daily limits for AI proxy calls, configurable per deployment
+const DAILY_REQUEST_LIMIT = parseInt(process.env.AI_DAILY_REQUEST_LIMIT || '100', 10);
+const DAILY_TOKEN_LIMIT = parseInt(process.env.AI_DAILY_TOKEN_LIMIT || '200000', 10);
+
+function startOfToday(): string {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  return date.toISOString();
+}
+
+export async function assertWithinQuota(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('ai_usage')
+    .select('total_tokens')
+    .eq('user_id', userId)
+    .gte('created_at', startOfToday());
+
+  if (error) {
+    console.error('Error reading AI usage:', error);
+    throw new AIError('server_error', 'Internal server error', 500);
+  }
+
+  const requests = data?.length || 0;
+  const tokens = (data || []).reduce((sum, row) => sum + (row.total_tokens || 0), 0);
+
+  if (requests >= DAILY_REQUEST_LIMIT || tokens >= DAILY_TOKEN_LIMIT) {
+    throw new AIError('quota_exceeded', 'Daily AI usage limit reached. Please try again tomorrow.', 429);
+  }
+}
+
+export async function recordUsage(
+  supabase: SupabaseClient,
+  userId: string,
+  endpoint: string,
+  totalTokens: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('ai_usage')
+    .insert([{ user_id: userId, endpoint, total_tokens: totalTokens }]);
+
+  if (error) {
+    console.error('Error recording AI usage:', error);
+  }
+}
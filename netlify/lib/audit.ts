@@ -0,0 +1,31 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Server-side writes to agent_audit_logs. For self-service actions the user is
+// both the actor (admin_id) and the target (agent_id).
+export async function logAgentAudit(
+  supabase: SupabaseClient,
+  entry: {
+    actorId: string;
+    agentId: string;
+    actionType: string;
+    fieldChanged?: string;
+    oldValue?: string;
+    newValue?: string;
+  }
+): Promise<void> {
+  const { error } = await supabase.from('agent_audit_logs').insert([
+    {
+      admin_id: entry.actorId,
+      agent_id: entry.agentId,
+      action_type: entry.actionType,
+      field_changed: entry.fieldChanged || null,
+      old_value: entry.oldValue || null,
+      new_value: entry.newValue || null,
+    },
+  ]);
+
+  // Audit failures are logged but never block the action itself
+  if (error) {
+    console.error('Error writing audit log:', error);
+  }
+}
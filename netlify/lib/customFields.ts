@@ -0,0 +1,48 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface CustomFieldSummary {
+  key: string;
+  label_en: string;
+  field_type: 'text' | 'number' | 'date' | 'select';
+  options: string[];
+}
+
+export async function getCustomFields(supabase: SupabaseClient): Promise<CustomFieldSummary[]> {
+  const { data, error } = await supabase
+    .from('custom_fields')
+    .select('key, label_en, field_type, options')
+    .order('position', { ascending: true })
+    .order('key', { ascending: true });
+
+  // Extraction works without custom fields, so a failed read is not fatal
+  if (error) {
+    console.error('Error reading custom fields:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+function describeField(field: CustomFieldSummary): string {
+  switch (field.field_type) {
+    case 'number':
+      return 'number';
+    case 'date':
+      return 'date as YYYY-MM-DD';
+    case 'select':
+      return `one of: ${field.options.map((option) => JSON.stringify(option)).join(', ')}`;
+    default:
+      return 'text';
+  }
+}
+
+// Prompt section asking for a "custom_fields" object; empty when there are no fields
+export function formatCustomFieldsForPrompt(fields: CustomFieldSummary[]): string {
+  if (fields.length === 0) return '';
+
+  const lines = fields.map((field) => `- ${field.key}: ${field.label_en} (${describeField(field)})`);
+  return `CUSTOM FIELDS (in "custom_fields" by key; null when not mentioned):
+${lines.join('\n')}
+
+`;
+}
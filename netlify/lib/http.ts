@@ -0,0 +1,19 @@
+import { HandlerResponse } from '@netlify/functions';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export function jsonResponse(statusCode: number, body: unknown): HandlerResponse {
+  return {
+    statusCode,
+    headers: corsHeaders,
+    body: JSON.stringify(body),
+  };
+}
+
+export function errorResponse(statusCode: number, error: string, code?: string): HandlerResponse {
+  return jsonResponse(statusCode, code ? { error, code } : { error });
+}
@@ -0,0 +1,47 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AIError, AIErrorCode } from './openai';
+
+export interface ExtractionRequest {
+  conversationText: string;
+  batchId: string;
+}
+
+// Body of a background extraction request. The preflight endpoint applies the
+// same checks so the client sees the error before the job is queued.
+export function parseExtractionRequest(body: Record<string, unknown>): ExtractionRequest {
+  const { conversationText, batchId } = body;
+
+  if (!conversationText || typeof conversationText !== 'string') {
+    throw new AIError('invalid_request', 'conversationText is required', 400);
+  }
+
+  if (!batchId || typeof batchId !== 'string') {
+    throw new AIError('invalid_request', 'batchId is required', 400);
+  }
+
+  return { conversationText, batchId };
+}
+
+// Netlify discards a background function's response, so the batch row is the
+// only place a failure can be reported. The error code is stored for the
+// import screen to translate. A completed batch is left untouched.
+export async function markBatchFailed(
+  supabase: SupabaseClient,
+  batchId: string,
+  error: unknown
+): Promise<void> {
+  const code: AIErrorCode = error instanceof AIError ? error.code : 'server_error';
+  const { error: updateError } = await supabase
+    .from('import_batches')
+    .update({
+      status: 'failed',
+      error_message: code,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', batchId)
+    .neq('status', 'completed');
+
+  if (updateError) {
+    console.error('Failed to update batch status:', updateError);
+  }
+}
@@ -0,0 +1,124 @@
+import { HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { corsHeaders, errorResponse } from './http';
+import { getClientIp } from './session';
+
+// Failed attempts are counted over a sliding window. Reaching the limit locks the
+// account (or IP) until LOCKOUT_SECONDS after the latest counted failure.
+// Rejections caused by a lockout are recorded but do not extend it.
+export const FAILURE_WINDOW_SECONDS = 15 * 60;
+export const LOCKOUT_SECONDS = 15 * 60;
+export const MAX_ACCOUNT_FAILURES = 5;
+export const MAX_IP_FAILURES = 20;
+
+export type LoginFailureReason =
+  | 'invalid_credentials'
+  | 'inactive'
+  | 'locked_account'
+  | 'locked_ip'
+  | 'invalid_mfa_code'
+  | 'invalid_current_password';
+
+export interface LockoutStatus {
+  locked: boolean;
+  reason?: 'locked_account' | 'locked_ip';
+  retryAfterSeconds?: number;
+}
+
+async function getLockout(
+  supabase: SupabaseClient,
+  column: 'email' | 'ip_address',
+  value: string,
+  maxFailures: number
+): Promise<number | null> {
+  const windowStart = new Date(Date.now() - FAILURE_WINDOW_SECONDS * 1000).toISOString();
+
+  let since = windowStart;
+  if (column === 'email') {
+    // A successful login resets the account counter
+    const { data: lastSuccess, error } = await supabase
+      .from('login_events')
+      .select('created_at')
+      .eq('email', value)
+      .eq('success', true)
+      .gte('created_at', windowStart)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (lastSuccess) since = lastSuccess.created_at;
+  }
+
+  const { data: failures, error } = await supabase
+    .from('login_events')
+    .select('created_at')
+    .eq(column, value)
+    .eq('success', false)
+    .in('failure_reason', ['invalid_credentials', 'inactive', 'invalid_mfa_code', 'invalid_current_password'])
+    .gt('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(maxFailures);
+
+  if (error) throw error;
+  if (!failures || failures.length < maxFailures) return null;
+
+  const lockedUntil = new Date(failures[0].created_at).getTime() + LOCKOUT_SECONDS * 1000;
+  const remaining = Math.ceil((lockedUntil - Date.now()) / 1000);
+  return remaining > 0 ? remaining : null;
+}
+
+export async function checkLockout(
+  supabase: SupabaseClient,
+  email: string,
+  ipAddress: string | null
+): Promise<LockoutStatus> {
+  if (ipAddress) {
+    const ipRetryAfter = await getLockout(supabase, 'ip_address', ipAddress, MAX_IP_FAILURES);
+    if (ipRetryAfter) {
+      return { locked: true, reason: 'locked_ip', retryAfterSeconds: ipRetryAfter };
+    }
+  }
+
+  const accountRetryAfter = await getLockout(supabase, 'email', email, MAX_ACCOUNT_FAILURES);
+  if (accountRetryAfter) {
+    return { locked: true, reason: 'locked_account', retryAfterSeconds: accountRetryAfter };
+  }
+
+  return { locked: false };
+}
+
+export function lockoutResponse(lockout: LockoutStatus): HandlerResponse {
+  const retryAfter = lockout.retryAfterSeconds || 60;
+  const minutes = Math.ceil(retryAfter / 60);
+  return {
+    ...errorResponse(
+      429,
+      `Too many failed login attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      lockout.reason
+    ),
+    headers: { ...corsHeaders, 'Retry-After': String(retryAfter) },
+  };
+}
+
+export async function recordLoginEvent(
+  supabase: SupabaseClient,
+  event: HandlerEvent,
+  attempt: { email: string; userId: string | null; success: boolean; failureReason?: LoginFailureReason }
+): Promise<void> {
+  const { error } = await supabase.from('login_events').insert([
+    {
+      user_id: attempt.userId,
+      email: attempt.email,
+      success: attempt.success,
+      failure_reason: attempt.failureReason || null,
+      ip_address: getClientIp(event),
+      user_agent: event.headers['user-agent'] || null,
+    },
+  ]);
+
+  // Never fail a login because history could not be written
+  if (error) {
+    console.error('Error recording login event:', error);
+  }
+}
@@ -0,0 +1,29 @@
+import nodemailer from 'nodemailer';
+
+// Outgoing mail goes through whatever SMTP server the environment points at.
+// Locally this is a catch-all stand-in such as Mailpit (SMTP on port 1025,
+// inbox at http://localhost:8025), so no real email is ever sent in development.
+function getTransport() {
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT || 1025),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+}
+
+export async function sendMail(to: string, subject: string, text: string): Promise<void> {
+  await getTransport().sendMail({
+    from: process.env.SMTP_FROM || 'Taktik CRM <no-reply@taktiktravel.com>',
+    to,
+    subject,
+    text,
+  });
+}
+
+// Base URL of the app for links in emails; Netlify sets URL in deployed builds
+export function getAppUrl(): string {
+  return (process.env.URL || 'http://localhost:8888').replace(/\/$/, '');
+}
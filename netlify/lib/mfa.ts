@@ -0,0 +1,295 @@
+import { createHmac, randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { hashToken } from './session';
+
+// TOTP as in RFC 6238: HMAC-SHA1, 30-second steps, 6 digits. One step of clock
+// drift is accepted either way, and a step is never accepted twice.
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1;
+const TOTP_ISSUER = 'Taktik CRM';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const MFA_CHALLENGE_TTL_SECONDS = 10 * 60;
+export const MFA_MAX_CHALLENGE_ATTEMPTS = 5;
+export const RECOVERY_CODE_COUNT = 10;
+
+// The role that cannot sign in without two-factor
+export const MFA_REQUIRED_ROLE = 'admin';
+
+export type MfaChallengePurpose = 'verify' | 'enroll';
+
+export interface MfaChallenge {
+  id: string;
+  user_id: string;
+  purpose: MfaChallengePurpose;
+  attempts: number;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const digest = createHmac('sha1', secret).update(counter).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function getOtpauthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Returns the matched time step, or null if the code is wrong or was already used
+export function verifyTotp(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (generateCode(key, step) === normalized) return step;
+  }
+  return null;
+}
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export async function getUserMfa(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ totp_secret: string; enabled_at: string | null; last_used_step: number | null } | null> {
+  const { data, error } = await supabase
+    .from('user_mfa')
+    .select('totp_secret, enabled_at, last_used_step')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function isMfaEnabled(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const mfa = await getUserMfa(supabase, userId);
+  return Boolean(mfa?.enabled_at);
+}
+
+// Starts (or restarts) enrollment with a fresh secret. Callers must check that
+// MFA is not already enabled, otherwise the active secret would be replaced.
+export async function startEnrollment(supabase: SupabaseClient, userId: string): Promise<string> {
+  const secret = generateTotpSecret();
+  const { error } = await supabase.from('user_mfa').upsert(
+    {
+      user_id: userId,
+      totp_secret: secret,
+      enabled_at: null,
+      last_used_step: null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id' }
+  );
+
+  if (error) throw error;
+  return secret;
+}
+
+// Checks a code against the user's secret and records the step so it cannot be replayed.
+// Pending enrollments are only accepted when `allowPending` is set.
+export async function verifyUserTotp(
+  supabase: SupabaseClient,
+  userId: string,
+  code: string,
+  allowPending = false
+): Promise<boolean> {
+  const mfa = await getUserMfa(supabase, userId);
+  if (!mfa || (!mfa.enabled_at && !allowPending)) return false;
+
+  const step = verifyTotp(mfa.totp_secret, code, mfa.last_used_step);
+  if (step === null) return false;
+
+  // Only moves forward, so of two requests with the same code only one is accepted
+  const { data, error } = await supabase
+    .from('user_mfa')
+    .update({ last_used_step: step, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+    .select('user_id');
+
+  if (error) throw error;
+  return Boolean(data && data.length > 0);
+}
+
+export async function enableMfa(supabase: SupabaseClient, userId: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('user_mfa')
+    .update({ enabled_at: now, updated_at: now })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const { error: userError } = await supabase.from('users').update({ mfa_enabled: true }).eq('id', userId);
+  if (userError) throw userError;
+}
+
+export async function disableMfa(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase.from('user_mfa').delete().eq('user_id', userId);
+  if (error) throw error;
+
+  const { error: codesError } = await supabase.from('mfa_recovery_codes').delete().eq('user_id', userId);
+  if (codesError) throw codesError;
+
+  const { error: userError } = await supabase.from('users').update({ mfa_enabled: false }).eq('id', userId);
+  if (userError) throw userError;
+}
+
+// Replaces all recovery codes; the plaintext codes are only ever returned here
+export async function generateRecoveryCodes(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  const { error: deleteError } = await supabase.from('mfa_recovery_codes').delete().eq('user_id', userId);
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase.from('mfa_recovery_codes').insert(
+    codes.map((code) => ({ user_id: userId, code_hash: hashToken(normalizeRecoveryCode(code)) }))
+  );
+
+  if (error) throw error;
+  return codes;
+}
+
+// Marks a matching unused recovery code as used. The conditional update makes it single-use.
+export async function consumeRecoveryCode(supabase: SupabaseClient, userId: string, code: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', hashToken(normalizeRecoveryCode(code)))
+    .is('used_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return Boolean(data && data.length > 0);
+}
+
+export async function createMfaChallenge(
+  supabase: SupabaseClient,
+  userId: string,
+  purpose: MfaChallengePurpose
+): Promise<string> {
+  const token = randomBytes(32).toString('hex');
+  const { error } = await supabase.from('mfa_challenges').insert([
+    {
+      user_id: userId,
+      token_hash: hashToken(token),
+      purpose,
+      expires_at: new Date(Date.now() + MFA_CHALLENGE_TTL_SECONDS * 1000).toISOString(),
+    },
+  ]);
+
+  if (error) throw error;
+  return token;
+}
+
+// Returns the challenge if it is still open, otherwise null
+export async function getMfaChallenge(
+  supabase: SupabaseClient,
+  token: string,
+  purpose: MfaChallengePurpose
+): Promise<MfaChallenge | null> {
+  const { data, error } = await supabase
+    .from('mfa_challenges')
+    .select('id, user_id, purpose, attempts')
+    .eq('token_hash', hashToken(token))
+    .eq('purpose', purpose)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .lt('attempts', MFA_MAX_CHALLENGE_ATTEMPTS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Uses up one attempt before a code is checked. The update only applies to the count
+// that was read, so parallel guesses cannot share an attempt; false means none was left.
+export async function claimChallengeAttempt(supabase: SupabaseClient, challenge: MfaChallenge): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('mfa_challenges')
+    .update({ attempts: challenge.attempts + 1 })
+    .eq('id', challenge.id)
+    .eq('attempts', challenge.attempts)
+    .is('used_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return Boolean(data && data.length > 0);
+}
+
+// Closes the challenge; returns false if another request already used it
+export async function completeMfaChallenge(supabase: SupabaseClient, challenge: MfaChallenge): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('mfa_challenges')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', challenge.id)
+    .is('used_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return Boolean(data && data.length > 0);
+}
@@ -0,0 +1,78 @@
+// Server-side OpenAI access. The API key only ever lives in the function environment.
+
+export type AIErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'invalid_request'
+  | 'quota_exceeded'
+  | 'upstream_error'
+  | 'server_error';
+
+export class AIError extends Error {
+  constructor(
+    public code: AIErrorCode,
+    message: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  totalTokens: number;
+}
+
+export async function createChatCompletion(
+  messages: ChatMessage[],
+  options: { temperature: number; maxTokens: number }
+): Promise<ChatCompletionResult> {
+  const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+  if (!OPENAI_API_KEY) {
+    console.error('OPENAI_API_KEY not found in environment');
+    throw new AIError('server_error', 'Server configuration error', 500);
+  }
+
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${OPENAI_API_KEY}`,
+    },
+    body: JSON.stringify({
+      model: 'gpt-4o-mini',
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    console.error('OpenAI API Error:', errorData);
+    throw new AIError('upstream_error', 'AI service request failed', 502);
+  }
+
+  const data = await response.json();
+  return {
+    content: data.choices[0].message.content,
+    totalTokens: data.usage?.total_tokens || 0,
+  };
+}
+
+// Removes markdown code fences the model sometimes wraps around JSON
+export function parseJsonContent<T>(content: string): T {
+  const cleaned = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    throw new AIError('upstream_error', 'AI service returned invalid JSON', 502);
+  }
+}
@@ -0,0 +1,128 @@
+import { randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { hashToken } from './session';
+
+export const RESET_TOKEN_TTL_SECONDS = 30 * 60;
+
+// Reset requests are counted per email and per IP over a sliding window,
+// whether or not the email belongs to an account.
+export const RESET_REQUEST_WINDOW_SECONDS = 60 * 60;
+export const MAX_RESET_REQUESTS_PER_EMAIL = 3;
+export const MAX_RESET_REQUESTS_PER_IP = 10;
+
+// Same rules the admin panel applies when creating agents
+export function validatePassword(password: string): string | null {
+  if (password.length < 8) {
+    return 'Password must be at least 8 characters';
+  }
+  if (!/[A-Z]/.test(password)) {
+    return 'Password must contain at least one uppercase letter';
+  }
+  if (!/[a-z]/.test(password)) {
+    return 'Password must contain at least one lowercase letter';
+  }
+  if (!/[0-9]/.test(password)) {
+    return 'Password must contain at least one number';
+  }
+  return null;
+}
+
+// The hash_user_password trigger bcrypts the plaintext value on write
+export async function setUserPassword(
+  supabase: SupabaseClient,
+  userId: string,
+  password: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('users')
+    .update({ password_hash: password, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
+
+async function countResetRequests(
+  supabase: SupabaseClient,
+  column: 'email' | 'ip_address',
+  value: string,
+  since: string
+): Promise<number> {
+  const { count, error } = await supabase
+    .from('password_reset_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq(column, value)
+    .gte('created_at', since);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+// Records the request and returns true, or returns false without recording
+// it when the email or IP has reached its limit.
+export async function allowResetRequest(
+  supabase: SupabaseClient,
+  email: string,
+  ipAddress: string | null
+): Promise<boolean> {
+  const since = new Date(Date.now() - RESET_REQUEST_WINDOW_SECONDS * 1000).toISOString();
+
+  if (ipAddress && (await countResetRequests(supabase, 'ip_address', ipAddress, since)) >= MAX_RESET_REQUESTS_PER_IP) {
+    return false;
+  }
+
+  if ((await countResetRequests(supabase, 'email', email, since)) >= MAX_RESET_REQUESTS_PER_EMAIL) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('password_reset_requests')
+    .insert([{ email, ip_address: ipAddress }]);
+
+  if (error) throw error;
+  return true;
+}
+
+// Issues a single-use reset token and supersedes any earlier unused ones.
+export async function createResetToken(
+  supabase: SupabaseClient,
+  userId: string,
+  requestedIp: string | null
+): Promise<string> {
+  const now = new Date().toISOString();
+  const { error: supersedeError } = await supabase
+    .from('password_reset_tokens')
+    .update({ used_at: now })
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  if (supersedeError) throw supersedeError;
+
+  const token = randomBytes(32).toString('hex');
+  const { error } = await supabase.from('password_reset_tokens').insert([
+    {
+      user_id: userId,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + RESET_TOKEN_TTL_SECONDS * 1000).toISOString(),
+      requested_ip: requestedIp,
+    },
+  ]);
+
+  if (error) throw error;
+  return token;
+}
+
+// Marks the token used and returns its user id, or null if it is unknown,
+// expired or already used. The conditional update makes consumption atomic.
+export async function consumeResetToken(supabase: SupabaseClient, token: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('password_reset_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('token_hash', hashToken(token))
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.user_id || null;
+}
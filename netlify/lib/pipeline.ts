@@ -0,0 +1,38 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface PipelineStageSummary {
+  key: string;
+  label_en: string;
+  is_won: boolean;
+  is_lost: boolean;
+}
+
+// Used when the stages cannot be read; matches the seeded entry stage
+const FALLBACK_ENTRY_STAGE = 'New Lead';
+
+export async function getPipelineStages(supabase: SupabaseClient): Promise<PipelineStageSummary[]> {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('key, label_en, is_won, is_lost')
+    .order('position', { ascending: true })
+    .order('key', { ascending: true });
+
+  // Prompts still work with the fallback stage, so a failed read is not fatal
+  if (error) {
+    console.error('Error reading pipeline stages:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// First open stage, the same one set_default_client_stage() picks
+export function getEntryStageKey(stages: PipelineStageSummary[]): string {
+  return stages.find((stage) => !stage.is_won && !stage.is_lost)?.key || FALLBACK_ENTRY_STAGE;
+}
+
+// e.g. `"New Lead", "Contacted", "Booked"` for listing the allowed values in a prompt
+export function formatStageKeysForPrompt(stages: PipelineStageSummary[]): string {
+  const keys = stages.length > 0 ? stages.map((stage) => stage.key) : [FALLBACK_ENTRY_STAGE];
+  return keys.map((key) => JSON.stringify(key)).join(', ');
+}
@@ -0,0 +1,383 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { HandlerEvent } from '@netlify/functions';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Access tokens are short-lived JWTs signed with the Supabase JWT secret so that
+// PostgREST accepts them and RLS can read the claims. Refresh tokens are opaque,
+// stored hashed in `user_sessions`, rotated on every refresh and revocable.
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const IMPERSONATION_TTL_SECONDS = 30 * 60;
+
+// Set when an admin is viewing the app as this user
+export interface Impersonation {
+  impersonator_id: string;
+  impersonator_name: string;
+  allow_destructive: boolean;
+  expires_at: number;
+}
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  full_name: string;
+  role: string;
+  permissions: string[];
+  impersonation?: Impersonation;
+}
+
+export interface AccessTokenClaims {
+  sub: string;
+  sid: string;
+  email: string;
+  full_name: string;
+  app_role: SessionUser['role'];
+  impersonator_id?: string;
+  role: 'authenticated';
+  aud: 'authenticated';
+  iat: number;
+  exp: number;
+}
+
+export interface IssuedSession {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number;
+}
+
+function getJwtSecret(): string {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error('Missing SUPABASE_JWT_SECRET environment variable');
+  }
+  return secret;
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getJwtSecret()).update(data).digest('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function signAccessToken(user: SessionUser, sessionId: string): { token: string; expiresAt: number } {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AccessTokenClaims = {
+    sub: user.id,
+    sid: sessionId,
+    email: user.email,
+    full_name: user.full_name,
+    app_role: user.role,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+  };
+
+  // Impersonation tokens never outlive the impersonation session
+  if (user.impersonation) {
+    claims.impersonator_id = user.impersonation.impersonator_id;
+    claims.exp = Math.min(claims.exp, user.impersonation.expires_at);
+  }
+
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = sign(`${header}.${payload}`);
+
+  return { token: `${header}.${payload}.${signature}`, expiresAt: claims.exp };
+}
+
+export function verifyAccessToken(token: string): AccessTokenClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as AccessTokenClaims;
+    if (!claims.exp || claims.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+export function getClientIp(event: HandlerEvent): string | null {
+  return (
+    event.headers['x-nf-client-connection-ip'] ||
+    event.headers['x-forwarded-for']?.split(',')[0].trim() ||
+    null
+  );
+}
+
+export function getBearerToken(event: HandlerEvent): string | null {
+  const header = event.headers.authorization || event.headers.Authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim();
+}
+
+// Permissions are resolved from the user's role on every login and refresh,
+// so role edits reach open sessions within one access-token lifetime.
+export async function getRolePermissions(supabase: SupabaseClient, role: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('permissions')
+    .eq('key', role)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.permissions || [];
+}
+
+// Loads the public session shape of an active user, or null if the user is gone or inactive
+export async function getActiveSessionUser(supabase: SupabaseClient, userId: string): Promise<SessionUser | null> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id, email, full_name, role, is_active')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!user || user.is_active === false) return null;
+
+  return {
+    id: user.id,
+    email: user.email,
+    full_name: user.full_name,
+    role: user.role,
+    permissions: await getRolePermissions(supabase, user.role),
+  };
+}
+
+export async function userHasPermission(
+  supabase: SupabaseClient,
+  userId: string,
+  permission: string
+): Promise<boolean> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('role, is_active')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!user || user.is_active === false) return false;
+
+  const permissions = await getRolePermissions(supabase, user.role);
+  return permissions.includes(permission);
+}
+
+export async function createSession(
+  supabase: SupabaseClient,
+  user: SessionUser,
+  event: HandlerEvent
+): Promise<IssuedSession> {
+  const refreshToken = randomBytes(32).toString('hex');
+
+  const { data, error } = await supabase
+    .from('user_sessions')
+    .insert([
+      {
+        user_id: user.id,
+        refresh_token_hash: hashToken(refreshToken),
+        expires_at: new Date(Date.now() + SESSION_TTL_SECONDS * 1000).toISOString(),
+        ip_address: getClientIp(event),
+        user_agent: event.headers['user-agent'] || null,
+      },
+    ])
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  const { token, expiresAt } = signAccessToken(user, data.id);
+  return { access_token: token, refresh_token: refreshToken, expires_at: expiresAt };
+}
+
+// Opens a time-boxed session as another user for an admin. The impersonator is
+// stored on the session so refreshes, RLS and audit records all know about it.
+export async function createImpersonationSession(
+  supabase: SupabaseClient,
+  impersonator: SessionUser,
+  user: SessionUser,
+  allowDestructive: boolean,
+  event: HandlerEvent
+): Promise<{ user: SessionUser; session: IssuedSession }> {
+  const refreshToken = randomBytes(32).toString('hex');
+  const expiresAt = Math.floor(Date.now() / 1000) + IMPERSONATION_TTL_SECONDS;
+
+  const { data, error } = await supabase
+    .from('user_sessions')
+    .insert([
+      {
+        user_id: user.id,
+        refresh_token_hash: hashToken(refreshToken),
+        expires_at: new Date(expiresAt * 1000).toISOString(),
+        ip_address: getClientIp(event),
+        user_agent: event.headers['user-agent'] || null,
+        impersonator_id: impersonator.id,
+        allow_destructive: allowDestructive,
+      },
+    ])
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  const sessionUser: SessionUser = {
+    ...user,
+    impersonation: {
+      impersonator_id: impersonator.id,
+      impersonator_name: impersonator.full_name,
+      allow_destructive: allowDestructive,
+      expires_at: expiresAt,
+    },
+  };
+  const { token, expiresAt: tokenExpiresAt } = signAccessToken(sessionUser, data.id);
+
+  return {
+    user: sessionUser,
+    session: { access_token: token, refresh_token: refreshToken, expires_at: tokenExpiresAt },
+  };
+}
+
+// Rotates the refresh token and issues a new access token.
+// Returns null if the session is unknown, expired, revoked or the user is inactive.
+export async function refreshSession(
+  supabase: SupabaseClient,
+  refreshToken: string
+): Promise<{ user: SessionUser; session: IssuedSession } | null> {
+  const { data: session, error } = await supabase
+    .from('user_sessions')
+    .select('id, user_id, expires_at, revoked_at, impersonator_id, allow_destructive')
+    .eq('refresh_token_hash', hashToken(refreshToken))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!session || session.revoked_at || new Date(session.expires_at) < new Date()) {
+    return null;
+  }
+
+  let impersonation: Impersonation | undefined;
+  if (session.impersonator_id) {
+    // The admin must still be allowed to impersonate for the session to continue
+    const impersonator = await getActiveSessionUser(supabase, session.impersonator_id);
+    if (!impersonator || !impersonator.permissions.includes('users.impersonate')) {
+      await revokeSession(supabase, session.id);
+      return null;
+    }
+
+    impersonation = {
+      impersonator_id: impersonator.id,
+      impersonator_name: impersonator.full_name,
+      allow_destructive: session.allow_destructive,
+      expires_at: Math.floor(new Date(session.expires_at).getTime() / 1000),
+    };
+  }
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('id, email, full_name, role, is_active')
+    .eq('id', session.user_id)
+    .maybeSingle();
+
+  if (userError) throw userError;
+  if (!user || user.is_active === false) {
+    await revokeSession(supabase, session.id);
+    return null;
+  }
+
+  const nextRefreshToken = randomBytes(32).toString('hex');
+  const { error: updateError } = await supabase
+    .from('user_sessions')
+    .update({
+      refresh_token_hash: hashToken(nextRefreshToken),
+      last_used_at: new Date().toISOString(),
+    })
+    .eq('id', session.id);
+
+  if (updateError) throw updateError;
+
+  const sessionUser: SessionUser = {
+    id: user.id,
+    email: user.email,
+    full_name: user.full_name,
+    role: user.role,
+    permissions: await getRolePermissions(supabase, user.role),
+    impersonation,
+  };
+  const { token, expiresAt } = signAccessToken(sessionUser, session.id);
+
+  return {
+    user: sessionUser,
+    session: { access_token: token, refresh_token: nextRefreshToken, expires_at: expiresAt },
+  };
+}
+
+export async function revokeSession(supabase: SupabaseClient, sessionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+}
+
+// Revokes every open session of a user, optionally keeping the caller's own.
+export async function revokeUserSessions(
+  supabase: SupabaseClient,
+  userId: string,
+  exceptSessionId?: string
+): Promise<void> {
+  let query = supabase
+    .from('user_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (exceptSessionId) {
+    query = query.neq('id', exceptSessionId);
+  }
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+// Verifies the bearer token and checks the session has not been revoked.
+export async function requireSession(
+  supabase: SupabaseClient,
+  event: HandlerEvent
+): Promise<AccessTokenClaims | null> {
+  const token = getBearerToken(event);
+  if (!token) return null;
+
+  const claims = verifyAccessToken(token);
+  if (!claims) return null;
+
+  const { data: session, error } = await supabase
+    .from('user_sessions')
+    .select('id, revoked_at, expires_at')
+    .eq('id', claims.sid)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!session || session.revoked_at || new Date(session.expires_at) < new Date()) {
+    return null;
+  }
+
+  return claims;
+}
@@ -0,0 +1,16 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// Server-side Supabase client using the service role key.
+// Never import this from browser code.
+export function getSupabaseAdmin(): SupabaseClient {
+  const SUPABASE_URL = process.env.VITE_SUPABASE_URL;
+  const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,21 @@
+export type ConversationFormat = 'whatsapp' | 'structured' | 'csv-like';
+
+// Only chats carry message dates that relative dates can be worked out from
+function describeTravelDates(format: ConversationFormat): string {
+  if (format === 'whatsapp') {
+    return 'YYYY-MM-DD (work out relative dates like "next month" from the message dates)';
+  }
+  return 'YYYY-MM-DD as written in the entry (null when the entry has no full date)';
+}
+
+// Prompt section asking for the trip fields shared by every extraction prompt
+export function formatTripDetailsForPrompt(format: ConversationFormat): string {
+  return `TRIP DETAILS (null or [] when not mentioned):
+- destinations: Every place in travel order with nights per stop (null if unknown); never join places into one string
+- travel_start_date / travel_end_date: ${describeTravelDates(format)}
+- adults / children: Number of travellers
+- hotel_class: Hotel stars 1-5
+- services: Requested services, e.g. ["Flights","Hotel","Transfers"]
+
+`;
+}
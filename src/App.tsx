@@ -1,10 +1,24 @@
-import { useState, useEffect } from 'react';
-import { Plus, Menu, LogOut } from 'lucide-react';
-import { supabase, User } from './lib/supabase';
-import { getCurrentUser, logout, isAdmin } from './lib/auth';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Plus, Menu, LogOut, UserCircle } from 'lucide-react';
+import { supabase, User, UserSummary } from './lib/supabase';
+import { restoreSession, logout, stopImpersonation } from './lib/auth';
+import { hasPermission, canAccessAdminPanel } from './lib/permissions';
+import { onSessionChange, startSessionMonitor } from './lib/session';
 import { translations } from './lib/translations';
 import { getDirection } from './lib/rtl';
-import { Client, ClientFormData } from './types/client';
+import { fetchPipelineStages, fetchStatusHistory } from './lib/pipeline';
+import { fetchCurrencies } from './lib/currency';
+import { fetchClientTags, fetchTags, groupClientTags, saveClientTags } from './lib/tags';
+import { fetchCustomFields } from './lib/customFields';
+import { fetchBookings, groupBookings } from './lib/bookings';
+import { fetchTravelGroupMembers, fetchTravelGroups } from './lib/travelGroups';
+import { Client, ClientFormData, ClientStatusChange } from './types/client';
+import { PipelineStage } from './types/pipeline';
+import { Currency } from './types/currency';
+import { ClientTag, Tag } from './types/tag';
+import { CustomField } from './types/customField';
+import { Booking } from './types/booking';
+import { TravelGroup, TravelGroupMember } from './types/travelGroup';
 import Login from './components/Login';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
@@ -18,16 +32,33 @@ import ClientDetails from './components/ClientDetails';
 import Toast from './components/Toast';
 import ConfirmDialog from './components/ConfirmDialog';
 import LanguageSwitcher from './components/LanguageSwitcher';
+import ProfileSettings from './components/ProfileSettings';
+import ImpersonationBanner from './components/ImpersonationBanner';
 
-type View = 'dashboard' | 'clients' | 'tasks' | 'import' | 'admin';
+type View = 'dashboard' | 'clients' | 'tasks' | 'import' | 'admin' | 'profile';
+
+// Shared empty list so untagged clients do not get a new array on every render
+const NO_TAGS: string[] = [];
+const NO_BOOKINGS: Booking[] = [];
 
 function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
   const [language, setLanguage] = useState<'EN' | 'AR'>(() => {
     const saved = localStorage.getItem('language');
     return (saved as 'EN' | 'AR') || 'EN';
   });
   const [clients, setClients] = useState<Client[]>([]);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [statusHistory, setStatusHistory] = useState<ClientStatusChange[]>([]);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [clientTagLinks, setClientTagLinks] = useState<ClientTag[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [travelGroups, setTravelGroups] = useState<TravelGroup[]>([]);
+  const [groupMembers, setGroupMembers] = useState<TravelGroupMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [view, setView] = useState<View>('dashboard');
@@ -43,17 +74,72 @@ function App() {
     onConfirm: () => void;
   } | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const currentUserIdRef = useRef<string | null>(null);
 
   useEffect(() => {
-    const user = getCurrentUser();
-    setCurrentUser(user);
-    if (user) {
-      fetchClients();
-    } else {
-      setLoading(false);
-    }
+    currentUserIdRef.current = currentUser?.id || null;
+  }, [currentUser]);
+
+  useEffect(() => {
+    restoreSession().then((user) => {
+      setCurrentUser(user);
+      setSessionChecked(true);
+      if (user) {
+        fetchClients();
+        fetchUsers();
+        fetchStages();
+        loadCurrencies();
+        loadTags();
+        loadCustomFields();
+      } else {
+        setLoading(false);
+      }
+    });
+
+    // Expired or revoked sessions send the user back to the login screen
+    return onSessionChange((user) => {
+      if (!user) {
+        setCurrentUser(null);
+        setClients([]);
+        setStatusHistory([]);
+        setClientTagLinks([]);
+        setBookings([]);
+        setGroupMembers([]);
+        setView('dashboard');
+        return;
+      }
+
+      // Starting or ending "view as agent" switches the signed-in identity
+      if (currentUserIdRef.current && user.id !== currentUserIdRef.current) {
+        currentUserIdRef.current = user.id;
+        setCurrentUser(user);
+        setDetailsClient(null);
+        setNotesClient(null);
+        setView('dashboard');
+        fetchClients();
+        fetchUsers();
+        fetchStages();
+        loadCurrencies();
+        loadTags();
+        loadCustomFields();
+      }
+    });
   }, []);
 
+  // Keep the open details view in sync after edits, restores and refreshes
+  useEffect(() => {
+    setDetailsClient((current) => (current ? clients.find((c) => c.id === current.id) || current : null));
+  }, [clients]);
+
+  const clientTagIds = useMemo(() => groupClientTags(clientTagLinks), [clientTagLinks]);
+  const clientBookings = useMemo(() => groupBookings(bookings), [bookings]);
+
+  // Revoked sessions are noticed within seconds even when the app sits idle
+  useEffect(() => {
+    if (!currentUser) return;
+    return startSessionMonitor();
+  }, [currentUser]);
+
   useEffect(() => {
     localStorage.setItem('language', language);
     document.documentElement.dir = getDirection(language);
@@ -67,13 +153,23 @@ function App() {
       } else {
         setLoading(true);
       }
-      const { data, error } = await supabase
-        .from('clients')
-        .select('*')
-        .order('created_at', { ascending: false });
+      // Status history, tags, bookings and travel groups change with client writes, so they are reloaded together
+      const [{ data, error }, history, tagLinks, bookingRows, groups, members] = await Promise.all([
+        supabase.from('clients').select('*').order('created_at', { ascending: false }),
+        fetchStatusHistory(),
+        fetchClientTags(),
+        fetchBookings(),
+        fetchTravelGroups(),
+        fetchTravelGroupMembers(),
+      ]);
 
       if (error) throw error;
       setClients(data || []);
+      setStatusHistory(history);
+      setClientTagLinks(tagLinks);
+      setBookings(bookingRows);
+      setTravelGroups(groups);
+      setGroupMembers(members);
     } catch (error) {
       console.error('Error fetching clients:', error);
     } finally {
@@ -82,9 +178,60 @@ function App() {
     }
   };
 
+  const fetchUsers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, email, full_name, role')
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const fetchStages = async () => {
+    try {
+      setStages(await fetchPipelineStages());
+    } catch (error) {
+      console.error('Error fetching pipeline stages:', error);
+    }
+  };
+
+  const loadCurrencies = async () => {
+    try {
+      setCurrencies(await fetchCurrencies());
+    } catch (error) {
+      console.error('Error fetching currencies:', error);
+    }
+  };
+
+  const loadTags = async () => {
+    try {
+      setTags(await fetchTags());
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    }
+  };
+
+  const loadCustomFields = async () => {
+    try {
+      setCustomFields(await fetchCustomFields());
+    } catch (error) {
+      console.error('Error fetching custom fields:', error);
+    }
+  };
+
   const handleLoginSuccess = (user: User) => {
     setCurrentUser(user);
     fetchClients();
+    fetchUsers();
+    fetchStages();
+    loadCurrencies();
+    loadTags();
+    loadCustomFields();
   };
 
   const handleLogout = () => {
@@ -92,17 +239,28 @@ function App() {
       show: true,
       title: language === 'EN' ? 'Logout' : 'تسجيل الخروج',
       message: language === 'EN' ? 'Are you sure you want to logout?' : 'هل أنت متأكد من تسجيل الخروج؟',
-      onConfirm: () => {
-        logout();
+      onConfirm: async () => {
+        await logout();
         setCurrentUser(null);
         setClients([]);
+        setStatusHistory([]);
+        setClientTagLinks([]);
+        setBookings([]);
+        setGroupMembers([]);
         setView('dashboard');
         setConfirmDialog(null);
       },
     });
   };
 
-  const handleSaveClient = async (formData: ClientFormData) => {
+  const handleStopImpersonation = async () => {
+    const user = await stopImpersonation();
+    if (user) {
+      setToast({ message: t.impersonation.stopped, type: 'success' });
+    }
+  };
+
+  const handleSaveClient = async ({ tag_ids: tagIds, ...formData }: ClientFormData) => {
     try {
       console.log('=== CLIENT SAVE OPERATION START ===');
       console.log('Current user:', currentUser);
@@ -131,10 +289,11 @@ function App() {
           throw error;
         }
         console.log('Client updated successfully:', data);
+        await saveClientTags(editingClient.id, tagIds, clientTagIds[editingClient.id] || NO_TAGS);
         setToast({ message: t.messages.clientUpdatedSuccess, type: 'success' });
       } else {
         console.log('Creating new client...');
-        const insertData = { ...formData, created_by: currentUser?.id };
+        const insertData = { ...formData, created_by: currentUser?.id, source: 'manual' };
         console.log('Insert payload:', insertData);
 
         const { data, error } = await supabase
@@ -153,6 +312,7 @@ function App() {
           throw error;
         }
         console.log('Client created successfully:', data);
+        if (data?.[0]) await saveClientTags(data[0].id, tagIds, NO_TAGS);
         setToast({ message: t.messages.clientAddedSuccess, type: 'success' });
       }
 
@@ -238,6 +398,14 @@ function App() {
 
   const t = translations[language];
 
+  if (!sessionChecked) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
   // Show login screen if not authenticated
   if (!currentUser) {
     return <Login onLoginSuccess={handleLoginSuccess} language={language} />;
@@ -254,15 +422,25 @@ function App() {
     );
   }
 
-  const userIsAdmin = isAdmin(currentUser);
+  const canCreateClients = hasPermission(currentUser, 'clients.create');
+  const canEditClients = hasPermission(currentUser, 'clients.edit');
+  const canDeleteClients = hasPermission(currentUser, 'clients.delete');
+  const canRunImport = hasPermission(currentUser, 'import.run');
+  const canOpenAdmin = canAccessAdminPanel(currentUser);
+
+  const canAccessView = (targetView: string) => {
+    if (targetView === 'import') return canRunImport;
+    if (targetView === 'admin') return canOpenAdmin;
+    return true;
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex">
       <Sidebar
         currentView={view}
         onNavigate={(newView) => {
-          // Prevent agents from accessing admin and import sections
-          if (!userIsAdmin && (newView === 'admin' || newView === 'import')) {
+          // Sections the user's role has no permission for stay closed
+          if (!canAccessView(newView)) {
             return;
           }
           setView(newView as View);
@@ -271,7 +449,7 @@ function App() {
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
         language={language}
-        isAdmin={userIsAdmin}
+        canAccess={canAccessView}
       />
 
       <div className={language === 'AR' ? 'flex-1 md:mr-64' : 'flex-1 md:ml-64'}>
@@ -291,6 +469,7 @@ function App() {
                 {view === 'tasks' && t.header.tasksTitle}
                 {view === 'import' && t.header.importTitle}
                 {view === 'admin' && t.header.adminTitle}
+                {view === 'profile' && t.header.profileTitle}
               </h1>
               <p className="text-xs md:text-sm text-gray-500 mt-1 font-medium hidden sm:block">
                 {view === 'dashboard' && t.header.dashboardSubtitle}
@@ -298,13 +477,13 @@ function App() {
                 {view === 'tasks' && t.header.tasksSubtitle}
                 {view === 'import' && t.header.importSubtitle}
                 {view === 'admin' && t.header.adminSubtitle}
+                {view === 'profile' && t.header.profileSubtitle}
               </p>
             </div>
             <div className={`flex items-center gap-3 ${language === 'AR' ? 'flex-row-reverse' : 'flex-row'}`}>
               <LanguageSwitcher language={language} onLanguageChange={setLanguage} />
               
-              {/* Only show Add Client button for admins */}
-              {view === 'clients' && userIsAdmin && (
+              {view === 'clients' && canCreateClients && (
                 <button
                   onClick={() => setShowForm(true)}
                   className={`flex items-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white px-3 md:px-5 py-2 md:py-2.5 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:shadow-blue-300 hover:scale-105 ${language === 'AR' ? 'flex-row-reverse' : 'flex-row'}`}
@@ -314,6 +493,14 @@ function App() {
                 </button>
               )}
               
+              <button
+                onClick={() => setView('profile')}
+                className={`p-2 rounded-lg transition-all duration-200 ${view === 'profile' ? 'text-blue-600 bg-blue-50' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'}`}
+                title={t.profile.openProfile}
+              >
+                <UserCircle className="w-5 h-5" />
+              </button>
+
               {/* Logout button */}
               <button
                 onClick={handleLogout}
@@ -326,28 +513,49 @@ function App() {
           </div>
         </header>
 
-        <main className="px-4 md:px-8 py-4 md:py-6">
+        <main className={`px-4 md:px-8 py-4 md:py-6 ${currentUser.impersonation ? 'pb-20' : ''}`}>
           {refreshing && (
             <div className={`fixed top-20 ${language === 'AR' ? 'left-4' : 'right-4'} bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg flex items-center gap-2 z-30`}>
               <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
               <span className="text-sm font-medium">Updating...</span>
             </div>
           )}
-          {view === 'dashboard' && <Dashboard clients={clients} language={language} />}
+          {view === 'dashboard' && (
+            <Dashboard
+              clients={clients}
+              bookings={bookings}
+              stages={stages}
+              statusHistory={statusHistory}
+              currencies={currencies}
+              language={language}
+            />
+          )}
           {view === 'clients' && (
             <ClientListEnhanced
               clients={clients}
+              stages={stages}
+              currencies={currencies}
+              tags={tags}
+              clientTagIds={clientTagIds}
+              onClientTagsChanged={() => fetchClients(true)}
+              customFields={customFields}
               onEdit={handleEditClient}
               onDelete={handleDeleteClient}
               onViewNotes={handleViewNotes}
               onViewDetails={handleViewDetails}
               language={language}
-              isAdmin={userIsAdmin}
+              canEdit={canEditClients}
+              canDelete={canDeleteClients}
+              users={users}
+              currentUserId={currentUser.id}
             />
           )}
           {view === 'tasks' && <TasksView language={language} />}
-          {view === 'import' && userIsAdmin && (
+          {view === 'import' && canRunImport && (
             <ImportClients
+              stages={stages}
+              currencies={currencies}
+              customFields={customFields}
               language={language}
               onNavigateToClients={() => {
                 setView('clients');
@@ -355,13 +563,33 @@ function App() {
               }}
             />
           )}
-          {view === 'admin' && userIsAdmin && <AdminPanel clients={clients} language={language} />}
+          {view === 'admin' && canOpenAdmin && (
+            <AdminPanel
+              clients={clients}
+              bookings={bookings}
+              stages={stages}
+              statusHistory={statusHistory}
+              onStagesChanged={fetchStages}
+              currencies={currencies}
+              onCurrenciesChanged={loadCurrencies}
+              customFields={customFields}
+              onCustomFieldsChanged={loadCustomFields}
+              language={language}
+            />
+          )}
+          {view === 'profile' && <ProfileSettings user={currentUser} language={language} />}
         </main>
       </div>
 
-      {showForm && userIsAdmin && (
+      {showForm && (editingClient ? canEditClients : canCreateClients) && (
         <ClientForm
           client={editingClient}
+          stages={stages}
+          currencies={currencies}
+          tags={tags}
+          tagIds={(editingClient && clientTagIds[editingClient.id]) || NO_TAGS}
+          onTagsChanged={loadTags}
+          customFields={customFields}
           onSave={handleSaveClient}
           onClose={handleCloseForm}
           language={language}
@@ -375,13 +603,40 @@ function App() {
       {detailsClient && (
         <ClientDetails
           client={detailsClient}
+          stages={stages}
+          statusHistory={statusHistory.filter((change) => change.client_id === detailsClient.id)}
+          tags={tags}
+          tagIds={clientTagIds[detailsClient.id] || NO_TAGS}
+          onTagsChanged={loadTags}
+          customFields={customFields}
+          bookings={clientBookings[detailsClient.id] || NO_BOOKINGS}
+          currencies={currencies}
+          clients={clients}
+          allBookings={bookings}
+          travelGroups={travelGroups}
+          groupMembers={groupMembers}
+          onViewClient={handleViewDetails}
           onClose={handleCloseDetails}
           onEdit={handleEditClient}
           onDelete={handleDeleteClient}
           onAddNote={handleAddNoteFromDetails}
           onAddTask={handleAddTaskFromDetails}
+          onClientUpdated={() => fetchClients(true)}
+          language={language}
+          canEdit={canEditClients}
+          canDelete={canDeleteClients}
+          canReassign={hasPermission(currentUser, 'clients.assign')}
+          canRestore={hasPermission(currentUser, 'clients.restore')}
+          users={users}
+        />
+      )}
+
+      {currentUser.impersonation && (
+        <ImpersonationBanner
+          userName={currentUser.full_name}
+          impersonation={currentUser.impersonation}
           language={language}
-          isAdmin={userIsAdmin}
+          onStop={handleStopImpersonation}
         />
       )}
 
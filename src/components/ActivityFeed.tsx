@@ -1,5 +1,7 @@
-import { Clock, User, MapPin, CheckCircle, AlertCircle } from 'lucide-react';
-import { Client } from '../types/client';
+import { Clock, User, MapPin, CheckCircle, AlertCircle, ArrowRight } from 'lucide-react';
+import { Client, ClientStatusChange } from '../types/client';
+import { PipelineStage } from '../types/pipeline';
+import { getStageLabel, isWonStage } from '../lib/pipeline';
 
 interface Activity {
   id: string;
@@ -13,10 +15,12 @@ interface Activity {
 
 interface ActivityFeedProps {
   clients: Client[];
+  stages: PipelineStage[];
+  statusHistory: ClientStatusChange[];
 }
 
-export default function ActivityFeed({ clients }: ActivityFeedProps) {
-  const activities: Activity[] = generateActivities(clients);
+export default function ActivityFeed({ clients, stages, statusHistory }: ActivityFeedProps) {
+  const activities: Activity[] = generateActivities(clients, stages, statusHistory);
 
   const sortedActivities = activities.sort(
     (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
@@ -62,8 +66,9 @@ export default function ActivityFeed({ clients }: ActivityFeedProps) {
   );
 }
 
-function generateActivities(clients: Client[]): Activity[] {
+function generateActivities(clients: Client[], stages: PipelineStage[], statusHistory: ClientStatusChange[]): Activity[] {
   const activities: Activity[] = [];
+  const clientsById = new Map(clients.map((client) => [client.id, client]));
 
   clients.forEach((client) => {
     const createdDate = new Date(client.created_at);
@@ -78,19 +83,6 @@ function generateActivities(clients: Client[]): Activity[] {
       color: 'bg-blue-500',
     });
 
-    if (client.status === 'Booked') {
-      const bookedDate = new Date(client.updated_at);
-      activities.push({
-        id: `${client.id}-booked`,
-        type: 'status_change',
-        title: `${client.name} marked as Booked`,
-        description: `Booking confirmed - ${client.destination}`,
-        timestamp: bookedDate,
-        icon: <CheckCircle className="w-5 h-5 text-white" />,
-        color: 'bg-emerald-500',
-      });
-    }
-
     if (client.destination) {
       activities.push({
         id: `${client.id}-destination`,
@@ -104,6 +96,25 @@ function generateActivities(clients: Client[]): Activity[] {
     }
   });
 
+  // Creation entries (no from_status) are already covered by "New client"
+  statusHistory.forEach((change) => {
+    const client = clientsById.get(change.client_id);
+    if (!client || !change.from_status) return;
+
+    const won = isWonStage(stages, change.to_status);
+    activities.push({
+      id: change.id,
+      type: 'status_change',
+      title: `${client.name} marked as ${getStageLabel(stages, change.to_status)}`,
+      description: won
+        ? `Booking confirmed - ${client.destination}`
+        : `Moved from ${getStageLabel(stages, change.from_status)}`,
+      timestamp: new Date(change.changed_at),
+      icon: won ? <CheckCircle className="w-5 h-5 text-white" /> : <ArrowRight className="w-5 h-5 text-white" />,
+      color: won ? 'bg-emerald-500' : 'bg-indigo-500',
+    });
+  });
+
   return activities;
 }
 
@@ -1,19 +1,77 @@
 import { useState, useEffect } from 'react';
-import { Users, Settings, BarChart3, DollarSign, TrendingUp, UserCheck } from 'lucide-react';
-import { Client } from '../types/client';
+import { Users, Settings, BarChart3, DollarSign, TrendingUp, UserCheck, GitBranch, Shield, FileClock, Layers, Coins, ListPlus } from 'lucide-react';
+import { Client, ClientStatusChange } from '../types/client';
+import { Booking } from '../types/booking';
 import { Task } from '../types/task';
+import { PipelineStage } from '../types/pipeline';
+import { Currency } from '../types/currency';
+import { CustomField } from '../types/customField';
 import { supabase } from '../lib/supabase';
+import { getCurrentUser } from '../lib/auth';
+import { hasPermission, Permission } from '../lib/permissions';
+import {
+  findStage,
+  formatStageDuration,
+  getStageColors,
+  isLostStage,
+  isOpenStage,
+  isWonStage,
+  summarizeTimeInStage,
+} from '../lib/pipeline';
+import { formatMoney, getBaseCurrency, sumInBase } from '../lib/currency';
+import { getOpenBookings, getWonBookings } from '../lib/bookings';
+import { getSourceLabel, summarizeBySource } from '../lib/leadSource';
 import AgentManagement from './AgentManagement';
+import LeadRoutingRules from './LeadRoutingRules';
+import RoleManagement from './RoleManagement';
+import AuditTrail from './AuditTrail';
+import PipelineStages from './PipelineStages';
+import ExchangeRates from './ExchangeRates';
+import CustomFields from './CustomFields';
 
 interface AdminPanelProps {
   clients: Client[];
+  bookings: Booking[];
+  stages: PipelineStage[];
+  statusHistory: ClientStatusChange[];
+  onStagesChanged: () => void;
+  currencies: Currency[];
+  onCurrenciesChanged: () => void;
+  customFields: CustomField[];
+  onCustomFieldsChanged: () => void;
   language?: 'EN' | 'AR';
 }
 
-type AdminView = 'reports' | 'users' | 'settings';
+type AdminView = 'reports' | 'users' | 'roles' | 'pipeline' | 'currencies' | 'fields' | 'routing' | 'audit' | 'settings';
 
-export default function AdminPanel({ clients, language: _language = 'EN' }: AdminPanelProps) {
-  const [activeView, setActiveView] = useState<AdminView>('reports');
+const ADMIN_TABS: { id: AdminView; label: string; icon: typeof Users; permission: Permission }[] = [
+  { id: 'reports', label: 'Reports', icon: BarChart3, permission: 'reports.view' },
+  { id: 'users', label: 'User Management', icon: Users, permission: 'users.manage' },
+  { id: 'roles', label: 'Roles & Permissions', icon: Shield, permission: 'users.manage' },
+  { id: 'pipeline', label: 'Pipeline Stages', icon: Layers, permission: 'settings.manage' },
+  { id: 'currencies', label: 'Currencies', icon: Coins, permission: 'settings.manage' },
+  { id: 'fields', label: 'Custom Fields', icon: ListPlus, permission: 'settings.manage' },
+  { id: 'routing', label: 'Lead Routing', icon: GitBranch, permission: 'settings.manage' },
+  { id: 'audit', label: 'Audit Trail', icon: FileClock, permission: 'audit.view' },
+  { id: 'settings', label: 'Settings', icon: Settings, permission: 'settings.manage' },
+];
+
+export default function AdminPanel({
+  clients,
+  bookings,
+  stages,
+  statusHistory,
+  onStagesChanged,
+  currencies,
+  onCurrenciesChanged,
+  customFields,
+  onCustomFieldsChanged,
+  language: _language = 'EN',
+}: AdminPanelProps) {
+  const currentUser = getCurrentUser();
+  const tabs = ADMIN_TABS.filter((tab) => hasPermission(currentUser, tab.permission));
+
+  const [activeView, setActiveView] = useState<AdminView>(tabs[0]?.id || 'reports');
   const [tasks, setTasks] = useState<Task[]>([]);
 
   useEffect(() => {
@@ -33,32 +91,37 @@ export default function AdminPanel({ clients, language: _language = 'EN' }: Admi
     }
   };
 
-  const tabs = [
-    { id: 'reports', label: 'Reports', icon: BarChart3 },
-    { id: 'users', label: 'User Management', icon: Users },
-    { id: 'settings', label: 'Settings', icon: Settings },
-  ];
-
-  const statusCounts = clients.reduce((acc, client) => {
-    acc[client.status] = (acc[client.status] || 0) + 1;
+  const statusCounts = bookings.reduce((acc, booking) => {
+    acc[booking.status] = (acc[booking.status] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
-  const totalBookedValue = clients
-    .filter((c) => c.status === 'Booked')
-    .reduce((sum, c) => sum + c.price, 0);
+  // Money totals are in the base currency; prices without an exchange rate are left out
+  const baseCurrency = getBaseCurrency(currencies);
+  const wonBookings = getWonBookings(bookings, stages);
+  const bookedValue = sumInBase(wonBookings, currencies);
+  const totalBookedValue = bookedValue.total;
+
+  // Open bookings weighted by the win probability of their stage
+  const weightedPipeline = sumInBase(
+    getOpenBookings(bookings, stages).map((b) => ({
+      price: (b.price * (findStage(stages, b.status)?.win_probability || 0)) / 100,
+      currency: b.currency,
+    })),
+    currencies
+  );
+  const weightedPipelineValue = weightedPipeline.total;
+
+  const timeInStage = summarizeTimeInStage(stages, statusHistory);
+  const sourceSummaries = summarizeBySource(clients, bookings, stages, currencies);
 
   const totalLeads = clients.length;
-  const bookedClients = statusCounts['Booked'] || 0;
+  const bookedClients = clients.filter((c) => isWonStage(stages, c.status)).length;
+  const activeLeads = clients.filter((c) => isOpenStage(stages, c.status)).length;
+  const lostLeads = clients.filter((c) => isLostStage(stages, c.status)).length;
   const conversionRate = totalLeads > 0 ? ((bookedClients / totalLeads) * 100).toFixed(1) : '0.0';
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-    }).format(price);
-  };
+  const formatPrice = (price: number) => formatMoney(Math.round(price), baseCurrency);
 
   const recentMonths = Array.from({ length: 6 }, (_, i) => {
     const date = new Date();
@@ -93,7 +156,7 @@ export default function AdminPanel({ clients, language: _language = 'EN' }: Admi
               return (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveView(tab.id as AdminView)}
+                  onClick={() => setActiveView(tab.id)}
                   className={`flex items-center gap-2 px-6 py-4 font-medium transition-all border-b-2 ${
                     activeView === tab.id
                       ? 'border-blue-600 text-blue-600'
@@ -109,7 +172,7 @@ export default function AdminPanel({ clients, language: _language = 'EN' }: Admi
         </div>
 
         <div className="p-6">
-          {activeView === 'reports' && (
+          {activeView === 'reports' && hasPermission(currentUser, 'reports.view') && (
             <div className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                 <div className="bg-gradient-to-br from-blue-500 to-blue-600 text-white rounded-lg shadow-md p-6">
@@ -127,6 +190,11 @@ export default function AdminPanel({ clients, language: _language = 'EN' }: Admi
                     <div>
                       <p className="text-green-100 text-sm font-medium">Total Revenue</p>
                       <p className="text-2xl font-bold mt-2">{formatPrice(totalBookedValue)}</p>
+                      {bookedValue.unconverted > 0 && (
+                        <p className="text-green-100 text-xs mt-1">
+                          {bookedValue.unconverted} without an exchange rate not included
+                        </p>
+                      )}
                     </div>
                     <DollarSign className="w-8 h-8 text-green-200" />
                   </div>
@@ -157,21 +225,16 @@ export default function AdminPanel({ clients, language: _language = 'EN' }: Admi
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="bg-white border border-gray-200 rounded-lg p-6">
-                  <h3 className="text-lg font-semibold text-gray-800 mb-4">Clients by Status</h3>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-4">Bookings by Stage</h3>
                   <div className="space-y-3">
-                    {[
-                      { status: 'New Lead', color: 'bg-gray-500' },
-                      { status: 'Contacted', color: 'bg-yellow-500' },
-                      { status: 'Interested', color: 'bg-blue-500' },
-                      { status: 'Not Interested', color: 'bg-red-500' },
-                      { status: 'Booked', color: 'bg-green-500' },
-                    ].map(({ status, color }) => {
-                      const count = statusCounts[status] || 0;
-                      const percentage = totalLeads > 0 ? (count / totalLeads) * 100 : 0;
+                    {stages.map((stage) => {
+                      const count = statusCounts[stage.key] || 0;
+                      const percentage = bookings.length > 0 ? (count / bookings.length) * 100 : 0;
+                      const color = getStageColors(stages, stage.key).bar;
                       return (
-                        <div key={status}>
+                        <div key={stage.key}>
                           <div className="flex items-center justify-between mb-1">
-                            <span className="text-sm font-medium text-gray-700">{status}</span>
+                            <span className="text-sm font-medium text-gray-700">{stage.label_en}</span>
                             <span className="text-sm font-bold text-gray-900">
                               {count} ({percentage.toFixed(0)}%)
                             </span>
@@ -217,29 +280,110 @@ export default function AdminPanel({ clients, language: _language = 'EN' }: Admi
                 </div>
               </div>
 
+              <div className="bg-white border border-gray-200 rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-1">Leads by Source</h3>
+                <p className="text-sm text-gray-500 mb-4">How clients from each source convert into bookings</p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b border-gray-200">
+                        <th className="py-2 pr-4 font-medium">Source</th>
+                        <th className="py-2 pr-4 font-medium">Clients</th>
+                        <th className="py-2 pr-4 font-medium">Booked</th>
+                        <th className="py-2 pr-4 font-medium">Lost</th>
+                        <th className="py-2 pr-4 font-medium">Conversion</th>
+                        <th className="py-2 font-medium">Revenue</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sourceSummaries.map((summary) => (
+                        <tr key={summary.source} className="border-b border-gray-100 last:border-0">
+                          <td className="py-2 pr-4 text-gray-800">{getSourceLabel(summary.source)}</td>
+                          <td className="py-2 pr-4 text-gray-700">{summary.total}</td>
+                          <td className="py-2 pr-4 text-gray-700">{summary.won}</td>
+                          <td className="py-2 pr-4 text-gray-700">{summary.lost}</td>
+                          <td className="py-2 pr-4 font-semibold text-gray-900">{summary.conversion_rate.toFixed(1)}%</td>
+                          <td className="py-2 text-gray-700">
+                            {formatPrice(summary.won_value)}
+                            {summary.unconverted > 0 && (
+                              <span className="text-xs text-gray-500"> (+{summary.unconverted} without a rate)</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="bg-white border border-gray-200 rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-1">Time in Stage</h3>
+                <p className="text-sm text-gray-500 mb-4">Average time before clients moved on, from recorded stage changes</p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b border-gray-200">
+                        <th className="py-2 pr-4 font-medium">Stage</th>
+                        <th className="py-2 pr-4 font-medium">Average Time</th>
+                        <th className="py-2 pr-4 font-medium">Completed Stays</th>
+                        <th className="py-2 font-medium">Clients There Now</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {timeInStage.map((summary) => (
+                        <tr key={summary.stage} className="border-b border-gray-100 last:border-0">
+                          <td className="py-2 pr-4">
+                            <span className="flex items-center gap-2 text-gray-800">
+                              <span className={`w-2.5 h-2.5 rounded-full ${getStageColors(stages, summary.stage).bar}`} />
+                              {findStage(stages, summary.stage)?.label_en || summary.stage}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4 font-semibold text-gray-900">
+                            {summary.completed_stays > 0 ? formatStageDuration(summary.average_ms) : '—'}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-700">{summary.completed_stays}</td>
+                          <td className="py-2 text-gray-700">{summary.current_clients}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
               <div className="bg-white border border-gray-200 rounded-lg p-6">
                 <h3 className="text-lg font-semibold text-gray-800 mb-4">Key Metrics Summary</h3>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div className="p-4 bg-gray-50 rounded-lg">
                     <p className="text-sm text-gray-600">Average Deal Value</p>
                     <p className="text-2xl font-bold text-gray-900 mt-1">
-                      {formatPrice(bookedClients > 0 ? totalBookedValue / bookedClients : 0)}
+                      {formatPrice(
+                        wonBookings.length > bookedValue.unconverted
+                          ? totalBookedValue / (wonBookings.length - bookedValue.unconverted)
+                          : 0
+                      )}
                     </p>
                   </div>
                   <div className="p-4 bg-gray-50 rounded-lg">
                     <p className="text-sm text-gray-600">Active Leads</p>
                     <p className="text-2xl font-bold text-gray-900 mt-1">
-                      {(statusCounts['New Lead'] || 0) +
-                        (statusCounts['Contacted'] || 0) +
-                        (statusCounts['Interested'] || 0)}
+                      {activeLeads}
                     </p>
                   </div>
                   <div className="p-4 bg-gray-50 rounded-lg">
                     <p className="text-sm text-gray-600">Lost Leads</p>
                     <p className="text-2xl font-bold text-gray-900 mt-1">
-                      {statusCounts['Not Interested'] || 0}
+                      {lostLeads}
                     </p>
                   </div>
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-sm text-gray-600">Weighted Pipeline</p>
+                    <p className="text-2xl font-bold text-gray-900 mt-1">{formatPrice(weightedPipelineValue)}</p>
+                    {weightedPipeline.unconverted > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {weightedPipeline.unconverted} without an exchange rate not included
+                      </p>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
@@ -247,6 +391,24 @@ export default function AdminPanel({ clients, language: _language = 'EN' }: Admi
 
           {activeView === 'users' && <AgentManagement language={_language} />}
 
+          {activeView === 'roles' && <RoleManagement language={_language} />}
+
+          {activeView === 'pipeline' && (
+            <PipelineStages stages={stages} clients={clients} onChanged={onStagesChanged} language={_language} />
+          )}
+
+          {activeView === 'currencies' && (
+            <ExchangeRates currencies={currencies} clients={clients} onChanged={onCurrenciesChanged} language={_language} />
+          )}
+
+          {activeView === 'fields' && (
+            <CustomFields fields={customFields} clients={clients} onChanged={onCustomFieldsChanged} language={_language} />
+          )}
+
+          {activeView === 'routing' && <LeadRoutingRules language={_language} />}
+
+          {activeView === 'audit' && <AuditTrail language={_language} />}
+
           {activeView === 'settings' && (
             <div className="space-y-6">
               <div>
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, Users, Phone, Mail, Search, X, Eye, EyeOff, Shield, Power, Key, History } from 'lucide-react';
+import { Plus, Edit2, Trash2, Users, Phone, Mail, Search, X, Eye, EyeOff, Shield, ShieldOff, Power, Key, History, UserCog } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { getCurrentUser } from '../lib/auth';
+import { getCurrentUser, resetUserMfa, startImpersonation } from '../lib/auth';
+import { hasPermission } from '../lib/permissions';
+import { Role } from '../types/role';
 import Toast from './Toast';
 import ConfirmDialog from './ConfirmDialog';
 
@@ -12,6 +14,7 @@ interface Agent {
   phone: string | null;
   role: string;
   is_active: boolean;
+  mfa_enabled: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -21,6 +24,7 @@ interface AgentFormData {
   password: string;
   full_name: string;
   phone: string;
+  role: string;
 }
 
 interface AuditLog {
@@ -33,20 +37,38 @@ interface AuditLog {
   admin_id: string;
 }
 
+interface LoginEvent {
+  id: string;
+  success: boolean;
+  failure_reason: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+// password_hash is not readable from the browser, so always select explicit columns
+const AGENT_COLUMNS = 'id, email, full_name, phone, role, is_active, mfa_enabled, created_at, updated_at';
+
 interface AgentManagementProps {
   language?: 'EN' | 'AR';
 }
 
 export default function AgentManagement({ language = 'EN' }: AgentManagementProps) {
   const [agents, setAgents] = useState<Agent[]>([]);
+  const [roles, setRoles] = useState<Pick<Role, 'key' | 'name'>[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [showAuditModal, setShowAuditModal] = useState(false);
+  const [showImpersonateModal, setShowImpersonateModal] = useState(false);
+  const [allowDestructive, setAllowDestructive] = useState(false);
+  const [impersonating, setImpersonating] = useState(false);
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
   const [selectedAgent, setSelectedAgent] = useState<Agent | null>(null);
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+  const [loginEvents, setLoginEvents] = useState<LoginEvent[]>([]);
+  const [auditTab, setAuditTab] = useState<'changes' | 'logins'>('changes');
   const [searchTerm, setSearchTerm] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [formData, setFormData] = useState<AgentFormData>({
@@ -54,6 +76,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
     password: '',
     full_name: '',
     phone: '',
+    role: 'agent',
   });
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -69,6 +92,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
 
   useEffect(() => {
     fetchAgents();
+    fetchRoles();
   }, []);
 
   const fetchAgents = async () => {
@@ -77,8 +101,8 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
       setLoading(true);
       const { data, error } = await supabase
         .from('users')
-        .select('*')
-        .eq('role', 'agent')
+        .select(AGENT_COLUMNS)
+        .neq('role', 'admin')
         .order('created_at', { ascending: false });
 
       console.log('Agents fetched:', { data, error });
@@ -92,6 +116,25 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
     }
   };
 
+  const fetchRoles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('roles')
+        .select('key, name')
+        .neq('key', 'admin')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setRoles(data || []);
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+    }
+  };
+
+  const getRoleName = (roleKey: string) => {
+    return roles.find((r) => r.key === roleKey)?.name || roleKey;
+  };
+
   const fetchAuditLogs = async (agentId: string) => {
     try {
       console.log('Fetching audit logs for agent:', agentId);
@@ -111,6 +154,23 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
     }
   };
 
+  const fetchLoginEvents = async (agentId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('login_events')
+        .select('id, success, failure_reason, ip_address, user_agent, created_at')
+        .eq('user_id', agentId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setLoginEvents(data || []);
+    } catch (error) {
+      console.error('Error fetching login history:', error);
+      setToast({ message: 'Failed to load login history', type: 'error' });
+    }
+  };
+
   const logAuditAction = async (
     agentId: string,
     actionType: string,
@@ -217,6 +277,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
           email: formData.email,
           full_name: formData.full_name,
           phone: formData.phone || null,
+          role: formData.role,
           updated_at: new Date().toISOString(),
         };
 
@@ -228,7 +289,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
           .from('users')
           .update(updates)
           .eq('id', editingAgent.id)
-          .select();
+          .select(AGENT_COLUMNS);
 
         console.log('Update response:', { data, error });
         if (error) throw error;
@@ -242,6 +303,9 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
         if (formData.phone !== editingAgent.phone) {
           await logAuditAction(editingAgent.id, 'update', 'phone', editingAgent.phone || '', formData.phone || '');
         }
+        if (formData.role !== editingAgent.role) {
+          await logAuditAction(editingAgent.id, 'role_change', 'role', editingAgent.role, formData.role);
+        }
         if (formData.password.trim()) {
           await logAuditAction(editingAgent.id, 'password_change');
         }
@@ -257,11 +321,11 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
               password_hash: formData.password,
               full_name: formData.full_name,
               phone: formData.phone || null,
-              role: 'agent',
+              role: formData.role,
               is_active: true,
             },
           ])
-          .select();
+          .select(AGENT_COLUMNS);
 
         console.log('Insert response:', { data, error });
         if (error) throw error;
@@ -310,7 +374,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
     setConfirmDialog({
       show: true,
       title: 'Change Password',
-      message: `Are you sure you want to change the password for ${selectedAgent.full_name}?`,
+      message: `Are you sure you want to change the password for ${selectedAgent.full_name}? They will be signed out of every device.`,
       onConfirm: async () => {
         try {
           console.log('Changing password for agent:', selectedAgent.id);
@@ -400,7 +464,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
     setConfirmDialog({
       show: true,
       title: `${actionText} Agent`,
-      message: `Are you sure you want to ${action} ${agent.full_name}? ${agent.is_active ? 'They will not be able to log in.' : 'They will be able to log in again.'}`,
+      message: `Are you sure you want to ${action} ${agent.full_name}? ${agent.is_active ? 'They will be signed out of every device and will not be able to log in.' : 'They will be able to log in again.'}`,
       onConfirm: async () => {
         try {
           console.log(`${actionText}ing agent:`, agent.id);
@@ -427,6 +491,49 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
     });
   };
 
+  // Runs server-side: clears the agent's authenticator and recovery codes and
+  // signs them out; the audit entry is written by the function.
+  const handleResetMfa = (agent: Agent) => {
+    setConfirmDialog({
+      show: true,
+      title: 'Reset Two-Factor',
+      message: `Reset two-factor authentication for ${agent.full_name}? They will be signed out and their authenticator app and recovery codes will stop working.`,
+      onConfirm: async () => {
+        try {
+          await resetUserMfa(agent.id);
+          setToast({ message: 'Two-factor authentication reset successfully!', type: 'success' });
+          await fetchAgents();
+        } catch (error) {
+          console.error('Error resetting two-factor:', error);
+          setToast({ message: (error as { message?: string }).message || 'Failed to reset two-factor', type: 'error' });
+        } finally {
+          setConfirmDialog(null);
+        }
+      },
+    });
+  };
+
+  const handleImpersonate = (agent: Agent) => {
+    setSelectedAgent(agent);
+    setAllowDestructive(false);
+    setShowImpersonateModal(true);
+  };
+
+  // Switches the whole app to the agent's session; App picks up the new
+  // user from the session listener. Start and end are audited server-side.
+  const handleStartImpersonation = async () => {
+    if (!selectedAgent) return;
+
+    try {
+      setImpersonating(true);
+      await startImpersonation(selectedAgent.id, allowDestructive);
+    } catch (error) {
+      console.error('Error starting impersonation:', error);
+      setToast({ message: (error as { message?: string }).message || 'Failed to view as agent', type: 'error' });
+      setImpersonating(false);
+    }
+  };
+
   const handleEdit = (agent: Agent) => {
     setEditingAgent(agent);
     setFormData({
@@ -434,6 +541,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
       password: '',
       full_name: agent.full_name,
       phone: agent.phone || '',
+      role: agent.role,
     });
     setFormErrors({});
     setShowForm(true);
@@ -457,6 +565,8 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
   const handleViewAuditLog = (agent: Agent) => {
     setSelectedAgent(agent);
     fetchAuditLogs(agent.id);
+    fetchLoginEvents(agent.id);
+    setAuditTab('changes');
     setShowAuditModal(true);
   };
 
@@ -493,6 +603,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
       password: '',
       full_name: '',
       phone: '',
+      role: 'agent',
     });
     setFormErrors({});
     setShowPassword(false);
@@ -525,10 +636,39 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
       activate: 'Activated',
       deactivate: 'Deactivated',
       role_change: 'Role Changed',
+      password_reset_request: 'Password Reset Requested',
+      password_reset: 'Password Reset',
+      mfa_enroll: 'Two-Factor Enabled',
+      mfa_disable: 'Two-Factor Disabled',
+      mfa_reset: 'Two-Factor Reset',
+      mfa_recovery_codes_regenerated: 'Recovery Codes Regenerated',
+      mfa_recovery_code_used: 'Recovery Code Used',
+      impersonation_start: 'Viewed As Agent',
+      impersonation_end: 'Stopped Viewing As Agent',
+      impersonation_write: 'Change While Viewed As Agent',
     };
     return labels[actionType] || actionType;
   };
 
+  const getLoginFailureLabel = (reason: string | null) => {
+    const labels: Record<string, string> = {
+      invalid_credentials: 'Wrong password',
+      inactive: 'Account inactive',
+      locked_account: 'Blocked: account locked',
+      locked_ip: 'Blocked: IP locked',
+      invalid_mfa_code: 'Wrong two-factor code',
+      invalid_current_password: 'Wrong current password',
+    };
+    return reason ? labels[reason] || reason : 'Failed';
+  };
+
+  const sessionUser = getCurrentUser();
+  const canImpersonate = (agent: Agent) =>
+    hasPermission(sessionUser, 'users.impersonate') &&
+    agent.is_active &&
+    agent.role !== 'admin' &&
+    agent.id !== sessionUser?.id;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -605,7 +745,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                             </span>
                             <div className="flex items-center gap-2 mt-0.5">
                               <Shield className="w-3 h-3 text-gray-400" />
-                              <span className="text-xs text-gray-500 capitalize">{agent.role}</span>
+                              <span className="text-xs text-gray-500">{getRoleName(agent.role)}</span>
                             </div>
                           </div>
                         </div>
@@ -625,7 +765,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                         </div>
                       </td>
                       <td className="px-6 py-4">
-                        <div className="flex justify-center">
+                        <div className="flex flex-col items-center gap-1">
                           <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
                             agent.is_active
                               ? 'bg-green-100 text-green-800'
@@ -633,6 +773,11 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                           }`}>
                             {agent.is_active ? 'Active' : 'Inactive'}
                           </span>
+                          {agent.mfa_enabled && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                              2FA
+                            </span>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-700">{formatDate(agent.created_at)}</td>
@@ -666,6 +811,24 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                           >
                             <Power className="w-4 h-4" />
                           </button>
+                          {agent.mfa_enabled && (
+                            <button
+                              onClick={() => handleResetMfa(agent)}
+                              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all duration-200 hover:scale-110"
+                              title="Reset two-factor"
+                            >
+                              <ShieldOff className="w-4 h-4" />
+                            </button>
+                          )}
+                          {canImpersonate(agent) && (
+                            <button
+                              onClick={() => handleImpersonate(agent)}
+                              className="p-2 text-teal-600 hover:bg-teal-50 rounded-lg transition-all duration-200 hover:scale-110"
+                              title="View as agent"
+                            >
+                              <UserCog className="w-4 h-4" />
+                            </button>
+                          )}
                           <button
                             onClick={() => handleViewAuditLog(agent)}
                             className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-all duration-200 hover:scale-110"
@@ -715,6 +878,11 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                           }`}>
                             {agent.is_active ? 'Active' : 'Inactive'}
                           </span>
+                          {agent.mfa_enabled && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                              2FA
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -767,6 +935,24 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                       <History className="w-4 h-4" />
                       Audit
                     </button>
+                    {agent.mfa_enabled && (
+                      <button
+                        onClick={() => handleResetMfa(agent)}
+                        className="col-span-2 flex items-center justify-center gap-2 py-2 px-3 text-indigo-600 bg-indigo-50 rounded-lg font-medium hover:bg-indigo-100 transition-all duration-200"
+                      >
+                        <ShieldOff className="w-4 h-4" />
+                        Reset Two-Factor
+                      </button>
+                    )}
+                    {canImpersonate(agent) && (
+                      <button
+                        onClick={() => handleImpersonate(agent)}
+                        className="col-span-2 flex items-center justify-center gap-2 py-2 px-3 text-teal-600 bg-teal-50 rounded-lg font-medium hover:bg-teal-100 transition-all duration-200"
+                      >
+                        <UserCog className="w-4 h-4" />
+                        View as Agent
+                      </button>
+                    )}
                     <button
                       onClick={() => handleDelete(agent)}
                       className="col-span-2 flex items-center justify-center gap-2 py-2 px-3 text-red-600 bg-red-50 rounded-lg font-medium hover:bg-red-100 transition-all duration-200"
@@ -898,6 +1084,24 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+                <select
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value })}
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                >
+                  {roles.map((role) => (
+                    <option key={role.key} value={role.key}>
+                      {role.name}
+                    </option>
+                  ))}
+                </select>
+                {editingAgent && formData.role !== editingAgent.role && (
+                  <p className="mt-1 text-xs text-gray-500">The agent will be signed out and must log in again.</p>
+                )}
+              </div>
+
               <div className="flex gap-3 pt-4 border-t">
                 <button
                   type="submit"
@@ -1106,6 +1310,67 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
         </div>
       )}
 
+      {showImpersonateModal && selectedAgent && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
+            <div className="bg-gradient-to-r from-teal-600 to-teal-700 text-white px-6 py-5 flex items-center justify-between rounded-t-2xl">
+              <div className="flex items-center gap-3">
+                <UserCog className="w-6 h-6" />
+                <h2 className="text-xl font-bold">View as Agent</h2>
+              </div>
+              <button
+                onClick={() => setShowImpersonateModal(false)}
+                className="p-1.5 hover:bg-teal-800 rounded-lg transition-all duration-200 hover:scale-110"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="bg-teal-50 border border-teal-200 rounded-lg p-3 space-y-1">
+                <p className="text-sm text-teal-900">
+                  <strong>Agent:</strong> {selectedAgent.full_name}
+                </p>
+                <p className="text-sm text-teal-800">
+                  You will see the app exactly as this agent does for up to 30 minutes. The start, the end and
+                  every change you make are recorded in the agent's audit log.
+                </p>
+              </div>
+
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allowDestructive}
+                  onChange={(e) => setAllowDestructive(e.target.checked)}
+                  className="mt-1 w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+                />
+                <span className="text-sm text-gray-700">
+                  <strong>Allow destructive actions</strong>
+                  <br />
+                  Deleting clients, notes and tasks and restoring client versions are blocked unless this is checked.
+                </span>
+              </label>
+
+              <div className="flex gap-3 pt-4 border-t">
+                <button
+                  onClick={handleStartImpersonation}
+                  disabled={impersonating}
+                  className="flex-1 bg-gradient-to-r from-teal-600 to-teal-700 text-white py-2.5 px-6 rounded-xl font-semibold hover:from-teal-700 hover:to-teal-800 transition-all duration-200 shadow-lg shadow-teal-200 hover:shadow-xl hover:scale-105 disabled:opacity-50"
+                >
+                  {impersonating ? 'Switching...' : 'Start Viewing'}
+                </button>
+                <button
+                  onClick={() => setShowImpersonateModal(false)}
+                  className="flex-1 bg-gray-200 text-gray-800 py-2.5 px-6 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200 hover:scale-105"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showAuditModal && selectedAgent && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
           <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
@@ -1130,7 +1395,56 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                 <p className="text-sm text-gray-700">{selectedAgent.email}</p>
               </div>
 
-              {auditLogs.length === 0 ? (
+              <div className="flex gap-2 border-b border-gray-200">
+                {([
+                  { id: 'changes', label: `Changes (${auditLogs.length})` },
+                  { id: 'logins', label: `Login History (${loginEvents.length})` },
+                ] as const).map((tab) => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setAuditTab(tab.id)}
+                    className={`px-4 py-2 text-sm font-medium border-b-2 transition-all ${
+                      auditTab === tab.id
+                        ? 'border-gray-800 text-gray-900'
+                        : 'border-transparent text-gray-500 hover:text-gray-800'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+
+              {auditTab === 'logins' && (loginEvents.length === 0 ? (
+                <div className="text-center py-8 bg-gray-50 rounded-lg">
+                  <History className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                  <p className="text-gray-600">No login attempts recorded</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {loginEvents.map((loginEvent) => (
+                    <div key={loginEvent.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between mb-2">
+                        <span
+                          className={`px-3 py-1 text-xs font-semibold rounded-full ${
+                            loginEvent.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          }`}
+                        >
+                          {loginEvent.success ? 'Success' : getLoginFailureLabel(loginEvent.failure_reason)}
+                        </span>
+                        <span className="text-xs text-gray-500">{formatDate(loginEvent.created_at)}</span>
+                      </div>
+                      <div className="text-sm text-gray-700">
+                        <strong>IP:</strong> {loginEvent.ip_address || 'Unknown'}
+                      </div>
+                      {loginEvent.user_agent && (
+                        <div className="text-xs text-gray-500 mt-1 break-all">{loginEvent.user_agent}</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              {auditTab === 'changes' && (auditLogs.length === 0 ? (
                 <div className="text-center py-8 bg-gray-50 rounded-lg">
                   <History className="w-12 h-12 text-gray-300 mx-auto mb-3" />
                   <p className="text-gray-600">No audit logs found</p>
@@ -1148,6 +1462,9 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                           {formatDate(log.created_at)}
                         </span>
                       </div>
+                      {log.admin_id === selectedAgent.id && (
+                        <div className="text-xs text-gray-500 mb-1">By the agent</div>
+                      )}
                       {log.field_changed && (
                         <div className="text-sm text-gray-700">
                           <strong>Field:</strong> {log.field_changed}
@@ -1166,7 +1483,7 @@ export default function AgentManagement({ language = 'EN' }: AgentManagementProp
                     </div>
                   ))}
                 </div>
-              )}
+              ))}
             </div>
           </div>
         </div>
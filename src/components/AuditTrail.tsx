@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { FileClock, Search, Loader } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatAuditField, formatAuditValue, getAuditChangeEntries } from '../lib/audit';
+import { AuditAction, AuditEntityType, AuditEvent } from '../types/audit';
+import Toast from './Toast';
+
+interface AuditTrailProps {
+  language?: 'EN' | 'AR';
+}
+
+interface AuditFilters {
+  entityType: AuditEntityType | '';
+  action: AuditAction | '';
+  actorId: string;
+  from: string;
+  to: string;
+  search: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: AuditFilters = {
+  entityType: '',
+  action: '',
+  actorId: '',
+  from: '',
+  to: '',
+  search: '',
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  client: 'Client',
+  note: 'Note',
+  task: 'Task',
+  booking: 'Booking',
+};
+
+const ACTION_STYLES: Record<AuditAction, { label: string; className: string }> = {
+  create: { label: 'Created', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Updated', className: 'bg-blue-100 text-blue-800' },
+  delete: { label: 'Deleted', className: 'bg-red-100 text-red-800' },
+};
+
+const fetchAuditEvents = async (filters: AuditFilters, offset: number): Promise<AuditEvent[]> => {
+  let query = supabase
+    .from('audit_events')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .range(offset, offset + PAGE_SIZE - 1);
+
+  if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.search.trim()) {
+    query = query.ilike('entity_label', `%${filters.search.trim().replace(/[%_\\]/g, '\\$&')}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export default function AuditTrail({ language = 'EN' }: AuditTrailProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [users, setUsers] = useState<{ id: string; full_name: string }[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const { data, error } = await supabase.from('users').select('id, full_name').order('full_name');
+        if (error) throw error;
+        setUsers(data || []);
+      } catch (error) {
+        console.error('Error fetching users:', error);
+      }
+    };
+
+    fetchUsers();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchAuditEvents(filters, 0)
+      .then((data) => {
+        if (cancelled) return;
+        setEvents(data);
+        setHasMore(data.length === PAGE_SIZE);
+      })
+      .catch((error) => {
+        console.error('Error fetching audit events:', error);
+        if (!cancelled) setToast({ message: 'Failed to load audit trail', type: 'error' });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const data = await fetchAuditEvents(filters, events.length);
+      setEvents([...events, ...data]);
+      setHasMore(data.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching audit events:', error);
+      setToast({ message: 'Failed to load audit trail', type: 'error' });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const userNames = Object.fromEntries(users.map((u) => [u.id, u.full_name]));
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-800">Audit Trail</h3>
+        <p className="text-gray-600 text-sm mt-1">Every change to clients, notes and tasks, newest first</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <div className="relative lg:col-span-2">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            placeholder="Search client name, note or task..."
+            className={`${inputClassName} pl-9`}
+          />
+        </div>
+        <select
+          value={filters.entityType}
+          onChange={(e) => setFilters({ ...filters, entityType: e.target.value as AuditFilters['entityType'] })}
+          className={inputClassName}
+        >
+          <option value="">All records</option>
+          {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}s
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value as AuditFilters['action'] })}
+          className={inputClassName}
+        >
+          <option value="">All actions</option>
+          {Object.entries(ACTION_STYLES).map(([value, { label }]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.actorId}
+          onChange={(e) => setFilters({ ...filters, actorId: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">All users</option>
+          {users.map((user) => (
+            <option key={user.id} value={user.id}>
+              {user.full_name}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={inputClassName}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={inputClassName}
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <FileClock className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600 font-medium">No changes match these filters</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {events.map((event) => (
+            <div key={event.id} className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`px-3 py-1 text-xs font-semibold rounded-full ${ACTION_STYLES[event.action].className}`}>
+                    {ACTION_STYLES[event.action].label}
+                  </span>
+                  <span className="px-2 py-0.5 text-xs font-medium rounded bg-gray-100 text-gray-700">
+                    {ENTITY_LABELS[event.entity_type]}
+                  </span>
+                  <span className="font-medium text-gray-900">{event.entity_label || '—'}</span>
+                </div>
+                <span className="text-xs text-gray-500">
+                  {formatDate(event.created_at)} · {event.actor_name || 'System'}
+                  {event.impersonator_name && ` (via ${event.impersonator_name})`}
+                </span>
+              </div>
+              {event.action === 'update' && (
+                <div className="space-y-1">
+                  {getAuditChangeEntries(event.changes).map(([field, change]) => (
+                    <div key={field} className="text-sm text-gray-700">
+                      <strong>{formatAuditField(field)}:</strong>{' '}
+                      <span className="text-red-700 line-through">{formatAuditValue(change.old, userNames)}</span>
+                      {' → '}
+                      <span className="text-green-700">{formatAuditValue(change.new, userNames)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {event.action !== 'update' && (
+                <details className="text-sm text-gray-600">
+                  <summary className="cursor-pointer text-gray-500">
+                    {Object.keys(event.changes).length} fields
+                  </summary>
+                  <div className="mt-2 space-y-1">
+                    {getAuditChangeEntries(event.changes).map(([field, change]) => (
+                      <div key={field}>
+                        <strong>{formatAuditField(field)}:</strong>{' '}
+                        {formatAuditValue(event.action === 'create' ? change.new : change.old, userNames)}
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
+            </div>
+          ))}
+
+          {hasMore && (
+            <div className="flex justify-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="flex items-center gap-2 px-6 py-2.5 bg-gray-200 text-gray-800 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200 disabled:opacity-50"
+              >
+                {loadingMore && <Loader className="w-4 h-4 animate-spin" />}
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} language={language} />}
+    </div>
+  );
+}
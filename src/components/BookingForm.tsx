@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Booking, BookingFormData } from '../types/booking';
+import { Client } from '../types/client';
+import { PipelineStage } from '../types/pipeline';
+import { Currency } from '../types/currency';
+import { translations } from '../lib/translations';
+import { getEntryStage } from '../lib/pipeline';
+
+interface BookingFormProps {
+  booking: Booking | null;
+  // New bookings start in the client's currency
+  client: Client;
+  onSave: (data: BookingFormData) => void;
+  onClose: () => void;
+  language: 'EN' | 'AR';
+  stages: PipelineStage[];
+  currencies: Currency[];
+}
+
+export default function BookingForm({ booking, client, onSave, onClose, language, stages, currencies }: BookingFormProps) {
+  const t = translations[language];
+  const [formData, setFormData] = useState<BookingFormData>(
+    booking
+      ? {
+          status: booking.status,
+          price: booking.price,
+          currency: booking.currency,
+          destination: booking.destination,
+          travel_start_date: booking.travel_start_date,
+          travel_end_date: booking.travel_end_date,
+        }
+      : {
+          status: getEntryStage(stages)?.key || '',
+          price: 0,
+          currency: client.currency,
+          destination: '',
+          travel_start_date: null,
+          travel_end_date: null,
+        }
+  );
+  const [errors, setErrors] = useState<Partial<Record<keyof BookingFormData, string>>>({});
+
+  const validateForm = (): boolean => {
+    const newErrors: Partial<Record<keyof BookingFormData, string>> = {};
+
+    if (!formData.destination.trim()) {
+      newErrors.destination = t.bookings.destinationRequired;
+    }
+    if (formData.price < 0) {
+      newErrors.price = `${t.fields.price} must be a positive number`;
+    }
+    if (
+      formData.travel_start_date &&
+      formData.travel_end_date &&
+      formData.travel_end_date < formData.travel_start_date
+    ) {
+      newErrors.travel_end_date = t.trip.endBeforeStart;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validateForm()) {
+      onSave({ ...formData, destination: formData.destination.trim() });
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    let parsedValue: string | number | null = value;
+    if (name === 'price') {
+      parsedValue = parseFloat(value) || 0;
+    } else if (name === 'travel_start_date' || name === 'travel_end_date') {
+      parsedValue = value || null;
+    }
+    setFormData((prev) => ({ ...prev, [name]: parsedValue }));
+    if (errors[name as keyof BookingFormData]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const inputClassName = (field: keyof BookingFormData) =>
+    `w-full px-4 py-3 md:py-2.5 border rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+      errors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm" dir={language === 'AR' ? 'rtl' : 'ltr'}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className={`sticky top-0 bg-gradient-to-r from-blue-600 to-blue-700 text-white px-4 md:px-6 py-4 md:py-5 flex items-center justify-between rounded-t-2xl ${language === 'AR' ? 'flex-row-reverse' : ''}`}>
+          <div>
+            <h2 className="text-lg md:text-xl font-bold">{booking ? t.bookings.editBooking : t.bookings.addBooking}</h2>
+            <p className="text-sm text-blue-100">{client.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-blue-800 rounded-lg transition-all duration-200 hover:scale-110 flex-shrink-0"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 md:p-6 space-y-4">
+          <div>
+            <label htmlFor="booking_destination" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+              {t.fields.destination} <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              id="booking_destination"
+              name="destination"
+              value={formData.destination}
+              onChange={handleChange}
+              className={inputClassName('destination')}
+              placeholder={t.placeholders.enterDestination}
+            />
+            {errors.destination && <p className="mt-1 text-xs md:text-sm text-red-600">{errors.destination}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="booking_status" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+              {t.fields.status} <span className="text-red-500">*</span>
+            </label>
+            <select
+              id="booking_status"
+              name="status"
+              value={formData.status}
+              onChange={handleChange}
+              className={inputClassName('status')}
+            >
+              {stages.map((stage) => (
+                <option key={stage.key} value={stage.key}>
+                  {language === 'AR' ? stage.label_ar : stage.label_en}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="booking_price" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+              {t.fields.price}
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                id="booking_price"
+                name="price"
+                value={formData.price}
+                onChange={handleChange}
+                min="0"
+                step="0.01"
+                className={`flex-1 min-w-0 ${inputClassName('price')}`}
+                placeholder={t.placeholders.enterPrice}
+              />
+              <select
+                name="currency"
+                value={formData.currency}
+                onChange={handleChange}
+                aria-label={t.fields.currency}
+                className="w-28 px-3 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+              >
+                {/* Keeps the current value visible if the currency list failed to load */}
+                {!currencies.some((currency) => currency.code === formData.currency) && (
+                  <option value={formData.currency}>{formData.currency}</option>
+                )}
+                {currencies.map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {errors.price && <p className="mt-1 text-xs md:text-sm text-red-600">{errors.price}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="booking_travel_start_date" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                {t.trip.startDate}
+              </label>
+              <input
+                type="date"
+                id="booking_travel_start_date"
+                name="travel_start_date"
+                value={formData.travel_start_date || ''}
+                onChange={handleChange}
+                className={inputClassName('travel_start_date')}
+              />
+            </div>
+            <div>
+              <label htmlFor="booking_travel_end_date" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                {t.trip.endDate}
+              </label>
+              <input
+                type="date"
+                id="booking_travel_end_date"
+                name="travel_end_date"
+                value={formData.travel_end_date || ''}
+                min={formData.travel_start_date || undefined}
+                onChange={handleChange}
+                className={inputClassName('travel_end_date')}
+              />
+              {errors.travel_end_date && <p className="mt-1 text-xs md:text-sm text-red-600">{errors.travel_end_date}</p>}
+            </div>
+          </div>
+
+          <div className={`flex flex-col sm:flex-row gap-3 pt-4 border-t ${language === 'AR' ? 'flex-row-reverse' : ''}`}>
+            <button
+              type="submit"
+              className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 px-4 md:px-6 rounded-xl font-semibold text-sm md:text-base hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+            >
+              {t.bookings.saveBooking}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-gray-800 py-3 px-4 md:px-6 rounded-xl font-semibold text-sm md:text-base hover:bg-gray-300 transition-all duration-200 hover:scale-105"
+            >
+              {t.actions.cancel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -14,20 +14,35 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { Client } from '../types/client';
+import { Booking } from '../types/booking';
+import { PipelineStage } from '../types/pipeline';
+import { getStageColors, getStageLabel } from '../lib/pipeline';
+import { getBookingPlaces } from '../lib/bookings';
+
+const TOP_DESTINATIONS = 10;
 
 interface ChartsSectionProps {
   clients: Client[];
+  bookings: Booking[];
+  stages: PipelineStage[];
 }
 
-export default function ChartsSection({ clients }: ChartsSectionProps) {
-  const statusCounts = clients.reduce((acc, client) => {
-    acc[client.status] = (acc[client.status] || 0) + 1;
+export default function ChartsSection({ clients, bookings, stages }: ChartsSectionProps) {
+  const statusCounts = bookings.reduce((acc, booking) => {
+    acc[booking.status] = (acc[booking.status] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
-  const statusData = Object.entries(statusCounts).map(([status, count]) => ({
-    name: status,
-    count,
+  // Pipeline order first, then any status without a stage
+  const statusKeys = [
+    ...stages.map((stage) => stage.key).filter((key) => statusCounts[key]),
+    ...Object.keys(statusCounts).filter((key) => !stages.some((stage) => stage.key === key)),
+  ];
+
+  const statusData = statusKeys.map((status) => ({
+    name: getStageLabel(stages, status),
+    count: statusCounts[status],
+    color: getStageColors(stages, status).hex,
   }));
 
   const countryCounts = clients.reduce((acc, client) => {
@@ -44,7 +59,20 @@ export default function ChartsSection({ clients }: ChartsSectionProps) {
     }))
     .sort((a, b) => b.value - a.value);
 
-  const bookingTrend = generateBookingTrendData(clients);
+  // A booking going to Istanbul and Trabzon counts once for each
+  const destinationCounts = bookings.reduce((acc, booking) => {
+    getBookingPlaces(booking).forEach((place) => {
+      acc[place] = (acc[place] || 0) + 1;
+    });
+    return acc;
+  }, {} as Record<string, number>);
+
+  const destinationData = Object.entries(destinationCounts)
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_DESTINATIONS);
+
+  const bookingTrend = generateBookingTrendData(bookings);
 
   const COLORS = ['#3b82f6', '#06b6d4', '#10b981', '#f59e0b', '#ef4444'];
 
@@ -100,7 +128,7 @@ export default function ChartsSection({ clients }: ChartsSectionProps) {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
       <div className="bg-white rounded-2xl shadow-lg p-4 md:p-6 border border-gray-200">
-        <h3 className="text-base md:text-lg font-bold text-gray-800 mb-3 md:mb-4">Clients by Status</h3>
+        <h3 className="text-base md:text-lg font-bold text-gray-800 mb-3 md:mb-4">Bookings by Stage</h3>
         <div className="w-full overflow-x-auto -mx-2 px-2">
           <ResponsiveContainer width="100%" height={300} minWidth={300}>
             <BarChart
@@ -126,7 +154,11 @@ export default function ChartsSection({ clients }: ChartsSectionProps) {
                 }}
                 cursor={{ fill: 'rgba(59, 130, 246, 0.1)' }}
               />
-              <Bar dataKey="count" fill="#3b82f6" radius={[8, 8, 0, 0]} />
+              <Bar dataKey="count" fill="#3b82f6" radius={[8, 8, 0, 0]}>
+                {statusData.map((entry) => (
+                  <Cell key={entry.name} fill={entry.color} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </div>
@@ -172,6 +204,31 @@ export default function ChartsSection({ clients }: ChartsSectionProps) {
         </div>
       </div>
 
+      <div className="bg-white rounded-2xl shadow-lg p-4 md:p-6 border border-gray-200 lg:col-span-2">
+        <h3 className="text-base md:text-lg font-bold text-gray-800 mb-3 md:mb-4">Top Destinations</h3>
+        {destinationData.length === 0 ? (
+          <p className="text-sm text-gray-500">No destinations yet</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={Math.max(160, destinationData.length * 36)}>
+            <BarChart data={destinationData} layout="vertical" margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" horizontal={false} />
+              <XAxis type="number" allowDecimals={false} tick={{ fontSize: 10, fill: '#6b7280' }} />
+              <YAxis type="category" dataKey="name" width={120} tick={{ fontSize: 12, fill: '#374151' }} interval={0} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#fff',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                }}
+                cursor={{ fill: 'rgba(6, 182, 212, 0.1)' }}
+              />
+              <Bar dataKey="count" name="Bookings" fill="#06b6d4" radius={[0, 8, 8, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
       <div className="bg-white rounded-2xl shadow-lg p-4 md:p-6 border border-gray-200 lg:col-span-2">
         <h3 className="text-base md:text-lg font-bold text-gray-800 mb-3 md:mb-4">Booking Trends</h3>
         <div className="text-xs text-gray-500 mb-2 md:hidden">Swipe to see all data</div>
@@ -217,7 +274,7 @@ export default function ChartsSection({ clients }: ChartsSectionProps) {
                 strokeWidth={2}
                 dot={{ fill: '#3b82f6', r: 3 }}
                 activeDot={{ r: 5 }}
-                name="Total Clients"
+                name="Total Bookings"
               />
             </LineChart>
           </ResponsiveContainer>
@@ -227,7 +284,7 @@ export default function ChartsSection({ clients }: ChartsSectionProps) {
   );
 }
 
-function generateBookingTrendData(clients: Client[]) {
+function generateBookingTrendData(bookings: Booking[]) {
   const days = 30;
   const today = new Date();
   const data = [];
@@ -237,18 +294,19 @@ function generateBookingTrendData(clients: Client[]) {
     date.setDate(date.getDate() - i);
     const dateStr = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
-    const clientsUpToDate = clients.filter(
-      (client) => new Date(client.created_at) <= date
+    const bookingsUpToDate = bookings.filter(
+      (booking) => new Date(booking.created_at) <= date
     );
 
-    const bookedClients = clientsUpToDate.filter(
-      (client) => client.status === 'Booked'
+    // booked_at is cleared when a booking leaves the won stages
+    const bookedBookings = bookingsUpToDate.filter(
+      (booking) => booking.booked_at && new Date(booking.booked_at) <= date
     ).length;
 
     data.push({
       date: dateStr,
-      total: clientsUpToDate.length,
-      booked: bookedClients,
+      total: bookingsUpToDate.length,
+      booked: bookedBookings,
     });
   }
 
@@ -1,11 +1,33 @@
 import { useState, useEffect } from 'react';
-import { X, Edit2, Trash2, Plus, Phone, MapPin, Globe, DollarSign, Calendar, CheckSquare, MessageSquare } from 'lucide-react';
-import { Client } from '../types/client';
+import { X, Edit2, Trash2, Plus, Phone, MapPin, Globe, DollarSign, Calendar, CheckSquare, MessageSquare, User as UserIcon, UserCheck, FileClock, RotateCcw, Layers, Plane, Users, Hotel, ConciergeBell, Inbox, Briefcase } from 'lucide-react';
+import { Client, ClientStatusChange, ClientVersion } from '../types/client';
 import { Note } from '../types/note';
 import { Task } from '../types/task';
-import { supabase } from '../lib/supabase';
+import { AuditEvent } from '../types/audit';
+import { PipelineStage } from '../types/pipeline';
+import { Tag } from '../types/tag';
+import { CustomField } from '../types/customField';
+import { Booking, BookingFormData } from '../types/booking';
+import { Currency } from '../types/currency';
+import { TravelGroup, TravelGroupMember } from '../types/travelGroup';
+import { supabase, UserSummary } from '../lib/supabase';
 import { translations } from '../lib/translations';
+import { formatAuditField, formatAuditValue, getAuditChangeEntries } from '../lib/audit';
+import { formatStageDuration, getStageColors, getStageLabel, getStageStays } from '../lib/pipeline';
+import { formatMoney, getBaseCurrency, sumInBase } from '../lib/currency';
+import { formatTripDate, getTripNights, hasTripDetails } from '../lib/tripDetails';
+import { getClientItinerary, getItineraryNights } from '../lib/destinations';
+import { getSourceLabel } from '../lib/leadSource';
+import { saveClientTags } from '../lib/tags';
+import { formatCustomFieldValue, getCustomFieldLabel } from '../lib/customFields';
+import { createBooking, deleteBooking, getWonBookings, updateBooking } from '../lib/bookings';
 import Breadcrumb from './Breadcrumb';
+import Toast from './Toast';
+import ConfirmDialog from './ConfirmDialog';
+import TagBadge from './TagBadge';
+import TagPicker from './TagPicker';
+import BookingForm from './BookingForm';
+import TravelGroupCard from './TravelGroupCard';
 
 interface ClientDetailsProps {
   client: Client;
@@ -14,7 +36,28 @@ interface ClientDetailsProps {
   onDelete: (id: string) => void;
   onAddNote: () => void;
   onAddTask: () => void;
+  onClientUpdated?: () => void;
   language?: 'EN' | 'AR';
+  canEdit?: boolean;
+  canDelete?: boolean;
+  canReassign?: boolean;
+  canRestore?: boolean;
+  users?: UserSummary[];
+  stages?: PipelineStage[];
+  statusHistory?: ClientStatusChange[];
+  tags?: Tag[];
+  tagIds?: string[];
+  onTagsChanged?: () => void;
+  customFields?: CustomField[];
+  // All bookings of the client, primary booking first
+  bookings?: Booking[];
+  currencies?: Currency[];
+  // Used by the travel group card for other members and group totals
+  clients?: Client[];
+  allBookings?: Booking[];
+  travelGroups?: TravelGroup[];
+  groupMembers?: TravelGroupMember[];
+  onViewClient?: (client: Client) => void;
 }
 
 export default function ClientDetails({
@@ -24,17 +67,96 @@ export default function ClientDetails({
   onDelete,
   onAddNote,
   onAddTask,
+  onClientUpdated,
   language: _language = 'EN',
+  canEdit = false,
+  canDelete = false,
+  canReassign = false,
+  canRestore = false,
+  users = [],
+  stages = [],
+  statusHistory = [],
+  tags = [],
+  tagIds = [],
+  onTagsChanged,
+  customFields = [],
+  bookings = [],
+  currencies = [],
+  clients = [],
+  allBookings = [],
+  travelGroups = [],
+  groupMembers = [],
+  onViewClient,
 }: ClientDetailsProps) {
   const t = translations[_language];
   const [notes, setNotes] = useState<Note[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
+  const [assignedTo, setAssignedTo] = useState<string | null>(client.assigned_to);
+  const [reassigning, setReassigning] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyTab, setHistoryTab] = useState<'activity' | 'versions'>('activity');
+  const itinerary = getClientItinerary(client);
+  const [editingTags, setEditingTags] = useState(false);
+  // Shown right away while the change is saved and the client list reloads
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>(tagIds);
+
+  useEffect(() => {
+    setSelectedTagIds(tagIds);
+  }, [tagIds]);
+  const [history, setHistory] = useState<AuditEvent[]>([]);
+  const [versions, setVersions] = useState<ClientVersion[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [restoreVersion, setRestoreVersion] = useState<ClientVersion | null>(null);
+  // null while closed; `booking` is null when adding
+  const [bookingForm, setBookingForm] = useState<{ booking: Booking | null } | null>(null);
+  const [deletingBooking, setDeletingBooking] = useState<Booking | null>(null);
 
   useEffect(() => {
     fetchClientData();
   }, [client.id]);
 
+  // History is loaded on demand and reloaded when the client changes while open
+  useEffect(() => {
+    if (!showHistory) return;
+
+    const fetchHistory = async () => {
+      try {
+        setHistoryLoading(true);
+        const [eventsResponse, versionsResponse] = await Promise.all([
+          supabase
+            .from('audit_events')
+            .select('*')
+            .eq('client_id', client.id)
+            .order('created_at', { ascending: false })
+            .limit(100),
+          supabase
+            .from('client_versions')
+            .select('*')
+            .eq('client_id', client.id)
+            .order('version_number', { ascending: false }),
+        ]);
+
+        if (eventsResponse.error) throw eventsResponse.error;
+        if (versionsResponse.error) throw versionsResponse.error;
+
+        setHistory(eventsResponse.data || []);
+        setVersions(versionsResponse.data || []);
+      } catch (error) {
+        console.error('Error fetching client history:', error);
+      } finally {
+        setHistoryLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [showHistory, client.id, client.updated_at]);
+
+  useEffect(() => {
+    setAssignedTo(client.assigned_to);
+  }, [client.assigned_to]);
+
   const fetchClientData = async () => {
     try {
       setLoading(true);
@@ -63,26 +185,79 @@ export default function ClientDetails({
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Booked':
-        return 'bg-green-100 text-green-800 border-green-300';
-      case 'Interested':
-        return 'bg-blue-100 text-blue-800 border-blue-300';
-      case 'Contacted':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-300';
-      case 'Not Interested':
-        return 'bg-red-100 text-red-800 border-red-300';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-300';
+  const getUserName = (userId: string | null) => {
+    if (!userId) return '—';
+    return users.find((u) => u.id === userId)?.full_name || '—';
+  };
+
+  const handleReassign = async (userId: string) => {
+    const nextAssignee = userId || null;
+    try {
+      setReassigning(true);
+      const { error } = await supabase
+        .from('clients')
+        .update({ assigned_to: nextAssignee, updated_at: new Date().toISOString() })
+        .eq('id', client.id);
+
+      if (error) throw error;
+
+      setAssignedTo(nextAssignee);
+      setToast({ message: t.clientInfo.reassignSuccess, type: 'success' });
+      onClientUpdated?.();
+    } catch (error) {
+      console.error('Error reassigning client:', error);
+      setToast({ message: t.clientInfo.reassignFailed, type: 'error' });
+    } finally {
+      setReassigning(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => getStageColors(stages, status).badge;
+
+  const stageStays = getStageStays(statusHistory).reverse();
+
+  const handleTagsChange = async (ids: string[]) => {
+    const previous = selectedTagIds;
+    setSelectedTagIds(ids);
+    try {
+      await saveClientTags(client.id, ids, previous);
+      onClientUpdated?.();
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      setSelectedTagIds(previous);
+      setToast({ message: (error as { message?: string }).message || t.tags.saveFailed, type: 'error' });
     }
   };
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(price);
+  const bookedValue = sumInBase(getWonBookings(bookings, stages), currencies);
+
+  const handleSaveBooking = async (formData: BookingFormData) => {
+    try {
+      if (bookingForm?.booking) {
+        await updateBooking(bookingForm.booking.id, formData);
+      } else {
+        await createBooking(client.id, formData);
+      }
+      setBookingForm(null);
+      setToast({ message: t.bookings.saved, type: 'success' });
+      onClientUpdated?.();
+    } catch (error) {
+      console.error('Error saving booking:', error);
+      setToast({ message: t.bookings.saveFailed, type: 'error' });
+    }
+  };
+
+  const handleDeleteBooking = async (booking: Booking) => {
+    try {
+      await deleteBooking(booking.id);
+      setToast({ message: t.bookings.deleted, type: 'success' });
+      onClientUpdated?.();
+    } catch (error) {
+      console.error('Error deleting booking:', error);
+      setToast({ message: t.bookings.deleteFailed, type: 'error' });
+    } finally {
+      setDeletingBooking(null);
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -108,6 +283,32 @@ export default function ClientDetails({
     return status === 'pending' && new Date(dueDate) < new Date();
   };
 
+  const userNames = Object.fromEntries(users.map((u) => [u.id, u.full_name]));
+
+  const handleRestore = async (version: ClientVersion) => {
+    try {
+      const { error } = await supabase.rpc('restore_client_version', { p_version_id: version.id });
+      if (error) throw error;
+
+      setToast({
+        message: t.history.restoreSuccess.replace('{version}', String(version.version_number)),
+        type: 'success',
+      });
+      onClientUpdated?.();
+    } catch (error) {
+      console.error('Error restoring client version:', error);
+      setToast({ message: t.history.restoreFailed, type: 'error' });
+    } finally {
+      setRestoreVersion(null);
+    }
+  };
+
+  const historyActionStyles = {
+    create: { label: t.history.created, className: 'bg-green-100 text-green-800' },
+    update: { label: t.history.updated, className: 'bg-blue-100 text-blue-800' },
+    delete: { label: t.history.deleted, className: 'bg-red-100 text-red-800' },
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm overflow-y-auto">
       <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full my-8">
@@ -126,7 +327,7 @@ export default function ClientDetails({
                 client.status
               )}`}
             >
-              {client.status}
+              {getStageLabel(stages, client.status, _language)}
             </span>
           </div>
           <button
@@ -159,7 +360,32 @@ export default function ClientDetails({
                     </div>
                     <div>
                       <p className="text-xs text-gray-500 font-medium">{t.clientInfo.destination}</p>
-                      <p className="font-semibold text-gray-900">{client.destination}</p>
+                      {itinerary.length === 0 ? (
+                        <p className="font-semibold text-gray-900">{client.destination}</p>
+                      ) : (
+                        <>
+                          <ol className="flex flex-wrap items-center gap-x-1.5 gap-y-1 font-semibold text-gray-900">
+                            {itinerary.map((stop, index) => (
+                              <li key={index} className="flex items-center gap-1.5">
+                                {index > 0 && <span className="text-gray-400 font-normal">→</span>}
+                                <span>
+                                  {stop.place}
+                                  {stop.nights !== null && (
+                                    <span className="text-xs text-gray-500 font-normal">
+                                      {' '}({t.trip.nights.replace('{count}', String(stop.nights))})
+                                    </span>
+                                  )}
+                                </span>
+                              </li>
+                            ))}
+                          </ol>
+                          {itinerary.length > 1 && getItineraryNights(itinerary) !== null && (
+                            <p className="text-xs text-gray-500">
+                              {t.itinerary.totalNights.replace('{count}', String(getItineraryNights(itinerary)))}
+                            </p>
+                          )}
+                        </>
+                      )}
                     </div>
                   </div>
 
@@ -179,7 +405,7 @@ export default function ClientDetails({
                     </div>
                     <div>
                       <p className="text-xs text-gray-500 font-medium">{t.clientInfo.price}</p>
-                      <p className="font-semibold text-gray-900">{formatPrice(client.price)}</p>
+                      <p className="font-semibold text-gray-900">{formatMoney(client.price, client.currency)}</p>
                     </div>
                   </div>
 
@@ -206,9 +432,302 @@ export default function ClientDetails({
                       </p>
                     </div>
                   </div>
+
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+                      <UserCheck className="w-5 h-5 text-indigo-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-gray-500 font-medium">{t.clientInfo.assignedTo}</p>
+                      {canReassign ? (
+                        <select
+                          value={assignedTo || ''}
+                          onChange={(e) => handleReassign(e.target.value)}
+                          disabled={reassigning}
+                          aria-label={t.clientInfo.reassign}
+                          className="mt-0.5 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm font-semibold text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                        >
+                          <option value="">{t.clientInfo.unassigned}</option>
+                          {users.map((user) => (
+                            <option key={user.id} value={user.id}>
+                              {user.full_name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <p className="font-semibold text-gray-900">
+                          {assignedTo ? getUserName(assignedTo) : t.clientInfo.unassigned}
+                        </p>
+                      )}
+                      {client.routing_reason && (
+                        <p className="text-xs text-gray-500 mt-1" title={t.clientInfo.routingReason}>
+                          {t.clientInfo.routingReason}: {client.routing_reason}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center">
+                      <UserIcon className="w-5 h-5 text-gray-600" />
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 font-medium">{t.clientInfo.createdBy}</p>
+                      <p className="font-semibold text-gray-900">{getUserName(client.created_by)}</p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center">
+                      <Inbox className="w-5 h-5 text-gray-600" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-xs text-gray-500 font-medium">{t.sources.label}</p>
+                      <p className="font-semibold text-gray-900">{getSourceLabel(client.source || 'unknown', _language)}</p>
+                      {client.source_detail && (
+                        <p className="text-xs text-gray-500 truncate" title={client.source_detail}>
+                          {client.source_detail}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs text-gray-500 font-medium">{t.tags.title}</p>
+                    {canEdit && (
+                      <button
+                        onClick={() => setEditingTags((editing) => !editing)}
+                        className="text-xs font-semibold text-blue-600 hover:text-blue-800"
+                      >
+                        {editingTags ? t.tags.done : t.tags.editTags}
+                      </button>
+                    )}
+                  </div>
+                  {editingTags ? (
+                    <TagPicker
+                      tags={tags}
+                      selectedIds={selectedTagIds}
+                      onChange={handleTagsChange}
+                      onTagsChanged={onTagsChanged}
+                      language={_language}
+                    />
+                  ) : selectedTagIds.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t.tags.noTags}</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1.5">
+                      {tags
+                        .filter((tag) => selectedTagIds.includes(tag.id))
+                        .map((tag) => (
+                          <TagBadge key={tag.id} tag={tag} />
+                        ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
+              <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+                <h3 className="text-lg font-bold text-gray-800 mb-4">{t.trip.title}</h3>
+                {!hasTripDetails(client) ? (
+                  <p className="text-gray-500 text-sm">{t.trip.noDetails}</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 bg-sky-100 rounded-lg flex items-center justify-center">
+                        <Plane className="w-5 h-5 text-sky-600" />
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500 font-medium">{t.trip.travelDates}</p>
+                        <p className="font-semibold text-gray-900">
+                          {client.travel_start_date ? formatTripDate(client.travel_start_date) : t.trip.notSet}
+                          {' – '}
+                          {client.travel_end_date ? formatTripDate(client.travel_end_date) : t.trip.notSet}
+                        </p>
+                        {getTripNights(client) !== null && (
+                          <p className="text-xs text-gray-500">
+                            {t.trip.nights.replace('{count}', String(getTripNights(client)))}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+                        <Users className="w-5 h-5 text-indigo-600" />
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500 font-medium">{t.trip.travellers}</p>
+                        <p className="font-semibold text-gray-900">
+                          {client.adults === null && client.children === null
+                            ? t.trip.notSet
+                            : [
+                                client.adults !== null && t.trip.adultsCount.replace('{count}', String(client.adults)),
+                                client.children !== null && t.trip.childrenCount.replace('{count}', String(client.children)),
+                              ]
+                                .filter(Boolean)
+                                .join(', ')}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center">
+                        <Hotel className="w-5 h-5 text-amber-600" />
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500 font-medium">{t.trip.hotelClass}</p>
+                        <p className="font-semibold text-gray-900">
+                          {client.hotel_class ? t.trip.stars.replace('{count}', String(client.hotel_class)) : t.trip.anyHotel}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-start gap-3">
+                      <div className="w-10 h-10 bg-teal-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                        <ConciergeBell className="w-5 h-5 text-teal-600" />
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500 font-medium">{t.trip.services}</p>
+                        {client.services.length === 0 ? (
+                          <p className="font-semibold text-gray-900">{t.trip.notSet}</p>
+                        ) : (
+                          <div className="flex flex-wrap gap-1.5 mt-1">
+                            {client.services.map((service) => (
+                              <span key={service} className="px-2.5 py-0.5 bg-teal-50 text-teal-800 rounded-full text-xs font-medium">
+                                {service}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-bold text-gray-800">{t.bookings.title} ({bookings.length})</h3>
+                  {canEdit && (
+                    <button
+                      onClick={() => setBookingForm({ booking: null })}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all duration-200 text-sm font-semibold"
+                    >
+                      <Plus className="w-4 h-4" />
+                      {t.bookings.addBooking}
+                    </button>
+                  )}
+                </div>
+
+                {bookings.length === 0 ? (
+                  <div className="text-center py-8 bg-gray-50 rounded-lg">
+                    <Briefcase className="w-12 h-12 text-gray-300 mx-auto mb-2" />
+                    <p className="text-gray-500">{t.bookings.noBookings}</p>
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-3">
+                      {bookings.map((booking) => (
+                        <div
+                          key={booking.id}
+                          className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 bg-gray-50 rounded-lg border border-gray-200"
+                        >
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <span className="font-semibold text-gray-900">{booking.destination}</span>
+                              <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full border ${getStatusColor(booking.status)}`}>
+                                {getStageLabel(stages, booking.status, _language)}
+                              </span>
+                              {booking.is_primary && (
+                                <span
+                                  className="px-2.5 py-0.5 text-xs font-medium rounded-full bg-blue-50 text-blue-700"
+                                  title={t.bookings.primaryHint}
+                                >
+                                  {t.bookings.primary}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {formatMoney(booking.price, booking.currency)}
+                              {(booking.travel_start_date || booking.travel_end_date) &&
+                                ` · ${booking.travel_start_date ? formatTripDate(booking.travel_start_date) : t.trip.notSet} – ${
+                                  booking.travel_end_date ? formatTripDate(booking.travel_end_date) : t.trip.notSet
+                                }`}
+                              {booking.booked_at &&
+                                ` · ${t.bookings.bookedOn.replace('{date}', formatTaskDate(booking.booked_at))}`}
+                            </p>
+                          </div>
+                          {canEdit && !booking.is_primary && (
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                              <button
+                                onClick={() => setBookingForm({ booking })}
+                                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200"
+                                aria-label={t.bookings.editBooking}
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => setDeletingBooking(booking)}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200"
+                                aria-label={t.bookings.deleteTitle}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
+                      <span className="text-sm font-medium text-gray-700">{t.bookings.totalBooked}</span>
+                      <div className="text-right">
+                        <span className="text-lg font-bold text-gray-900">
+                          {formatMoney(bookedValue.total, getBaseCurrency(currencies))}
+                        </span>
+                        {bookedValue.unconverted > 0 && (
+                          <p className="text-xs text-gray-500">
+                            {t.bookings.withoutRate.replace('{count}', String(bookedValue.unconverted))}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <TravelGroupCard
+                key={client.id}
+                client={client}
+                clients={clients}
+                travelGroups={travelGroups}
+                groupMembers={groupMembers}
+                bookings={allBookings}
+                stages={stages}
+                currencies={currencies}
+                canEdit={canEdit}
+                onChanged={() => onClientUpdated?.()}
+                onViewClient={onViewClient}
+                onError={(message) => setToast({ message, type: 'error' })}
+                language={_language}
+              />
+
+              {customFields.length > 0 && (
+                <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+                  <h3 className="text-lg font-bold text-gray-800 mb-4">{t.customFields.title}</h3>
+                  <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {customFields.map((field) => (
+                      <div key={field.key}>
+                        <dt className="text-xs text-gray-500 font-medium">{getCustomFieldLabel(field, _language)}</dt>
+                        <dd className="font-semibold text-gray-900 break-words">
+                          {formatCustomFieldValue(field, client.custom_fields?.[field.key]) || t.trip.notSet}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+
               <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-bold text-gray-800">{t.notes.title} ({notes.length})</h3>
@@ -250,13 +769,15 @@ export default function ClientDetails({
               <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
                 <h3 className="text-lg font-bold text-gray-800 mb-4">{t.quickActions.title}</h3>
                 <div className="space-y-3">
-                  <button
-                    onClick={() => onEdit(client)}
-                    className="w-full flex items-center gap-3 px-4 py-3 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-all duration-200 font-semibold"
-                  >
-                    <Edit2 className="w-5 h-5" />
-                    {t.quickActions.editClient}
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => onEdit(client)}
+                      className="w-full flex items-center gap-3 px-4 py-3 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-all duration-200 font-semibold"
+                    >
+                      <Edit2 className="w-5 h-5" />
+                      {t.quickActions.editClient}
+                    </button>
+                  )}
                   <button
                     onClick={onAddNote}
                     className="w-full flex items-center gap-3 px-4 py-3 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-all duration-200 font-semibold"
@@ -271,13 +792,15 @@ export default function ClientDetails({
                     <CheckSquare className="w-5 h-5" />
                     {t.tasks.createTask}
                   </button>
-                  <button
-                    onClick={() => onDelete(client.id)}
-                    className="w-full flex items-center gap-3 px-4 py-3 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 transition-all duration-200 font-semibold"
-                  >
-                    <Trash2 className="w-5 h-5" />
-                    {t.quickActions.deleteClient}
-                  </button>
+                  {canDelete && (
+                    <button
+                      onClick={() => onDelete(client.id)}
+                      className="w-full flex items-center gap-3 px-4 py-3 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 transition-all duration-200 font-semibold"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                      {t.quickActions.deleteClient}
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -335,6 +858,186 @@ export default function ClientDetails({
             </div>
           </div>
 
+          <div className="bg-white border-2 border-gray-200 rounded-xl p-6 mb-6">
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2 mb-4">
+              <Layers className="w-5 h-5 text-gray-600" />
+              {t.stageTimeline.title}
+            </h3>
+
+            {stageStays.length === 0 ? (
+              <p className="text-gray-500 text-sm">{t.stageTimeline.noHistory}</p>
+            ) : (
+              <div className="space-y-3">
+                {stageStays.map((stay) => (
+                  <div
+                    key={`${stay.status}-${stay.entered_at.toISOString()}`}
+                    className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 bg-gray-50 rounded-lg"
+                  >
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className={`px-3 py-1 text-xs font-semibold rounded-full border ${getStatusColor(stay.status)}`}>
+                        {getStageLabel(stages, stay.status, _language)}
+                      </span>
+                      {!stay.left_at && (
+                        <span className="text-xs font-semibold text-blue-700">{t.stageTimeline.current}</span>
+                      )}
+                      <span className="text-xs text-gray-500">
+                        {formatDate(stay.entered_at.toISOString())}
+                        {stay.changed_by_name && ` · ${t.stageTimeline.by} ${stay.changed_by_name}`}
+                      </span>
+                    </div>
+                    <span className="text-sm text-gray-700">
+                      {t.stageTimeline.timeInStage}: <strong>{formatStageDuration(stay.duration_ms)}</strong>
+                      {!stay.left_at && ` ${t.stageTimeline.soFar}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white border-2 border-gray-200 rounded-xl p-6 mb-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                <FileClock className="w-5 h-5 text-gray-600" />
+                {t.history.title}
+              </h3>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-semibold"
+              >
+                {showHistory ? t.history.hide : t.history.show}
+              </button>
+            </div>
+
+            {showHistory && (
+              <div className="mt-4">
+                <div className="flex gap-2 border-b border-gray-200 mb-4">
+                  {([
+                    { id: 'activity', label: t.history.activityTab },
+                    { id: 'versions', label: `${t.history.versionsTab} (${versions.length})` },
+                  ] as const).map((tab) => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setHistoryTab(tab.id)}
+                      className={`px-4 py-2 text-sm font-medium border-b-2 transition-all ${
+                        historyTab === tab.id
+                          ? 'border-blue-600 text-blue-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-800'
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
+                </div>
+
+                {historyLoading ? (
+                  <div className="text-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                  </div>
+                ) : historyTab === 'activity' ? (
+                  history.length === 0 ? (
+                    <div className="text-center py-8 bg-gray-50 rounded-lg">
+                      <p className="text-gray-500">{t.history.noHistory}</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3 max-h-96 overflow-y-auto">
+                      {history.map((event) => (
+                        <div key={event.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                          <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span
+                                className={`px-2 py-0.5 text-xs font-semibold rounded-full ${historyActionStyles[event.action].className}`}
+                              >
+                                {historyActionStyles[event.action].label}
+                              </span>
+                              <span className="text-sm font-medium text-gray-800">
+                                {t.history[event.entity_type]}
+                                {event.entity_type !== 'client' && event.entity_label && `: ${event.entity_label}`}
+                              </span>
+                            </div>
+                            <span className="text-xs text-gray-500">
+                              {formatDate(event.created_at)} · {event.actor_name || t.history.system}
+                              {event.impersonator_name && ` (${t.history.via} ${event.impersonator_name})`}
+                            </span>
+                          </div>
+                          {event.action === 'update' &&
+                            getAuditChangeEntries(event.changes).map(([field, change]) => (
+                              <p key={field} className="text-sm text-gray-700">
+                                <strong>{formatAuditField(field)}:</strong>{' '}
+                                <span className="text-red-700 line-through">{formatAuditValue(change.old, userNames)}</span>
+                                {' → '}
+                                <span className="text-green-700">{formatAuditValue(change.new, userNames)}</span>
+                              </p>
+                            ))}
+                        </div>
+                      ))}
+                    </div>
+                  )
+                ) : versions.length === 0 ? (
+                  <div className="text-center py-8 bg-gray-50 rounded-lg">
+                    <p className="text-gray-500">{t.history.noVersions}</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {versions.map((version, index) => {
+                      // Versions are newest first, so the previous revision is the next entry
+                      const previous = versions[index + 1];
+                      return (
+                        <div key={version.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                          <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-200 text-gray-800">
+                                {t.history.version} {version.version_number}
+                              </span>
+                              {index === 0 && (
+                                <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                                  {t.history.current}
+                                </span>
+                              )}
+                              {version.restored_from_version && (
+                                <span className="text-xs text-gray-500">
+                                  {t.history.restoredFrom} {version.restored_from_version}
+                                </span>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <span className="text-xs text-gray-500">
+                                {formatDate(version.created_at)} · {version.created_by_name || t.history.system}
+                              </span>
+                              {canRestore && index > 0 && (
+                                <button
+                                  onClick={() => setRestoreVersion(version)}
+                                  className="flex items-center gap-1 px-2 py-1 text-xs font-semibold text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-all duration-200"
+                                >
+                                  <RotateCcw className="w-3 h-3" />
+                                  {t.history.restore}
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                          {!previous ? (
+                            <p className="text-sm text-gray-500">{t.history.initialVersion}</p>
+                          ) : (
+                            version.changed_fields.map((field) => (
+                              <p key={field} className="text-sm text-gray-700">
+                                <strong>{formatAuditField(field)}:</strong>{' '}
+                                <span className="text-red-700 line-through">
+                                  {formatAuditValue(previous.data[field], userNames)}
+                                </span>
+                                {' → '}
+                                <span className="text-green-700">{formatAuditValue(version.data[field], userNames)}</span>
+                              </p>
+                            ))
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
           <div className="flex justify-end pt-4 border-t">
             <button
               onClick={onClose}
@@ -345,6 +1048,52 @@ export default function ClientDetails({
           </div>
         </div>
       </div>
+
+      {bookingForm && (
+        <BookingForm
+          booking={bookingForm.booking}
+          client={client}
+          stages={stages}
+          currencies={currencies}
+          onSave={handleSaveBooking}
+          onClose={() => setBookingForm(null)}
+          language={_language}
+        />
+      )}
+
+      {deletingBooking && (
+        <ConfirmDialog
+          title={t.bookings.deleteTitle}
+          message={t.bookings.deleteConfirm}
+          confirmText={t.actions.delete}
+          cancelText={t.actions.cancel}
+          onConfirm={() => handleDeleteBooking(deletingBooking)}
+          onCancel={() => setDeletingBooking(null)}
+          language={_language}
+        />
+      )}
+
+      {restoreVersion && (
+        <ConfirmDialog
+          title={t.history.restoreTitle}
+          message={t.history.restoreMessage.replace('{version}', String(restoreVersion.version_number))}
+          confirmText={t.history.restoreConfirm}
+          cancelText={t.actions.cancel}
+          type="warning"
+          onConfirm={() => handleRestore(restoreVersion)}
+          onCancel={() => setRestoreVersion(null)}
+          language={_language}
+        />
+      )}
+
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+          language={_language}
+        />
+      )}
     </div>
   );
 }
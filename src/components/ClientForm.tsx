@@ -1,59 +1,89 @@
 import { useState, useEffect } from 'react';
-import { X } from 'lucide-react';
-import { Client, ClientFormData, ClientStatus } from '../types/client';
+import { X, Plus, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import { Client, ClientFormData, ItineraryStop } from '../types/client';
+import { PipelineStage } from '../types/pipeline';
+import { Currency } from '../types/currency';
+import { Tag } from '../types/tag';
+import { CustomField } from '../types/customField';
 import { translations } from '../lib/translations';
+import { getEntryStage } from '../lib/pipeline';
+import { getBaseCurrency } from '../lib/currency';
+import { canonicalizePlace, formatItinerary, getClientItinerary } from '../lib/destinations';
+import TagPicker from './TagPicker';
+import { EMPTY_TRIP_DETAILS, HOTEL_CLASSES, SERVICE_SUGGESTIONS, normalizeServices } from '../lib/tripDetails';
+import { getCustomFieldLabel, normalizeCustomFieldValue, setCustomFieldValue } from '../lib/customFields';
+
+const COUNT_FIELDS = ['adults', 'children', 'hotel_class'];
+
+const EMPTY_STOP: ItineraryStop = { place: '', nights: null };
 
 interface ClientFormProps {
   client: Client | null;
   onSave: (data: ClientFormData) => void;
   onClose: () => void;
   language: 'EN' | 'AR';
+  stages: PipelineStage[];
+  currencies: Currency[];
+  tags: Tag[];
+  // Current tags of `client`
+  tagIds: string[];
+  onTagsChanged: () => void;
+  customFields: CustomField[];
 }
 
-const STATUS_OPTIONS: ClientStatus[] = [
-  'New Lead',
-  'Contacted',
-  'Interested',
-  'Not Interested',
-  'Booked',
-];
-
-export default function ClientForm({ client, onSave, onClose, language }: ClientFormProps) {
+export default function ClientForm({
+  client,
+  onSave,
+  onClose,
+  language,
+  stages,
+  currencies,
+  tags,
+  tagIds,
+  onTagsChanged,
+  customFields,
+}: ClientFormProps) {
   const t = translations[language];
   const [formData, setFormData] = useState<ClientFormData>({
     name: '',
     phone_number: '',
     destination: '',
-    status: 'New Lead',
+    itinerary: [EMPTY_STOP],
+    status: getEntryStage(stages)?.key || '',
     price: 0,
+    currency: getBaseCurrency(currencies),
     country: '',
+    ...EMPTY_TRIP_DETAILS,
+    custom_fields: {},
+    tag_ids: [],
   });
+  const [serviceInput, setServiceInput] = useState('');
 
   const [errors, setErrors] = useState<Partial<Record<keyof ClientFormData, string>>>({});
 
   useEffect(() => {
     if (client) {
+      const itinerary = getClientItinerary(client);
       setFormData({
         name: client.name,
         phone_number: client.phone_number,
         destination: client.destination,
+        itinerary: itinerary.length > 0 ? itinerary : [EMPTY_STOP],
         status: client.status,
         price: client.price,
+        currency: client.currency,
         country: client.country,
+        travel_start_date: client.travel_start_date,
+        travel_end_date: client.travel_end_date,
+        adults: client.adults,
+        children: client.children,
+        hotel_class: client.hotel_class,
+        services: client.services || [],
+        custom_fields: client.custom_fields || {},
+        tag_ids: tagIds,
       });
     }
-  }, [client]);
-
-  const getStatusTranslation = (status: ClientStatus) => {
-    const statusMap: Record<ClientStatus, keyof typeof t.statuses> = {
-      'New Lead': 'newLead',
-      'Contacted': 'contacted',
-      'Interested': 'interested',
-      'Not Interested': 'notInterested',
-      'Booked': 'booked',
-    };
-    return t.statuses[statusMap[status]];
-  };
+  }, [client, tagIds]);
 
   const validateForm = (): boolean => {
     const newErrors: Partial<Record<keyof ClientFormData, string>> = {};
@@ -64,7 +94,7 @@ export default function ClientForm({ client, onSave, onClose, language }: Client
     if (!formData.phone_number.trim()) {
       newErrors.phone_number = `${t.fields.phoneNumber} is required`;
     }
-    if (!formData.destination.trim()) {
+    if (!formData.itinerary.some((stop) => stop.place.trim())) {
       newErrors.destination = `${t.fields.destination} is required`;
     }
     if (!formData.country.trim()) {
@@ -73,6 +103,19 @@ export default function ClientForm({ client, onSave, onClose, language }: Client
     if (formData.price < 0) {
       newErrors.price = `${t.fields.price} must be a positive number`;
     }
+    if (
+      formData.travel_start_date &&
+      formData.travel_end_date &&
+      formData.travel_end_date < formData.travel_start_date
+    ) {
+      newErrors.travel_end_date = t.trip.endBeforeStart;
+    }
+    if (formData.adults !== null && formData.adults < 0) {
+      newErrors.adults = t.trip.invalidCount;
+    }
+    if (formData.children !== null && formData.children < 0) {
+      newErrors.children = t.trip.invalidCount;
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -81,7 +124,21 @@ export default function ClientForm({ client, onSave, onClose, language }: Client
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validateForm()) {
-      onSave(formData);
+      const itinerary = formData.itinerary
+        .filter((stop) => stop.place.trim())
+        .map((stop) => ({ place: canonicalizePlace(stop.place), nights: stop.nights }));
+      onSave({
+        ...formData,
+        itinerary,
+        destination: formatItinerary(itinerary),
+        // A service typed but not yet added with Enter is still saved
+        services: normalizeServices([...formData.services, serviceInput]),
+        // Inputs are kept as typed and converted to their field type here
+        custom_fields: customFields.reduce(
+          (values, field) => setCustomFieldValue(values, field.key, normalizeCustomFieldValue(field, values[field.key])),
+          formData.custom_fields
+        ),
+      });
     }
   };
 
@@ -89,15 +146,71 @@ export default function ClientForm({ client, onSave, onClose, language }: Client
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
+    let parsedValue: string | number | null = value;
+    if (name === 'price') {
+      parsedValue = parseFloat(value) || 0;
+    } else if (COUNT_FIELDS.includes(name)) {
+      parsedValue = value === '' ? null : parseInt(value, 10);
+    } else if (name === 'travel_start_date' || name === 'travel_end_date') {
+      parsedValue = value || null;
+    }
     setFormData((prev) => ({
       ...prev,
-      [name]: name === 'price' ? parseFloat(value) || 0 : value,
+      [name]: parsedValue,
     }));
     if (errors[name as keyof ClientFormData]) {
       setErrors((prev) => ({ ...prev, [name]: undefined }));
     }
   };
 
+  const handleCustomFieldChange = (field: CustomField, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      custom_fields: setCustomFieldValue(prev.custom_fields, field.key, value || null),
+    }));
+  };
+
+  const updateStop = (index: number, changes: Partial<ItineraryStop>) => {
+    setFormData((prev) => ({
+      ...prev,
+      itinerary: prev.itinerary.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)),
+    }));
+    if (errors.destination) {
+      setErrors((prev) => ({ ...prev, destination: undefined }));
+    }
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    setFormData((prev) => {
+      const itinerary = [...prev.itinerary];
+      [itinerary[index], itinerary[index + offset]] = [itinerary[index + offset], itinerary[index]];
+      return { ...prev, itinerary };
+    });
+  };
+
+  const removeStop = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      itinerary: prev.itinerary.length > 1 ? prev.itinerary.filter((_, i) => i !== index) : [EMPTY_STOP],
+    }));
+  };
+
+  const addService = (service: string) => {
+    setFormData((prev) => ({ ...prev, services: normalizeServices([...prev.services, service]) }));
+    setServiceInput('');
+  };
+
+  const removeService = (service: string) => {
+    setFormData((prev) => ({ ...prev, services: prev.services.filter((s) => s !== service) }));
+  };
+
+  const handleServiceKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (serviceInput.trim()) addService(serviceInput);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm" dir={language === 'AR' ? 'rtl' : 'ltr'}>
       <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -154,17 +267,74 @@ export default function ClientForm({ client, onSave, onClose, language }: Client
             <label htmlFor="destination" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
               {t.fields.destination} <span className="text-red-500">*</span>
             </label>
-            <input
-              type="text"
-              id="destination"
-              name="destination"
-              value={formData.destination}
-              onChange={handleChange}
-              className={`w-full px-4 py-3 md:py-2.5 border rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
-                errors.destination ? 'border-red-500' : 'border-gray-300'
-              }`}
-              placeholder={t.placeholders.enterDestination}
-            />
+            <div className="space-y-2">
+              {formData.itinerary.map((stop, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-6 h-6 flex-shrink-0 rounded-full bg-blue-100 text-blue-700 text-xs font-semibold flex items-center justify-center">
+                    {index + 1}
+                  </span>
+                  <input
+                    type="text"
+                    id={index === 0 ? 'destination' : undefined}
+                    value={stop.place}
+                    onChange={(e) => updateStop(index, { place: e.target.value })}
+                    aria-label={`${t.itinerary.place} ${index + 1}`}
+                    className={`flex-1 min-w-0 px-4 py-3 md:py-2.5 border rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                      errors.destination ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                    placeholder={t.placeholders.enterDestination}
+                  />
+                  <input
+                    type="number"
+                    value={stop.nights ?? ''}
+                    onChange={(e) =>
+                      updateStop(index, { nights: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value, 10) || 0) })
+                    }
+                    min="0"
+                    step="1"
+                    aria-label={`${t.itinerary.nights} ${index + 1}`}
+                    className="w-20 px-3 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    placeholder={t.itinerary.nights}
+                  />
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => moveStop(index, -1)}
+                      disabled={index === 0}
+                      className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                      aria-label={t.itinerary.moveUp}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveStop(index, 1)}
+                      disabled={index === formData.itinerary.length - 1}
+                      className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                      aria-label={t.itinerary.moveDown}
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeStop(index)}
+                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    aria-label={t.itinerary.removeStop}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setFormData((prev) => ({ ...prev, itinerary: [...prev.itinerary, EMPTY_STOP] }))}
+              className="mt-2 inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4" />
+              {t.itinerary.addStop}
+            </button>
             {errors.destination && <p className="mt-1 text-xs md:text-sm text-red-600">{errors.destination}</p>}
           </div>
 
@@ -197,9 +367,9 @@ export default function ClientForm({ client, onSave, onClose, language }: Client
               onChange={handleChange}
               className="w-full px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
             >
-              {STATUS_OPTIONS.map((status) => (
-                <option key={status} value={status}>
-                  {getStatusTranslation(status)}
+              {stages.map((stage) => (
+                <option key={stage.key} value={stage.key}>
+                  {language === 'AR' ? stage.label_ar : stage.label_en}
                 </option>
               ))}
             </select>
@@ -209,8 +379,7 @@ export default function ClientForm({ client, onSave, onClose, language }: Client
             <label htmlFor="price" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
               {t.fields.price}
             </label>
-            <div className="relative">
-              <span className={`absolute ${language === 'AR' ? 'right-4' : 'left-4'} top-1/2 -translate-y-1/2 text-gray-500`}>$</span>
+            <div className="flex gap-2">
               <input
                 type="number"
                 id="price"
@@ -219,15 +388,236 @@ export default function ClientForm({ client, onSave, onClose, language }: Client
                 onChange={handleChange}
                 min="0"
                 step="0.01"
-                className={`w-full ${language === 'AR' ? 'pr-8 pl-4' : 'pl-8 pr-4'} py-3 md:py-2.5 border rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                className={`flex-1 min-w-0 px-4 py-3 md:py-2.5 border rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
                   errors.price ? 'border-red-500' : 'border-gray-300'
                 }`}
                 placeholder={t.placeholders.enterPrice}
               />
+              <select
+                id="currency"
+                name="currency"
+                value={formData.currency}
+                onChange={handleChange}
+                aria-label={t.fields.currency}
+                className="w-28 px-3 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+              >
+                {/* Keeps the current value visible if the currency list failed to load */}
+                {!currencies.some((currency) => currency.code === formData.currency) && (
+                  <option value={formData.currency}>{formData.currency}</option>
+                )}
+                {currencies.map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </option>
+                ))}
+              </select>
             </div>
             {errors.price && <p className="mt-1 text-xs md:text-sm text-red-600">{errors.price}</p>}
           </div>
 
+          <div>
+            <p className="block text-xs md:text-sm font-medium text-gray-700 mb-2">{t.tags.title}</p>
+            <TagPicker
+              tags={tags}
+              selectedIds={formData.tag_ids}
+              onChange={(ids) => setFormData((prev) => ({ ...prev, tag_ids: ids }))}
+              onTagsChanged={onTagsChanged}
+              language={language}
+            />
+          </div>
+
+          <div className="pt-4 border-t space-y-4">
+            <h3 className="text-sm md:text-base font-semibold text-gray-800">{t.trip.title}</h3>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="travel_start_date" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                  {t.trip.startDate}
+                </label>
+                <input
+                  type="date"
+                  id="travel_start_date"
+                  name="travel_start_date"
+                  value={formData.travel_start_date || ''}
+                  onChange={handleChange}
+                  className="w-full px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                />
+              </div>
+              <div>
+                <label htmlFor="travel_end_date" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                  {t.trip.endDate}
+                </label>
+                <input
+                  type="date"
+                  id="travel_end_date"
+                  name="travel_end_date"
+                  value={formData.travel_end_date || ''}
+                  min={formData.travel_start_date || undefined}
+                  onChange={handleChange}
+                  className={`w-full px-4 py-3 md:py-2.5 border rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                    errors.travel_end_date ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.travel_end_date && <p className="mt-1 text-xs md:text-sm text-red-600">{errors.travel_end_date}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="adults" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                  {t.trip.adults}
+                </label>
+                <input
+                  type="number"
+                  id="adults"
+                  name="adults"
+                  value={formData.adults ?? ''}
+                  onChange={handleChange}
+                  min="0"
+                  step="1"
+                  className={`w-full px-4 py-3 md:py-2.5 border rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                    errors.adults ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.adults && <p className="mt-1 text-xs md:text-sm text-red-600">{errors.adults}</p>}
+              </div>
+              <div>
+                <label htmlFor="children" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                  {t.trip.children}
+                </label>
+                <input
+                  type="number"
+                  id="children"
+                  name="children"
+                  value={formData.children ?? ''}
+                  onChange={handleChange}
+                  min="0"
+                  step="1"
+                  className={`w-full px-4 py-3 md:py-2.5 border rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                    errors.children ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.children && <p className="mt-1 text-xs md:text-sm text-red-600">{errors.children}</p>}
+              </div>
+              <div>
+                <label htmlFor="hotel_class" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                  {t.trip.hotelClass}
+                </label>
+                <select
+                  id="hotel_class"
+                  name="hotel_class"
+                  value={formData.hotel_class ?? ''}
+                  onChange={handleChange}
+                  className="w-full px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                >
+                  <option value="">{t.trip.anyHotel}</option>
+                  {HOTEL_CLASSES.map((stars) => (
+                    <option key={stars} value={stars}>
+                      {t.trip.stars.replace('{count}', String(stars))}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="service_input" className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                {t.trip.services}
+              </label>
+              {formData.services.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {formData.services.map((service) => (
+                    <span
+                      key={service}
+                      className="inline-flex items-center gap-1 px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium"
+                    >
+                      {service}
+                      <button
+                        type="button"
+                        onClick={() => removeService(service)}
+                        className="hover:text-blue-950"
+                        aria-label={`${t.actions.delete} ${service}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <input
+                type="text"
+                id="service_input"
+                value={serviceInput}
+                onChange={(e) => setServiceInput(e.target.value)}
+                onKeyDown={handleServiceKeyDown}
+                className="w-full px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder={t.trip.addService}
+              />
+              <div className="flex flex-wrap gap-2 mt-2">
+                {SERVICE_SUGGESTIONS.filter(
+                  (suggestion) => !formData.services.some((s) => s.toLowerCase() === suggestion.toLowerCase())
+                ).map((suggestion) => (
+                  <button
+                    key={suggestion}
+                    type="button"
+                    onClick={() => addService(suggestion)}
+                    className="inline-flex items-center gap-1 px-2.5 py-1 border border-gray-300 text-gray-600 rounded-full text-xs hover:bg-gray-100 transition-colors"
+                  >
+                    <Plus className="w-3 h-3" />
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {customFields.length > 0 && (
+            <div className="pt-4 border-t space-y-4">
+              <h3 className="text-sm md:text-base font-semibold text-gray-800">{t.customFields.title}</h3>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {customFields.map((field) => {
+                  const id = `custom_field_${field.key}`;
+                  const value = formData.custom_fields[field.key] ?? '';
+                  const inputClassName =
+                    'w-full px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200';
+
+                  return (
+                    <div key={field.key}>
+                      <label htmlFor={id} className="block text-xs md:text-sm font-medium text-gray-700 mb-2">
+                        {getCustomFieldLabel(field, language)}
+                      </label>
+                      {field.field_type === 'select' ? (
+                        <select
+                          id={id}
+                          value={value}
+                          onChange={(e) => handleCustomFieldChange(field, e.target.value)}
+                          className={inputClassName}
+                        >
+                          <option value="">{t.customFields.chooseOption}</option>
+                          {field.options.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type={field.field_type}
+                          id={id}
+                          value={value}
+                          onChange={(e) => handleCustomFieldChange(field, e.target.value)}
+                          step={field.field_type === 'number' ? 'any' : undefined}
+                          className={inputClassName}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           <div className={`flex flex-col sm:flex-row gap-3 pt-4 border-t ${language === 'AR' ? 'flex-row-reverse' : ''}`}>
             <button
               type="submit"
@@ -1,34 +1,18 @@
 import { Edit2, Trash2 } from 'lucide-react';
 import { Client } from '../types/client';
+import { PipelineStage } from '../types/pipeline';
+import { getStageColors, getStageLabel } from '../lib/pipeline';
+import { formatMoney } from '../lib/currency';
 
 interface ClientListProps {
   clients: Client[];
   onEdit: (client: Client) => void;
   onDelete: (id: string) => void;
+  stages: PipelineStage[];
 }
 
-export default function ClientList({ clients, onEdit, onDelete }: ClientListProps) {
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Booked':
-        return 'bg-green-100 text-green-800 border-green-300';
-      case 'Interested':
-        return 'bg-blue-100 text-blue-800 border-blue-300';
-      case 'Contacted':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-300';
-      case 'Not Interested':
-        return 'bg-red-100 text-red-800 border-red-300';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-300';
-    }
-  };
-
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(price);
-  };
+export default function ClientList({ clients, onEdit, onDelete, stages }: ClientListProps) {
+  const getStatusColor = (status: string) => getStageColors(stages, status).badge;
 
   if (clients.length === 0) {
     return (
@@ -62,10 +46,10 @@ export default function ClientList({ clients, onEdit, onDelete }: ClientListProp
                 <td className="px-6 py-4 text-sm text-gray-700">{client.country}</td>
                 <td className="px-6 py-4">
                   <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(client.status)}`}>
-                    {client.status}
+                    {getStageLabel(stages, client.status)}
                   </span>
                 </td>
-                <td className="px-6 py-4 text-sm font-semibold text-gray-900">{formatPrice(client.price)}</td>
+                <td className="px-6 py-4 text-sm font-semibold text-gray-900">{formatMoney(client.price, client.currency)}</td>
                 <td className="px-6 py-4">
                   <div className="flex items-center justify-center gap-2">
                     <button
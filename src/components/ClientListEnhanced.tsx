@@ -1,10 +1,22 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Edit2, Trash2, Search, X, Download, MessageSquare, Loader2, ChevronLeft, ChevronRight, Check, CheckSquare } from 'lucide-react';
+import { Edit2, Trash2, Search, X, Download, MessageSquare, Loader2, ChevronLeft, ChevronRight, Check, CheckSquare, Tag as TagIcon } from 'lucide-react';
 import { Client } from '../types/client';
+import { PipelineStage } from '../types/pipeline';
+import { Currency } from '../types/currency';
+import { Tag } from '../types/tag';
+import { CustomField } from '../types/customField';
 import { translations } from '../lib/translations';
-import { supabase } from '../lib/supabase';
+import { getStageColors, getStageLabel } from '../lib/pipeline';
+import { convertToBase, formatMoney } from '../lib/currency';
+import { canonicalizePlace, formatItinerary, getClientItinerary, getClientPlaces } from '../lib/destinations';
+import { LEAD_SOURCES, getSourceLabel } from '../lib/leadSource';
+import { addTagToClients, removeTagFromClients } from '../lib/tags';
+import { formatCustomFieldValue, getCustomFieldLabel, getListCustomFields } from '../lib/customFields';
+import { supabase, UserSummary } from '../lib/supabase';
 import Toast from './Toast';
 import ConfirmDialog from './ConfirmDialog';
+import TagBadge from './TagBadge';
+import TagPicker from './TagPicker';
 
 interface ClientListEnhancedProps {
   clients: Client[];
@@ -13,23 +25,41 @@ interface ClientListEnhancedProps {
   onViewNotes: (client: Client) => void;
   onViewDetails: (client: Client) => void;
   language: 'EN' | 'AR';
-  isAdmin: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  users: UserSummary[];
+  currentUserId: string;
+  stages: PipelineStage[];
+  currencies: Currency[];
+  tags: Tag[];
+  // Tag ids per client id
+  clientTagIds: Record<string, string[]>;
+  onClientTagsChanged: () => void;
+  customFields: CustomField[];
 }
 
+type OwnerFilter = 'all' | 'mine';
+
 type SortOption = 'name-asc' | 'name-desc' | 'price-high' | 'price-low' | 'date-new' | 'date-old';
 
 const ITEMS_PER_PAGE = 20;
 
-export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNotes, onViewDetails, language, isAdmin }: ClientListEnhancedProps) {
+export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNotes, onViewDetails, language, canEdit, canDelete, users, currentUserId, stages, currencies, tags, clientTagIds, onClientTagsChanged, customFields }: ClientListEnhancedProps) {
   const t = translations[language];
   const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
   const [countryFilter, setCountryFilter] = useState('All');
+  const [destinationFilter, setDestinationFilter] = useState('All');
+  const [sourceFilter, setSourceFilter] = useState('All');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [ownerFilter, setOwnerFilter] = useState<OwnerFilter>('all');
   const [sortOption, setSortOption] = useState<SortOption>('date-new');
   const [currentPage, setCurrentPage] = useState(1);
   const [isSearching, setIsSearching] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTagId, setBulkTagId] = useState('');
+  const [isTagging, setIsTagging] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [confirmDialog, setConfirmDialog] = useState<{
     show: boolean;
@@ -51,28 +81,21 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
 
   useEffect(() => {
     setCurrentPage(1);
-  }, [statusFilter, countryFilter, sortOption]);
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Booked':
-        return 'bg-green-100 text-green-800 border-green-300';
-      case 'Interested':
-        return 'bg-blue-100 text-blue-800 border-blue-300';
-      case 'Contacted':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-300';
-      case 'Not Interested':
-        return 'bg-red-100 text-red-800 border-red-300';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-300';
-    }
+  }, [statusFilter, countryFilter, destinationFilter, sourceFilter, tagFilter, ownerFilter, sortOption]);
+
+  const getStatusColor = (status: string) => getStageColors(stages, status).badge;
+
+
+  const listFields = getListCustomFields(customFields);
+
+  const getClientTags = (clientId: string) => {
+    const tagIds = clientTagIds[clientId] || [];
+    return tags.filter((tag) => tagIds.includes(tag.id));
   };
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(price);
+  const getUserName = (userId: string | null) => {
+    if (!userId) return '';
+    return users.find((u) => u.id === userId)?.full_name || '';
   };
 
   const uniqueCountries = useMemo(
@@ -80,19 +103,44 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
     [clients]
   );
 
+  // Every stop of every itinerary, so multi-city trips list each place once
+  const uniqueDestinations = useMemo(
+    () => Array.from(new Set(clients.flatMap((client) => getClientPlaces(client)))).sort(),
+    [clients]
+  );
+
   const filteredAndSortedClients = useMemo(() => {
+    const search = debouncedSearch.toLowerCase();
+    // "اسطنبول" finds clients going to Istanbul
+    const searchPlace = canonicalizePlace(debouncedSearch).toLowerCase();
+
     const filtered = clients.filter(client => {
+      const places = getClientPlaces(client);
       const matchesSearch =
-        client.name.toLowerCase().includes(debouncedSearch.toLowerCase()) ||
-        client.destination.toLowerCase().includes(debouncedSearch.toLowerCase()) ||
-        client.country.toLowerCase().includes(debouncedSearch.toLowerCase());
+        client.name.toLowerCase().includes(search) ||
+        client.destination.toLowerCase().includes(search) ||
+        places.some((place) => place.toLowerCase().includes(search) || place.toLowerCase() === searchPlace) ||
+        client.country.toLowerCase().includes(search);
 
       const matchesStatus = statusFilter === 'All' || client.status === statusFilter;
       const matchesCountry = countryFilter === 'All' || client.country === countryFilter;
-
-      return matchesSearch && matchesStatus && matchesCountry;
+      const matchesDestination = destinationFilter === 'All' || places.includes(destinationFilter);
+      const matchesSource = sourceFilter === 'All' || (client.source || 'unknown') === sourceFilter;
+      // Clients must have every selected tag
+      const matchesTags = tagFilter.every((tagId) => (clientTagIds[client.id] || []).includes(tagId));
+      // A client is "mine" when assigned to me, or unassigned and created by me
+      const matchesOwner =
+        ownerFilter === 'all' ||
+        client.assigned_to === currentUserId ||
+        (!client.assigned_to && client.created_by === currentUserId);
+
+      return matchesSearch && matchesStatus && matchesCountry && matchesDestination && matchesSource && matchesTags && matchesOwner;
     });
 
+    // Prices in different currencies are compared in the base currency when a rate is known
+    const getComparablePrice = (client: Client) =>
+      convertToBase(client.price, client.currency, currencies) ?? client.price;
+
     const sorted = [...filtered].sort((a, b) => {
       switch (sortOption) {
         case 'name-asc':
@@ -100,9 +148,9 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
         case 'name-desc':
           return b.name.localeCompare(a.name);
         case 'price-high':
-          return b.price - a.price;
+          return getComparablePrice(b) - getComparablePrice(a);
         case 'price-low':
-          return a.price - b.price;
+          return getComparablePrice(a) - getComparablePrice(b);
         case 'date-new':
           return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
         case 'date-old':
@@ -113,7 +161,7 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
     });
 
     return sorted;
-  }, [clients, debouncedSearch, statusFilter, countryFilter, sortOption]);
+  }, [clients, debouncedSearch, statusFilter, countryFilter, destinationFilter, sourceFilter, tagFilter, ownerFilter, sortOption, currentUserId, currencies, clientTagIds]);
 
   const totalPages = Math.ceil(filteredAndSortedClients.length / ITEMS_PER_PAGE);
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
@@ -156,12 +204,16 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
     setDebouncedSearch('');
     setStatusFilter('All');
     setCountryFilter('All');
+    setDestinationFilter('All');
+    setSourceFilter('All');
+    setTagFilter([]);
+    setOwnerFilter('all');
     setSortOption('date-new');
     setCurrentPage(1);
   };
 
   const handleExportCSV = () => {
-    const headers = ['Name', 'Phone', 'Destination', 'Country', 'Status', 'Price', 'Created At'];
+    const headers = ['Name', 'Phone', 'Destination', 'Country', 'Status', 'Price', 'Currency', 'Source', 'Source Detail', 'Tags', 'Assigned To', 'Created At', ...customFields.map((field) => field.label_en)];
     const rows = filteredAndSortedClients.map(client => [
       client.name,
       client.phone_number,
@@ -169,7 +221,14 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
       client.country,
       client.status,
       client.price.toString(),
-      new Date(client.created_at).toLocaleDateString()
+      client.currency,
+      getSourceLabel(client.source || 'unknown'),
+      client.source_detail || '',
+      getClientTags(client.id).map((tag) => tag.name).join('; '),
+      getUserName(client.assigned_to),
+      new Date(client.created_at).toLocaleDateString(),
+      // Raw values, so numbers and dates stay machine-readable
+      ...customFields.map((field) => String(client.custom_fields?.[field.key] ?? ''))
     ]);
 
     const csvContent = [
@@ -186,7 +245,7 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
     window.URL.revokeObjectURL(url);
   };
 
-  const hasActiveFilters = searchTerm || statusFilter !== 'All' || countryFilter !== 'All' || sortOption !== 'date-new';
+  const hasActiveFilters = searchTerm || statusFilter !== 'All' || countryFilter !== 'All' || destinationFilter !== 'All' || sourceFilter !== 'All' || tagFilter.length > 0 || ownerFilter !== 'all' || sortOption !== 'date-new';
 
   const handlePreviousPage = () => {
     setCurrentPage((prev) => Math.max(prev - 1, 1));
@@ -268,6 +327,33 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
     });
   };
 
+  const handleBulkTag = async (action: 'tag' | 'untag') => {
+    if (!bulkTagId) return;
+
+    const idsArray = Array.from(selectedIds);
+    setIsTagging(true);
+    try {
+      if (action === 'tag') {
+        await addTagToClients(bulkTagId, idsArray);
+      } else {
+        await removeTagFromClients(bulkTagId, idsArray);
+      }
+      setToast({
+        message: (action === 'tag' ? t.tags.tagged : t.tags.untagged).replace('{count}', String(idsArray.length)),
+        type: 'success'
+      });
+      onClientTagsChanged();
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      setToast({
+        message: (error as { message?: string }).message || t.tags.saveFailed,
+        type: 'error'
+      });
+    } finally {
+      setIsTagging(false);
+    }
+  };
+
   const handleSelectAllVisible = () => {
     // Check if all filtered clients are selected
     const allFilteredIds = new Set(filteredAndSortedClients.map(c => c.id));
@@ -292,7 +378,7 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
   return (
     <div className="space-y-4" dir={language === 'AR' ? 'rtl' : 'ltr'}>
       <div className="bg-white rounded-xl shadow-lg p-3 md:p-5">
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 md:gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
           <div className="sm:col-span-2 lg:col-span-2">
             <div className="relative">
               <Search className={`absolute ${language === 'AR' ? 'right-3' : 'left-3'} top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400`} />
@@ -315,11 +401,11 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
             className="px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
           >
             <option value="All">{t.filters.allStatuses}</option>
-            <option value="New Lead">{t.statuses.newLead}</option>
-            <option value="Contacted">{t.statuses.contacted}</option>
-            <option value="Interested">{t.statuses.interested}</option>
-            <option value="Not Interested">{t.statuses.notInterested}</option>
-            <option value="Booked">{t.statuses.booked}</option>
+            {stages.map((stage) => (
+              <option key={stage.key} value={stage.key}>
+                {language === 'AR' ? stage.label_ar : stage.label_en}
+              </option>
+            ))}
           </select>
 
           <select
@@ -333,6 +419,37 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
             ))}
           </select>
 
+          <select
+            value={destinationFilter}
+            onChange={(e) => setDestinationFilter(e.target.value)}
+            className="px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          >
+            <option value="All">{t.itinerary.allDestinations}</option>
+            {uniqueDestinations.map((destination) => (
+              <option key={destination} value={destination}>{destination}</option>
+            ))}
+          </select>
+
+          <select
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value)}
+            className="px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          >
+            <option value="All">{t.sources.allSources}</option>
+            {LEAD_SOURCES.map((source) => (
+              <option key={source} value={source}>{getSourceLabel(source, language)}</option>
+            ))}
+          </select>
+
+          <select
+            value={ownerFilter}
+            onChange={(e) => setOwnerFilter(e.target.value as OwnerFilter)}
+            className="px-4 py-3 md:py-2.5 border border-gray-300 rounded-xl text-base md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          >
+            <option value="all">{t.filters.allClients}</option>
+            <option value="mine">{t.filters.myClients}</option>
+          </select>
+
           <select
             value={sortOption}
             onChange={(e) => setSortOption(e.target.value as SortOption)}
@@ -347,6 +464,23 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
           </select>
         </div>
 
+        {tags.length > 0 && (
+          <div className="mt-4">
+            <div className={`flex items-center justify-between mb-2 ${language === 'AR' ? 'flex-row-reverse' : ''}`}>
+              <p className="text-xs font-medium text-gray-500" title={t.tags.matchAll}>{t.tags.filterByTags}</p>
+              {tagFilter.length > 0 && (
+                <button
+                  onClick={() => setTagFilter([])}
+                  className="text-xs font-semibold text-blue-600 hover:text-blue-800"
+                >
+                  {t.tags.clearTags}
+                </button>
+              )}
+            </div>
+            <TagPicker tags={tags} selectedIds={tagFilter} onChange={setTagFilter} canCreate={false} language={language} />
+          </div>
+        )}
+
         <div className={`flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mt-4 ${language === 'AR' ? 'flex-row-reverse' : ''}`}>
           <div className={`flex flex-col sm:flex-row sm:items-center gap-2 w-full sm:w-auto ${language === 'AR' ? 'flex-row-reverse' : ''}`}>
             {hasActiveFilters && (
@@ -404,13 +538,45 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                 <CheckSquare className="w-4 h-4" />
                 {filteredAndSortedClients.every(c => selectedIds.has(c.id)) ? 'Deselect All' : 'Select All'}
               </button>
-              <button
-                onClick={handleDeleteSelected}
-                className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold transition-all duration-200 hover:scale-105 shadow-lg"
-              >
-                <Trash2 className="w-4 h-4" />
-                Delete Selected
-              </button>
+              {canEdit && tags.length > 0 && (
+                <div className={`flex items-center gap-2 ${language === 'AR' ? 'flex-row-reverse' : ''}`}>
+                  <select
+                    value={bulkTagId}
+                    onChange={(e) => setBulkTagId(e.target.value)}
+                    className="px-3 py-2 rounded-lg text-sm text-gray-900 border border-white/30"
+                  >
+                    <option value="">{t.tags.chooseTag}</option>
+                    {tags.map((tag) => (
+                      <option key={tag.id} value={tag.id}>{tag.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleBulkTag('tag')}
+                    disabled={!bulkTagId || isTagging}
+                    className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg font-semibold transition-all duration-200 shadow-lg border border-white/30 disabled:opacity-50"
+                  >
+                    <TagIcon className="w-4 h-4" />
+                    {t.tags.tagSelected}
+                  </button>
+                  <button
+                    onClick={() => handleBulkTag('untag')}
+                    disabled={!bulkTagId || isTagging}
+                    className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg font-semibold transition-all duration-200 shadow-lg border border-white/30 disabled:opacity-50"
+                  >
+                    <X className="w-4 h-4" />
+                    {t.tags.untagSelected}
+                  </button>
+                </div>
+              )}
+              {canDelete && (
+                <button
+                  onClick={handleDeleteSelected}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold transition-all duration-200 hover:scale-105 shadow-lg"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete Selected
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -454,6 +620,11 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                     <th className="px-6 py-4 text-left text-sm font-semibold">{t.fields.country}</th>
                     <th className="px-6 py-4 text-left text-sm font-semibold">{t.fields.status}</th>
                     <th className="px-6 py-4 text-left text-sm font-semibold">{t.fields.price}</th>
+                    {listFields.map((field) => (
+                      <th key={field.key} className="px-6 py-4 text-left text-sm font-semibold">
+                        {getCustomFieldLabel(field, language)}
+                      </th>
+                    ))}
                     <th className="px-6 py-4 text-center text-sm font-semibold">{t.actions.edit}</th>
                   </tr>
                 </thead>
@@ -481,6 +652,13 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                         className="px-6 py-4 text-sm font-medium text-gray-900 cursor-pointer"
                       >
                         {client.name}
+                        {getClientTags(client.id).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {getClientTags(client.id).map((tag) => (
+                              <TagBadge key={tag.id} tag={tag} />
+                            ))}
+                          </div>
+                        )}
                       </td>
                       <td
                         onClick={() => onViewDetails(client)}
@@ -492,7 +670,7 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                         onClick={() => onViewDetails(client)}
                         className="px-6 py-4 text-sm text-gray-700"
                       >
-                        {client.destination}
+                        {formatItinerary(getClientItinerary(client), ' → ') || client.destination}
                       </td>
                       <td
                         onClick={() => onViewDetails(client)}
@@ -505,15 +683,24 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                         className="px-6 py-4"
                       >
                         <span className={`inline-flex px-3 py-1.5 rounded-full text-xs font-semibold border shadow-sm ${getStatusColor(client.status)}`}>
-                          {client.status}
+                          {getStageLabel(stages, client.status, language)}
                         </span>
                       </td>
                       <td
                         onClick={() => onViewDetails(client)}
                         className="px-6 py-4 text-sm font-semibold text-gray-900"
                       >
-                        {formatPrice(client.price)}
+                        {formatMoney(client.price, client.currency)}
                       </td>
+                      {listFields.map((field) => (
+                        <td
+                          key={field.key}
+                          onClick={() => onViewDetails(client)}
+                          className="px-6 py-4 text-sm text-gray-700"
+                        >
+                          {formatCustomFieldValue(field, client.custom_fields?.[field.key]) || '—'}
+                        </td>
+                      ))}
                       <td className="px-6 py-4">
                         <div className="flex items-center justify-center gap-2">
                           <button
@@ -526,26 +713,30 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                           >
                             <MessageSquare className="w-4 h-4" />
                           </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              onEdit(client);
-                            }}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 hover:scale-110"
-                            title="Edit client"
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              onDelete(client.id);
-                            }}
-                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 hover:scale-110"
-                            title="Delete client"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
+                          {canEdit && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onEdit(client);
+                              }}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 hover:scale-110"
+                              title="Edit client"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                          )}
+                          {canDelete && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onDelete(client.id);
+                              }}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 hover:scale-110"
+                              title="Delete client"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -582,17 +773,24 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                     <div className="flex-1 min-w-0" onClick={() => onViewDetails(client)}>
                       <h3 className="text-base font-semibold text-gray-900 truncate">{client.name}</h3>
                       <p className="text-xs text-gray-500 mt-0.5 truncate">{client.phone_number}</p>
+                      {getClientTags(client.id).length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {getClientTags(client.id).map((tag) => (
+                            <TagBadge key={tag.id} tag={tag} />
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <span className={`ml-2 inline-flex px-2.5 py-1 rounded-full text-xs font-semibold border flex-shrink-0 ${getStatusColor(client.status)}`}>
-                    {client.status}
+                    {getStageLabel(stages, client.status, language)}
                   </span>
                 </div>
 
                 <div className="space-y-2 mb-3 cursor-pointer" onClick={() => onViewDetails(client)}>
                   <div>
                     <p className="text-xs text-gray-600">Destination</p>
-                    <p className="text-sm font-medium text-gray-900">{client.destination}</p>
+                    <p className="text-sm font-medium text-gray-900">{formatItinerary(getClientItinerary(client), ' → ') || client.destination}</p>
                   </div>
                   <div className="flex justify-between">
                     <div>
@@ -601,9 +799,17 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                     </div>
                     <div className="text-right">
                       <p className="text-xs text-gray-600">Price</p>
-                      <p className="text-sm font-semibold text-blue-600">{formatPrice(client.price)}</p>
+                      <p className="text-sm font-semibold text-blue-600">{formatMoney(client.price, client.currency)}</p>
                     </div>
                   </div>
+                  {listFields.map((field) => (
+                    <div key={field.key}>
+                      <p className="text-xs text-gray-600">{getCustomFieldLabel(field, language)}</p>
+                      <p className="text-sm font-medium text-gray-900">
+                        {formatCustomFieldValue(field, client.custom_fields?.[field.key]) || '—'}
+                      </p>
+                    </div>
+                  ))}
                 </div>
 
                 <div className="flex items-center justify-between gap-2 pt-2 border-t">
@@ -626,26 +832,30 @@ export default function ClientListEnhanced({ clients, onEdit, onDelete, onViewNo
                   >
                     <MessageSquare className="w-4 h-4" />
                   </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onEdit(client);
-                    }}
-                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200"
-                    title="Edit client"
-                  >
-                    <Edit2 className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onDelete(client.id);
-                    }}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200"
-                    title="Delete client"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onEdit(client);
+                      }}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200"
+                      title="Edit client"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDelete(client.id);
+                      }}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200"
+                      title="Delete client"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -0,0 +1,413 @@
+import { useState } from 'react';
+import { Plus, Edit2, Trash2, X, ListPlus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { CUSTOM_FIELD_TYPES, parseCustomFieldOptions, toCustomFieldKey } from '../lib/customFields';
+import { Client } from '../types/client';
+import { CustomField, CustomFieldFormData, CustomFieldType } from '../types/customField';
+import Toast from './Toast';
+import ConfirmDialog from './ConfirmDialog';
+
+interface CustomFieldsProps {
+  fields: CustomField[];
+  clients: Client[];
+  onChanged: () => void;
+  language?: 'EN' | 'AR';
+}
+
+const EMPTY_FORM: CustomFieldFormData = {
+  key: '',
+  label_en: '',
+  label_ar: '',
+  field_type: 'text',
+  options: '',
+  position: 100,
+  show_in_list: false,
+};
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+};
+
+export default function CustomFields({ fields, clients, onChanged, language = 'EN' }: CustomFieldsProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [formData, setFormData] = useState<CustomFieldFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof CustomFieldFormData, string>>>({});
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmDialog, setConfirmDialog] = useState<{
+    show: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+  } | null>(null);
+
+  const valueCounts = clients.reduce((acc, client) => {
+    Object.keys(client.custom_fields || {}).forEach((key) => {
+      acc[key] = (acc[key] || 0) + 1;
+    });
+    return acc;
+  }, {} as Record<string, number>);
+
+  const validateForm = (): boolean => {
+    const errors: Partial<Record<keyof CustomFieldFormData, string>> = {};
+
+    if (!editingField) {
+      const key = formData.key.trim();
+      if (!key) {
+        errors.key = 'Field key is required';
+      } else if (!/^[a-z][a-z0-9_]*$/.test(key)) {
+        errors.key = 'Use lower case letters, digits and underscores, starting with a letter';
+      } else if (fields.some((field) => field.key === key)) {
+        errors.key = 'A field with this key already exists';
+      }
+    }
+    if (!formData.label_en.trim()) {
+      errors.label_en = 'English label is required';
+    }
+    if (!formData.label_ar.trim()) {
+      errors.label_ar = 'Arabic label is required';
+    }
+    if (formData.field_type === 'select' && parseCustomFieldOptions(formData.options).length === 0) {
+      errors.options = 'Add at least one option';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const payload = {
+      label_en: formData.label_en.trim(),
+      label_ar: formData.label_ar.trim(),
+      options: formData.field_type === 'select' ? parseCustomFieldOptions(formData.options) : [],
+      position: formData.position,
+      show_in_list: formData.show_in_list,
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      if (editingField) {
+        const { error } = await supabase.from('custom_fields').update(payload).eq('key', editingField.key);
+
+        if (error) throw error;
+        setToast({ message: 'Field updated successfully!', type: 'success' });
+      } else {
+        const { error } = await supabase
+          .from('custom_fields')
+          .insert([{ ...payload, key: formData.key.trim(), field_type: formData.field_type }]);
+
+        if (error) throw error;
+        setToast({ message: 'Field created successfully!', type: 'success' });
+      }
+
+      handleCloseForm();
+      onChanged();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      setToast({ message: (error as { message?: string }).message || 'Failed to save field', type: 'error' });
+    }
+  };
+
+  const handleEdit = (field: CustomField) => {
+    setEditingField(field);
+    setFormData({
+      key: field.key,
+      label_en: field.label_en,
+      label_ar: field.label_ar,
+      field_type: field.field_type,
+      options: field.options.join('\n'),
+      position: field.position,
+      show_in_list: field.show_in_list,
+    });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  const handleDelete = (field: CustomField) => {
+    setConfirmDialog({
+      show: true,
+      title: 'Delete Field',
+      message: `Are you sure you want to delete "${field.label_en}"? Client values are kept, but hidden until a field with the key "${field.key}" is added again.`,
+      onConfirm: async () => {
+        try {
+          const { error } = await supabase.from('custom_fields').delete().eq('key', field.key);
+
+          if (error) throw error;
+          setToast({ message: 'Field deleted successfully!', type: 'success' });
+          onChanged();
+        } catch (error) {
+          console.error('Error deleting custom field:', error);
+          setToast({ message: (error as { message?: string }).message || 'Failed to delete field', type: 'error' });
+        } finally {
+          setConfirmDialog(null);
+        }
+      },
+    });
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingField(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+  };
+
+  const inputClassName = (field: keyof CustomFieldFormData) =>
+    `w-full px-4 py-2.5 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+      formErrors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Custom Fields</h3>
+          <p className="text-gray-600 text-sm mt-1">
+            Extra client details shown in the client form, client view and CSV export, and read from imports
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white px-5 py-2.5 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+        >
+          <Plus className="w-5 h-5" />
+          Add Field
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-4 border border-gray-200">
+        {fields.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <ListPlus className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600 font-medium text-lg">No custom fields yet</p>
+            <p className="text-gray-500 text-sm mt-1">Add fields such as passport number or preferred airline</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {fields.map((field) => (
+              <div
+                key={field.key}
+                className="rounded-xl border-2 p-4 bg-white border-gray-200 hover:border-blue-300 transition-all duration-200"
+              >
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-semibold rounded-full">
+                        #{field.position}
+                      </span>
+                      <span className="font-semibold text-gray-900">{field.label_en}</span>
+                      <span className="text-sm text-gray-600" dir="rtl">
+                        {field.label_ar}
+                      </span>
+                      <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded-full">
+                        {TYPE_LABELS[field.field_type]}
+                      </span>
+                      {field.show_in_list && (
+                        <span className="px-2 py-0.5 bg-green-100 text-green-800 text-xs font-semibold rounded-full">
+                          List column
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Key <code className="text-gray-800">{field.key}</code> · {valueCounts[field.key] || 0} clients with a value
+                      {field.field_type === 'select' && ` · ${field.options.join(', ')}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleEdit(field)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 hover:scale-110"
+                      title="Edit field"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(field)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 hover:scale-110"
+                      title="Delete field"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white px-6 py-5 flex items-center justify-between rounded-t-2xl sticky top-0">
+              <h2 className="text-xl font-bold">{editingField ? 'Edit Field' : 'Add Field'}</h2>
+              <button
+                onClick={handleCloseForm}
+                className="p-1.5 hover:bg-blue-800 rounded-lg transition-all duration-200 hover:scale-110"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  English Label <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.label_en}
+                  onChange={(e) => {
+                    // The key follows the label until it is edited by hand
+                    const followsLabel = !editingField && formData.key === toCustomFieldKey(formData.label_en);
+                    setFormData({
+                      ...formData,
+                      label_en: e.target.value,
+                      key: followsLabel ? toCustomFieldKey(e.target.value) : formData.key,
+                    });
+                    if (formErrors.label_en) setFormErrors({ ...formErrors, label_en: undefined });
+                  }}
+                  className={inputClassName('label_en')}
+                  placeholder="Passport Number"
+                />
+                {formErrors.label_en && <p className="mt-1 text-sm text-red-600">{formErrors.label_en}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Arabic Label <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  dir="rtl"
+                  value={formData.label_ar}
+                  onChange={(e) => {
+                    setFormData({ ...formData, label_ar: e.target.value });
+                    if (formErrors.label_ar) setFormErrors({ ...formErrors, label_ar: undefined });
+                  }}
+                  className={inputClassName('label_ar')}
+                  placeholder="رقم جواز السفر"
+                />
+                {formErrors.label_ar && <p className="mt-1 text-sm text-red-600">{formErrors.label_ar}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Key <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.key}
+                  disabled={!!editingField}
+                  onChange={(e) => {
+                    setFormData({ ...formData, key: e.target.value });
+                    if (formErrors.key) setFormErrors({ ...formErrors, key: undefined });
+                  }}
+                  className={`${inputClassName('key')} disabled:bg-gray-100 disabled:text-gray-500`}
+                  placeholder="passport_number"
+                />
+                {formErrors.key && <p className="mt-1 text-sm text-red-600">{formErrors.key}</p>}
+                <p className="mt-1 text-xs text-gray-500">Used in imports and stored on each client; cannot be changed later</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                  <select
+                    value={formData.field_type}
+                    disabled={!!editingField}
+                    onChange={(e) => setFormData({ ...formData, field_type: e.target.value as CustomFieldType })}
+                    className={`${inputClassName('field_type')} disabled:bg-gray-100 disabled:text-gray-500`}
+                  >
+                    {CUSTOM_FIELD_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Position</label>
+                  <input
+                    type="number"
+                    value={formData.position}
+                    onChange={(e) => setFormData({ ...formData, position: parseInt(e.target.value, 10) || 0 })}
+                    className={inputClassName('position')}
+                  />
+                </div>
+              </div>
+
+              {formData.field_type === 'select' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Options <span className="text-red-500">*</span>
+                  </label>
+                  <textarea
+                    value={formData.options}
+                    onChange={(e) => {
+                      setFormData({ ...formData, options: e.target.value });
+                      if (formErrors.options) setFormErrors({ ...formErrors, options: undefined });
+                    }}
+                    rows={4}
+                    className={inputClassName('options')}
+                    placeholder={'Economy\nStandard\nPremium'}
+                  />
+                  {formErrors.options && <p className="mt-1 text-sm text-red-600">{formErrors.options}</p>}
+                  <p className="mt-1 text-xs text-gray-500">One option per line</p>
+                </div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.show_in_list}
+                  onChange={(e) => setFormData({ ...formData, show_in_list: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                Show as a column in the client list
+              </label>
+
+              <div className="flex gap-3 pt-4 border-t">
+                <button
+                  type="submit"
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-2.5 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+                >
+                  {editingField ? 'Save Changes' : 'Create Field'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseForm}
+                  className="flex-1 bg-gray-200 text-gray-800 py-2.5 px-6 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200 hover:scale-105"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} language={language} />}
+
+      {confirmDialog && (
+        <ConfirmDialog
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          onConfirm={confirmDialog.onConfirm}
+          onCancel={() => setConfirmDialog(null)}
+          language={language}
+        />
+      )}
+    </div>
+  );
+}
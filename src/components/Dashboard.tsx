@@ -1,6 +1,9 @@
 import { memo } from 'react';
 import { Sparkles } from 'lucide-react';
-import { Client } from '../types/client';
+import { Client, ClientStatusChange } from '../types/client';
+import { Booking } from '../types/booking';
+import { PipelineStage } from '../types/pipeline';
+import { Currency } from '../types/currency';
 import { translations } from '../lib/translations';
 import StatisticsCards from './StatisticsCards';
 import ChartsSection from './ChartsSection';
@@ -8,10 +11,14 @@ import ActivityFeed from './ActivityFeed';
 
 interface DashboardProps {
   clients: Client[];
+  bookings: Booking[];
   language?: 'EN' | 'AR';
+  stages: PipelineStage[];
+  statusHistory: ClientStatusChange[];
+  currencies: Currency[];
 }
 
-function Dashboard({ clients, language = 'EN' }: DashboardProps) {
+function Dashboard({ clients, bookings, language = 'EN', stages, statusHistory, currencies }: DashboardProps) {
   const t = translations[language];
 
   if (clients.length === 0) {
@@ -59,19 +66,19 @@ function Dashboard({ clients, language = 'EN' }: DashboardProps) {
         </div>
       </div>
 
-      <StatisticsCards clients={clients} language={language} />
+      <StatisticsCards clients={clients} bookings={bookings} language={language} stages={stages} currencies={currencies} />
 
-      <ChartsSection clients={clients} />
+      <ChartsSection clients={clients} bookings={bookings} stages={stages} />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
         <div className="lg:col-span-2">
-          <ActivityFeed clients={clients} />
+          <ActivityFeed clients={clients} stages={stages} statusHistory={statusHistory} />
         </div>
 
         <div className="bg-white rounded-2xl shadow-lg p-4 md:p-6 border border-gray-200">
           <h3 className="text-base md:text-lg font-bold text-gray-800 mb-3 md:mb-4">{t.emptyStates.quickStats}</h3>
           <div className="space-y-3 md:space-y-4">
-            {getQuickStats(clients, language).map((stat) => (
+            {getQuickStats(clients, bookings, stages, language).map((stat) => (
               <div key={stat.label} className="flex items-center justify-between p-2 md:p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
                 <span className="text-xs md:text-sm font-medium text-gray-700">{stat.label}</span>
                 <span className="text-base md:text-lg font-bold text-blue-600">{stat.value}</span>
@@ -84,20 +91,19 @@ function Dashboard({ clients, language = 'EN' }: DashboardProps) {
   );
 }
 
-function getQuickStats(clients: Client[], language: 'EN' | 'AR' = 'EN') {
+function getQuickStats(clients: Client[], bookings: Booking[], stages: PipelineStage[], language: 'EN' | 'AR' = 'EN') {
   const t = translations[language];
-  const statusCounts = clients.reduce((acc, client) => {
-    acc[client.status] = (acc[client.status] || 0) + 1;
+  const statusCounts = bookings.reduce((acc, booking) => {
+    acc[booking.status] = (acc[booking.status] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
   return [
     { label: t.emptyStates.totalClients, value: clients.length },
-    { label: t.emptyStates.booked, value: statusCounts['Booked'] || 0 },
-    { label: t.emptyStates.interested, value: statusCounts['Interested'] || 0 },
-    { label: t.emptyStates.contacted, value: statusCounts['Contacted'] || 0 },
-    { label: t.emptyStates.notInterested, value: statusCounts['Not Interested'] || 0 },
-    { label: t.emptyStates.newLeads, value: statusCounts['New Lead'] || 0 },
+    ...stages.map((stage) => ({
+      label: language === 'AR' ? stage.label_ar : stage.label_en,
+      value: statusCounts[stage.key] || 0,
+    })),
   ];
 }
 
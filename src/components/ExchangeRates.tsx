@@ -0,0 +1,370 @@
+import { useState } from 'react';
+import { Plus, Edit2, Trash2, X, Coins, Star } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { getBaseCurrency } from '../lib/currency';
+import { Client } from '../types/client';
+import { Currency, CurrencyFormData } from '../types/currency';
+import Toast from './Toast';
+import ConfirmDialog from './ConfirmDialog';
+
+interface ExchangeRatesProps {
+  currencies: Currency[];
+  clients: Client[];
+  onChanged: () => void;
+  language?: 'EN' | 'AR';
+}
+
+const EMPTY_FORM: CurrencyFormData = {
+  code: '',
+  name: '',
+  rate_to_base: '',
+};
+
+export default function ExchangeRates({ currencies, clients, onChanged, language = 'EN' }: ExchangeRatesProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [editingCurrency, setEditingCurrency] = useState<Currency | null>(null);
+  const [formData, setFormData] = useState<CurrencyFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof CurrencyFormData, string>>>({});
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmDialog, setConfirmDialog] = useState<{
+    show: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+  } | null>(null);
+
+  const baseCurrency = getBaseCurrency(currencies);
+
+  const clientCounts = clients.reduce((acc, client) => {
+    acc[client.currency] = (acc[client.currency] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  const validateForm = (): boolean => {
+    const errors: Partial<Record<keyof CurrencyFormData, string>> = {};
+    const code = formData.code.trim().toUpperCase();
+
+    if (!editingCurrency) {
+      if (!/^[A-Z]{3}$/.test(code)) {
+        errors.code = 'Use the three-letter ISO code, e.g. TRY';
+      } else if (currencies.some((currency) => currency.code === code)) {
+        errors.code = 'This currency already exists';
+      }
+    }
+    if (!formData.name.trim()) {
+      errors.name = 'Name is required';
+    }
+    if (formData.rate_to_base.trim() && !(Number(formData.rate_to_base) > 0)) {
+      errors.rate_to_base = 'Rate must be a positive number';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const payload = {
+      name: formData.name.trim(),
+      rate_to_base: editingCurrency?.is_base ? 1 : formData.rate_to_base.trim() ? Number(formData.rate_to_base) : null,
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      if (editingCurrency) {
+        const { error } = await supabase.from('currencies').update(payload).eq('code', editingCurrency.code);
+
+        if (error) throw error;
+        setToast({ message: 'Currency updated successfully!', type: 'success' });
+      } else {
+        const { error } = await supabase
+          .from('currencies')
+          .insert([{ ...payload, code: formData.code.trim().toUpperCase() }]);
+
+        if (error) throw error;
+        setToast({ message: 'Currency added successfully!', type: 'success' });
+      }
+
+      handleCloseForm();
+      onChanged();
+    } catch (error) {
+      console.error('Error saving currency:', error);
+      setToast({ message: (error as { message?: string }).message || 'Failed to save currency', type: 'error' });
+    }
+  };
+
+  const handleEdit = (currency: Currency) => {
+    setEditingCurrency(currency);
+    setFormData({
+      code: currency.code,
+      name: currency.name,
+      rate_to_base: currency.rate_to_base === null ? '' : String(currency.rate_to_base),
+    });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  const handleMakeBase = (currency: Currency) => {
+    setConfirmDialog({
+      show: true,
+      title: 'Change Base Currency',
+      message: `Make ${currency.code} the base currency? Reports will show totals in ${currency.code} and all rates are recalculated against it.`,
+      onConfirm: async () => {
+        try {
+          const { error } = await supabase.rpc('set_base_currency', { p_code: currency.code });
+
+          if (error) throw error;
+          setToast({ message: `${currency.code} is now the base currency`, type: 'success' });
+          onChanged();
+        } catch (error) {
+          console.error('Error changing base currency:', error);
+          setToast({ message: (error as { message?: string }).message || 'Failed to change base currency', type: 'error' });
+        } finally {
+          setConfirmDialog(null);
+        }
+      },
+    });
+  };
+
+  const handleDelete = (currency: Currency) => {
+    setConfirmDialog({
+      show: true,
+      title: 'Delete Currency',
+      message: `Are you sure you want to delete ${currency.code}? Currencies still used by clients or bookings cannot be deleted.`,
+      onConfirm: async () => {
+        try {
+          const { error } = await supabase.from('currencies').delete().eq('code', currency.code);
+
+          if (error) {
+            // clients_currency_fkey or bookings_currency_fkey: the currency is still in use
+            if (error.code === '23503') {
+              throw new Error('Clients or bookings still use this currency. Change their prices first.');
+            }
+            throw error;
+          }
+          setToast({ message: 'Currency deleted successfully!', type: 'success' });
+          onChanged();
+        } catch (error) {
+          console.error('Error deleting currency:', error);
+          setToast({ message: (error as { message?: string }).message || 'Failed to delete currency', type: 'error' });
+        } finally {
+          setConfirmDialog(null);
+        }
+      },
+    });
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingCurrency(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+  };
+
+  const inputClassName = (field: keyof CurrencyFormData) =>
+    `w-full px-4 py-2.5 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+      formErrors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Currencies</h3>
+          <p className="text-gray-600 text-sm mt-1">
+            Revenue totals are converted to {baseCurrency}. Prices in a currency without a rate are left out of totals
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white px-5 py-2.5 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+        >
+          <Plus className="w-5 h-5" />
+          Add Currency
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-4 border border-gray-200">
+        {currencies.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <Coins className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600 font-medium text-lg">No currencies yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {currencies.map((currency) => (
+              <div
+                key={currency.code}
+                className="rounded-xl border-2 p-4 bg-white border-gray-200 hover:border-blue-300 transition-all duration-200"
+              >
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-800 text-xs font-bold rounded-full">
+                        {currency.code}
+                      </span>
+                      <h4 className="font-semibold text-gray-900">{currency.name}</h4>
+                      {currency.is_base && (
+                        <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded-full">Base</span>
+                      )}
+                      {currency.rate_to_base === null && (
+                        <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 text-xs font-semibold rounded-full">
+                          No rate
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {currency.is_base
+                        ? 'All totals are shown in this currency'
+                        : currency.rate_to_base === null
+                        ? 'Not converted yet'
+                        : `1 ${currency.code} = ${currency.rate_to_base} ${baseCurrency}`}{' '}
+                      · {clientCounts[currency.code] || 0} clients
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {!currency.is_base && currency.rate_to_base !== null && (
+                      <button
+                        onClick={() => handleMakeBase(currency)}
+                        className="p-2 text-yellow-600 hover:bg-yellow-50 rounded-lg transition-all duration-200 hover:scale-110"
+                        title="Make base currency"
+                      >
+                        <Star className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleEdit(currency)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 hover:scale-110"
+                      title="Edit currency"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    {!currency.is_base && (
+                      <button
+                        onClick={() => handleDelete(currency)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 hover:scale-110"
+                        title="Delete currency"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white px-6 py-5 flex items-center justify-between rounded-t-2xl sticky top-0">
+              <h2 className="text-xl font-bold">{editingCurrency ? 'Edit Currency' : 'Add Currency'}</h2>
+              <button
+                onClick={handleCloseForm}
+                className="p-1.5 hover:bg-blue-800 rounded-lg transition-all duration-200 hover:scale-110"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Code <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  disabled={!!editingCurrency}
+                  maxLength={3}
+                  onChange={(e) => {
+                    setFormData({ ...formData, code: e.target.value.toUpperCase() });
+                    if (formErrors.code) setFormErrors({ ...formErrors, code: undefined });
+                  }}
+                  className={`${inputClassName('code')} uppercase disabled:bg-gray-100 disabled:text-gray-500`}
+                  placeholder="EGP"
+                />
+                {formErrors.code && <p className="mt-1 text-sm text-red-600">{formErrors.code}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => {
+                    setFormData({ ...formData, name: e.target.value });
+                    if (formErrors.name) setFormErrors({ ...formErrors, name: undefined });
+                  }}
+                  className={inputClassName('name')}
+                  placeholder="Egyptian Pound"
+                />
+                {formErrors.name && <p className="mt-1 text-sm text-red-600">{formErrors.name}</p>}
+              </div>
+
+              {!editingCurrency?.is_base && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Rate (1 {formData.code || 'unit'} in {baseCurrency})
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={formData.rate_to_base}
+                    onChange={(e) => {
+                      setFormData({ ...formData, rate_to_base: e.target.value });
+                      if (formErrors.rate_to_base) setFormErrors({ ...formErrors, rate_to_base: undefined });
+                    }}
+                    className={inputClassName('rate_to_base')}
+                    placeholder="0.032"
+                  />
+                  {formErrors.rate_to_base && <p className="mt-1 text-sm text-red-600">{formErrors.rate_to_base}</p>}
+                  <p className="mt-1 text-xs text-gray-500">Leave empty to keep this currency out of totals</p>
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-4 border-t">
+                <button
+                  type="submit"
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-2.5 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+                >
+                  {editingCurrency ? 'Save Changes' : 'Add Currency'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseForm}
+                  className="flex-1 bg-gray-200 text-gray-800 py-2.5 px-6 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200 hover:scale-105"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} language={language} />}
+
+      {confirmDialog && (
+        <ConfirmDialog
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          onConfirm={confirmDialog.onConfirm}
+          onCancel={() => setConfirmDialog(null)}
+          language={language}
+        />
+      )}
+    </div>
+  );
+}
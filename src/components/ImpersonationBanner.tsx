@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { UserCog, X } from 'lucide-react';
+import { Impersonation } from '../lib/supabase';
+import { translations } from '../lib/translations';
+
+interface ImpersonationBannerProps {
+  userName: string;
+  impersonation: Impersonation;
+  language: 'EN' | 'AR';
+  onStop: () => void;
+}
+
+// Shown on every screen while an admin is viewing the app as an agent
+export default function ImpersonationBanner({ userName, impersonation, language, onStop }: ImpersonationBannerProps) {
+  const t = translations[language].impersonation;
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const secondsLeft = Math.max(0, impersonation.expires_at - now);
+  const timeLeft = `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`;
+
+  return (
+    <div
+      className={`fixed bottom-0 inset-x-0 z-40 shadow-lg bg-teal-700 text-white px-4 md:px-8 py-2 flex flex-wrap items-center justify-between gap-2 ${language === 'AR' ? 'flex-row-reverse' : 'flex-row'}`}
+      role="status"
+    >
+      <div className={`flex flex-wrap items-center gap-2 text-sm ${language === 'AR' ? 'flex-row-reverse' : 'flex-row'}`}>
+        <UserCog className="w-4 h-4" />
+        <span>
+          {t.viewingAs} <strong>{userName}</strong> ({t.openedBy} {impersonation.impersonator_name})
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-teal-800 text-xs font-semibold">
+          {t.timeLeft}: {timeLeft}
+        </span>
+        <span className="text-xs text-teal-100">
+          {impersonation.allow_destructive ? t.destructiveAllowed : t.destructiveBlocked}
+        </span>
+      </div>
+      <button
+        onClick={onStop}
+        className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white text-teal-800 text-sm font-semibold hover:bg-teal-50 transition-all duration-200"
+      >
+        <X className="w-4 h-4" />
+        {t.stop}
+      </button>
+    </div>
+  );
+}
@@ -2,8 +2,21 @@ import { useState, useEffect } from 'react';
 import { Upload, Sparkles, CheckCircle, FileText, Loader2, Clock, AlertCircle, X } from 'lucide-react';
 import { detectCountryFromPhone } from '../lib/phoneCountryDetector';
 import { supabase } from '../lib/supabase';
+import { findStage } from '../lib/pipeline';
+import { formatMoney, getBaseCurrency } from '../lib/currency';
+import { parsePrice, ParsedPrice } from '../lib/priceParser';
+import { formatTripDate, normalizeTripDetails } from '../lib/tripDetails';
+import { formatItinerary, normalizeItinerary, parseItinerary } from '../lib/destinations';
+import { getFileSource } from '../lib/leadSource';
+import { formatCustomFieldValue, getCustomFieldLabel, normalizeCustomFieldValues } from '../lib/customFields';
+import { PipelineStage } from '../types/pipeline';
+import { Currency } from '../types/currency';
+import { CustomField } from '../types/customField';
 
 interface ImportClientsProps {
+  stages: PipelineStage[];
+  currencies: Currency[];
+  customFields: CustomField[];
   language: 'EN' | 'AR';
   onNavigateToClients: () => void;
 }
@@ -12,9 +25,17 @@ interface ExtractedLead {
   name: string;
   phone_number: string;
   destination: string;
+  destinations?: { place: string; nights: number | null }[];
   status: string;
   price: string;
   country?: string;
+  travel_start_date?: string | null;
+  travel_end_date?: string | null;
+  adults?: number | null;
+  children?: number | null;
+  hotel_class?: number | null;
+  services?: string[] | string;
+  custom_fields?: Record<string, unknown>;
 }
 
 interface BatchStatus {
@@ -27,9 +48,12 @@ interface BatchStatus {
   error_message: string | null;
 }
 
+// Placeholder the extraction functions use when no price was mentioned
+const NO_PRICE_TEXT = 'Not discussed';
+
 const N8N_WEBHOOK_URL = 'https://n8n.boticslab.com/webhook/extract-leads';
 
-export default function ImportClients({ language, onNavigateToClients }: ImportClientsProps) {
+export default function ImportClients({ stages, currencies, customFields, language, onNavigateToClients }: ImportClientsProps) {
   const [file, setFile] = useState<File | null>(null);
   const [extractedLeads, setExtractedLeads] = useState<ExtractedLead[]>([]);
   const [loading, setLoading] = useState(false);
@@ -65,6 +89,14 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
       noLeads: 'No leads with phone numbers found',
       fileTooLarge: 'File is too large. Please split into smaller files.',
       errorPrefix: 'Error: ',
+      batchErrors: {
+        unauthorized: 'Session expired. Please log in again.',
+        forbidden: 'You do not have permission to import clients.',
+        invalid_request: 'The file could not be sent for extraction.',
+        quota_exceeded: 'AI usage limit reached. Please try again later.',
+        upstream_error: 'The AI service is unavailable. Please try again later.',
+        server_error: 'Extraction failed. Please try again.',
+      },
       chunks: 'Chunks',
       leads: 'leads found',
       name: 'Name',
@@ -72,7 +104,11 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
       destination: 'Destination',
       status: 'Status',
       price: 'Price',
-      country: 'Country'
+      country: 'Country',
+      trip: 'Trip',
+      perPerson: 'per person',
+      keptAsNote: 'saved as a note',
+      priceNote: 'Price as written in the import'
     },
     AR: {
       title: 'استيراد العملاء من المحادثة',
@@ -95,6 +131,14 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
       noLeads: 'لم يتم العثور على عملاء محتملين بأرقام هواتف',
       fileTooLarge: 'الملف كبير جدًا. يرجى تقسيمه إلى ملفات أصغر.',
       errorPrefix: 'خطأ: ',
+      batchErrors: {
+        unauthorized: 'انتهت الجلسة. يرجى تسجيل الدخول مرة أخرى.',
+        forbidden: 'ليس لديك صلاحية استيراد العملاء.',
+        invalid_request: 'تعذر إرسال الملف للاستخراج.',
+        quota_exceeded: 'تم بلوغ حد استخدام الذكاء الاصطناعي. يرجى المحاولة لاحقًا.',
+        upstream_error: 'خدمة الذكاء الاصطناعي غير متاحة. يرجى المحاولة لاحقًا.',
+        server_error: 'فشل الاستخراج. يرجى المحاولة مرة أخرى.',
+      },
       chunks: 'أجزاء',
       leads: 'عملاء محتملين',
       name: 'الاسم',
@@ -102,12 +146,55 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
       destination: 'الوجهة',
       status: 'الحالة',
       price: 'السعر',
-      country: 'البلد'
+      country: 'البلد',
+      trip: 'الرحلة',
+      perPerson: 'للشخص',
+      keptAsNote: 'سيُحفظ كملاحظة',
+      priceNote: 'السعر كما ورد في الاستيراد'
     }
   };
 
   const t = texts[language];
 
+  // Only currencies in the currencies table can be stored on a client
+  const getKnownCurrency = (parsed: ParsedPrice | null) =>
+    parsed?.currency && currencies.some((c) => c.code === parsed.currency) ? parsed.currency : null;
+
+  // The original text is kept when the number alone would lose information
+  const needsPriceNote = (text: string, parsed: ParsedPrice | null) => {
+    if (!text?.trim() || text === NO_PRICE_TEXT) return false;
+    return (
+      !parsed ||
+      parsed.max_amount !== null ||
+      parsed.basis === 'per_person' ||
+      (parsed.currency !== null && !getKnownCurrency(parsed))
+    );
+  };
+
+  // Batches extracted before itineraries only have the joined destination text
+  const getLeadItinerary = (lead: ExtractedLead) => {
+    const stops = normalizeItinerary(lead.destinations);
+    return stops.length > 0 ? stops : parseItinerary(lead.destination);
+  };
+
+  const formatTripSummary = (lead: ExtractedLead) => {
+    const trip = normalizeTripDetails(lead);
+    const dates = [trip.travel_start_date, trip.travel_end_date].filter(Boolean) as string[];
+    const party = [trip.adults, trip.children].some((count) => count !== null)
+      ? `${trip.adults ?? 0}+${trip.children ?? 0}`
+      : null;
+    return [dates.map(formatTripDate).join(' – '), party, trip.services.join(', ')].filter(Boolean).join(' · ') || '—';
+  };
+
+  const formatParsedPrice = (parsed: ParsedPrice) => {
+    const currency = getKnownCurrency(parsed) || getBaseCurrency(currencies);
+    const amount =
+      parsed.max_amount !== null
+        ? `${formatMoney(parsed.amount, currency)} – ${formatMoney(parsed.max_amount, currency)}`
+        : formatMoney(parsed.amount, currency);
+    return parsed.basis === 'per_person' ? `${amount} ${t.perPerson}` : amount;
+  };
+
   useEffect(() => {
     return () => {
       if (pollingInterval) {
@@ -169,7 +256,9 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
           setPollingInterval(null);
         }
 
-        setErrorMessage(data.error_message || 'Unknown error');
+        // The extraction function stores an error code; older batches hold plain text
+        const batchErrors: Record<string, string> = t.batchErrors;
+        setErrorMessage((data.error_message && batchErrors[data.error_message]) || data.error_message || 'Unknown error');
         handleReset();
       }
     } catch (error) {
@@ -277,20 +366,35 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
         console.log(`Importing lead ${i + 1}/${extractedLeads.length}:`, lead);
         
         try {
+          // Ranges are stored as their low end; the full text goes into a note
+          const parsedPrice = parsePrice(lead.price);
+          const itinerary = getLeadItinerary(lead);
+          // A destination the stops were split from is kept as written
+          const hasExtractedStops = normalizeItinerary(lead.destinations).length > 0;
           const insertData = {
             name: lead.name,
             phone_number: lead.phone_number,
-            destination: lead.destination,
-            status: lead.status || 'New Lead',
-            price: lead.price,
+            destination: (hasExtractedStops && formatItinerary(itinerary)) || lead.destination,
+            itinerary,
+            // Unknown stages are left to the database, which uses the entry stage
+            status: findStage(stages, lead.status)?.key || null,
+            price: parsedPrice?.amount ?? 0,
+            ...(getKnownCurrency(parsedPrice) && { currency: getKnownCurrency(parsedPrice) }),
             country: lead.country || null,
+            ...normalizeTripDetails(lead),
+            custom_fields: normalizeCustomFieldValues(customFields, lead.custom_fields),
+            source: getFileSource(file?.name),
+            source_batch_id: batchId,
+            source_detail: file?.name || null,
           };
           
           console.log('Insert data:', insertData);
           
           const { data, error } = await supabase
             .from('clients')
-            .insert([insertData]);
+            .insert([insertData])
+            .select('id')
+            .single();
 
           if (error) {
             console.error(`Error importing lead ${i + 1}:`, error);
@@ -299,6 +403,14 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
           } else {
             console.log(`Successfully imported lead ${i + 1}:`, data);
             successCount++;
+
+            if (needsPriceNote(lead.price, parsedPrice)) {
+              const { error: noteError } = await supabase
+                .from('notes')
+                .insert([{ client_id: data.id, content: `${t.priceNote}: ${lead.price}` }]);
+              // The client is already saved; a missing note is not worth failing the row
+              if (noteError) console.error(`Error saving price note for lead ${i + 1}:`, noteError);
+            }
           }
         } catch (err) {
           console.error(`Exception importing lead ${i + 1}:`, err);
@@ -445,6 +557,12 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.destination}</th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.price}</th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.country}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t.trip}</th>
+                      {customFields.map((field) => (
+                        <th key={field.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {getCustomFieldLabel(field, language)}
+                        </th>
+                      ))}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -452,9 +570,26 @@ export default function ImportClients({ language, onNavigateToClients }: ImportC
                       <tr key={index} className="hover:bg-blue-50 transition-colors">
                         <td className="px-4 py-3 text-sm font-medium text-gray-900">{lead.name}</td>
                         <td className="px-4 py-3 text-sm text-gray-600">{lead.phone_number}</td>
-                        <td className="px-4 py-3 text-sm text-gray-600">{lead.destination}</td>
-                        <td className="px-4 py-3 text-sm text-gray-600">{lead.price}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {formatItinerary(getLeadItinerary(lead), ' → ') || lead.destination}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {parsePrice(lead.price) ? (
+                            formatParsedPrice(parsePrice(lead.price) as ParsedPrice)
+                          ) : (
+                            <span className="italic text-amber-700" title={t.keptAsNote}>
+                              {lead.price}
+                            </span>
+                          )}
+                        </td>
                         <td className="px-4 py-3 text-sm text-gray-600">{lead.country}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{formatTripSummary(lead)}</td>
+                        {/* Values that do not fit their field are shown as — and not imported */}
+                        {customFields.map((field) => (
+                          <td key={field.key} className="px-4 py-3 text-sm text-gray-600">
+                            {formatCustomFieldValue(field, normalizeCustomFieldValues([field], lead.custom_fields)[field.key]) || '—'}
+                          </td>
+                        ))}
                       </tr>
                     ))}
                   </tbody>
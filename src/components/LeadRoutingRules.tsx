@@ -0,0 +1,525 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, Power, X, GitBranch, Users } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { getKnownCountries } from '../lib/phoneCountryDetector';
+import { LeadRoutingRule, LeadRoutingRuleFormData, RoutingRuleType } from '../types/routing';
+import Toast from './Toast';
+import ConfirmDialog from './ConfirmDialog';
+
+interface RoutingAgent {
+  id: string;
+  full_name: string;
+  is_active: boolean;
+}
+
+interface LeadRoutingRulesProps {
+  language?: 'EN' | 'AR';
+}
+
+const RULE_TYPE_LABELS: Record<RoutingRuleType, string> = {
+  round_robin: 'Round-robin',
+  country: 'By country',
+  destination: 'By destination',
+  language: 'By lead language',
+};
+
+// Language codes understood by lead_language_for_country() in the database
+const LANGUAGE_OPTIONS = [
+  { value: 'ar', label: 'Arabic' },
+  { value: 'en', label: 'English' },
+  { value: 'tr', label: 'Turkish' },
+  { value: 'fa', label: 'Persian' },
+  { value: 'ru', label: 'Russian' },
+];
+
+const EMPTY_FORM: LeadRoutingRuleFormData = {
+  name: '',
+  rule_type: 'round_robin',
+  match_value: '',
+  agent_ids: [],
+  priority: 100,
+  is_active: true,
+};
+
+export default function LeadRoutingRules({ language = 'EN' }: LeadRoutingRulesProps) {
+  const [rules, setRules] = useState<LeadRoutingRule[]>([]);
+  const [agents, setAgents] = useState<RoutingAgent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<LeadRoutingRule | null>(null);
+  const [formData, setFormData] = useState<LeadRoutingRuleFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof LeadRoutingRuleFormData, string>>>({});
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmDialog, setConfirmDialog] = useState<{
+    show: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+  } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [rulesResult, agentsResult] = await Promise.all([
+        supabase
+          .from('lead_routing_rules')
+          .select('*')
+          .order('priority', { ascending: true })
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('users')
+          .select('id, full_name, is_active')
+          .eq('role', 'agent')
+          .order('full_name', { ascending: true }),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (agentsResult.error) throw agentsResult.error;
+
+      setRules(rulesResult.data || []);
+      setAgents(agentsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching routing rules:', error);
+      setToast({ message: 'Failed to load routing rules', type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Partial<Record<keyof LeadRoutingRuleFormData, string>> = {};
+
+    if (!formData.name.trim()) {
+      errors.name = 'Rule name is required';
+    }
+    if (formData.rule_type !== 'round_robin' && !formData.match_value.trim()) {
+      errors.match_value = 'A value to match is required';
+    }
+    if (formData.agent_ids.length === 0) {
+      errors.agent_ids = 'Select at least one agent';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const payload = {
+      name: formData.name.trim(),
+      rule_type: formData.rule_type,
+      match_value: formData.rule_type === 'round_robin' ? null : formData.match_value.trim(),
+      agent_ids: formData.agent_ids,
+      priority: formData.priority,
+      is_active: formData.is_active,
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      if (editingRule) {
+        const { error } = await supabase
+          .from('lead_routing_rules')
+          .update(payload)
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+        setToast({ message: 'Routing rule updated successfully!', type: 'success' });
+      } else {
+        const { error } = await supabase.from('lead_routing_rules').insert([payload]);
+
+        if (error) throw error;
+        setToast({ message: 'Routing rule created successfully!', type: 'success' });
+      }
+
+      handleCloseForm();
+      await fetchData();
+    } catch (error) {
+      console.error('Error saving routing rule:', error);
+      setToast({ message: (error as { message?: string }).message || 'Failed to save routing rule', type: 'error' });
+    }
+  };
+
+  const handleEdit = (rule: LeadRoutingRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      rule_type: rule.rule_type,
+      match_value: rule.match_value || '',
+      agent_ids: rule.agent_ids,
+      priority: rule.priority,
+      is_active: rule.is_active,
+    });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  const handleToggleActive = async (rule: LeadRoutingRule) => {
+    try {
+      const { error } = await supabase
+        .from('lead_routing_rules')
+        .update({ is_active: !rule.is_active, updated_at: new Date().toISOString() })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      await fetchData();
+    } catch (error) {
+      console.error('Error toggling routing rule:', error);
+      setToast({ message: (error as { message?: string }).message || 'Failed to update routing rule', type: 'error' });
+    }
+  };
+
+  const handleDelete = (rule: LeadRoutingRule) => {
+    setConfirmDialog({
+      show: true,
+      title: 'Delete Routing Rule',
+      message: `Are you sure you want to delete "${rule.name}"? Clients it already assigned keep their agent.`,
+      onConfirm: async () => {
+        try {
+          const { error } = await supabase.from('lead_routing_rules').delete().eq('id', rule.id);
+
+          if (error) throw error;
+          setToast({ message: 'Routing rule deleted successfully!', type: 'success' });
+          await fetchData();
+        } catch (error) {
+          console.error('Error deleting routing rule:', error);
+          setToast({ message: (error as { message?: string }).message || 'Failed to delete routing rule', type: 'error' });
+        } finally {
+          setConfirmDialog(null);
+        }
+      },
+    });
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingRule(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+  };
+
+  const toggleAgent = (agentId: string) => {
+    const agentIds = formData.agent_ids.includes(agentId)
+      ? formData.agent_ids.filter((id) => id !== agentId)
+      : [...formData.agent_ids, agentId];
+    setFormData({ ...formData, agent_ids: agentIds });
+    if (formErrors.agent_ids) setFormErrors({ ...formErrors, agent_ids: undefined });
+  };
+
+  const getAgentName = (agentId: string) => {
+    return agents.find((a) => a.id === agentId)?.full_name || 'Unknown agent';
+  };
+
+  const describeMatch = (rule: LeadRoutingRule) => {
+    switch (rule.rule_type) {
+      case 'country':
+        return `Country is ${rule.match_value}`;
+      case 'destination':
+        return `Destination contains "${rule.match_value}"`;
+      case 'language':
+        return `Lead speaks ${LANGUAGE_OPTIONS.find((l) => l.value === rule.match_value)?.label || rule.match_value}`;
+      default:
+        return 'Every new lead';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading routing rules...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Lead Routing</h3>
+          <p className="text-gray-600 text-sm mt-1">
+            New clients without an assignee are routed by the first matching active rule, lowest priority first
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white px-5 py-2.5 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+        >
+          <Plus className="w-5 h-5" />
+          Add Rule
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-4 border border-gray-200">
+        {rules.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <GitBranch className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600 font-medium text-lg">No routing rules yet</p>
+            <p className="text-gray-500 text-sm mt-1">New leads stay unassigned until you add a rule</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className={`rounded-xl border-2 p-4 transition-all duration-200 ${
+                  rule.is_active ? 'bg-white border-gray-200 hover:border-blue-300' : 'bg-gray-50 border-gray-300'
+                }`}
+              >
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-semibold rounded-full">
+                        #{rule.priority}
+                      </span>
+                      <h4 className={`font-semibold ${rule.is_active ? 'text-gray-900' : 'text-gray-500'}`}>
+                        {rule.name}
+                      </h4>
+                      <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded-full">
+                        {RULE_TYPE_LABELS[rule.rule_type]}
+                      </span>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                          rule.is_active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}
+                      >
+                        {rule.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700">{describeMatch(rule)}</p>
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <Users className="w-4 h-4 text-gray-400" />
+                      {rule.agent_ids.map(getAgentName).join(', ') || 'No agents'}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleEdit(rule)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 hover:scale-110"
+                      title="Edit rule"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(rule)}
+                      className={`p-2 ${rule.is_active ? 'text-yellow-600 hover:bg-yellow-50' : 'text-green-600 hover:bg-green-50'} rounded-lg transition-all duration-200 hover:scale-110`}
+                      title={rule.is_active ? 'Deactivate' : 'Activate'}
+                    >
+                      <Power className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 hover:scale-110"
+                      title="Delete rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white px-6 py-5 flex items-center justify-between rounded-t-2xl sticky top-0">
+              <h2 className="text-xl font-bold">{editingRule ? 'Edit Routing Rule' : 'Add Routing Rule'}</h2>
+              <button
+                onClick={handleCloseForm}
+                className="p-1.5 hover:bg-blue-800 rounded-lg transition-all duration-200 hover:scale-110"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Rule Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => {
+                    setFormData({ ...formData, name: e.target.value });
+                    if (formErrors.name) setFormErrors({ ...formErrors, name: undefined });
+                  }}
+                  className={`w-full px-4 py-2.5 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                    formErrors.name ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Iraq leads"
+                />
+                {formErrors.name && <p className="mt-1 text-sm text-red-600">{formErrors.name}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Rule Type</label>
+                <select
+                  value={formData.rule_type}
+                  onChange={(e) =>
+                    setFormData({ ...formData, rule_type: e.target.value as RoutingRuleType, match_value: '' })
+                  }
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                >
+                  {(Object.keys(RULE_TYPE_LABELS) as RoutingRuleType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {RULE_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.rule_type !== 'round_robin' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {formData.rule_type === 'country' && 'Country'}
+                    {formData.rule_type === 'destination' && 'Destination Contains'}
+                    {formData.rule_type === 'language' && 'Lead Language'} <span className="text-red-500">*</span>
+                  </label>
+                  {formData.rule_type === 'language' ? (
+                    <select
+                      value={formData.match_value}
+                      onChange={(e) => {
+                        setFormData({ ...formData, match_value: e.target.value });
+                        if (formErrors.match_value) setFormErrors({ ...formErrors, match_value: undefined });
+                      }}
+                      className={`w-full px-4 py-2.5 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                        formErrors.match_value ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="">Select a language</option>
+                      {LANGUAGE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      list={formData.rule_type === 'country' ? 'routing-countries' : undefined}
+                      value={formData.match_value}
+                      onChange={(e) => {
+                        setFormData({ ...formData, match_value: e.target.value });
+                        if (formErrors.match_value) setFormErrors({ ...formErrors, match_value: undefined });
+                      }}
+                      className={`w-full px-4 py-2.5 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                        formErrors.match_value ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                      placeholder={formData.rule_type === 'country' ? 'Iraq' : 'Trabzon'}
+                    />
+                  )}
+                  <datalist id="routing-countries">
+                    {getKnownCountries().map((country) => (
+                      <option key={country} value={country} />
+                    ))}
+                  </datalist>
+                  {formErrors.match_value && <p className="mt-1 text-sm text-red-600">{formErrors.match_value}</p>}
+                  {formData.rule_type === 'language' && (
+                    <p className="mt-1 text-xs text-gray-500">Derived from the country detected from the lead's phone number</p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Agents <span className="text-red-500">*</span>
+                  <span className="text-gray-500 text-xs ml-1">(leads rotate between them)</span>
+                </label>
+                <div
+                  className={`border rounded-xl p-3 space-y-2 max-h-48 overflow-y-auto ${
+                    formErrors.agent_ids ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                >
+                  {agents.length === 0 ? (
+                    <p className="text-sm text-gray-500">No agents available</p>
+                  ) : (
+                    agents.map((agent) => (
+                      <label key={agent.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.agent_ids.includes(agent.id)}
+                          onChange={() => toggleAgent(agent.id)}
+                          className="w-4 h-4 text-blue-600 rounded"
+                        />
+                        <span className={agent.is_active ? '' : 'text-gray-400'}>
+                          {agent.full_name}
+                          {!agent.is_active && ' (inactive)'}
+                        </span>
+                      </label>
+                    ))
+                  )}
+                </div>
+                {formErrors.agent_ids && <p className="mt-1 text-sm text-red-600">{formErrors.agent_ids}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Priority</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.priority}
+                  onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value, 10) || 0 })}
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                />
+                <p className="mt-1 text-xs text-gray-500">Lower numbers are checked first</p>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                Active
+              </label>
+
+              <div className="flex gap-3 pt-4 border-t">
+                <button
+                  type="submit"
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-2.5 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+                >
+                  {editingRule ? 'Save Changes' : 'Create Rule'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseForm}
+                  className="flex-1 bg-gray-200 text-gray-800 py-2.5 px-6 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200 hover:scale-105"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} language={language} />}
+
+      {confirmDialog && (
+        <ConfirmDialog
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          onConfirm={confirmDialog.onConfirm}
+          onCancel={() => setConfirmDialog(null)}
+          language={language}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,56 @@
 import { useState } from 'react';
-import { LogIn, Loader, Eye, EyeOff } from 'lucide-react';
-import { login } from '../lib/auth';
+import { LogIn, Loader, Eye, EyeOff, Mail, KeyRound, ShieldCheck } from 'lucide-react';
+import { login, requestPasswordReset, resetPassword, verifyMfa } from '../lib/auth';
 import { User } from '../lib/supabase';
+import TwoFactorSetup from './TwoFactorSetup';
 
 interface LoginProps {
   onLoginSuccess: (user: User) => void;
   language: 'EN' | 'AR';
 }
 
+type LoginMode = 'login' | 'forgot' | 'reset' | 'mfa' | 'enroll';
+
+const RESET_TOKEN_PARAM = 'reset_token';
+
 export default function Login({ onLoginSuccess, language }: LoginProps) {
+  const [resetToken] = useState(() => new URLSearchParams(window.location.search).get(RESET_TOKEN_PARAM));
+  const [mode, setMode] = useState<LoginMode>(resetToken ? 'reset' : 'login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [mfaToken, setMfaToken] = useState('');
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const isRTL = language === 'AR';
 
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setError('');
+    setInfo('');
+    setPassword('');
+    setConfirmPassword('');
+    setMfaCode('');
+    setUseRecoveryCode(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
-      const user = await login(email, password);
-      if (user) {
-        onLoginSuccess(user);
+      const result = await login(email, password);
+      if (result.status === 'authenticated') {
+        onLoginSuccess(result.user);
+      } else {
+        setMfaToken(result.mfaToken);
+        switchMode(result.status === 'mfa_required' ? 'mfa' : 'enroll');
       }
     } catch (err: any) {
       setError(err.message || 'Login failed. Please try again.');
@@ -34,6 +59,69 @@ export default function Login({ onLoginSuccess, language }: LoginProps) {
     }
   };
 
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const user = await verifyMfa(mfaToken, useRecoveryCode ? { recoveryCode: mfaCode } : { code: mfaCode });
+      onLoginSuccess(user);
+    } catch (err) {
+      setError((err as Error).message);
+      setMfaCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleForgotSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await requestPasswordReset(email);
+      setInfo(
+        language === 'EN'
+          ? 'If an account exists for this email, a reset link has been sent. It expires in 30 minutes.'
+          : 'إذا كان هناك حساب بهذا البريد، فقد تم إرسال رابط إعادة التعيين. تنتهي صلاحيته خلال 30 دقيقة.'
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError(language === 'EN' ? 'Passwords do not match' : 'كلمتا المرور غير متطابقتين');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await resetPassword(resetToken || '', password);
+      // The token is single-use, so drop it from the address bar
+      window.history.replaceState(null, '', window.location.pathname);
+      switchMode('login');
+      setInfo(
+        language === 'EN'
+          ? 'Your password has been reset. You can now log in.'
+          : 'تمت إعادة تعيين كلمة المرور. يمكنك تسجيل الدخول الآن.'
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -64,71 +152,263 @@ export default function Login({ onLoginSuccess, language }: LoginProps) {
             </div>
           )}
 
-          {/* Login Form */}
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                {language === 'EN' ? 'Email' : 'البريد الإلكتروني'}
-              </label>
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                placeholder={language === 'EN' ? 'Enter your email' : 'أدخل بريدك الإلكتروني'}
-                disabled={loading}
-              />
+          {info && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-green-700 text-sm text-center">{info}</p>
             </div>
+          )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                {language === 'EN' ? 'Password' : 'كلمة المرور'}
-              </label>
-              <div className="relative">
+          {/* Two-Factor Verification */}
+          {mode === 'mfa' && (
+            <form onSubmit={handleMfaSubmit} className="space-y-6">
+              <p className="text-sm text-gray-600">
+                {useRecoveryCode
+                  ? language === 'EN'
+                    ? 'Enter one of the recovery codes you saved when setting up two-factor authentication.'
+                    : 'أدخل أحد رموز الاسترداد التي حفظتها عند إعداد المصادقة الثنائية.'
+                  : language === 'EN'
+                    ? 'Enter the 6-digit code from your authenticator app.'
+                    : 'أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة.'}
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {useRecoveryCode
+                    ? language === 'EN' ? 'Recovery Code' : 'رمز الاسترداد'
+                    : language === 'EN' ? 'Verification Code' : 'رمز التحقق'}
+                </label>
                 <input
-                  type={showPassword ? 'text' : 'password'}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  type="text"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))}
                   required
-                  className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                  placeholder={language === 'EN' ? 'Enter your password' : 'أدخل كلمة المرور'}
+                  autoFocus
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all font-mono tracking-widest text-center"
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
                   disabled={loading}
+                  dir="ltr"
                 />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className={`w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 rounded-lg font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}
+              >
+                {loading ? <Loader className="w-5 h-5 animate-spin" /> : <ShieldCheck className="w-5 h-5" />}
+                <span>{language === 'EN' ? 'Verify' : 'تحقق'}</span>
+              </button>
+
+              <div className="flex items-center justify-between">
                 <button
                   type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  disabled={loading}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                  aria-label={showPassword ? 'Hide password' : 'Show password'}
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setMfaCode('');
+                    setError('');
+                  }}
+                  className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  {useRecoveryCode
+                    ? language === 'EN' ? 'Use authenticator code' : 'استخدام رمز التطبيق'
+                    : language === 'EN' ? 'Use a recovery code' : 'استخدام رمز استرداد'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => switchMode('login')}
+                  className="text-sm text-gray-600 hover:text-gray-800 font-medium"
                 >
-                  {showPassword ? (
-                    <EyeOff className="w-5 h-5" />
-                  ) : (
-                    <Eye className="w-5 h-5" />
-                  )}
+                  {language === 'EN' ? 'Back to login' : 'العودة لتسجيل الدخول'}
                 </button>
               </div>
+            </form>
+          )}
+
+          {/* Mandatory Two-Factor Enrollment */}
+          {mode === 'enroll' && (
+            <div className="space-y-4">
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <p className="text-sm text-yellow-800">
+                  {language === 'EN'
+                    ? 'Your role requires two-factor authentication. Set it up now to continue.'
+                    : 'يتطلب دورك المصادقة الثنائية. قم بإعدادها الآن للمتابعة.'}
+                </p>
+              </div>
+              <TwoFactorSetup
+                language={language}
+                mfaToken={mfaToken}
+                onComplete={(user) => user && onLoginSuccess(user)}
+                onCancel={() => switchMode('login')}
+              />
             </div>
+          )}
+
+          {/* Forgot Password Form */}
+          {mode === 'forgot' && (
+            <form onSubmit={handleForgotSubmit} className="space-y-6">
+              <p className="text-sm text-gray-600">
+                {language === 'EN'
+                  ? 'Enter your account email and we will send you a link to choose a new password.'
+                  : 'أدخل البريد الإلكتروني لحسابك وسنرسل لك رابطاً لاختيار كلمة مرور جديدة.'}
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {language === 'EN' ? 'Email' : 'البريد الإلكتروني'}
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  placeholder={language === 'EN' ? 'Enter your email' : 'أدخل بريدك الإلكتروني'}
+                  disabled={loading}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className={`w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 rounded-lg font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}
+              >
+                {loading ? <Loader className="w-5 h-5 animate-spin" /> : <Mail className="w-5 h-5" />}
+                <span>{language === 'EN' ? 'Send Reset Link' : 'إرسال رابط إعادة التعيين'}</span>
+              </button>
+
+              <button
+                type="button"
+                onClick={() => switchMode('login')}
+                className="w-full text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                {language === 'EN' ? 'Back to login' : 'العودة لتسجيل الدخول'}
+              </button>
+            </form>
+          )}
+
+          {/* Reset Password Form */}
+          {mode === 'reset' && (
+            <form onSubmit={handleResetSubmit} className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {language === 'EN' ? 'New Password' : 'كلمة المرور الجديدة'}
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  disabled={loading}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  {language === 'EN'
+                    ? 'Must be 8+ characters with uppercase, lowercase, and number'
+                    : 'يجب أن تتكون من 8 أحرف على الأقل وتحتوي على حرف كبير وحرف صغير ورقم'}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {language === 'EN' ? 'Confirm Password' : 'تأكيد كلمة المرور'}
+                </label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  disabled={loading}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className={`w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 rounded-lg font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}
+              >
+                {loading ? <Loader className="w-5 h-5 animate-spin" /> : <KeyRound className="w-5 h-5" />}
+                <span>{language === 'EN' ? 'Set New Password' : 'تعيين كلمة المرور الجديدة'}</span>
+              </button>
+            </form>
+          )}
+
+          {/* Login Form */}
+          {mode === 'login' && (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {language === 'EN' ? 'Email' : 'البريد الإلكتروني'}
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  placeholder={language === 'EN' ? 'Enter your email' : 'أدخل بريدك الإلكتروني'}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {language === 'EN' ? 'Password' : 'كلمة المرور'}
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    placeholder={language === 'EN' ? 'Enter your password' : 'أدخل كلمة المرور'}
+                    disabled={loading}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    disabled={loading}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    aria-label={showPassword ? 'Hide password' : 'Show password'}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="w-5 h-5" />
+                    ) : (
+                      <Eye className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+                <div className={`mt-2 flex ${isRTL ? 'justify-start' : 'justify-end'}`}>
+                  <button
+                    type="button"
+                    onClick={() => switchMode('forgot')}
+                    className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    {language === 'EN' ? 'Forgot password?' : 'نسيت كلمة المرور؟'}
+                  </button>
+                </div>
+              </div>
 
-            <button
-              type="submit"
-              disabled={loading}
-              className={`w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 rounded-lg font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}
-            >
-              {loading ? (
-                <>
-                  <Loader className="w-5 h-5 animate-spin" />
-                  <span>{language === 'EN' ? 'Logging in...' : 'جاري تسجيل الدخول...'}</span>
-                </>
-              ) : (
-                <>
-                  <LogIn className="w-5 h-5" />
-                  <span>{language === 'EN' ? 'Login' : 'تسجيل الدخول'}</span>
-                </>
-              )}
-            </button>
-          </form>
+              <button
+                type="submit"
+                disabled={loading}
+                className={`w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 rounded-lg font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}
+              >
+                {loading ? (
+                  <>
+                    <Loader className="w-5 h-5 animate-spin" />
+                    <span>{language === 'EN' ? 'Logging in...' : 'جاري تسجيل الدخول...'}</span>
+                  </>
+                ) : (
+                  <>
+                    <LogIn className="w-5 h-5" />
+                    <span>{language === 'EN' ? 'Login' : 'تسجيل الدخول'}</span>
+                  </>
+                )}
+              </button>
+            </form>
+          )}
 
           {/* Demo Credentials */}
           <div className="mt-8 p-4 bg-blue-50 rounded-lg border border-blue-200">
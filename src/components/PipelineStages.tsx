@@ -0,0 +1,418 @@
+import { useState } from 'react';
+import { Plus, Edit2, Trash2, X, Layers } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { STAGE_COLORS } from '../lib/pipeline';
+import { Client } from '../types/client';
+import { PipelineStage, PipelineStageFormData, StageColor } from '../types/pipeline';
+import Toast from './Toast';
+import ConfirmDialog from './ConfirmDialog';
+
+interface PipelineStagesProps {
+  stages: PipelineStage[];
+  clients: Client[];
+  onChanged: () => void;
+  language?: 'EN' | 'AR';
+}
+
+const EMPTY_FORM: PipelineStageFormData = {
+  key: '',
+  label_en: '',
+  label_ar: '',
+  position: 100,
+  color: 'gray',
+  is_won: false,
+  is_lost: false,
+  win_probability: 0,
+};
+
+export default function PipelineStages({ stages, clients, onChanged, language = 'EN' }: PipelineStagesProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [editingStage, setEditingStage] = useState<PipelineStage | null>(null);
+  const [formData, setFormData] = useState<PipelineStageFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof PipelineStageFormData, string>>>({});
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmDialog, setConfirmDialog] = useState<{
+    show: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+  } | null>(null);
+
+  const clientCounts = clients.reduce((acc, client) => {
+    acc[client.status] = (acc[client.status] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  const validateForm = (): boolean => {
+    const errors: Partial<Record<keyof PipelineStageFormData, string>> = {};
+
+    if (!editingStage) {
+      if (!formData.key.trim()) {
+        errors.key = 'Stage key is required';
+      } else if (stages.some((stage) => stage.key === formData.key.trim())) {
+        errors.key = 'A stage with this key already exists';
+      }
+    }
+    if (!formData.label_en.trim()) {
+      errors.label_en = 'English label is required';
+    }
+    if (!formData.label_ar.trim()) {
+      errors.label_ar = 'Arabic label is required';
+    }
+    if (formData.is_won && formData.is_lost) {
+      errors.is_lost = 'A stage cannot be both won and lost';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const payload = {
+      label_en: formData.label_en.trim(),
+      label_ar: formData.label_ar.trim(),
+      position: formData.position,
+      color: formData.color,
+      is_won: formData.is_won,
+      is_lost: formData.is_lost,
+      win_probability: formData.win_probability,
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      if (editingStage) {
+        const { error } = await supabase.from('pipeline_stages').update(payload).eq('key', editingStage.key);
+
+        if (error) throw error;
+        setToast({ message: 'Stage updated successfully!', type: 'success' });
+      } else {
+        const { error } = await supabase.from('pipeline_stages').insert([{ ...payload, key: formData.key.trim() }]);
+
+        if (error) throw error;
+        setToast({ message: 'Stage created successfully!', type: 'success' });
+      }
+
+      handleCloseForm();
+      onChanged();
+    } catch (error) {
+      console.error('Error saving pipeline stage:', error);
+      setToast({ message: (error as { message?: string }).message || 'Failed to save stage', type: 'error' });
+    }
+  };
+
+  const handleEdit = (stage: PipelineStage) => {
+    setEditingStage(stage);
+    setFormData({
+      key: stage.key,
+      label_en: stage.label_en,
+      label_ar: stage.label_ar,
+      position: stage.position,
+      color: stage.color,
+      is_won: stage.is_won,
+      is_lost: stage.is_lost,
+      win_probability: stage.win_probability,
+    });
+    setFormErrors({});
+    setShowForm(true);
+  };
+
+  const handleDelete = (stage: PipelineStage) => {
+    setConfirmDialog({
+      show: true,
+      title: 'Delete Stage',
+      message: `Are you sure you want to delete "${stage.label_en}"? Stages that still have clients or bookings cannot be deleted.`,
+      onConfirm: async () => {
+        try {
+          const { error } = await supabase.from('pipeline_stages').delete().eq('key', stage.key);
+
+          if (error) {
+            // clients_status_fkey or bookings_status_fkey: move them to another stage first
+            if (error.code === '23503') {
+              throw new Error('This stage still has clients or bookings. Move them to another stage first.');
+            }
+            throw error;
+          }
+          setToast({ message: 'Stage deleted successfully!', type: 'success' });
+          onChanged();
+        } catch (error) {
+          console.error('Error deleting pipeline stage:', error);
+          setToast({ message: (error as { message?: string }).message || 'Failed to delete stage', type: 'error' });
+        } finally {
+          setConfirmDialog(null);
+        }
+      },
+    });
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingStage(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+  };
+
+  const inputClassName = (field: keyof PipelineStageFormData) =>
+    `w-full px-4 py-2.5 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+      formErrors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Pipeline Stages</h3>
+          <p className="text-gray-600 text-sm mt-1">
+            Stages clients move through, in order. New clients start in the first stage that is neither won nor lost
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white px-5 py-2.5 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+        >
+          <Plus className="w-5 h-5" />
+          Add Stage
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-4 border border-gray-200">
+        {stages.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <Layers className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600 font-medium text-lg">No pipeline stages yet</p>
+            <p className="text-gray-500 text-sm mt-1">Add a stage before creating clients</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {stages.map((stage) => (
+              <div
+                key={stage.key}
+                className="rounded-xl border-2 p-4 bg-white border-gray-200 hover:border-blue-300 transition-all duration-200"
+              >
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-semibold rounded-full">
+                        #{stage.position}
+                      </span>
+                      <span className={`px-3 py-1 text-xs font-semibold rounded-full border ${STAGE_COLORS[stage.color].badge}`}>
+                        {stage.label_en}
+                      </span>
+                      <span className="text-sm text-gray-600" dir="rtl">
+                        {stage.label_ar}
+                      </span>
+                      {stage.is_won && (
+                        <span className="px-2 py-0.5 bg-green-100 text-green-800 text-xs font-semibold rounded-full">Won</span>
+                      )}
+                      {stage.is_lost && (
+                        <span className="px-2 py-0.5 bg-red-100 text-red-800 text-xs font-semibold rounded-full">Lost</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Key <code className="text-gray-800">{stage.key}</code> · {stage.win_probability}% win probability ·{' '}
+                      {clientCounts[stage.key] || 0} clients
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleEdit(stage)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 hover:scale-110"
+                      title="Edit stage"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(stage)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 hover:scale-110"
+                      title="Delete stage"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white px-6 py-5 flex items-center justify-between rounded-t-2xl sticky top-0">
+              <h2 className="text-xl font-bold">{editingStage ? 'Edit Stage' : 'Add Stage'}</h2>
+              <button
+                onClick={handleCloseForm}
+                className="p-1.5 hover:bg-blue-800 rounded-lg transition-all duration-200 hover:scale-110"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Key <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.key}
+                  disabled={!!editingStage}
+                  onChange={(e) => {
+                    setFormData({ ...formData, key: e.target.value });
+                    if (formErrors.key) setFormErrors({ ...formErrors, key: undefined });
+                  }}
+                  className={`${inputClassName('key')} disabled:bg-gray-100 disabled:text-gray-500`}
+                  placeholder="Quoted"
+                />
+                {formErrors.key && <p className="mt-1 text-sm text-red-600">{formErrors.key}</p>}
+                <p className="mt-1 text-xs text-gray-500">Stored on each client; cannot be changed later</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  English Label <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.label_en}
+                  onChange={(e) => {
+                    setFormData({ ...formData, label_en: e.target.value });
+                    if (formErrors.label_en) setFormErrors({ ...formErrors, label_en: undefined });
+                  }}
+                  className={inputClassName('label_en')}
+                  placeholder="Quoted"
+                />
+                {formErrors.label_en && <p className="mt-1 text-sm text-red-600">{formErrors.label_en}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Arabic Label <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  dir="rtl"
+                  value={formData.label_ar}
+                  onChange={(e) => {
+                    setFormData({ ...formData, label_ar: e.target.value });
+                    if (formErrors.label_ar) setFormErrors({ ...formErrors, label_ar: undefined });
+                  }}
+                  className={inputClassName('label_ar')}
+                  placeholder="تم إرسال العرض"
+                />
+                {formErrors.label_ar && <p className="mt-1 text-sm text-red-600">{formErrors.label_ar}</p>}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Position</label>
+                  <input
+                    type="number"
+                    value={formData.position}
+                    onChange={(e) => setFormData({ ...formData, position: parseInt(e.target.value, 10) || 0 })}
+                    className={inputClassName('position')}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Colour</label>
+                  <select
+                    value={formData.color}
+                    onChange={(e) => setFormData({ ...formData, color: e.target.value as StageColor })}
+                    className={inputClassName('color')}
+                  >
+                    {(Object.keys(STAGE_COLORS) as StageColor[]).map((color) => (
+                      <option key={color} value={color}>
+                        {color.charAt(0).toUpperCase() + color.slice(1)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Win Probability (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.win_probability}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      win_probability: Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0)),
+                    })
+                  }
+                  className={inputClassName('win_probability')}
+                />
+                <p className="mt-1 text-xs text-gray-500">Used for the weighted pipeline value in reports</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_won}
+                    onChange={(e) => {
+                      setFormData({ ...formData, is_won: e.target.checked });
+                      if (formErrors.is_lost) setFormErrors({ ...formErrors, is_lost: undefined });
+                    }}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  Won stage (counts as booked revenue)
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_lost}
+                    onChange={(e) => {
+                      setFormData({ ...formData, is_lost: e.target.checked });
+                      if (formErrors.is_lost) setFormErrors({ ...formErrors, is_lost: undefined });
+                    }}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  Lost stage
+                </label>
+                {formErrors.is_lost && <p className="mt-1 text-sm text-red-600">{formErrors.is_lost}</p>}
+              </div>
+
+              <div className="flex gap-3 pt-4 border-t">
+                <button
+                  type="submit"
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-2.5 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+                >
+                  {editingStage ? 'Save Changes' : 'Create Stage'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseForm}
+                  className="flex-1 bg-gray-200 text-gray-800 py-2.5 px-6 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200 hover:scale-105"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} language={language} />}
+
+      {confirmDialog && (
+        <ConfirmDialog
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          onConfirm={confirmDialog.onConfirm}
+          onCancel={() => setConfirmDialog(null)}
+          language={language}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+import { useEffect, useState } from 'react';
+import { Key, Mail, Shield, ShieldCheck, User as UserIcon, Loader } from 'lucide-react';
+import { supabase, User } from '../lib/supabase';
+import { changePassword, disableMfa, regenerateRecoveryCodes } from '../lib/auth';
+import { translations } from '../lib/translations';
+import { getDirection } from '../lib/rtl';
+import Toast from './Toast';
+import TwoFactorSetup, { RecoveryCodesList } from './TwoFactorSetup';
+
+interface ProfileSettingsProps {
+  user: User;
+  language: 'EN' | 'AR';
+}
+
+// Mirrors MFA_REQUIRED_ROLE in netlify/lib/mfa.ts
+const MFA_REQUIRED_ROLE = 'admin';
+
+const isStrongPassword = (password: string) =>
+  password.length >= 8 && /[A-Z]/.test(password) && /[a-z]/.test(password) && /[0-9]/.test(password);
+
+export default function ProfileSettings({ user, language }: ProfileSettingsProps) {
+  const t = translations[language];
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [mfaEnabled, setMfaEnabled] = useState<boolean | null>(null);
+  const [mfaAction, setMfaAction] = useState<'enroll' | 'disable' | 'regenerate' | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [mfaSaving, setMfaSaving] = useState(false);
+  const [mfaError, setMfaError] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    const fetchMfaStatus = async () => {
+      try {
+        const { data, error } = await supabase.from('users').select('mfa_enabled').eq('id', user.id).single();
+        if (error) throw error;
+        setMfaEnabled(data.mfa_enabled);
+      } catch (err) {
+        console.error('Error fetching two-factor status:', err);
+      }
+    };
+
+    fetchMfaStatus();
+  }, [user.id]);
+
+  const closeMfaAction = () => {
+    setMfaAction(null);
+    setMfaCode('');
+    setMfaError('');
+  };
+
+  const handleMfaCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMfaError('');
+
+    try {
+      setMfaSaving(true);
+      if (mfaAction === 'disable') {
+        await disableMfa(mfaCode);
+        setMfaEnabled(false);
+        setToast({ message: t.twoFactor.disabledSuccess, type: 'success' });
+      } else {
+        setRecoveryCodes(await regenerateRecoveryCodes(mfaCode));
+        setToast({ message: t.twoFactor.codesRegenerated, type: 'success' });
+      }
+      closeMfaAction();
+    } catch (err) {
+      console.error('Error updating two-factor settings:', err);
+      setMfaError((err as Error).message);
+      setMfaCode('');
+    } finally {
+      setMfaSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError(t.profile.passwordMismatch);
+      return;
+    }
+    if (!isStrongPassword(newPassword)) {
+      setError(t.profile.passwordTooWeak);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setToast({ message: t.profile.passwordChanged, type: 'success' });
+    } catch (err) {
+      console.error('Error changing password:', err);
+      setError((err as Error).message || t.profile.passwordChangeFailed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200';
+
+  return (
+    <div className="max-w-2xl space-y-6" dir={getDirection(language)}>
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">{t.profile.accountDetails}</h3>
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+              <UserIcon className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 font-medium">{t.profile.fullName}</p>
+              <p className="font-semibold text-gray-900">{user.full_name}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+              <Mail className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 font-medium">{t.profile.email}</p>
+              <p className="font-semibold text-gray-900">{user.email}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+              <Shield className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 font-medium">{t.profile.role}</p>
+              <p className="font-semibold text-gray-900 capitalize">{user.role.replace(/_/g, ' ')}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <Key className="w-5 h-5 text-purple-600" />
+          {t.profile.changePassword}
+        </h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t.profile.currentPassword}</label>
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+              autoComplete="current-password"
+              className={inputClassName}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t.profile.newPassword}</label>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+              autoComplete="new-password"
+              className={inputClassName}
+              disabled={saving}
+            />
+            <p className="mt-1 text-xs text-gray-500">{t.profile.passwordHint}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t.profile.confirmPassword}</label>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              autoComplete="new-password"
+              className={inputClassName}
+              disabled={saving}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center justify-center gap-2 bg-gradient-to-r from-purple-600 to-purple-700 text-white py-2.5 px-6 rounded-xl font-semibold hover:from-purple-700 hover:to-purple-800 transition-all duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving && <Loader className="w-4 h-4 animate-spin" />}
+            {t.profile.updatePassword}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        <div className="flex items-center justify-between gap-4 mb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-green-600" />
+            {t.twoFactor.title}
+          </h3>
+          {mfaEnabled !== null && (
+            <span
+              className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                mfaEnabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {mfaEnabled ? t.twoFactor.enabled : t.twoFactor.disabled}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t.twoFactor.description}</p>
+
+        {recoveryCodes ? (
+          <RecoveryCodesList codes={recoveryCodes} language={language} onDone={() => setRecoveryCodes(null)} />
+        ) : mfaAction === 'enroll' ? (
+          <TwoFactorSetup
+            language={language}
+            onComplete={() => {
+              setMfaEnabled(true);
+              closeMfaAction();
+              setToast({ message: t.twoFactor.enabledSuccess, type: 'success' });
+            }}
+            onCancel={closeMfaAction}
+          />
+        ) : mfaAction ? (
+          <form onSubmit={handleMfaCodeSubmit} className="space-y-4">
+            {mfaError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-600 text-sm">{mfaError}</p>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t.twoFactor.confirmWithCode}</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                required
+                className={`${inputClassName} font-mono tracking-widest text-center`}
+                placeholder={t.twoFactor.codePlaceholder}
+                disabled={mfaSaving}
+                dir="ltr"
+              />
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={mfaSaving || mfaCode.length !== 6}
+                className={`flex-1 flex items-center justify-center gap-2 text-white py-2.5 px-4 rounded-xl font-semibold transition-all duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+                  mfaAction === 'disable'
+                    ? 'bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800'
+                    : 'bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800'
+                }`}
+              >
+                {mfaSaving && <Loader className="w-4 h-4 animate-spin" />}
+                {mfaAction === 'disable' ? t.twoFactor.disable : t.twoFactor.regenerateCodes}
+              </button>
+              <button
+                type="button"
+                onClick={closeMfaAction}
+                className="flex-1 bg-gray-200 text-gray-800 py-2.5 px-4 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200"
+              >
+                {t.twoFactor.cancel}
+              </button>
+            </div>
+          </form>
+        ) : mfaEnabled ? (
+          <div className="space-y-3">
+            {user.role === MFA_REQUIRED_ROLE && <p className="text-sm text-gray-500">{t.twoFactor.requiredForRole}</p>}
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => setMfaAction('regenerate')}
+                className="bg-gray-200 text-gray-800 py-2.5 px-6 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200"
+              >
+                {t.twoFactor.regenerateCodes}
+              </button>
+              {user.role !== MFA_REQUIRED_ROLE && (
+                <button
+                  onClick={() => setMfaAction('disable')}
+                  className="bg-red-50 text-red-700 py-2.5 px-6 rounded-xl font-semibold hover:bg-red-100 transition-all duration-200"
+                >
+                  {t.twoFactor.disable}
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          mfaEnabled === false && (
+            <button
+              onClick={() => setMfaAction('enroll')}
+              className="flex items-center justify-center gap-2 bg-gradient-to-r from-green-600 to-green-700 text-white py-2.5 px-6 rounded-xl font-semibold hover:from-green-700 hover:to-green-800 transition-all duration-200 shadow-lg"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              {t.twoFactor.enable}
+            </button>
+          )
+        )}
+      </div>
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} language={language} />}
+    </div>
+  );
+}
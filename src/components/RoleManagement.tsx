@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, X, Shield, Check } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { PERMISSIONS, Permission } from '../lib/permissions';
+import { Role, RoleFormData } from '../types/role';
+import Toast from './Toast';
+import ConfirmDialog from './ConfirmDialog';
+
+interface RoleManagementProps {
+  language?: 'EN' | 'AR';
+}
+
+// The admin role always keeps every permission (enforced by the roles policies too)
+const LOCKED_ROLE = 'admin';
+
+const toRoleKey = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .replace(/^(\d)/, 'role_$1');
+
+export default function RoleManagement({ language = 'EN' }: RoleManagementProps) {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<RoleFormData>({ name: '', description: '' });
+  const [formError, setFormError] = useState<string | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmDialog, setConfirmDialog] = useState<{
+    show: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+  } | null>(null);
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const fetchRoles = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('roles')
+        .select('*')
+        .order('is_system', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setRoles(data || []);
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      setToast({ message: 'Failed to load roles', type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTogglePermission = async (role: Role, permission: Permission) => {
+    const permissions = role.permissions.includes(permission)
+      ? role.permissions.filter((p) => p !== permission)
+      : [...role.permissions, permission];
+
+    try {
+      setSaving(`${role.key}:${permission}`);
+      const { error } = await supabase
+        .from('roles')
+        .update({ permissions, updated_at: new Date().toISOString() })
+        .eq('key', role.key);
+
+      if (error) throw error;
+      setRoles(roles.map((r) => (r.key === role.key ? { ...r, permissions } : r)));
+    } catch (error) {
+      console.error('Error updating role permissions:', error);
+      setToast({ message: (error as { message?: string }).message || 'Failed to update permissions', type: 'error' });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const key = toRoleKey(formData.name);
+    if (!formData.name.trim() || !key) {
+      setFormError('Role name is required');
+      return;
+    }
+    if (roles.some((r) => r.key === key)) {
+      setFormError('A role with this name already exists');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('roles').insert([
+        {
+          key,
+          name: formData.name.trim(),
+          description: formData.description.trim() || null,
+          permissions: [],
+        },
+      ]);
+
+      if (error) throw error;
+      setToast({ message: 'Role created successfully!', type: 'success' });
+      handleCloseForm();
+      await fetchRoles();
+    } catch (error) {
+      console.error('Error creating role:', error);
+      setToast({ message: (error as { message?: string }).message || 'Failed to create role', type: 'error' });
+    }
+  };
+
+  const handleDelete = (role: Role) => {
+    setConfirmDialog({
+      show: true,
+      title: 'Delete Role',
+      message: `Are you sure you want to delete the "${role.name}" role? Users must be moved to another role first.`,
+      onConfirm: async () => {
+        try {
+          const { error } = await supabase.from('roles').delete().eq('key', role.key);
+
+          if (error) {
+            // 23503: users still reference this role
+            if (error.code === '23503') {
+              throw new Error('This role is still assigned to users');
+            }
+            throw error;
+          }
+          setToast({ message: 'Role deleted successfully!', type: 'success' });
+          await fetchRoles();
+        } catch (error) {
+          console.error('Error deleting role:', error);
+          setToast({ message: (error as { message?: string }).message || 'Failed to delete role', type: 'error' });
+        } finally {
+          setConfirmDialog(null);
+        }
+      },
+    });
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setFormData({ name: '', description: '' });
+    setFormError(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading roles...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Roles & Permissions</h3>
+          <p className="text-gray-600 text-sm mt-1">
+            Grant permissions to roles; changes apply to signed-in users within a few minutes
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white px-5 py-2.5 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+        >
+          <Plus className="w-5 h-5" />
+          Add Role
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gradient-to-r from-blue-600 to-blue-700 text-white">
+            <tr>
+              <th className="px-6 py-4 text-left text-sm font-semibold">Permission</th>
+              {roles.map((role) => (
+                <th key={role.key} className="px-4 py-4 text-center text-sm font-semibold whitespace-nowrap">
+                  <div className="flex items-center justify-center gap-2">
+                    <span title={role.description || undefined}>{role.name}</span>
+                    {!role.is_system && (
+                      <button
+                        onClick={() => handleDelete(role)}
+                        className="p-1 hover:bg-blue-800 rounded transition-all duration-200"
+                        title="Delete role"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {PERMISSIONS.map((permission) => (
+              <tr key={permission.key} className="hover:bg-blue-50 transition-all duration-200">
+                <td className="px-6 py-3">
+                  <p className="font-medium text-gray-900 text-sm">{permission.label}</p>
+                  <p className="text-xs text-gray-500">{permission.description}</p>
+                </td>
+                {roles.map((role) => {
+                  const granted = role.permissions.includes(permission.key);
+                  const locked = role.key === LOCKED_ROLE;
+                  return (
+                    <td key={role.key} className="px-4 py-3 text-center">
+                      <button
+                        onClick={() => handleTogglePermission(role, permission.key)}
+                        disabled={locked || saving !== null}
+                        className={`w-6 h-6 rounded-md border-2 inline-flex items-center justify-center transition-all duration-200 disabled:cursor-not-allowed ${
+                          granted ? 'bg-blue-600 border-blue-600' : 'border-gray-300 hover:border-blue-400'
+                        } ${locked ? 'opacity-60' : ''}`}
+                        aria-label={`${permission.label} for ${role.name}`}
+                      >
+                        {granted && <Check className="w-4 h-4 text-white" />}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
+            <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white px-6 py-5 flex items-center justify-between rounded-t-2xl">
+              <h2 className="text-xl font-bold flex items-center gap-2">
+                <Shield className="w-5 h-5" />
+                Add Role
+              </h2>
+              <button
+                onClick={handleCloseForm}
+                className="p-1.5 hover:bg-blue-800 rounded-lg transition-all duration-200 hover:scale-110"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Role Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => {
+                    setFormData({ ...formData, name: e.target.value });
+                    setFormError(null);
+                  }}
+                  className={`w-full px-4 py-2.5 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+                    formError ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Senior Agent"
+                />
+                {formError && <p className="mt-1 text-sm text-red-600">{formError}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description <span className="text-gray-500 text-xs">(optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                />
+              </div>
+
+              <p className="text-xs text-gray-500">New roles start without permissions; grant them in the matrix.</p>
+
+              <div className="flex gap-3 pt-4 border-t">
+                <button
+                  type="submit"
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-2.5 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg shadow-blue-200 hover:shadow-xl hover:scale-105"
+                >
+                  Create Role
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseForm}
+                  className="flex-1 bg-gray-200 text-gray-800 py-2.5 px-6 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200 hover:scale-105"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} language={language} />}
+
+      {confirmDialog && (
+        <ConfirmDialog
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          onConfirm={confirmDialog.onConfirm}
+          onCancel={() => setConfirmDialog(null)}
+          language={language}
+        />
+      )}
+    </div>
+  );
+}
@@ -7,9 +7,10 @@ interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
   language: 'EN' | 'AR';
+  canAccess?: (view: string) => boolean;
 }
 
-export default function Sidebar({ currentView, onNavigate, isOpen, onClose, language }: SidebarProps) {
+export default function Sidebar({ currentView, onNavigate, isOpen, onClose, language, canAccess = () => true }: SidebarProps) {
   const t = translations[language];
 
   const menuItems = [
@@ -18,7 +19,7 @@ export default function Sidebar({ currentView, onNavigate, isOpen, onClose, lang
     { id: 'tasks', label: t.navigation.tasks, icon: CheckSquare },
     { id: 'import', label: t.navigation.import, icon: Upload },
     { id: 'admin', label: t.navigation.admin, icon: Settings },
-  ];
+  ].filter((item) => canAccess(item.id));
 
   return (
     <>
@@ -1,11 +1,18 @@
 import { memo, useMemo } from 'react';
 import { TrendingUp, TrendingDown } from 'lucide-react';
 import { Client } from '../types/client';
+import { Booking } from '../types/booking';
+import { PipelineStage } from '../types/pipeline';
+import { Currency } from '../types/currency';
 import { translations } from '../lib/translations';
+import { getOpenBookings, getWonBookings } from '../lib/bookings';
+import { formatMoney, getBaseCurrency, sumInBase } from '../lib/currency';
 
 interface StatCard {
   label: string;
   value: number;
+  // Shown instead of the plain number, e.g. for money
+  display?: string;
   icon: React.ReactNode;
   color: string;
   trend?: number;
@@ -14,23 +21,23 @@ interface StatCard {
 
 interface StatisticsCardsProps {
   clients: Client[];
+  bookings: Booking[];
   language?: 'EN' | 'AR';
+  stages: PipelineStage[];
+  currencies: Currency[];
 }
 
-function StatisticsCards({ clients, language = 'EN' }: StatisticsCardsProps) {
+function StatisticsCards({ clients, bookings, language = 'EN', stages, currencies }: StatisticsCardsProps) {
   const t = translations[language];
   const statCards: StatCard[] = useMemo(() => {
     const totalClients = clients.length;
 
-    const statusCounts = clients.reduce((acc, client) => {
-      acc[client.status] = (acc[client.status] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+    // A client with several trips counts once per booking
+    const wonBookings = getWonBookings(bookings, stages).length;
+    const openBookings = getOpenBookings(bookings, stages).length;
 
-    const bookedClients = statusCounts['Booked'] || 0;
-    const contactedClients = statusCounts['Contacted'] || 0;
-
-    const totalRevenue = clients.reduce((sum, client) => sum + (client.price || 0), 0);
+    // In the base currency; prices without an exchange rate are left out
+    const totalRevenue = sumInBase(bookings, currencies).total;
 
     const calculateTrend = (current: number, previous: number = current * 0.8) => {
       if (previous === 0) return 0;
@@ -51,29 +58,30 @@ function StatisticsCards({ clients, language = 'EN' }: StatisticsCardsProps) {
     },
     {
       label: t.dashboard.totalBookings,
-      value: bookedClients,
+      value: wonBookings,
       icon: (
         <div className="w-12 h-12 bg-emerald-100 rounded-lg flex items-center justify-center">
           <span className="text-2xl">✓</span>
         </div>
       ),
       color: 'from-emerald-50 to-emerald-100',
-      trend: calculateTrend(bookedClients),
+      trend: calculateTrend(wonBookings),
     },
     {
-      label: t.statuses.contacted,
-      value: contactedClients,
+      label: t.dashboard.openLeads,
+      value: openBookings,
       icon: (
         <div className="w-12 h-12 bg-cyan-100 rounded-lg flex items-center justify-center">
           <span className="text-2xl">📞</span>
         </div>
       ),
       color: 'from-cyan-50 to-cyan-100',
-      trend: calculateTrend(contactedClients),
+      trend: calculateTrend(openBookings),
     },
     {
       label: t.dashboard.revenue,
       value: Math.round(totalRevenue),
+      display: formatMoney(Math.round(totalRevenue), getBaseCurrency(currencies)),
       icon: (
         <div className="w-12 h-12 bg-indigo-100 rounded-lg flex items-center justify-center">
           <span className="text-2xl">💰</span>
@@ -83,7 +91,7 @@ function StatisticsCards({ clients, language = 'EN' }: StatisticsCardsProps) {
       trend: calculateTrend(totalRevenue),
     },
   ];
-  }, [clients, t]);
+  }, [clients, bookings, stages, currencies, t]);
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
@@ -103,7 +111,7 @@ function StatisticsCards({ clients, language = 'EN' }: StatisticsCardsProps) {
             </div>
 
             <div className="mb-3 md:mb-4">
-              <p className="text-3xl md:text-4xl font-bold text-gray-900">{stat.value.toLocaleString()}</p>
+              <p className="text-3xl md:text-4xl font-bold text-gray-900">{stat.display ?? stat.value.toLocaleString()}</p>
             </div>
 
             {stat.trend !== undefined && (
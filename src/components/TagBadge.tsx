@@ -0,0 +1,16 @@
+import { Tag } from '../types/tag';
+import { getTagColors } from '../lib/tags';
+
+interface TagBadgeProps {
+  tag: Tag;
+}
+
+export default function TagBadge({ tag }: TagBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold border ${getTagColors(tag).badge}`}
+    >
+      {tag.name}
+    </span>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { Tag } from '../types/tag';
+import { translations } from '../lib/translations';
+import { createTag, findTagByName, getNextTagColor, getTagColors } from '../lib/tags';
+
+interface TagPickerProps {
+  tags: Tag[];
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  // Called after a new tag is created so the parent can reload the tag list
+  onTagsChanged?: () => void;
+  canCreate?: boolean;
+  language: 'EN' | 'AR';
+}
+
+export default function TagPicker({ tags, selectedIds, onChange, onTagsChanged, canCreate = true, language }: TagPickerProps) {
+  const t = translations[language];
+  const [newTagName, setNewTagName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Shown until the parent's reloaded list includes them
+  const [createdTags, setCreatedTags] = useState<Tag[]>([]);
+
+  const allTags = [...tags, ...createdTags.filter((created) => !tags.some((tag) => tag.id === created.id))];
+
+  const toggleTag = (tagId: string) => {
+    onChange(selectedIds.includes(tagId) ? selectedIds.filter((id) => id !== tagId) : [...selectedIds, tagId]);
+  };
+
+  const handleCreate = async () => {
+    const name = newTagName.trim();
+    if (!name) return;
+
+    // Typing the name of an existing tag selects it instead of creating a duplicate
+    const existing = findTagByName(allTags, name);
+    if (existing) {
+      if (!selectedIds.includes(existing.id)) onChange([...selectedIds, existing.id]);
+      setNewTagName('');
+      return;
+    }
+
+    setCreating(true);
+    setError(null);
+    try {
+      const tag = await createTag(name, getNextTagColor(allTags));
+      setCreatedTags((prev) => [...prev, tag]);
+      onChange([...selectedIds, tag.id]);
+      setNewTagName('');
+      onTagsChanged?.();
+    } catch (err) {
+      console.error('Error creating tag:', err);
+      setError((err as { message?: string }).message || t.tags.createFailed);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div>
+      {allTags.length === 0 ? (
+        <p className="text-sm text-gray-500">{t.tags.noTags}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {allTags.map((tag) => {
+            const selected = selectedIds.includes(tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggleTag(tag.id)}
+                aria-pressed={selected}
+                className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                  selected ? getTagColors(tag).badge : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {selected && <Check className="w-3 h-3" />}
+                {tag.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {canCreate && (
+        <input
+          type="text"
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          disabled={creating}
+          className="mt-2 w-full px-4 py-2 border border-gray-300 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 disabled:bg-gray-50"
+          placeholder={t.tags.newTag}
+        />
+      )}
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { useState } from 'react';
+import { Edit2, Trash2, Plus, UserMinus, UsersRound } from 'lucide-react';
+import { Client } from '../types/client';
+import { Booking } from '../types/booking';
+import { Currency } from '../types/currency';
+import { PipelineStage } from '../types/pipeline';
+import { TravelGroup, TravelGroupMember, TravelGroupRole } from '../types/travelGroup';
+import { translations } from '../lib/translations';
+import { formatMoney, getBaseCurrency, sumInBase } from '../lib/currency';
+import { getWonBookings } from '../lib/bookings';
+import { isLostStage } from '../lib/pipeline';
+import {
+  TRAVEL_GROUP_ROLES,
+  addGroupMember,
+  createTravelGroup,
+  deleteTravelGroup,
+  removeGroupMember,
+  renameTravelGroup,
+  setGroupMemberRole,
+  sortGroupMembers,
+} from '../lib/travelGroups';
+import ConfirmDialog from './ConfirmDialog';
+
+interface TravelGroupCardProps {
+  client: Client;
+  clients: Client[];
+  // Every group and membership, so clients already in a group can be left out
+  travelGroups: TravelGroup[];
+  groupMembers: TravelGroupMember[];
+  bookings: Booking[];
+  stages: PipelineStage[];
+  currencies: Currency[];
+  canEdit: boolean;
+  onChanged: () => void;
+  onViewClient?: (client: Client) => void;
+  onError: (message: string) => void;
+  language: 'EN' | 'AR';
+}
+
+const selectClassName =
+  'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function TravelGroupCard({
+  client,
+  clients,
+  travelGroups,
+  groupMembers,
+  bookings,
+  stages,
+  currencies,
+  canEdit,
+  onChanged,
+  onViewClient,
+  onError,
+  language,
+}: TravelGroupCardProps) {
+  const t = translations[language];
+  const [newGroupName, setNewGroupName] = useState('');
+  const [joinGroupId, setJoinGroupId] = useState('');
+  const [newMemberId, setNewMemberId] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<TravelGroupRole>('member');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const membership = groupMembers.find((member) => member.client_id === client.id);
+  const group = membership ? travelGroups.find((g) => g.id === membership.group_id) : undefined;
+  const members = group ? sortGroupMembers(groupMembers.filter((member) => member.group_id === group.id)) : [];
+  const groupedClientIds = new Set(groupMembers.map((member) => member.client_id));
+  const availableClients = clients.filter((c) => !groupedClientIds.has(c.id));
+
+  // Totals cover the members this user can see; lost bookings are left out
+  const baseCurrency = getBaseCurrency(currencies);
+  const memberIds = new Set(members.map((member) => member.client_id));
+  const memberBookings = bookings.filter((booking) => memberIds.has(booking.client_id));
+  const groupTotal = sumInBase(
+    memberBookings.filter((booking) => !isLostStage(stages, booking.status)),
+    currencies
+  );
+  const groupBooked = sumInBase(getWonBookings(memberBookings, stages), currencies);
+
+  const getRoleLabel = (role: TravelGroupRole) => t.travelGroups[role];
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setSaving(true);
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error('Error updating travel group:', error);
+      onError(t.travelGroups.saveFailed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newGroupName.trim()) return;
+    run(async () => {
+      await createTravelGroup(newGroupName, client.id);
+      setNewGroupName('');
+    });
+  };
+
+  const handleJoin = () => {
+    if (!joinGroupId) return;
+    run(async () => {
+      await addGroupMember(joinGroupId, client.id, 'member');
+      setJoinGroupId('');
+    });
+  };
+
+  const handleAddMember = () => {
+    if (!group || !newMemberId) return;
+    run(async () => {
+      await addGroupMember(group.id, newMemberId, newMemberRole);
+      setNewMemberId('');
+      setNewMemberRole('member');
+    });
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!group || !renaming?.trim()) return;
+    run(async () => {
+      await renameTravelGroup(group.id, renaming);
+      setRenaming(null);
+    });
+  };
+
+  return (
+    <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2 min-w-0">
+          <UsersRound className="w-5 h-5 text-gray-600 flex-shrink-0" />
+          <span className="truncate">{group ? `${t.travelGroups.title}: ${group.name}` : t.travelGroups.title}</span>
+        </h3>
+        {group && canEdit && renaming === null && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <button
+              onClick={() => setRenaming(group.name)}
+              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200"
+              aria-label={t.travelGroups.rename}
+            >
+              <Edit2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setConfirmDelete(true)}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200"
+              aria-label={t.travelGroups.deleteGroup}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!group ? (
+        <div className="space-y-4">
+          <p className="text-gray-500 text-sm">{t.travelGroups.notInGroup}</p>
+          {canEdit && (
+            <>
+              <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={newGroupName}
+                  onChange={(e) => setNewGroupName(e.target.value)}
+                  placeholder={t.travelGroups.groupNamePlaceholder}
+                  aria-label={t.travelGroups.groupName}
+                  className={`flex-1 min-w-0 ${selectClassName}`}
+                />
+                <button
+                  type="submit"
+                  disabled={saving || !newGroupName.trim()}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all duration-200 text-sm font-semibold disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  {t.travelGroups.createGroup}
+                </button>
+              </form>
+              {travelGroups.length > 0 && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <select
+                    value={joinGroupId}
+                    onChange={(e) => setJoinGroupId(e.target.value)}
+                    aria-label={t.travelGroups.joinGroup}
+                    className={`flex-1 min-w-0 ${selectClassName}`}
+                  >
+                    <option value="">{t.travelGroups.chooseGroup}</option>
+                    {travelGroups.map((g) => (
+                      <option key={g.id} value={g.id}>
+                        {g.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleJoin}
+                    disabled={saving || !joinGroupId}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-semibold disabled:opacity-50"
+                  >
+                    {t.travelGroups.joinGroup}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {renaming !== null && (
+            <form onSubmit={handleRename} className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                value={renaming}
+                onChange={(e) => setRenaming(e.target.value)}
+                aria-label={t.travelGroups.groupName}
+                className={`flex-1 min-w-0 ${selectClassName}`}
+                autoFocus
+              />
+              <button
+                type="submit"
+                disabled={saving || !renaming.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all duration-200 text-sm font-semibold disabled:opacity-50"
+              >
+                {t.actions.save}
+              </button>
+              <button
+                type="button"
+                onClick={() => setRenaming(null)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-semibold"
+              >
+                {t.actions.cancel}
+              </button>
+            </form>
+          )}
+
+          {!members.some((member) => member.role === 'lead') && (
+            <p className="text-xs text-gray-500">{t.travelGroups.noLead}</p>
+          )}
+
+          <div className="space-y-2">
+            {members.map((member) => {
+              const memberClient = clients.find((c) => c.id === member.client_id);
+              const memberTotal = sumInBase(
+                memberBookings.filter((booking) => booking.client_id === member.client_id),
+                currencies
+              );
+              const isCurrent = member.client_id === client.id;
+
+              return (
+                <div
+                  key={member.client_id}
+                  className={`flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 rounded-lg border ${
+                    isCurrent ? 'bg-blue-50 border-blue-200' : 'bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    {memberClient && !isCurrent && onViewClient ? (
+                      <button
+                        onClick={() => onViewClient(memberClient)}
+                        className="font-semibold text-blue-700 hover:text-blue-900 hover:underline text-left"
+                      >
+                        {memberClient.name}
+                      </button>
+                    ) : (
+                      <span className="font-semibold text-gray-900">
+                        {memberClient?.name || '—'}
+                        {isCurrent && <span className="text-xs text-gray-500 font-normal"> ({t.travelGroups.you})</span>}
+                      </span>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {!canEdit && `${getRoleLabel(member.role)} · `}
+                      {formatMoney(memberTotal.total, baseCurrency)}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          run(() => setGroupMemberRole(group.id, member.client_id, e.target.value as TravelGroupRole))
+                        }
+                        disabled={saving}
+                        aria-label={t.travelGroups.role}
+                        className={selectClassName}
+                      >
+                        {TRAVEL_GROUP_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {getRoleLabel(role)}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => run(() => removeGroupMember(group.id, member.client_id))}
+                        disabled={saving}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 disabled:opacity-50"
+                        aria-label={t.travelGroups.removeMember}
+                        title={t.travelGroups.removeMember}
+                      >
+                        <UserMinus className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {canEdit && availableClients.length > 0 && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={newMemberId}
+                onChange={(e) => setNewMemberId(e.target.value)}
+                aria-label={t.travelGroups.addMember}
+                className={`flex-1 min-w-0 ${selectClassName}`}
+              >
+                <option value="">{t.travelGroups.chooseClient}</option>
+                {availableClients.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name} · {c.phone_number}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={newMemberRole}
+                onChange={(e) => setNewMemberRole(e.target.value as TravelGroupRole)}
+                aria-label={t.travelGroups.role}
+                className={selectClassName}
+              >
+                {TRAVEL_GROUP_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {getRoleLabel(role)}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddMember}
+                disabled={saving || !newMemberId}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all duration-200 text-sm font-semibold disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                {t.travelGroups.addMember}
+              </button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 pt-4 border-t border-gray-200">
+            <div>
+              <p className="text-xs text-gray-500 font-medium">{t.travelGroups.groupTotal}</p>
+              <p className="text-lg font-bold text-gray-900">{formatMoney(groupTotal.total, baseCurrency)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 font-medium">{t.travelGroups.groupBooked}</p>
+              <p className="text-lg font-bold text-emerald-700">{formatMoney(groupBooked.total, baseCurrency)}</p>
+            </div>
+            {groupTotal.unconverted > 0 && (
+              <p className="col-span-2 text-xs text-gray-500">
+                {t.bookings.withoutRate.replace('{count}', String(groupTotal.unconverted))}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {confirmDelete && group && (
+        <ConfirmDialog
+          title={t.travelGroups.deleteTitle}
+          message={t.travelGroups.deleteConfirm.replace('{name}', group.name)}
+          confirmText={t.actions.delete}
+          cancelText={t.actions.cancel}
+          onConfirm={() => {
+            setConfirmDelete(false);
+            run(() => deleteTravelGroup(group.id));
+          }}
+          onCancel={() => setConfirmDelete(false)}
+          language={language}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { Copy, Loader, ShieldCheck } from 'lucide-react';
+import { User } from '../lib/supabase';
+import { confirmMfaEnrollment, MfaEnrollment, startMfaEnrollment } from '../lib/auth';
+import { translations } from '../lib/translations';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  language: 'EN' | 'AR';
+  onDone: () => void;
+}
+
+export function RecoveryCodesList({ codes, language, onDone }: RecoveryCodesListProps) {
+  const t = translations[language];
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying recovery codes:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-semibold text-gray-900">{t.twoFactor.recoveryCodesTitle}</h4>
+        <p className="text-sm text-gray-600 mt-1">{t.twoFactor.recoveryCodesHint}</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-lg" dir="ltr">
+        {codes.map((code) => (
+          <span key={code} className="font-mono text-sm text-gray-800 text-center">
+            {code}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center justify-center gap-2 flex-1 bg-gray-200 text-gray-800 py-2.5 px-4 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200"
+        >
+          <Copy className="w-4 h-4" />
+          {copied ? t.twoFactor.codesCopied : t.twoFactor.copyCodes}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-2.5 px-4 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg"
+        >
+          {t.twoFactor.savedCodes}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorSetupProps {
+  language: 'EN' | 'AR';
+  // Enrollment challenge from login; omitted when a signed-in user opts in
+  mfaToken?: string;
+  onComplete: (user: User | null) => void;
+  onCancel: () => void;
+}
+
+export default function TwoFactorSetup({ language, mfaToken, onComplete, onCancel }: TwoFactorSetupProps) {
+  const t = translations[language];
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<{ recoveryCodes: string[]; user: User | null } | null>(null);
+
+  useEffect(() => {
+    startMfaEnrollment(mfaToken)
+      .then(setEnrollment)
+      .catch((err) => {
+        console.error('Error starting MFA enrollment:', err);
+        setError((err as Error).message);
+      })
+      .finally(() => setLoading(false));
+  }, [mfaToken]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      setResult(await confirmMfaEnrollment(code, mfaToken));
+    } catch (err) {
+      setError((err as Error).message);
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <RecoveryCodesList codes={result.recoveryCodes} language={language} onDone={() => onComplete(result.user)} />
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading && !enrollment ? (
+        <div className="flex justify-center py-6">
+          <Loader className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        enrollment && (
+          <>
+            <p className="text-sm text-gray-600">{t.twoFactor.scanInstructions}</p>
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-2" dir="ltr">
+              <p className="text-xs text-gray-500 font-medium">{t.twoFactor.setupKey}</p>
+              <p className="font-mono text-sm text-gray-900 break-all select-all">
+                {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+              </p>
+              <a href={enrollment.otpauthUrl} className="inline-block text-sm text-blue-600 hover:text-blue-800 font-medium">
+                {t.twoFactor.openInApp}
+              </a>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t.twoFactor.enterCode}</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all font-mono tracking-widest text-center"
+                placeholder={t.twoFactor.codePlaceholder}
+                disabled={loading}
+                dir="ltr"
+              />
+            </div>
+          </>
+        )
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={loading || code.length !== 6}
+          className="flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-2.5 px-4 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading && enrollment ? <Loader className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+          {t.twoFactor.verify}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-gray-800 py-2.5 px-4 rounded-xl font-semibold hover:bg-gray-300 transition-all duration-200"
+        >
+          {t.twoFactor.cancel}
+        </button>
+      </div>
+    </form>
+  );
+}
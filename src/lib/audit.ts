@@ -0,0 +1,35 @@
+import { AuditFieldChange } from '../types/audit';
+
+// Display helpers shared by the per-client history and the admin audit trail
+
+export const formatAuditField = (field: string): string => {
+  const label = field.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Itinerary stops read as "Istanbul (3)"; other list items as text
+const formatListItem = (item: unknown): string => {
+  if (item && typeof item === 'object') {
+    const { place, nights } = item as { place?: unknown; nights?: unknown };
+    if (typeof place === 'string') return nights === null || nights === undefined ? place : `${place} (${nights})`;
+    return JSON.stringify(item);
+  }
+  return String(item);
+};
+
+// User ids (assigned_to, created_by) are shown as names when known
+export const formatAuditValue = (value: unknown, userNames: Record<string, string> = {}): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string' && userNames[value]) return userNames[value];
+  if (Array.isArray(value)) return value.length > 0 ? value.map(formatListItem).join(', ') : '—';
+  // Custom field values read as "passport_number: U123, budget_band: Premium"
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return entries.length > 0 ? entries.map(([key, item]) => `${key}: ${formatListItem(item)}`).join(', ') : '—';
+  }
+  return String(value);
+};
+
+export const getAuditChangeEntries = (changes: Record<string, AuditFieldChange>): [string, AuditFieldChange][] => {
+  return Object.entries(changes).sort(([a], [b]) => a.localeCompare(b));
+};
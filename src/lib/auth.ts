@@ -1,78 +1,212 @@
-import { supabase, User } from './supabase';
+import { User } from './supabase';
+import {
+  beginImpersonation,
+  clearSession,
+  endImpersonation,
+  getAccessToken,
+  getSessionUser,
+  getStoredRefreshToken,
+  isImpersonating,
+  refreshSession,
+  setSession,
+} from './session';
 
-export const login = async (email: string, password: string): Promise<User | null> => {
-  try {
-    console.log('Attempting login with:', { email, password });
-
-    // First, fetch ALL users to see what's in the database
-    const { data: allUsers, error: allUsersError } = await supabase
-      .from('users')
-      .select('*');
-    console.log('===== ALL USERS IN TABLE =====');
-    console.log('All users in database:', allUsers);
-    console.log('All users error:', allUsersError);
-    console.log('Number of users found:', allUsers?.length || 0);
-
-    // Now try to find the specific user
-    const { data: users, error } = await supabase
-      .from('users')
-      .select('*')
-      .eq('email', email)
-      .eq('password_hash', password);
-
-    console.log('Query result:', { users, error });
-
-    if (error) {
-      console.error('Supabase error:', error);
-      throw new Error('Invalid email or password');
-    }
+// Password logins either sign in directly or, for two-factor accounts, return a
+// short-lived challenge token for the second step.
+export type LoginResult =
+  | { status: 'authenticated'; user: User }
+  | { status: 'mfa_required' | 'mfa_enrollment_required'; mfaToken: string };
 
-    if (!users || users.length === 0) {
-      console.log('No users found with these credentials');
-      throw new Error('Invalid email or password');
-    }
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
 
-    const user = users[0];
-    console.log('User found:', user);
+const toUser = (user: User): User => ({
+  id: user.id,
+  email: user.email,
+  full_name: user.full_name,
+  role: user.role,
+  permissions: user.permissions || [],
+  impersonation: user.impersonation,
+});
 
-    // Check if the user account is active
-    if (user.is_active === false) {
-      console.log('User account is deactivated');
-      throw new Error('Your account has been deactivated. Please contact an administrator.');
-    }
+export const login = async (email: string, password: string): Promise<LoginResult> => {
+  try {
+    // Credentials are verified server-side against the bcrypt hash;
+    // the browser only ever receives the public User shape and a signed session.
+    const response = await fetch('/.netlify/functions/login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email, password }),
+    });
+
+    const result = await response.json().catch(() => ({}));
 
-    console.log('Login successful:', user);
+    if (!response.ok) {
+      throw new Error(result.error || 'Invalid email or password');
+    }
 
-    const userData: User = {
-      id: user.id,
-      email: user.email,
-      full_name: user.full_name,
-      role: user.role,
-    };
+    if (result.mfa_required || result.mfa_enrollment_required) {
+      return {
+        status: result.mfa_required ? 'mfa_required' : 'mfa_enrollment_required',
+        mfaToken: result.mfa_token,
+      };
+    }
 
-    localStorage.setItem('taktik_user', JSON.stringify(userData));
-    return userData;
+    const userData = toUser(result.user);
+    setSession(userData, result.session);
+    return { status: 'authenticated', user: userData };
   } catch (error) {
     console.error('Login error:', error);
     throw error;
   }
 };
 
+// Restores the session on page load by asking the server to verify the stored
+// refresh token. Resolves to null when there is no valid session.
+export const restoreSession = async (): Promise<User | null> => {
+  // Sessions from before signed tokens are not trusted
+  localStorage.removeItem('taktik_user');
+  return refreshSession();
+};
+
 export const getCurrentUser = (): User | null => {
-  const userStr = localStorage.getItem('taktik_user');
-  if (!userStr) return null;
+  return getSessionUser();
+};
+
+export const logout = async (): Promise<void> => {
+  // Signing out while viewing as an agent also ends the admin's own session
+  if (isImpersonating()) {
+    await endImpersonation();
+  }
+
+  const refreshToken = getStoredRefreshToken();
+  clearSession();
+
+  if (!refreshToken) return;
+
   try {
-    return JSON.parse(userStr);
+    await fetch('/.netlify/functions/logout', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken }),
+    });
   } catch (error) {
-    console.error('Error parsing user data:', error);
-    return null;
+    console.error('Error revoking session:', error);
   }
 };
 
-export const logout = (): void => {
-  localStorage.removeItem('taktik_user');
+const postJson = async (path: string, body: unknown, accessToken?: string | null) => {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed. Please try again.');
+  }
+
+  return result;
+};
+
+// Emails a single-use reset link; resolves the same way whether or not the account exists
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  await postJson('/.netlify/functions/request-password-reset', { email });
+};
+
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  await postJson('/.netlify/functions/reset-password', { token, password });
+};
+
+// Changes the signed-in user's own password; other devices are signed out
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+  await postJson('/.netlify/functions/change-password', { currentPassword, newPassword }, await getAccessToken());
+};
+
+// Completes a two-factor login with an authenticator code or a recovery code
+export const verifyMfa = async (
+  mfaToken: string,
+  credentials: { code: string } | { recoveryCode: string }
+): Promise<User> => {
+  const result = await postJson('/.netlify/functions/verify-mfa', { mfaToken, ...credentials });
+  const userData = toUser(result.user);
+  setSession(userData, result.session);
+  return userData;
+};
+
+// Enrollment runs either for the signed-in user or, during login, with the
+// enrollment challenge token of an account that must set up two-factor first.
+export const startMfaEnrollment = async (mfaToken?: string): Promise<MfaEnrollment> => {
+  return postJson(
+    '/.netlify/functions/enroll-mfa',
+    { action: 'start', mfaToken },
+    mfaToken ? null : await getAccessToken()
+  );
+};
+
+export const confirmMfaEnrollment = async (
+  code: string,
+  mfaToken?: string
+): Promise<{ recoveryCodes: string[]; user: User | null }> => {
+  const result = await postJson(
+    '/.netlify/functions/enroll-mfa',
+    { action: 'confirm', code, mfaToken },
+    mfaToken ? null : await getAccessToken()
+  );
+
+  if (!result.session) {
+    return { recoveryCodes: result.recoveryCodes, user: null };
+  }
+
+  const userData = toUser(result.user);
+  // The session is stored now but the caller decides when to leave the login screen
+  setSession(userData, result.session);
+  return { recoveryCodes: result.recoveryCodes, user: userData };
+};
+
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  const result = await postJson(
+    '/.netlify/functions/enroll-mfa',
+    { action: 'regenerate_recovery_codes', code },
+    await getAccessToken()
+  );
+  return result.recoveryCodes;
+};
+
+export const disableMfa = async (code: string): Promise<void> => {
+  await postJson('/.netlify/functions/disable-mfa', { code }, await getAccessToken());
+};
+
+// Clears another user's two-factor setup (requires users.manage)
+export const resetUserMfa = async (userId: string): Promise<void> => {
+  await postJson('/.netlify/functions/disable-mfa', { userId }, await getAccessToken());
+};
+
+// Opens a time-boxed session as another user (requires users.impersonate).
+// Deletes and restores stay blocked unless allowDestructive is set.
+export const startImpersonation = async (userId: string, allowDestructive: boolean): Promise<User> => {
+  const result = await postJson(
+    '/.netlify/functions/start-impersonation',
+    { userId, allowDestructive },
+    await getAccessToken()
+  );
+  const userData = toUser(result.user);
+  beginImpersonation(userData, result.session);
+  return userData;
 };
 
-export const isAdmin = (user: User | null): boolean => {
-  return user?.role === 'admin';
+// Returns to the admin's own session; null if it expired meanwhile
+export const stopImpersonation = async (): Promise<User | null> => {
+  return endImpersonation();
 };
@@ -0,0 +1,75 @@
+import { supabase } from './supabase';
+import { isOpenStage, isWonStage } from './pipeline';
+import { parseItinerary } from './destinations';
+import { Booking, BookingFormData } from '../types/booking';
+import { PipelineStage } from '../types/pipeline';
+
+// PostgREST returns at most 1000 rows per request
+const BOOKINGS_PAGE_SIZE = 1000;
+
+// Every booking, newest first, read page by page so none are cut off
+export const fetchBookings = async (): Promise<Booking[]> => {
+  const bookings: Booking[] = [];
+
+  for (let offset = 0; ; offset += BOOKINGS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + BOOKINGS_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    // numeric columns come back as strings
+    bookings.push(...(data || []).map((booking) => ({ ...booking, price: Number(booking.price) || 0 })));
+    if (!data || data.length < BOOKINGS_PAGE_SIZE) return bookings;
+  }
+};
+
+// Bookings per client id, primary booking first, then newest first
+export const groupBookings = (bookings: Booking[]): Record<string, Booking[]> => {
+  const grouped = bookings.reduce((acc, booking) => {
+    if (!acc[booking.client_id]) acc[booking.client_id] = [];
+    acc[booking.client_id].push(booking);
+    return acc;
+  }, {} as Record<string, Booking[]>);
+
+  Object.values(grouped).forEach((list) =>
+    list.sort((a, b) => Number(b.is_primary) - Number(a.is_primary) || b.created_at.localeCompare(a.created_at))
+  );
+  return grouped;
+};
+
+export const getWonBookings = (bookings: Booking[], stages: PipelineStage[]): Booking[] => {
+  return bookings.filter((booking) => isWonStage(stages, booking.status));
+};
+
+export const getOpenBookings = (bookings: Booking[], stages: PipelineStage[]): Booking[] => {
+  return bookings.filter((booking) => isOpenStage(stages, booking.status));
+};
+
+// Each place of a booking once, in travel order
+export const getBookingPlaces = (booking: Pick<Booking, 'destination'>): string[] => {
+  return Array.from(new Set(parseItinerary(booking.destination).map((stop) => stop.place)));
+};
+
+export const createBooking = async (clientId: string, formData: BookingFormData): Promise<void> => {
+  const { error } = await supabase.from('bookings').insert([{ ...formData, client_id: clientId }]);
+
+  if (error) throw error;
+};
+
+export const updateBooking = async (bookingId: string, formData: BookingFormData): Promise<void> => {
+  const { error } = await supabase
+    .from('bookings')
+    .update({ ...formData, updated_at: new Date().toISOString() })
+    .eq('id', bookingId);
+
+  if (error) throw error;
+};
+
+export const deleteBooking = async (bookingId: string): Promise<void> => {
+  const { error } = await supabase.from('bookings').delete().eq('id', bookingId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+import { Currency } from '../types/currency';
+
+// Currency the app showed every price in before clients had their own
+export const DEFAULT_CURRENCY = 'USD';
+
+export const fetchCurrencies = async (): Promise<Currency[]> => {
+  const { data, error } = await supabase
+    .from('currencies')
+    .select('*')
+    .order('is_base', { ascending: false })
+    .order('code', { ascending: true });
+
+  if (error) throw error;
+  // numeric columns come back as strings
+  return (data || []).map((currency) => ({
+    ...currency,
+    rate_to_base: currency.rate_to_base === null ? null : Number(currency.rate_to_base),
+  }));
+};
+
+export const getBaseCurrency = (currencies: Currency[]): string => {
+  return currencies.find((currency) => currency.is_base)?.code || DEFAULT_CURRENCY;
+};
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  } catch {
+    // Codes Intl does not know are still shown, just without a symbol
+    return `${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${currency}`;
+  }
+};
+
+// null when the currency has no exchange rate yet
+export const convertToBase = (amount: number, currency: string, currencies: Currency[]): number | null => {
+  const rate = currencies.find((c) => c.code === currency)?.rate_to_base;
+  if (rate === null || rate === undefined) {
+    return currency === getBaseCurrency(currencies) ? amount : null;
+  }
+  return amount * rate;
+};
+
+// Totals in the base currency; prices without a rate are counted separately
+export const sumInBase = (
+  items: { price: number; currency: string }[],
+  currencies: Currency[]
+): { total: number; unconverted: number } => {
+  return items.reduce(
+    (acc, item) => {
+      const converted = convertToBase(item.price || 0, item.currency, currencies);
+      if (converted === null) {
+        acc.unconverted += 1;
+      } else {
+        acc.total += converted;
+      }
+      return acc;
+    },
+    { total: 0, unconverted: 0 }
+  );
+};
@@ -0,0 +1,109 @@
+import { supabase } from './supabase';
+import { formatTripDate, toCalendarDate } from './tripDetails';
+import { CustomField, CustomFieldType, CustomFieldValue, CustomFieldValues } from '../types/customField';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select'];
+
+export const fetchCustomFields = async (): Promise<CustomField[]> => {
+  const { data, error } = await supabase
+    .from('custom_fields')
+    .select('*')
+    .order('position', { ascending: true })
+    .order('key', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getCustomFieldLabel = (field: CustomField, language: 'EN' | 'AR' = 'EN'): string => {
+  return language === 'AR' ? field.label_ar : field.label_en;
+};
+
+export const getListCustomFields = (fields: CustomField[]): CustomField[] => {
+  return fields.filter((field) => field.show_in_list);
+};
+
+// "Passport Number" -> "passport_number", the format the key CHECK constraint accepts
+export const toCustomFieldKey = (label: string): string => {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '');
+};
+
+// One choice per line, each once
+export const parseCustomFieldOptions = (text: string): string[] => {
+  const options: string[] = [];
+  text.split('\n').forEach((line) => {
+    const option = line.trim();
+    if (option && !options.some((existing) => existing.toLowerCase() === option.toLowerCase())) {
+      options.push(option);
+    }
+  });
+  return options;
+};
+
+// Form inputs, imports and extraction all go through here, so a value that
+// does not fit its field is dropped instead of being stored
+export const normalizeCustomFieldValue = (field: CustomField, raw: unknown): CustomFieldValue | null => {
+  if (raw === null || raw === undefined) return null;
+
+  switch (field.field_type) {
+    case 'number': {
+      const number = typeof raw === 'number' ? raw : parseFloat(String(raw).replace(/[\s,]/g, ''));
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'date':
+      return toCalendarDate(raw);
+    case 'select': {
+      const text = String(raw).trim().toLowerCase();
+      return field.options.find((option) => option.toLowerCase() === text) || null;
+    }
+    default: {
+      const text = String(raw).trim();
+      return text || null;
+    }
+  }
+};
+
+// Values of the given fields only; keys of other fields are left out
+export const normalizeCustomFieldValues = (fields: CustomField[], raw: unknown): CustomFieldValues => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const values: CustomFieldValues = {};
+  fields.forEach((field) => {
+    const value = normalizeCustomFieldValue(field, (raw as Record<string, unknown>)[field.key]);
+    if (value !== null) values[field.key] = value;
+  });
+  return values;
+};
+
+// Sets or clears one value, keeping the values of fields that were deleted
+export const setCustomFieldValue = (
+  values: CustomFieldValues,
+  key: string,
+  value: CustomFieldValue | null
+): CustomFieldValues => {
+  const next = { ...values };
+  if (value === null) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+};
+
+export const formatCustomFieldValue = (field: CustomField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (field.field_type === 'date' && typeof value === 'string' && toCalendarDate(value)) return formatTripDate(value);
+  if (field.field_type === 'number' && typeof value === 'number') return value.toLocaleString('en-US');
+  return String(value);
+};
+
+// A CSV column named after the field's key or either label
+export const matchesCustomFieldHeader = (field: CustomField, header: string): boolean => {
+  const name = header.trim().toLowerCase();
+  return [field.key, field.key.replace(/_/g, ' '), field.label_en, field.label_ar].some(
+    (candidate) => candidate.trim().toLowerCase() === name
+  );
+};
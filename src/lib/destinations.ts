@@ -0,0 +1,123 @@
+import { Client, ItineraryStop } from '../types/client';
+
+// Spellings leads use for the places agents sell most, so "اسطنبول",
+// "istanbul" and "İstanbul" are counted as one destination
+const PLACE_ALIASES: Record<string, string[]> = {
+  Istanbul: ['istanbul', 'stanbul', 'اسطنبول', 'استانبول', 'إسطنبول'],
+  Trabzon: ['trabzon', 'طرابزون', 'طربزون'],
+  Bursa: ['bursa', 'بورصة', 'بورصه'],
+  Antalya: ['antalya', 'انطاليا', 'أنطاليا'],
+  Uzungol: ['uzungol', 'اوزنجول', 'أوزنجول', 'اوزنغول'],
+  Sapanca: ['sapanca', 'sapanja', 'صبانجة', 'سبانجا', 'صبنجة'],
+  Rize: ['rize', 'ريزا', 'ريزه'],
+  Bolu: ['bolu', 'بولو'],
+  Yalova: ['yalova', 'يالوفا'],
+  Bodrum: ['bodrum', 'بودروم'],
+  Izmir: ['izmir', 'ازمير', 'إزمير'],
+  Ankara: ['ankara', 'انقرة', 'أنقرة'],
+  Cappadocia: ['cappadocia', 'kapadokya', 'كابادوكيا', 'كبادوكيا'],
+  Fethiye: ['fethiye', 'فتحية'],
+  Dubai: ['dubai', 'دبي'],
+  Tbilisi: ['tbilisi', 'تبليسي'],
+  Batumi: ['batumi', 'باتومي'],
+  Baku: ['baku', 'باكو'],
+  Cairo: ['cairo', 'القاهرة'],
+  'Sharm El Sheikh': ['sharm el sheikh', 'sharm', 'شرم الشيخ'],
+  Beirut: ['beirut', 'بيروت'],
+  Paris: ['paris', 'باريس'],
+  London: ['london', 'لندن'],
+};
+
+// Same separators as split_destination() in the database. Only explicit
+// itinerary separators count: "Istanbul, Turkey" is one place, not two stops.
+const STOP_SEPARATOR = /\s+[-–—]\s+|\s*(?:→|->)\s*/;
+
+const STOP_NIGHTS = /^(.+?)\s*\(?\s*(\d{1,3})\s*(?:nights?|n|gece|ليالي|ليال|ليلة)\s*\)?$/i;
+
+// Texts the extraction functions write when no destination was mentioned
+const PLACEHOLDERS = ['not specified', 'unknown', 'n/a'];
+
+// Lower case, no accents or tatweel, dotless ı folded, single spaces
+const toAliasKey = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f\u0640]/g, '')
+    .toLowerCase()
+    .replace(/ı/g, 'i')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const CANONICAL_PLACES = new Map<string, string>(
+  Object.entries(PLACE_ALIASES).flatMap(([place, aliases]) =>
+    [place, ...aliases].map((alias) => [toAliasKey(alias), place] as [string, string])
+  )
+);
+
+// Known places get their canonical name; others are kept as typed, with
+// all-lowercase Latin names capitalised ("sochi" -> "Sochi")
+export const canonicalizePlace = (place: string): string => {
+  const trimmed = place.replace(/\s+/g, ' ').trim();
+  const known = CANONICAL_PLACES.get(toAliasKey(trimmed));
+  if (known) return known;
+  if (/^[a-z][a-z\s'-]*$/.test(trimmed)) {
+    return trimmed.replace(/(^|[\s'-])([a-z])/g, (_, separator, letter) => `${separator}${letter.toUpperCase()}`);
+  }
+  return trimmed;
+};
+
+// "Istanbul 3 nights - Trabzon" -> [{ Istanbul, 3 }, { Trabzon, null }]
+export const parseItinerary = (destination: string | null | undefined): ItineraryStop[] => {
+  return (destination || '')
+    .split(STOP_SEPARATOR)
+    .map((part) => part.trim())
+    .filter((part) => part && !PLACEHOLDERS.includes(part.toLowerCase()))
+    .map((part) => {
+      const match = part.match(STOP_NIGHTS);
+      return match
+        ? { place: canonicalizePlace(match[1]), nights: Number(match[2]) }
+        : { place: canonicalizePlace(part), nights: null };
+    });
+};
+
+// Accepts what extraction returns: stop objects, plain place names or one text
+export const normalizeItinerary = (raw: unknown): ItineraryStop[] => {
+  if (typeof raw === 'string') return parseItinerary(raw);
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item): ItineraryStop[] => {
+    if (typeof item === 'string') return parseItinerary(item);
+    if (!item || typeof item !== 'object') return [];
+    const { place, nights } = item as { place?: unknown; nights?: unknown };
+    if (typeof place !== 'string' || !place.trim() || PLACEHOLDERS.includes(place.trim().toLowerCase())) {
+      return [];
+    }
+    const nightCount = typeof nights === 'number' ? nights : parseInt(String(nights ?? ''), 10);
+    return [
+      {
+        place: canonicalizePlace(place),
+        nights: Number.isInteger(nightCount) && nightCount >= 0 ? nightCount : null,
+      },
+    ];
+  });
+};
+
+// The `destination` summary the database derives from an itinerary
+export const formatItinerary = (itinerary: ItineraryStop[], separator: string = ' - '): string => {
+  return itinerary.map((stop) => stop.place).join(separator);
+};
+
+// Rows saved before itineraries fall back to their destination text
+export const getClientItinerary = (client: Pick<Client, 'destination' | 'itinerary'>): ItineraryStop[] => {
+  return client.itinerary?.length ? client.itinerary : parseItinerary(client.destination);
+};
+
+// Each place once, in travel order
+export const getClientPlaces = (client: Pick<Client, 'destination' | 'itinerary'>): string[] => {
+  return Array.from(new Set(getClientItinerary(client).map((stop) => canonicalizePlace(stop.place))));
+};
+
+export const getItineraryNights = (itinerary: ItineraryStop[]): number | null => {
+  const nights = itinerary.filter((stop) => stop.nights !== null);
+  return nights.length > 0 ? nights.reduce((sum, stop) => sum + (stop.nights || 0), 0) : null;
+};
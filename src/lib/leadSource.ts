@@ -0,0 +1,59 @@
+import { Client, ClientSource } from '../types/client';
+import { Booking } from '../types/booking';
+import { Currency } from '../types/currency';
+import { PipelineStage } from '../types/pipeline';
+import { translations } from './translations';
+import { isLostStage, isWonStage } from './pipeline';
+import { sumInBase } from './currency';
+
+export const LEAD_SOURCES: ClientSource[] = ['manual', 'whatsapp', 'csv', 'unknown'];
+
+export interface SourceSummary {
+  source: ClientSource;
+  total: number;
+  won: number;
+  lost: number;
+  // Won clients as a percentage of all clients from the source
+  conversion_rate: number;
+  // Value of the clients' won bookings in the base currency; prices without an exchange rate are counted in `unconverted`
+  won_value: number;
+  unconverted: number;
+}
+
+export const getSourceLabel = (source: string, language: 'EN' | 'AR' = 'EN'): string => {
+  const labels = translations[language].sources as Record<string, string>;
+  return labels[source] || source;
+};
+
+// ImportClients accepts WhatsApp chat exports (.txt) and CSV files
+export const getFileSource = (fileName: string | null | undefined): ClientSource => {
+  return fileName?.toLowerCase().endsWith('.csv') ? 'csv' : 'whatsapp';
+};
+
+// Sources without clients are left out
+export const summarizeBySource = (
+  clients: Client[],
+  bookings: Booking[],
+  stages: PipelineStage[],
+  currencies: Currency[]
+): SourceSummary[] => {
+  return LEAD_SOURCES.map((source) => {
+    const fromSource = clients.filter((client) => (client.source || 'unknown') === source);
+    const won = fromSource.filter((client) => isWonStage(stages, client.status));
+    const clientIds = new Set(fromSource.map((client) => client.id));
+    const wonValue = sumInBase(
+      bookings.filter((booking) => clientIds.has(booking.client_id) && isWonStage(stages, booking.status)),
+      currencies
+    );
+
+    return {
+      source,
+      total: fromSource.length,
+      won: won.length,
+      lost: fromSource.filter((client) => isLostStage(stages, client.status)).length,
+      conversion_rate: fromSource.length > 0 ? (won.length / fromSource.length) * 100 : 0,
+      won_value: wonValue.total,
+      unconverted: wonValue.unconverted,
+    };
+  }).filter((summary) => summary.total > 0);
+};
@@ -0,0 +1,52 @@
+import { User } from './supabase';
+
+// Permission names stored in roles.permissions and checked by has_permission()
+// in the database. Keep this list in sync with the roles migration.
+export type Permission =
+  | 'clients.view_all'
+  | 'clients.create'
+  | 'clients.edit'
+  | 'clients.delete'
+  | 'clients.assign'
+  | 'clients.restore'
+  | 'import.run'
+  | 'reports.view'
+  | 'users.manage'
+  | 'users.impersonate'
+  | 'settings.manage'
+  | 'audit.view';
+
+export const PERMISSIONS: { key: Permission; label: string; description: string }[] = [
+  { key: 'clients.view_all', label: 'View all clients', description: 'See every client, not only own and assigned ones' },
+  { key: 'clients.create', label: 'Create clients', description: 'Add clients from the client form' },
+  { key: 'clients.edit', label: 'Edit clients', description: 'Change client details and status' },
+  { key: 'clients.delete', label: 'Delete clients', description: 'Delete single or selected clients' },
+  { key: 'clients.assign', label: 'Assign clients', description: 'Reassign clients to another agent' },
+  { key: 'clients.restore', label: 'Restore client versions', description: 'Roll a client back to an earlier saved version' },
+  { key: 'import.run', label: 'Run imports', description: 'Import leads from WhatsApp conversations' },
+  { key: 'reports.view', label: 'View reports', description: 'Open the reports in the admin panel' },
+  { key: 'users.manage', label: 'Manage users', description: 'Manage agents, roles and the agent audit log' },
+  { key: 'users.impersonate', label: 'View as agent', description: 'Temporarily use the app as another agent to reproduce issues' },
+  { key: 'settings.manage', label: 'Manage settings', description: 'Configure lead routing and system settings' },
+  { key: 'audit.view', label: 'View audit trail', description: 'Read the change history of every client, note and task' },
+];
+
+// Withheld while an admin views the app as an agent, unless the impersonation
+// was started with destructive actions allowed (the database enforces the same).
+const DESTRUCTIVE_PERMISSIONS: Permission[] = ['clients.delete', 'clients.restore'];
+
+export const hasPermission = (user: User | null, permission: Permission): boolean => {
+  if (user?.impersonation && !user.impersonation.allow_destructive && DESTRUCTIVE_PERMISSIONS.includes(permission)) {
+    return false;
+  }
+  return user?.permissions.includes(permission) ?? false;
+};
+
+export const canAccessAdminPanel = (user: User | null): boolean => {
+  return (
+    hasPermission(user, 'reports.view') ||
+    hasPermission(user, 'users.manage') ||
+    hasPermission(user, 'settings.manage') ||
+    hasPermission(user, 'audit.view')
+  );
+};
@@ -252,3 +252,7 @@ export function validatePhoneNumber(phoneNumber: string): boolean {
   const digitsOnly = cleaned.replace(/\+/g, '');
   return digitsOnly.length >= 7;
 }
+
+export function getKnownCountries(): string[] {
+  return Array.from(new Set(Object.values(phoneCountryMap))).sort();
+}
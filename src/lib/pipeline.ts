@@ -0,0 +1,179 @@
+import { supabase } from './supabase';
+import { PipelineStage, StageColor } from '../types/pipeline';
+import { ClientStatusChange } from '../types/client';
+
+// Class names are spelled out so Tailwind keeps them in the build
+export const STAGE_COLORS: Record<StageColor, { badge: string; bar: string; hex: string }> = {
+  gray: { badge: 'bg-gray-100 text-gray-800 border-gray-200', bar: 'bg-gray-500', hex: '#6b7280' },
+  yellow: { badge: 'bg-yellow-100 text-yellow-800 border-yellow-200', bar: 'bg-yellow-500', hex: '#eab308' },
+  blue: { badge: 'bg-blue-100 text-blue-800 border-blue-200', bar: 'bg-blue-500', hex: '#3b82f6' },
+  red: { badge: 'bg-red-100 text-red-800 border-red-200', bar: 'bg-red-500', hex: '#ef4444' },
+  green: { badge: 'bg-green-100 text-green-800 border-green-200', bar: 'bg-green-500', hex: '#22c55e' },
+  purple: { badge: 'bg-purple-100 text-purple-800 border-purple-200', bar: 'bg-purple-500', hex: '#a855f7' },
+  orange: { badge: 'bg-orange-100 text-orange-800 border-orange-200', bar: 'bg-orange-500', hex: '#f97316' },
+  teal: { badge: 'bg-teal-100 text-teal-800 border-teal-200', bar: 'bg-teal-500', hex: '#14b8a6' },
+  pink: { badge: 'bg-pink-100 text-pink-800 border-pink-200', bar: 'bg-pink-500', hex: '#ec4899' },
+  indigo: { badge: 'bg-indigo-100 text-indigo-800 border-indigo-200', bar: 'bg-indigo-500', hex: '#6366f1' },
+};
+
+export const fetchPipelineStages = async (): Promise<PipelineStage[]> => {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('*')
+    .order('position', { ascending: true })
+    .order('key', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const findStage = (stages: PipelineStage[], key: string): PipelineStage | undefined => {
+  return stages.find((stage) => stage.key === key);
+};
+
+// Unknown keys (e.g. a stage deleted after a snapshot was taken) show the raw key
+export const getStageLabel = (stages: PipelineStage[], key: string, language: 'EN' | 'AR' = 'EN'): string => {
+  const stage = findStage(stages, key);
+  if (!stage) return key;
+  return language === 'AR' ? stage.label_ar : stage.label_en;
+};
+
+export const getStageColors = (stages: PipelineStage[], key: string) => {
+  return STAGE_COLORS[findStage(stages, key)?.color || 'gray'];
+};
+
+export const isWonStage = (stages: PipelineStage[], key: string): boolean => {
+  return findStage(stages, key)?.is_won ?? false;
+};
+
+export const isLostStage = (stages: PipelineStage[], key: string): boolean => {
+  return findStage(stages, key)?.is_lost ?? false;
+};
+
+export const isOpenStage = (stages: PipelineStage[], key: string): boolean => {
+  return !isWonStage(stages, key) && !isLostStage(stages, key);
+};
+
+// Where new clients start; matches set_default_client_stage() in the database
+export const getEntryStage = (stages: PipelineStage[]): PipelineStage | undefined => {
+  return stages.find((stage) => !stage.is_won && !stage.is_lost);
+};
+
+export interface StageStay {
+  client_id: string;
+  status: string;
+  entered_at: Date;
+  // null while the client is still in the stage
+  left_at: Date | null;
+  duration_ms: number;
+  // Who moved the client into the stage
+  changed_by_name: string | null;
+}
+
+export interface StageDurationSummary {
+  stage: string;
+  completed_stays: number;
+  average_ms: number;
+  current_clients: number;
+}
+
+// PostgREST returns at most 1000 rows per request
+const HISTORY_PAGE_SIZE = 1000;
+
+// Every change, oldest first, read page by page so the newest are not cut off
+export const fetchStatusHistory = async (): Promise<ClientStatusChange[]> => {
+  const history: ClientStatusChange[] = [];
+
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('client_status_history')
+      .select('*')
+      .order('changed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    history.push(...(data || []));
+    if (!data || data.length < HISTORY_PAGE_SIZE) return history;
+  }
+};
+
+// Changes per client, oldest first
+export const groupStatusHistory = (history: ClientStatusChange[]): Map<string, ClientStatusChange[]> => {
+  const byClient = new Map<string, ClientStatusChange[]>();
+  history.forEach((change) => {
+    const changes = byClient.get(change.client_id);
+    if (changes) {
+      changes.push(change);
+    } else {
+      byClient.set(change.client_id, [change]);
+    }
+  });
+  byClient.forEach((changes) => changes.sort((a, b) => a.changed_at.localeCompare(b.changed_at)));
+  return byClient;
+};
+
+// Turns status changes into one stay per stage visit; open stays run until `now`
+export const getStageStays = (history: ClientStatusChange[], now: Date = new Date()): StageStay[] => {
+  const stays: StageStay[] = [];
+  groupStatusHistory(history).forEach((sorted) => {
+    sorted.forEach((change, index) => {
+      const enteredAt = new Date(change.changed_at);
+      const next = sorted[index + 1];
+      const leftAt = next ? new Date(next.changed_at) : null;
+      stays.push({
+        client_id: change.client_id,
+        status: change.to_status,
+        entered_at: enteredAt,
+        left_at: leftAt,
+        duration_ms: (leftAt || now).getTime() - enteredAt.getTime(),
+        changed_by_name: change.changed_by_name,
+      });
+    });
+  });
+
+  return stays;
+};
+
+// Averages only count finished stays, so clients still sitting in a stage do
+// not pull the number down
+export const summarizeTimeInStage = (
+  stages: PipelineStage[],
+  history: ClientStatusChange[],
+  now: Date = new Date()
+): StageDurationSummary[] => {
+  const stays = getStageStays(history, now);
+
+  return stages.map((stage) => {
+    const stageStays = stays.filter((stay) => stay.status === stage.key);
+    const completed = stageStays.filter((stay) => stay.left_at);
+    const total = completed.reduce((sum, stay) => sum + stay.duration_ms, 0);
+
+    return {
+      stage: stage.key,
+      completed_stays: completed.length,
+      average_ms: completed.length > 0 ? total / completed.length : 0,
+      current_clients: stageStays.length - completed.length,
+    };
+  });
+};
+
+// Stage a client was in at `date`, from that client's changes (oldest first);
+// undefined if the client did not exist yet
+export const getStatusAt = (changes: ClientStatusChange[], date: Date): string | undefined => {
+  let status: string | undefined;
+  for (const change of changes) {
+    if (new Date(change.changed_at) > date) break;
+    status = change.to_status;
+  }
+  return status;
+};
+
+export const formatStageDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ${hours % 24}h`;
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parsePrice, ParsedPrice } from './priceParser';
+
+// Prices as they arrive from WhatsApp extraction and spreadsheet imports
+const FIXTURES: [string, ParsedPrice | null][] = [
+  ['400tl', { amount: 400, max_amount: null, currency: 'TRY', basis: 'total' }],
+  ['1500$ per person', { amount: 1500, max_amount: null, currency: 'USD', basis: 'per_person' }],
+  ['من ١٠٠٠ الى ١٥٠٠ دولار', { amount: 1000, max_amount: 1500, currency: 'USD', basis: 'total' }],
+  ['15 bin TL', { amount: 15000, max_amount: null, currency: 'TRY', basis: 'total' }],
+  ['1-1.5k', { amount: 1000, max_amount: 1500, currency: null, basis: 'total' }],
+  ['2.000 دينار عراقي', { amount: 2000, max_amount: null, currency: 'IQD', basis: 'total' }],
+  ['5000 türk lirası', { amount: 5000, max_amount: null, currency: 'TRY', basis: 'total' }],
+  ['3000 ليرة', { amount: 3000, max_amount: null, currency: 'TRY', basis: 'total' }],
+  ['1200 ريال سعودي', { amount: 1200, max_amount: null, currency: 'SAR', basis: 'total' }],
+  ['٢٠٠ دولار للشخص', { amount: 200, max_amount: null, currency: 'USD', basis: 'per_person' }],
+  ['400 tl + 100 tl', null],
+  ['Not discussed', null],
+];
+
+describe('parsePrice', () => {
+  it.each(FIXTURES)('parses %j', (input, expected) => {
+    expect(parsePrice(input)).toEqual(expected);
+  });
+});
@@ -0,0 +1,196 @@
+// Turns free-text prices from extracted and imported leads ("400tl",
+// "1500$ per person", "٢٠٠ دولار للشخص", "15 bin TL") into structured values.
+
+export type PriceBasis = 'total' | 'per_person';
+
+export interface ParsedPrice {
+  // Single price, or the low end of a range
+  amount: number;
+  // High end of a range; null for a single price
+  max_amount: number | null;
+  // ISO 4217 code; null when the text names no currency
+  currency: string | null;
+  basis: PriceBasis;
+}
+
+// Longest spellings first so "دينار كويتي" wins over "دينار"
+const CURRENCY_WORDS: [string, string][] = [
+  ['turk lirasi', 'TRY'],
+  ['ليرة تركية', 'TRY'],
+  ['دينار كويتي', 'KWD'],
+  ['دينار اردني', 'JOD'],
+  ['دينار أردني', 'JOD'],
+  ['دينار عراقي', 'IQD'],
+  ['ريال سعودي', 'SAR'],
+  ['ريال قطري', 'QAR'],
+  ['جنيه استرليني', 'GBP'],
+  ['دولار', 'USD'],
+  ['يورو', 'EUR'],
+  ['ليرة', 'TRY'],
+  ['دينار', 'IQD'],
+  ['ريال', 'SAR'],
+  ['درهم', 'AED'],
+  ['sterlin', 'GBP'],
+  ['dollars', 'USD'],
+  ['dollar', 'USD'],
+  ['dolar', 'USD'],
+  ['euros', 'EUR'],
+  ['euro', 'EUR'],
+  ['avro', 'EUR'],
+  ['lirasi', 'TRY'],
+  ['lira', 'TRY'],
+  ['dinar', 'IQD'],
+  ['riyal', 'SAR'],
+  ['dirham', 'AED'],
+  ['pounds', 'GBP'],
+  ['pound', 'GBP'],
+  ['usd', 'USD'],
+  ['eur', 'EUR'],
+  ['gbp', 'GBP'],
+  ['try', 'TRY'],
+  ['iqd', 'IQD'],
+  ['sar', 'SAR'],
+  ['aed', 'AED'],
+  ['kwd', 'KWD'],
+  ['qar', 'QAR'],
+  ['jod', 'JOD'],
+  ['tl', 'TRY'],
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₺': 'TRY',
+};
+
+const PER_PERSON_PATTERNS = [
+  /per\s*(?:person|pax|head)/,
+  /\/\s*(?:person|pax|head|kisi)/,
+  /\bp\.?p\.?\b/,
+  /\beach\b/,
+  /kisi\s*basi(?:na)?/,
+  /للشخص|لكل\s*شخص|للفرد|لكل\s*فرد|للنفر/,
+];
+
+// Words after a number that multiply it
+const MULTIPLIERS: [RegExp, number][] = [
+  [/^(?:k|bin|الف|ألف|آلاف|الاف)(?![a-z])/, 1000],
+  [/^(?:m|milyon|million|مليون|ملايين)(?![a-z])/, 1000000],
+];
+
+// What may stand between the two numbers of a range once currencies and
+// multipliers are removed: "1000-1500", "1000 to 1500", "من 1000 الى 1500"
+const RANGE_SEPARATOR = /^(?:-|–|—|~|to|ile|ila|and|الى|إلى|حتى|و)$/;
+
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+const TURKISH_LETTERS: Record<string, string> = { ı: 'i', ş: 's', ç: 'c', ğ: 'g', ö: 'o', ü: 'u' };
+
+// ASCII digits for Arabic-Indic (٠-٩) and Persian (۰-۹) digits and the Arabic
+// decimal and thousands marks; lower case with Turkish letters folded to ASCII,
+// so "KİŞİ BAŞI", "kişi başı" and "kisi basi" all read the same
+const normalizeText = (text: string): string => {
+  return text
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/٫/g, '.')
+    .replace(/٬/g, ',')
+    .toLowerCase()
+    // Dotted capital İ lowercases to "i" plus a combining dot
+    .replace(/\u0307/g, '')
+    .replace(/[ışçğöü]/g, (letter) => TURKISH_LETTERS[letter])
+    .trim();
+};
+
+// "1,500" and "1.500" are thousands; "1,5" and "1.50" are decimals
+const parseNumber = (token: string): number => {
+  const separators = token.match(/[.,]/g) || [];
+  if (separators.length === 0) return Number(token);
+
+  const groups = token.split(/[.,]/);
+  const last = groups[groups.length - 1];
+  const mixed = new Set(separators).size > 1;
+
+  if (mixed) {
+    // The last separator is the decimal one: "1.500,50" or "1,500.50"
+    const decimalIndex = Math.max(token.lastIndexOf('.'), token.lastIndexOf(','));
+    return Number(`${token.slice(0, decimalIndex).replace(/[.,]/g, '')}.${token.slice(decimalIndex + 1)}`);
+  }
+  if (separators.length > 1 || last.length === 3) {
+    return Number(groups.join(''));
+  }
+  return Number(`${groups.slice(0, -1).join('')}.${last}`);
+};
+
+const detectCurrency = (text: string): string | null => {
+  for (const [symbol, code] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (text.includes(symbol)) return code;
+  }
+  for (const [word, code] of CURRENCY_WORDS) {
+    // Latin words must stand alone ("tl" but not "total"); digits may touch them ("400tl")
+    const pattern = /[a-z]/.test(word)
+      ? new RegExp(`(?:^|[^a-z])${word}(?![a-z])`)
+      : new RegExp(word);
+    if (pattern.test(text)) return code;
+  }
+  return null;
+};
+
+// Returns null when the text holds no price, or several prices that are not a range
+export const parsePrice = (input: string | number | null | undefined): ParsedPrice | null => {
+  if (input === null || input === undefined) return null;
+  if (typeof input === 'number') {
+    return Number.isFinite(input) && input >= 0
+      ? { amount: input, max_amount: null, currency: null, basis: 'total' }
+      : null;
+  }
+
+  const text = normalizeText(input);
+  if (!text) return null;
+
+  const matches = [...text.matchAll(NUMBER_PATTERN)];
+  if (matches.length === 0 || matches.length > 2) return null;
+
+  const values = matches.map((match) => {
+    const start = match.index || 0;
+    const end = start + match[0].length;
+    const multiplier = MULTIPLIERS.find(([pattern]) => pattern.test(text.slice(end).trimStart()))?.[1] || 1;
+    return { number: parseNumber(match[0]), multiplier, start, end };
+  });
+
+  if (values.some(({ number }) => !Number.isFinite(number))) return null;
+
+  let amount = values[0].number * values[0].multiplier;
+  let maxAmount: number | null = null;
+
+  if (values.length === 2) {
+    const [low, high] = values;
+    let between = text.slice(low.end, high.start);
+    Object.keys(CURRENCY_SYMBOLS).forEach((symbol) => {
+      between = between.split(symbol).join(' ');
+    });
+    CURRENCY_WORDS.forEach(([word]) => {
+      between = between.split(word).join(' ');
+    });
+    between = between.replace(/^\s*(?:k|bin|الف|ألف|آلاف|الاف|m|milyon|million|مليون|ملايين)(?![a-z])/, '').trim();
+
+    // Two prices that are not a range ("400 tl + 100 tl") cannot be reduced to one amount
+    if (!RANGE_SEPARATOR.test(between)) return null;
+
+    // "1-1.5k": a multiplier written once applies to both ends
+    const highAmount = high.number * high.multiplier;
+    if (low.multiplier === 1 && low.number * high.multiplier <= highAmount) {
+      amount = low.number * high.multiplier;
+    }
+    maxAmount = Math.max(amount, highAmount);
+    amount = Math.min(amount, highAmount);
+  }
+
+  return {
+    amount,
+    max_amount: maxAmount,
+    currency: detectCurrency(text),
+    basis: PER_PERSON_PATTERNS.some((pattern) => pattern.test(text)) ? 'per_person' : 'total',
+  };
+};
@@ -0,0 +1,221 @@
+import { User } from './supabase';
+
+// Signed session handling. The refresh token is the only thing persisted in
+// localStorage; the user and access token are kept in memory and always come
+// from a server response, so editing localStorage cannot change the role.
+
+const SESSION_STORAGE_KEY = 'taktik_session';
+// While an admin views the app as another user, their own refresh token is
+// parked here and resumed when the impersonation ends or expires.
+const IMPERSONATOR_STORAGE_KEY = 'taktik_impersonator_session';
+const REFRESH_MARGIN_SECONDS = 60;
+const SESSION_CHECK_INTERVAL_MS = 10 * 1000;
+
+export interface Session {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number;
+}
+
+type SessionListener = (user: User | null) => void;
+
+let currentSession: Session | null = null;
+let currentUser: User | null = null;
+let refreshPromise: Promise<User | null> | null = null;
+const listeners = new Set<SessionListener>();
+
+const notify = () => {
+  listeners.forEach((listener) => listener(currentUser));
+};
+
+export const getSessionUser = (): User | null => currentUser;
+
+const readStoredToken = (key: string): string | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored).refresh_token || null : null;
+  } catch (error) {
+    console.error('Error reading session:', error);
+    return null;
+  }
+};
+
+export const getStoredRefreshToken = (): string | null => readStoredToken(SESSION_STORAGE_KEY);
+
+export const isImpersonating = (): boolean => readStoredToken(IMPERSONATOR_STORAGE_KEY) !== null;
+
+export const setSession = (user: User, session: Session): void => {
+  currentUser = user;
+  currentSession = session;
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ refresh_token: session.refresh_token }));
+  notify();
+};
+
+export const clearSession = (): void => {
+  // A revoked or expired impersonation falls back to the admin's own session
+  if (isImpersonating()) {
+    endImpersonation();
+    return;
+  }
+
+  const hadUser = currentUser !== null;
+  currentUser = null;
+  currentSession = null;
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  if (hadUser) notify();
+};
+
+export const onSessionChange = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const requestRefresh = async (refreshToken: string): Promise<User | null> => {
+  try {
+    const response = await fetch('/.netlify/functions/refresh-session', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken }),
+    });
+
+    if (!response.ok) {
+      clearSession();
+      return null;
+    }
+
+    const result = await response.json();
+    setSession(result.user, result.session);
+    return result.user;
+  } catch (error) {
+    // Network errors keep the current session; the next call will retry
+    console.error('Error refreshing session:', error);
+    return currentUser;
+  }
+};
+
+// Exchanges the stored refresh token for a fresh access token and verified user.
+// Concurrent callers share a single in-flight request because tokens rotate.
+export const refreshSession = (): Promise<User | null> => {
+  if (refreshPromise) return refreshPromise;
+
+  const refreshToken = currentSession?.refresh_token || getStoredRefreshToken();
+  if (!refreshToken) {
+    clearSession();
+    return Promise.resolve(null);
+  }
+
+  refreshPromise = requestRefresh(refreshToken).finally(() => {
+    refreshPromise = null;
+  });
+  return refreshPromise;
+};
+
+// Switches to a session as another user and parks the current one
+export const beginImpersonation = (user: User, session: Session): void => {
+  const ownRefreshToken = currentSession?.refresh_token || getStoredRefreshToken();
+  if (ownRefreshToken) {
+    localStorage.setItem(IMPERSONATOR_STORAGE_KEY, JSON.stringify({ refresh_token: ownRefreshToken }));
+  }
+  setSession(user, session);
+};
+
+// Closes the impersonation session (logged server-side) and resumes the
+// parked admin session. Resolves to the admin, or null if that session is gone.
+export const endImpersonation = async (): Promise<User | null> => {
+  const impersonatorToken = readStoredToken(IMPERSONATOR_STORAGE_KEY);
+  const refreshToken = currentSession?.refresh_token || getStoredRefreshToken();
+  localStorage.removeItem(IMPERSONATOR_STORAGE_KEY);
+
+  if (refreshToken) {
+    try {
+      await fetch('/.netlify/functions/end-impersonation', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+    } catch (error) {
+      console.error('Error ending impersonation:', error);
+    }
+  }
+
+  if (!impersonatorToken) {
+    clearSession();
+    return null;
+  }
+
+  currentSession = null;
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ refresh_token: impersonatorToken }));
+  // Not refreshSession(): this may run inside a failed refresh that still holds the lock
+  return requestRefresh(impersonatorToken);
+};
+
+export const getAccessToken = async (): Promise<string | null> => {
+  if (!currentSession) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (currentSession.expires_at - now < REFRESH_MARGIN_SECONDS) {
+    await refreshSession();
+  }
+
+  return currentSession?.access_token || null;
+};
+
+// Asks the server whether the session is still valid; a revoked session
+// (deactivation, role or password change) signs the app out.
+const checkSession = async (): Promise<void> => {
+  const accessToken = await getAccessToken();
+  if (!accessToken) return;
+
+  try {
+    const response = await fetch('/.netlify/functions/check-session', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+
+    if (response.status === 401) {
+      clearSession();
+    }
+  } catch (error) {
+    // Network errors keep the current session; the next check will retry
+    console.error('Error checking session:', error);
+  }
+};
+
+// Polls while the tab is visible and checks again as soon as it becomes visible.
+// Returns a function that stops monitoring.
+export const startSessionMonitor = (): (() => void) => {
+  const checkIfVisible = () => {
+    if (document.visibilityState === 'visible') {
+      checkSession();
+    }
+  };
+
+  const interval = window.setInterval(checkIfVisible, SESSION_CHECK_INTERVAL_MS);
+  document.addEventListener('visibilitychange', checkIfVisible);
+
+  return () => {
+    window.clearInterval(interval);
+    document.removeEventListener('visibilitychange', checkIfVisible);
+  };
+};
+
+// PostgREST rejects requests from revoked sessions with this error code
+// (see check_request_session in the migrations).
+export const isSessionRevokedResponse = async (response: Response): Promise<boolean> => {
+  if (response.status !== 401) return false;
+
+  try {
+    const body = await response.clone().json();
+    return body?.code === 'session_revoked';
+  } catch {
+    return false;
+  }
+};
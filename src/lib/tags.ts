@@ -0,0 +1,111 @@
+import { supabase } from './supabase';
+import { STAGE_COLORS } from './pipeline';
+import { ClientTag, Tag, TagColor } from '../types/tag';
+
+export const TAG_COLORS = Object.keys(STAGE_COLORS) as TagColor[];
+
+export const fetchTags = async (): Promise<Tag[]> => {
+  const { data, error } = await supabase.from('tags').select('*').order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// PostgREST returns at most 1000 rows per request
+const CLIENT_TAGS_PAGE_SIZE = 1000;
+
+// Every client-tag link, read page by page so none are cut off
+export const fetchClientTags = async (): Promise<ClientTag[]> => {
+  const links: ClientTag[] = [];
+
+  for (let offset = 0; ; offset += CLIENT_TAGS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('client_tags')
+      .select('client_id, tag_id')
+      .order('client_id', { ascending: true })
+      .order('tag_id', { ascending: true })
+      .range(offset, offset + CLIENT_TAGS_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    links.push(...(data || []));
+    if (!data || data.length < CLIENT_TAGS_PAGE_SIZE) return links;
+  }
+};
+
+// Tag ids per client id
+export const groupClientTags = (links: ClientTag[]): Record<string, string[]> => {
+  return links.reduce((acc, link) => {
+    if (!acc[link.client_id]) acc[link.client_id] = [];
+    acc[link.client_id].push(link.tag_id);
+    return acc;
+  }, {} as Record<string, string[]>);
+};
+
+export const getTagColors = (tag: Tag) => {
+  return STAGE_COLORS[tag.color] || STAGE_COLORS.gray;
+};
+
+// Cycles through the palette so new tags do not all look the same
+export const getNextTagColor = (tags: Tag[]): TagColor => {
+  return TAG_COLORS[tags.length % TAG_COLORS.length];
+};
+
+export const findTagByName = (tags: Tag[], name: string): Tag | undefined => {
+  const key = name.trim().toLowerCase();
+  return tags.find((tag) => tag.name.trim().toLowerCase() === key);
+};
+
+export const createTag = async (name: string, color: TagColor): Promise<Tag> => {
+  const { data, error } = await supabase
+    .from('tags')
+    .insert([{ name: name.trim(), color }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Replaces a client's tags with `tagIds`, touching only the links that changed
+export const saveClientTags = async (clientId: string, tagIds: string[], currentTagIds: string[]): Promise<void> => {
+  const added = tagIds.filter((id) => !currentTagIds.includes(id));
+  const removed = currentTagIds.filter((id) => !tagIds.includes(id));
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('client_tags')
+      .insert(added.map((tagId) => ({ client_id: clientId, tag_id: tagId })));
+    if (error) throw error;
+  }
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('client_tags')
+      .delete()
+      .eq('client_id', clientId)
+      .in('tag_id', removed);
+    if (error) throw error;
+  }
+};
+
+// Clients that already have the tag are left as they are
+export const addTagToClients = async (tagId: string, clientIds: string[]): Promise<void> => {
+  const { error } = await supabase
+    .from('client_tags')
+    .upsert(
+      clientIds.map((clientId) => ({ client_id: clientId, tag_id: tagId })),
+      { onConflict: 'client_id,tag_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+export const removeTagFromClients = async (tagId: string, clientIds: string[]): Promise<void> => {
+  const { error } = await supabase
+    .from('client_tags')
+    .delete()
+    .eq('tag_id', tagId)
+    .in('client_id', clientIds);
+
+  if (error) throw error;
+};
@@ -24,6 +24,8 @@ export const translations = {
       importSubtitle: 'Upload and convert client data from TXT to Excel',
       adminTitle: 'Admin Panel',
       adminSubtitle: 'System management and analytics',
+      profileTitle: 'My Profile',
+      profileSubtitle: 'Your account details and password',
     },
     actions: {
       addClient: 'Add Client',
@@ -45,13 +47,9 @@ export const translations = {
       status: 'Status',
       price: 'Price',
       country: 'Country',
-    },
-    statuses: {
-      newLead: 'New Lead',
-      contacted: 'Contacted',
-      interested: 'Interested',
-      notInterested: 'Not Interested',
-      booked: 'Booked',
+      assignedTo: 'Assigned To',
+      createdBy: 'Created By',
+      currency: 'Currency',
     },
     placeholders: {
       enterClientName: 'Enter client name',
@@ -69,6 +67,7 @@ export const translations = {
       conversionRate: 'Conversion Rate',
       recentActivity: 'Recent Activity',
       upcomingTasks: 'Upcoming Tasks',
+      openLeads: 'Open Leads',
     },
     messages: {
       clientAddedSuccess: 'Client added successfully!',
@@ -88,6 +87,8 @@ export const translations = {
     filters: {
       allStatuses: 'All Statuses',
       allCountries: 'All Countries',
+      allClients: 'All Clients',
+      myClients: 'My Clients',
     },
     sortOptions: {
       newestFirst: 'Newest First',
@@ -105,6 +106,13 @@ export const translations = {
       price: 'Price',
       created: 'Created',
       lastUpdated: 'Last Updated',
+      assignedTo: 'Assigned To',
+      createdBy: 'Created By',
+      unassigned: 'Unassigned',
+      reassign: 'Reassign',
+      reassignSuccess: 'Client reassigned successfully!',
+      reassignFailed: 'Failed to reassign client. Please try again.',
+      routingReason: 'Routing',
     },
     notes: {
       title: 'Notes',
@@ -176,11 +184,6 @@ export const translations = {
       dashboardSubtitle: 'Travel Agency Client Management System',
       quickStats: 'Quick Stats',
       totalClients: 'Total Clients',
-      booked: 'Booked',
-      interested: 'Interested',
-      contacted: 'Contacted',
-      notInterested: 'Not Interested',
-      newLeads: 'New Leads',
     },
     validation: {
       isRequired: 'is required',
@@ -220,6 +223,203 @@ export const translations = {
       formatGuideDesc: 'Your TXT file should contain client data with fields separated by commas, tabs, or spaces:',
       formatNote: 'Fields: Name, Phone, Destination, Country, Status, Price',
     },
+    profile: {
+      accountDetails: 'Account Details',
+      fullName: 'Full Name',
+      email: 'Email',
+      role: 'Role',
+      changePassword: 'Change Password',
+      currentPassword: 'Current Password',
+      newPassword: 'New Password',
+      confirmPassword: 'Confirm New Password',
+      passwordHint: 'Must be 8+ characters with uppercase, lowercase, and number',
+      passwordMismatch: 'New passwords do not match',
+      passwordTooWeak: 'Password must be 8+ characters with uppercase, lowercase, and number',
+      passwordChanged: 'Password changed. Other devices have been signed out.',
+      passwordChangeFailed: 'Failed to change password. Please try again.',
+      updatePassword: 'Update Password',
+      openProfile: 'My profile',
+    },
+    twoFactor: {
+      title: 'Two-Factor Authentication',
+      description: 'Protect your account with a 6-digit code from an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password, ...).',
+      enabled: 'Enabled',
+      disabled: 'Not enabled',
+      requiredForRole: 'Two-factor authentication is required for your role and cannot be turned off.',
+      enable: 'Enable Two-Factor',
+      disable: 'Disable Two-Factor',
+      regenerateCodes: 'New Recovery Codes',
+      scanInstructions: 'Add this key to your authenticator app, or open the setup link on your phone:',
+      setupKey: 'Setup key',
+      openInApp: 'Open in authenticator app',
+      enterCode: 'Enter the 6-digit code from the app',
+      codePlaceholder: '123456',
+      verify: 'Verify',
+      cancel: 'Cancel',
+      confirmWithCode: 'Enter a current code from your authenticator app to continue.',
+      recoveryCodesTitle: 'Save your recovery codes',
+      recoveryCodesHint: 'Each code signs you in once if you lose your phone. They will not be shown again.',
+      copyCodes: 'Copy codes',
+      codesCopied: 'Recovery codes copied',
+      savedCodes: 'I\'ve saved these codes',
+      enabledSuccess: 'Two-factor authentication enabled',
+      disabledSuccess: 'Two-factor authentication disabled',
+      codesRegenerated: 'New recovery codes generated; the old ones no longer work',
+    },
+    history: {
+      title: 'Change History',
+      noHistory: 'No changes recorded yet',
+      created: 'Created',
+      updated: 'Updated',
+      deleted: 'Deleted',
+      client: 'Client',
+      note: 'Note',
+      task: 'Task',
+      booking: 'Booking',
+      system: 'System',
+      show: 'Show history',
+      hide: 'Hide history',
+      activityTab: 'Activity',
+      versionsTab: 'Versions',
+      version: 'Version',
+      initialVersion: 'Initial version',
+      restoredFrom: 'Restored from version',
+      current: 'Current',
+      restore: 'Restore',
+      restoreTitle: 'Restore Version',
+      restoreMessage: 'Restore this client to version {version}? The current values are kept as a version and can be restored later.',
+      restoreConfirm: 'Yes, Restore',
+      restoreSuccess: 'Client restored to version {version}',
+      restoreFailed: 'Failed to restore version',
+      noVersions: 'No versions recorded yet',
+      via: 'via',
+    },
+    impersonation: {
+      viewingAs: 'Viewing as',
+      openedBy: 'opened by',
+      timeLeft: 'Time left',
+      destructiveBlocked: 'Deletes and restores are blocked',
+      destructiveAllowed: 'Destructive actions allowed',
+      stop: 'Stop Viewing',
+      stopped: 'Returned to your own account',
+    },
+    stageTimeline: {
+      title: 'Stage Timeline',
+      noHistory: 'No stage changes recorded yet',
+      current: 'Current stage',
+      timeInStage: 'Time in stage',
+      soFar: 'so far',
+      by: 'by',
+    },
+    trip: {
+      title: 'Trip Details',
+      travelDates: 'Travel Dates',
+      startDate: 'Start Date',
+      endDate: 'End Date',
+      adults: 'Adults',
+      children: 'Children',
+      travellers: 'Travellers',
+      adultsCount: '{count} adults',
+      childrenCount: '{count} children',
+      hotelClass: 'Hotel Class',
+      anyHotel: 'Not specified',
+      stars: '{count}-star',
+      services: 'Services',
+      addService: 'Add a service and press Enter',
+      nights: '{count} nights',
+      notSet: 'Not set',
+      noDetails: 'No trip details recorded yet',
+      endBeforeStart: 'End date cannot be before the start date',
+      invalidCount: 'Must be zero or more',
+    },
+    itinerary: {
+      title: 'Itinerary',
+      place: 'Place',
+      nights: 'Nights',
+      addStop: 'Add stop',
+      moveUp: 'Move up',
+      moveDown: 'Move down',
+      removeStop: 'Remove stop',
+      totalNights: '{count} nights in total',
+      allDestinations: 'All Destinations',
+    },
+    sources: {
+      label: 'Source',
+      manual: 'Added manually',
+      whatsapp: 'WhatsApp import',
+      csv: 'CSV import',
+      unknown: 'Unknown',
+      allSources: 'All Sources',
+    },
+    tags: {
+      title: 'Tags',
+      noTags: 'No tags',
+      newTag: 'New tag, press Enter',
+      editTags: 'Edit tags',
+      done: 'Done',
+      filterByTags: 'Filter by tags',
+      clearTags: 'Clear',
+      matchAll: 'Clients with all selected tags',
+      chooseTag: 'Choose a tag',
+      tagSelected: 'Tag',
+      untagSelected: 'Untag',
+      tagged: 'Tag added to {count} clients',
+      untagged: 'Tag removed from {count} clients',
+      saveFailed: 'Failed to update tags',
+      createFailed: 'Could not create the tag',
+    },
+    customFields: {
+      title: 'Additional Details',
+      chooseOption: 'Choose...',
+    },
+    bookings: {
+      title: 'Bookings',
+      addBooking: 'Add Booking',
+      editBooking: 'Edit Booking',
+      saveBooking: 'Save Booking',
+      noBookings: 'No bookings yet',
+      primary: 'Main trip',
+      primaryHint: 'Follows the client details; edit the client to change it',
+      bookedOn: 'Booked {date}',
+      totalBooked: 'Total booked',
+      withoutRate: '{count} without an exchange rate not included',
+      destinationRequired: 'Destination is required',
+      saved: 'Booking saved',
+      saveFailed: 'Failed to save booking',
+      deleted: 'Booking deleted',
+      deleteFailed: 'Failed to delete booking',
+      deleteTitle: 'Delete Booking',
+      deleteConfirm: 'Are you sure you want to delete this booking?',
+    },
+    travelGroups: {
+      title: 'Travel Group',
+      notInGroup: 'Not part of a travel group yet',
+      groupName: 'Group name',
+      groupNamePlaceholder: 'e.g., Al-Sayed family',
+      createGroup: 'Create group',
+      joinGroup: 'Join group',
+      chooseGroup: 'Choose a group...',
+      addMember: 'Add member',
+      chooseClient: 'Choose a client...',
+      role: 'Role',
+      lead: 'Lead contact',
+      spouse: 'Spouse',
+      child: 'Child',
+      parent: 'Parent',
+      relative: 'Relative',
+      friend: 'Friend',
+      member: 'Member',
+      noLead: 'No lead contact',
+      you: 'this client',
+      groupTotal: 'Group total',
+      groupBooked: 'Booked',
+      removeMember: 'Remove from group',
+      rename: 'Rename',
+      deleteGroup: 'Delete group',
+      deleteTitle: 'Delete Travel Group',
+      deleteConfirm: 'Delete "{name}"? The clients are kept; only the group is removed.',
+      saveFailed: 'Failed to update travel group',
+    },
     common: {
       updating: 'Updating...',
       filterLabel: 'Clear Filters',
@@ -254,6 +454,8 @@ export const translations = {
       importSubtitle: 'تحميل وتحويل بيانات العملاء من TXT إلى Excel',
       adminTitle: 'لوحة الإدارة',
       adminSubtitle: 'إدارة النظام والتحليلات',
+      profileTitle: 'ملفي الشخصي',
+      profileSubtitle: 'بيانات حسابك وكلمة المرور',
     },
     actions: {
       addClient: 'إضافة عميل',
@@ -275,13 +477,9 @@ export const translations = {
       status: 'الحالة',
       price: 'السعر',
       country: 'البلد',
-    },
-    statuses: {
-      newLead: 'عميل جديد',
-      contacted: 'تم التواصل',
-      interested: 'مهتم',
-      notInterested: 'غير مهتم',
-      booked: 'تم الحجز',
+      assignedTo: 'مسند إلى',
+      createdBy: 'أنشئ بواسطة',
+      currency: 'العملة',
     },
     placeholders: {
       enterClientName: 'أدخل اسم العميل',
@@ -299,6 +497,7 @@ export const translations = {
       conversionRate: 'معدل التحويل',
       recentActivity: 'النشاط الأخير',
       upcomingTasks: 'المهام القادمة',
+      openLeads: 'العملاء المحتملون المفتوحون',
     },
     messages: {
       clientAddedSuccess: 'تمت إضافة العميل بنجاح!',
@@ -318,6 +517,8 @@ export const translations = {
     filters: {
       allStatuses: 'جميع الحالات',
       allCountries: 'جميع البلدان',
+      allClients: 'جميع العملاء',
+      myClients: 'عملائي',
     },
     sortOptions: {
       newestFirst: 'الأحدث أولاً',
@@ -335,6 +536,13 @@ export const translations = {
       price: 'السعر',
       created: 'تاريخ الإنشاء',
       lastUpdated: 'آخر تحديث',
+      assignedTo: 'مسند إلى',
+      createdBy: 'أنشئ بواسطة',
+      unassigned: 'غير مسند',
+      reassign: 'إعادة الإسناد',
+      reassignSuccess: 'تمت إعادة إسناد العميل بنجاح!',
+      reassignFailed: 'فشل إعادة إسناد العميل. يرجى المحاولة مرة أخرى.',
+      routingReason: 'التوجيه',
     },
     notes: {
       title: 'الملاحظات',
@@ -406,11 +614,6 @@ export const translations = {
       dashboardSubtitle: 'نظام إدارة عملاء وكالة السفر',
       quickStats: 'الإحصائيات السريعة',
       totalClients: 'إجمالي العملاء',
-      booked: 'محجوز',
-      interested: 'مهتم',
-      contacted: 'تم التواصل',
-      notInterested: 'غير مهتم',
-      newLeads: 'عملاء جدد',
     },
     validation: {
       isRequired: 'مطلوب',
@@ -450,6 +653,203 @@ export const translations = {
       formatGuideDesc: 'يجب أن يحتوي ملف TXT على بيانات العملاء مع الحقول المفصولة بفواصل أو علامات تبويب أو مسافات:',
       formatNote: 'الحقول: الاسم، الهاتف، الوجهة، البلد، الحالة، السعر',
     },
+    profile: {
+      accountDetails: 'بيانات الحساب',
+      fullName: 'الاسم الكامل',
+      email: 'البريد الإلكتروني',
+      role: 'الدور',
+      changePassword: 'تغيير كلمة المرور',
+      currentPassword: 'كلمة المرور الحالية',
+      newPassword: 'كلمة المرور الجديدة',
+      confirmPassword: 'تأكيد كلمة المرور الجديدة',
+      passwordHint: 'يجب أن تتكون من 8 أحرف على الأقل وتحتوي على حرف كبير وحرف صغير ورقم',
+      passwordMismatch: 'كلمتا المرور الجديدتان غير متطابقتين',
+      passwordTooWeak: 'يجب أن تتكون كلمة المرور من 8 أحرف على الأقل وتحتوي على حرف كبير وحرف صغير ورقم',
+      passwordChanged: 'تم تغيير كلمة المرور. تم تسجيل الخروج من الأجهزة الأخرى.',
+      passwordChangeFailed: 'فشل تغيير كلمة المرور. يرجى المحاولة مرة أخرى.',
+      updatePassword: 'تحديث كلمة المرور',
+      openProfile: 'ملفي الشخصي',
+    },
+    twoFactor: {
+      title: 'المصادقة الثنائية',
+      description: 'احمِ حسابك برمز من 6 أرقام من تطبيق المصادقة (Google Authenticator أو Microsoft Authenticator أو 1Password ...).',
+      enabled: 'مفعّلة',
+      disabled: 'غير مفعّلة',
+      requiredForRole: 'المصادقة الثنائية مطلوبة لدورك ولا يمكن إيقافها.',
+      enable: 'تفعيل المصادقة الثنائية',
+      disable: 'إيقاف المصادقة الثنائية',
+      regenerateCodes: 'رموز استرداد جديدة',
+      scanInstructions: 'أضف هذا المفتاح إلى تطبيق المصادقة، أو افتح رابط الإعداد على هاتفك:',
+      setupKey: 'مفتاح الإعداد',
+      openInApp: 'فتح في تطبيق المصادقة',
+      enterCode: 'أدخل الرمز المكوّن من 6 أرقام من التطبيق',
+      codePlaceholder: '123456',
+      verify: 'تحقق',
+      cancel: 'إلغاء',
+      confirmWithCode: 'أدخل رمزاً حالياً من تطبيق المصادقة للمتابعة.',
+      recoveryCodesTitle: 'احفظ رموز الاسترداد',
+      recoveryCodesHint: 'كل رمز يتيح لك تسجيل الدخول مرة واحدة إذا فقدت هاتفك. لن تظهر مرة أخرى.',
+      copyCodes: 'نسخ الرموز',
+      codesCopied: 'تم نسخ رموز الاسترداد',
+      savedCodes: 'لقد حفظت هذه الرموز',
+      enabledSuccess: 'تم تفعيل المصادقة الثنائية',
+      disabledSuccess: 'تم إيقاف المصادقة الثنائية',
+      codesRegenerated: 'تم إنشاء رموز استرداد جديدة؛ الرموز القديمة لم تعد صالحة',
+    },
+    history: {
+      title: 'سجل التغييرات',
+      noHistory: 'لا توجد تغييرات مسجلة بعد',
+      created: 'إنشاء',
+      updated: 'تعديل',
+      deleted: 'حذف',
+      client: 'العميل',
+      note: 'ملاحظة',
+      task: 'مهمة',
+      booking: 'حجز',
+      system: 'النظام',
+      show: 'عرض السجل',
+      hide: 'إخفاء السجل',
+      activityTab: 'النشاط',
+      versionsTab: 'الإصدارات',
+      version: 'الإصدار',
+      initialVersion: 'الإصدار الأول',
+      restoredFrom: 'مستعاد من الإصدار',
+      current: 'الحالي',
+      restore: 'استعادة',
+      restoreTitle: 'استعادة إصدار',
+      restoreMessage: 'استعادة هذا العميل إلى الإصدار {version}؟ يتم حفظ القيم الحالية كإصدار ويمكن استعادتها لاحقاً.',
+      restoreConfirm: 'نعم، استعادة',
+      restoreSuccess: 'تمت استعادة العميل إلى الإصدار {version}',
+      restoreFailed: 'تعذرت استعادة الإصدار',
+      noVersions: 'لا توجد إصدارات مسجلة بعد',
+      via: 'عبر',
+    },
+    impersonation: {
+      viewingAs: 'تعرض التطبيق كـ',
+      openedBy: 'بواسطة',
+      timeLeft: 'الوقت المتبقي',
+      destructiveBlocked: 'الحذف والاستعادة محظوران',
+      destructiveAllowed: 'الإجراءات الحساسة مسموحة',
+      stop: 'إيقاف العرض',
+      stopped: 'تمت العودة إلى حسابك',
+    },
+    stageTimeline: {
+      title: 'الجدول الزمني للمراحل',
+      noHistory: 'لا توجد تغييرات مسجلة على المرحلة بعد',
+      current: 'المرحلة الحالية',
+      timeInStage: 'المدة في المرحلة',
+      soFar: 'حتى الآن',
+      by: 'بواسطة',
+    },
+    trip: {
+      title: 'تفاصيل الرحلة',
+      travelDates: 'تواريخ السفر',
+      startDate: 'تاريخ البداية',
+      endDate: 'تاريخ النهاية',
+      adults: 'البالغون',
+      children: 'الأطفال',
+      travellers: 'المسافرون',
+      adultsCount: '{count} بالغين',
+      childrenCount: '{count} أطفال',
+      hotelClass: 'فئة الفندق',
+      anyHotel: 'غير محدد',
+      stars: '{count} نجوم',
+      services: 'الخدمات',
+      addService: 'أضف خدمة واضغط Enter',
+      nights: '{count} ليالٍ',
+      notSet: 'غير محدد',
+      noDetails: 'لم تسجل تفاصيل الرحلة بعد',
+      endBeforeStart: 'لا يمكن أن يكون تاريخ النهاية قبل تاريخ البداية',
+      invalidCount: 'يجب أن يكون صفراً أو أكثر',
+    },
+    itinerary: {
+      title: 'خط الرحلة',
+      place: 'المكان',
+      nights: 'الليالي',
+      addStop: 'إضافة محطة',
+      moveUp: 'تحريك للأعلى',
+      moveDown: 'تحريك للأسفل',
+      removeStop: 'إزالة المحطة',
+      totalNights: '{count} ليلة إجمالاً',
+      allDestinations: 'كل الوجهات',
+    },
+    sources: {
+      label: 'المصدر',
+      manual: 'أضيف يدوياً',
+      whatsapp: 'استيراد واتساب',
+      csv: 'استيراد CSV',
+      unknown: 'غير معروف',
+      allSources: 'كل المصادر',
+    },
+    tags: {
+      title: 'الوسوم',
+      noTags: 'لا توجد وسوم',
+      newTag: 'وسم جديد، اضغط Enter',
+      editTags: 'تعديل الوسوم',
+      done: 'تم',
+      filterByTags: 'تصفية حسب الوسوم',
+      clearTags: 'مسح',
+      matchAll: 'العملاء الذين لديهم كل الوسوم المختارة',
+      chooseTag: 'اختر وسماً',
+      tagSelected: 'إضافة الوسم',
+      untagSelected: 'إزالة الوسم',
+      tagged: 'أضيف الوسم إلى {count} عميل',
+      untagged: 'أزيل الوسم من {count} عميل',
+      saveFailed: 'فشل تحديث الوسوم',
+      createFailed: 'تعذر إنشاء الوسم',
+    },
+    customFields: {
+      title: 'تفاصيل إضافية',
+      chooseOption: 'اختر...',
+    },
+    bookings: {
+      title: 'الحجوزات',
+      addBooking: 'إضافة حجز',
+      editBooking: 'تعديل الحجز',
+      saveBooking: 'حفظ الحجز',
+      noBookings: 'لا توجد حجوزات بعد',
+      primary: 'الرحلة الرئيسية',
+      primaryHint: 'تتبع بيانات العميل؛ عدّل العميل لتغييرها',
+      bookedOn: 'تم الحجز في {date}',
+      totalBooked: 'إجمالي المحجوز',
+      withoutRate: '{count} بدون سعر صرف غير مشمولة',
+      destinationRequired: 'الوجهة مطلوبة',
+      saved: 'تم حفظ الحجز',
+      saveFailed: 'فشل حفظ الحجز',
+      deleted: 'تم حذف الحجز',
+      deleteFailed: 'فشل حذف الحجز',
+      deleteTitle: 'حذف الحجز',
+      deleteConfirm: 'هل أنت متأكد من حذف هذا الحجز؟',
+    },
+    travelGroups: {
+      title: 'مجموعة السفر',
+      notInGroup: 'ليس ضمن مجموعة سفر بعد',
+      groupName: 'اسم المجموعة',
+      groupNamePlaceholder: 'مثال: عائلة السيد',
+      createGroup: 'إنشاء مجموعة',
+      joinGroup: 'الانضمام إلى مجموعة',
+      chooseGroup: 'اختر مجموعة...',
+      addMember: 'إضافة عضو',
+      chooseClient: 'اختر عميلاً...',
+      role: 'الدور',
+      lead: 'جهة الاتصال الرئيسية',
+      spouse: 'الزوج/الزوجة',
+      child: 'ابن/ابنة',
+      parent: 'أب/أم',
+      relative: 'قريب',
+      friend: 'صديق',
+      member: 'عضو',
+      noLead: 'لا توجد جهة اتصال رئيسية',
+      you: 'هذا العميل',
+      groupTotal: 'إجمالي المجموعة',
+      groupBooked: 'المحجوز',
+      removeMember: 'إزالة من المجموعة',
+      rename: 'إعادة تسمية',
+      deleteGroup: 'حذف المجموعة',
+      deleteTitle: 'حذف مجموعة السفر',
+      deleteConfirm: 'حذف "{name}"؟ سيتم الاحتفاظ بالعملاء وحذف المجموعة فقط.',
+      saveFailed: 'فشل تحديث مجموعة السفر',
+    },
     common: {
       updating: 'جاري التحديث...',
       filterLabel: 'مسح المرشحات',
@@ -0,0 +1,78 @@
+import { supabase } from './supabase';
+import { TravelGroup, TravelGroupMember, TravelGroupRole } from '../types/travelGroup';
+
+export const TRAVEL_GROUP_ROLES: TravelGroupRole[] = ['lead', 'spouse', 'child', 'parent', 'relative', 'friend', 'member'];
+
+export const fetchTravelGroups = async (): Promise<TravelGroup[]> => {
+  const { data, error } = await supabase.from('travel_groups').select('*').order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchTravelGroupMembers = async (): Promise<TravelGroupMember[]> => {
+  const { data, error } = await supabase.from('travel_group_members').select('group_id, client_id, role, created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Lead first, then in the order members joined
+export const sortGroupMembers = (members: TravelGroupMember[]): TravelGroupMember[] => {
+  return [...members].sort(
+    (a, b) => Number(b.role === 'lead') - Number(a.role === 'lead') || a.created_at.localeCompare(b.created_at)
+  );
+};
+
+// The client starts the group as its lead contact; both are written in one transaction
+export const createTravelGroup = async (name: string, leadClientId: string): Promise<void> => {
+  const { error } = await supabase.rpc('create_travel_group', { p_name: name, p_lead_client_id: leadClientId });
+
+  if (error) throw error;
+};
+
+export const renameTravelGroup = async (groupId: string, name: string): Promise<void> => {
+  const { error } = await supabase
+    .from('travel_groups')
+    .update({ name: name.trim(), updated_at: new Date().toISOString() })
+    .eq('id', groupId);
+
+  if (error) throw error;
+};
+
+export const deleteTravelGroup = async (groupId: string): Promise<void> => {
+  const { error } = await supabase.from('travel_groups').delete().eq('id', groupId);
+
+  if (error) throw error;
+};
+
+// A new lead replaces the old one, who stays in the group as a member
+export const addGroupMember = async (groupId: string, clientId: string, role: TravelGroupRole): Promise<void> => {
+  const { error } = await supabase.rpc('add_travel_group_member', {
+    p_group_id: groupId,
+    p_client_id: clientId,
+    p_role: role,
+  });
+
+  if (error) throw error;
+};
+
+export const setGroupMemberRole = async (groupId: string, clientId: string, role: TravelGroupRole): Promise<void> => {
+  const { error } = await supabase.rpc('set_travel_group_member_role', {
+    p_group_id: groupId,
+    p_client_id: clientId,
+    p_role: role,
+  });
+
+  if (error) throw error;
+};
+
+export const removeGroupMember = async (groupId: string, clientId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('travel_group_members')
+    .delete()
+    .eq('group_id', groupId)
+    .eq('client_id', clientId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { toCalendarDate } from './tripDetails';
+
+// Dates as the model and spreadsheets send them; Postgres rejects impossible dates
+const FIXTURES: [unknown, string | null][] = [
+  ['2025-07-01', '2025-07-01'],
+  [' 2024-02-29 ', '2024-02-29'],
+  ['2025-02-29', null],
+  ['2025-02-31', null],
+  ['2025-04-31', null],
+  ['2025-13-01', null],
+  ['2025-00-10', null],
+  ['0000-01-01', null],
+  ['01/07/2025', null],
+  [null, null],
+];
+
+describe('toCalendarDate', () => {
+  it.each(FIXTURES)('reads %j', (input, expected) => {
+    expect(toCalendarDate(input)).toBe(expected);
+  });
+});
@@ -0,0 +1,95 @@
+import { ClientTripDetails } from '../types/client';
+
+// Offered as one-click additions in the client form; any other text is allowed too
+export const SERVICE_SUGGESTIONS = ['Flights', 'Hotel', 'Transfers', 'Tours', 'Visa', 'Insurance', 'Car Rental'];
+
+export const HOTEL_CLASSES = [1, 2, 3, 4, 5];
+
+export const EMPTY_TRIP_DETAILS: ClientTripDetails = {
+  travel_start_date: null,
+  travel_end_date: null,
+  adults: null,
+  children: null,
+  hotel_class: null,
+  services: [],
+};
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// A valid YYYY-MM-DD text, or null. Date rolls "2025-02-31" over to March 3,
+// so the parts are compared with the date they produce.
+export const toCalendarDate = (value: unknown): string | null => {
+  const match = typeof value === 'string' ? value.trim().match(DATE_PATTERN) : null;
+  if (!match) return null;
+
+  const [date, year, month, day] = match;
+  const parsed = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return parsed.getUTCFullYear() === Number(year) &&
+    parsed.getUTCMonth() === Number(month) - 1 &&
+    parsed.getUTCDate() === Number(day)
+    ? date
+    : null;
+};
+
+const toCount = (value: unknown, max: number = Infinity): number | null => {
+  const number = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isInteger(number) && number >= 0 && number <= max ? number : null;
+};
+
+// Extraction returns services as an array or as "Flights, Hotel + Transfers"
+export const normalizeServices = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,،+;\n]/) : [];
+  const services: string[] = [];
+  items.forEach((item) => {
+    const service = String(item ?? '').trim();
+    if (service && !services.some((existing) => existing.toLowerCase() === service.toLowerCase())) {
+      services.push(service);
+    }
+  });
+  return services;
+};
+
+// Keeps only values the clients table accepts, so one bad field from the
+// model does not fail the whole insert
+export const normalizeTripDetails = (raw: Partial<Record<keyof ClientTripDetails, unknown>>): ClientTripDetails => {
+  const start = toCalendarDate(raw.travel_start_date);
+  const end = toCalendarDate(raw.travel_end_date);
+  const hotelClass = toCount(raw.hotel_class, 5);
+
+  return {
+    travel_start_date: start,
+    travel_end_date: start && end && end < start ? null : end,
+    adults: toCount(raw.adults),
+    children: toCount(raw.children),
+    hotel_class: hotelClass === 0 ? null : hotelClass,
+    services: normalizeServices(raw.services),
+  };
+};
+
+export const hasTripDetails = (trip: ClientTripDetails): boolean => {
+  return (
+    !!trip.travel_start_date ||
+    !!trip.travel_end_date ||
+    trip.adults !== null ||
+    trip.children !== null ||
+    trip.hotel_class !== null ||
+    trip.services.length > 0
+  );
+};
+
+// null unless both dates are set
+export const getTripNights = (trip: ClientTripDetails): number | null => {
+  if (!trip.travel_start_date || !trip.travel_end_date) return null;
+  const start = new Date(`${trip.travel_start_date}T00:00:00Z`).getTime();
+  const end = new Date(`${trip.travel_end_date}T00:00:00Z`).getTime();
+  return Math.round((end - start) / 86400000);
+};
+
+// Dates are calendar days, so they are shown without a time zone shift
+export const formatTripDate = (date: string): string => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
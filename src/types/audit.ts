@@ -0,0 +1,26 @@
+export type AuditEntityType = 'client' | 'note' | 'task' | 'booking';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// Field-level values as recorded by the record_audit_event() trigger;
+// `old` is absent on create and `new` is absent on delete.
+export interface AuditFieldChange {
+  old?: unknown;
+  new?: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  client_id: string | null;
+  action: AuditAction;
+  changes: Record<string, AuditFieldChange>;
+  entity_label: string | null;
+  actor_id: string | null;
+  actor_name: string | null;
+  // Admin who made the change while viewing the app as the actor
+  impersonator_id: string | null;
+  impersonator_name: string | null;
+  created_at: string;
+}
@@ -0,0 +1,31 @@
+import { ClientStatus } from './client';
+
+export interface Booking {
+  id: string;
+  client_id: string;
+  // Mirrors the client's own stage, price and trip fields; kept in step by the
+  // database and only changed through the client
+  is_primary: boolean;
+  status: ClientStatus;
+  price: number;
+  // ISO 4217 code, a row in currencies
+  currency: string;
+  destination: string;
+  // YYYY-MM-DD
+  travel_start_date: string | null;
+  travel_end_date: string | null;
+  // Set by the database when the booking reaches a won stage
+  booked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BookingFormData {
+  status: ClientStatus;
+  price: number;
+  currency: string;
+  destination: string;
+  travel_start_date: string | null;
+  travel_end_date: string | null;
+}
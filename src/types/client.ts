@@ -1,18 +1,48 @@
-export type ClientStatus =
-  | 'New Lead'
-  | 'Contacted'
-  | 'Interested'
-  | 'Not Interested'
-  | 'Booked';
+import { CustomFieldValues } from './customField';
+
+// Key of a row in pipeline_stages; stages are managed by admins
+export type ClientStatus = string;
+
+// Where a client was created: the client form or a file import
+export type ClientSource = 'manual' | 'whatsapp' | 'csv' | 'unknown';
+
+// One stop of a client's trip; stops are kept in travel order
+export interface ItineraryStop {
+  place: string;
+  nights: number | null;
+}
 
 export interface Client {
   id: string;
   name: string;
   phone_number: string;
+  // Summary of the itinerary, e.g. "Istanbul - Trabzon"; kept in step by the database
   destination: string;
+  itinerary: ItineraryStop[];
   status: ClientStatus;
   price: number;
+  // ISO 4217 code, a row in currencies
+  currency: string;
   country: string;
+  // Trip details; dates are YYYY-MM-DD
+  travel_start_date: string | null;
+  travel_end_date: string | null;
+  adults: number | null;
+  children: number | null;
+  // Hotel star rating, 1 to 5
+  hotel_class: number | null;
+  services: string[];
+  source: ClientSource;
+  // import_batches row the lead was extracted in
+  source_batch_id: string | null;
+  // e.g. the imported file name
+  source_detail: string | null;
+  // Values of admin-defined fields by field key
+  custom_fields: CustomFieldValues;
+  created_by: string | null;
+  assigned_to: string | null;
+  routing_rule_id: string | null;
+  routing_reason: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -21,7 +51,47 @@ export interface ClientFormData {
   name: string;
   phone_number: string;
   destination: string;
+  itinerary: ItineraryStop[];
   status: ClientStatus;
   price: number;
+  currency: string;
   country: string;
+  travel_start_date: string | null;
+  travel_end_date: string | null;
+  adults: number | null;
+  children: number | null;
+  hotel_class: number | null;
+  services: string[];
+  custom_fields: CustomFieldValues;
+  // Saved to client_tags, not to the clients row
+  tag_ids: string[];
+}
+
+export type ClientTripDetails = Pick<
+  Client,
+  'travel_start_date' | 'travel_end_date' | 'adults' | 'children' | 'hotel_class' | 'services'
+>;
+
+// Snapshot stored by the record_client_version() trigger after each change
+export interface ClientVersion {
+  id: string;
+  client_id: string;
+  version_number: number;
+  data: Partial<Client> & Record<string, unknown>;
+  changed_fields: string[];
+  restored_from_version: number | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+// Written by the record_client_status_change() trigger whenever status changes
+export interface ClientStatusChange {
+  id: string;
+  client_id: string;
+  from_status: ClientStatus | null;
+  to_status: ClientStatus;
+  changed_by: string | null;
+  changed_by_name: string | null;
+  changed_at: string;
 }
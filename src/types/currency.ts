@@ -0,0 +1,15 @@
+export interface Currency {
+  code: string;
+  name: string;
+  // Value of one unit in the base currency; null until an admin enters it
+  rate_to_base: number | null;
+  is_base: boolean;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface CurrencyFormData {
+  code: string;
+  name: string;
+  rate_to_base: string;
+}
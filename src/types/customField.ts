@@ -0,0 +1,30 @@
+// Types allowed by the custom_fields.field_type CHECK constraint
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select';
+
+export interface CustomField {
+  key: string;
+  label_en: string;
+  label_ar: string;
+  field_type: CustomFieldType;
+  // Choices of a select field; empty for other types
+  options: string[];
+  position: number;
+  show_in_list: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomFieldFormData {
+  key: string;
+  label_en: string;
+  label_ar: string;
+  field_type: CustomFieldType;
+  // One choice per line while editing
+  options: string;
+  position: number;
+  show_in_list: boolean;
+}
+
+// Stored in clients.custom_fields by field key; dates are YYYY-MM-DD
+export type CustomFieldValue = string | number;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
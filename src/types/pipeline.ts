@@ -0,0 +1,36 @@
+// Palette names allowed by the pipeline_stages.color CHECK constraint
+export type StageColor =
+  | 'gray'
+  | 'yellow'
+  | 'blue'
+  | 'red'
+  | 'green'
+  | 'purple'
+  | 'orange'
+  | 'teal'
+  | 'pink'
+  | 'indigo';
+
+export interface PipelineStage {
+  key: string;
+  label_en: string;
+  label_ar: string;
+  position: number;
+  color: StageColor;
+  is_won: boolean;
+  is_lost: boolean;
+  win_probability: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PipelineStageFormData {
+  key: string;
+  label_en: string;
+  label_ar: string;
+  position: number;
+  color: StageColor;
+  is_won: boolean;
+  is_lost: boolean;
+  win_probability: number;
+}
@@ -0,0 +1,14 @@
+export interface Role {
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  is_system: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoleFormData {
+  name: string;
+  description: string;
+}
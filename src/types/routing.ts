@@ -0,0 +1,23 @@
+export type RoutingRuleType = 'round_robin' | 'country' | 'destination' | 'language';
+
+export interface LeadRoutingRule {
+  id: string;
+  name: string;
+  rule_type: RoutingRuleType;
+  match_value: string | null;
+  agent_ids: string[];
+  priority: number;
+  is_active: boolean;
+  last_assigned_index: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LeadRoutingRuleFormData {
+  name: string;
+  rule_type: RoutingRuleType;
+  match_value: string;
+  agent_ids: string[];
+  priority: number;
+  is_active: boolean;
+}
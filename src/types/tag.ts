@@ -0,0 +1,18 @@
+import { StageColor } from './pipeline';
+
+// Tags use the pipeline stage palette
+export type TagColor = StageColor;
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Row of client_tags, the link between a client and one of its tags
+export interface ClientTag {
+  client_id: string;
+  tag_id: string;
+}
@@ -0,0 +1,18 @@
+// Roles allowed by the travel_group_members.role CHECK constraint
+export type TravelGroupRole = 'lead' | 'spouse' | 'child' | 'parent' | 'relative' | 'friend' | 'member';
+
+export interface TravelGroup {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A client is in at most one group; a group has at most one lead
+export interface TravelGroupMember {
+  group_id: string;
+  client_id: string;
+  role: TravelGroupRole;
+  created_at: string;
+}
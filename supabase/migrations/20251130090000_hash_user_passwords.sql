@@ -0,0 +1,78 @@
+/*
+  # Hash User Passwords
+
+  ## Problem
+  `users.password_hash` held plaintext passwords and the login screen compared them
+  from the browser with `.eq('password_hash', password)`, so every password was
+  readable by anyone holding the anon key.
+
+  ## Changes
+  - Enable `pgcrypto` for bcrypt hashing (`crypt` / `gen_salt('bf')`)
+  - Re-hash every existing plaintext password in place
+  - Add a trigger that hashes any plaintext value written to `password_hash`,
+    so agent creation and password changes from the admin panel keep working
+  - Add `authenticate_user(email, password)` which verifies a password against
+    the stored hash; only the service role (Netlify functions) may call it
+  - Stop exposing `password_hash` to `anon` and `authenticated` via column grants
+
+  ## Security
+  - Passwords are stored as salted bcrypt hashes (cost 10)
+  - Verification only happens server-side in the `login` Netlify function
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Re-hash existing plaintext passwords. Only a complete bcrypt hash is left
+-- alone: a password that merely starts with "$2" is still plaintext.
+UPDATE users
+SET password_hash = crypt(password_hash, gen_salt('bf', 10))
+WHERE password_hash !~ '^\$2[abxy]\$\d{2}\$[./A-Za-z0-9]{53}$';
+
+-- Hash plaintext passwords on every insert/update
+CREATE OR REPLACE FUNCTION hash_user_password()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NEW.password_hash IS NOT NULL
+     AND NEW.password_hash !~ '^\$2[abxy]\$\d{2}\$[./A-Za-z0-9]{53}$'
+     AND (TG_OP = 'INSERT' OR NEW.password_hash IS DISTINCT FROM OLD.password_hash) THEN
+    NEW.password_hash := crypt(NEW.password_hash, gen_salt('bf', 10));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS hash_user_password ON users;
+CREATE TRIGGER hash_user_password
+  BEFORE INSERT OR UPDATE OF password_hash ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION hash_user_password();
+
+-- Verify credentials; returns the user row (without the hash) on success
+CREATE OR REPLACE FUNCTION authenticate_user(p_email text, p_password text)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  full_name text,
+  role text,
+  is_active boolean
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT u.id, u.email, u.full_name, u.role, u.is_active
+  FROM users u
+  WHERE lower(u.email) = lower(p_email)
+    AND u.password_hash = crypt(p_password, u.password_hash);
+$$;
+
+REVOKE ALL ON FUNCTION authenticate_user(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION authenticate_user(text, text) TO service_role;
+
+-- Hide password hashes from the browser
+REVOKE SELECT ON users FROM anon, authenticated;
+GRANT SELECT (id, email, full_name, role, phone, is_active, created_at, updated_at)
+  ON users TO anon, authenticated;
@@ -0,0 +1,40 @@
+/*
+  # Create User Sessions Table
+
+  ## Problem
+  The app trusted whatever JSON sat in `localStorage.taktik_user`, so anyone could
+  edit their role to `admin`.
+
+  ## New Tables
+  - `user_sessions`
+    - `id` (uuid, primary key) - Session id, carried as the `sid` claim in access tokens
+    - `user_id` (uuid) - Owner of the session
+    - `refresh_token_hash` (text) - SHA-256 of the current refresh token (rotated on refresh)
+    - `created_at` (timestamptz) - When the session was created (login time)
+    - `last_used_at` (timestamptz) - Last refresh
+    - `expires_at` (timestamptz) - Absolute session expiry
+    - `revoked_at` (timestamptz, nullable) - Set on logout or server-side revocation
+    - `ip_address` (text, nullable) - Client IP at login
+    - `user_agent` (text, nullable) - Client user agent at login
+
+  ## Security
+  - RLS enabled with no policies: only the service role (Netlify functions)
+    can read or write sessions
+*/
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  ip_address text,
+  user_agent text
+);
+
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
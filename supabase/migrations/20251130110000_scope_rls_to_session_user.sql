@@ -0,0 +1,197 @@
+/*
+  # Scope Row-Level Security to the Logged-In User
+
+  ## Problem
+  Every table ended up with `USING (true)` policies for `anon`, so the anon key
+  alone could read and modify all clients, notes, tasks and audit logs.
+
+  ## Solution
+  Requests now carry a signed session JWT (`role = authenticated`, `sub = users.id`),
+  so `auth.uid()` identifies the real user. Policies are rewritten around it:
+  - Admins see and modify everything
+  - Agents read and write only clients they created or are assigned to
+  - Notes and tasks follow the visibility of their client
+  - Audit logs are readable by admins only and remain append-only
+  - `anon` has no access to CRM data at all
+
+  ## Changes
+  - Add `clients.created_by` and `clients.assigned_to` (if missing); `created_by`
+    defaults to `auth.uid()` so every insert path records its owner
+  - Add `is_app_admin()` helper (reads `users.role`, so role changes apply immediately)
+  - Enable RLS on `users`: authenticated users may read, only admins may write
+  - Replace all permissive policies on `clients`, `notes`, `tasks`, `agent_audit_logs`
+*/
+
+-- Ownership columns used by the policies
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'clients' AND column_name = 'created_by'
+  ) THEN
+    ALTER TABLE clients ADD COLUMN created_by uuid REFERENCES users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'clients' AND column_name = 'assigned_to'
+  ) THEN
+    ALTER TABLE clients ADD COLUMN assigned_to uuid REFERENCES users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE clients ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_clients_created_by ON clients(created_by);
+CREATE INDEX IF NOT EXISTS idx_clients_assigned_to ON clients(assigned_to);
+
+-- True when the current session belongs to an active admin
+CREATE OR REPLACE FUNCTION is_app_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND role = 'admin' AND is_active = true
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_app_admin() TO authenticated;
+
+-- ============================================================
+-- users
+-- ============================================================
+DROP POLICY IF EXISTS "Allow public read for authentication" ON users;
+DROP POLICY IF EXISTS "Authenticated users can read all users" ON users;
+
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read users"
+  ON users FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert users"
+  ON users FOR INSERT
+  TO authenticated
+  WITH CHECK (is_app_admin());
+
+CREATE POLICY "Admins can update users"
+  ON users FOR UPDATE
+  TO authenticated
+  USING (is_app_admin())
+  WITH CHECK (is_app_admin());
+
+CREATE POLICY "Admins can delete users"
+  ON users FOR DELETE
+  TO authenticated
+  USING (is_app_admin());
+
+-- ============================================================
+-- clients
+-- ============================================================
+DROP POLICY IF EXISTS "Allow all operations on clients" ON clients;
+DROP POLICY IF EXISTS "Allow all authenticated reads" ON clients;
+DROP POLICY IF EXISTS "Allow all authenticated inserts" ON clients;
+DROP POLICY IF EXISTS "Allow all authenticated updates" ON clients;
+DROP POLICY IF EXISTS "Allow all authenticated deletes" ON clients;
+
+CREATE POLICY "Users can read own or assigned clients"
+  ON clients FOR SELECT
+  TO authenticated
+  USING (is_app_admin() OR created_by = auth.uid() OR assigned_to = auth.uid());
+
+CREATE POLICY "Users can insert own clients"
+  ON clients FOR INSERT
+  TO authenticated
+  WITH CHECK (is_app_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Users can update own or assigned clients"
+  ON clients FOR UPDATE
+  TO authenticated
+  USING (is_app_admin() OR created_by = auth.uid() OR assigned_to = auth.uid())
+  WITH CHECK (is_app_admin() OR created_by = auth.uid() OR assigned_to = auth.uid());
+
+CREATE POLICY "Users can delete own clients"
+  ON clients FOR DELETE
+  TO authenticated
+  USING (is_app_admin() OR created_by = auth.uid());
+
+-- ============================================================
+-- notes and tasks follow the visibility of their client
+-- (the subquery on clients is itself filtered by the policies above)
+-- ============================================================
+DROP POLICY IF EXISTS "Allow public read access to notes" ON notes;
+DROP POLICY IF EXISTS "Allow public insert access to notes" ON notes;
+DROP POLICY IF EXISTS "Allow public update access to notes" ON notes;
+DROP POLICY IF EXISTS "Allow public delete access to notes" ON notes;
+
+CREATE POLICY "Users can read notes of visible clients"
+  ON notes FOR SELECT
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Users can insert notes on visible clients"
+  ON notes FOR INSERT
+  TO authenticated
+  WITH CHECK (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Users can update notes of visible clients"
+  ON notes FOR UPDATE
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients))
+  WITH CHECK (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Users can delete notes of visible clients"
+  ON notes FOR DELETE
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+DROP POLICY IF EXISTS "Allow public read access to tasks" ON tasks;
+DROP POLICY IF EXISTS "Allow public insert access to tasks" ON tasks;
+DROP POLICY IF EXISTS "Allow public update access to tasks" ON tasks;
+DROP POLICY IF EXISTS "Allow public delete access to tasks" ON tasks;
+
+CREATE POLICY "Users can read tasks of visible clients"
+  ON tasks FOR SELECT
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Users can insert tasks on visible clients"
+  ON tasks FOR INSERT
+  TO authenticated
+  WITH CHECK (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Users can update tasks of visible clients"
+  ON tasks FOR UPDATE
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients))
+  WITH CHECK (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Users can delete tasks of visible clients"
+  ON tasks FOR DELETE
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+-- ============================================================
+-- agent_audit_logs: admin-only reads, append-only writes
+-- ============================================================
+DROP POLICY IF EXISTS "Allow authenticated users to read audit logs" ON agent_audit_logs;
+DROP POLICY IF EXISTS "Allow authenticated users to insert audit logs" ON agent_audit_logs;
+DROP POLICY IF EXISTS "Prevent updates on audit logs" ON agent_audit_logs;
+DROP POLICY IF EXISTS "Prevent deletes on audit logs" ON agent_audit_logs;
+
+CREATE POLICY "Admins can read audit logs"
+  ON agent_audit_logs FOR SELECT
+  TO authenticated
+  USING (is_app_admin());
+
+CREATE POLICY "Admins can insert own audit logs"
+  ON agent_audit_logs FOR INSERT
+  TO authenticated
+  WITH CHECK (is_app_admin() AND admin_id = auth.uid());
+
+-- No UPDATE or DELETE policies: audit logs are append-only
@@ -0,0 +1,31 @@
+/*
+  # Create AI Usage Table
+
+  ## Overview
+  OpenAI calls now go through Netlify functions (`ai-field-mapping`, `ai-parse-text`)
+  that hold the API key server-side. Each call is recorded here so the proxy can
+  enforce per-user daily quotas.
+
+  ## New Tables
+  - `ai_usage`
+    - `id` (uuid, primary key)
+    - `user_id` (uuid) - User who made the request
+    - `endpoint` (text) - Proxy endpoint name (field-mapping, parse-text)
+    - `total_tokens` (integer) - Tokens reported by OpenAI for the call
+    - `created_at` (timestamptz) - When the call was made
+
+  ## Security
+  - RLS enabled with no policies: only the service role writes and reads usage
+*/
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL,
+  total_tokens integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at DESC);
@@ -0,0 +1,180 @@
+/*
+  # Add Lead Routing Rules
+
+  ## Overview
+  New clients used to land unassigned (especially WhatsApp imports). Admins can now
+  define routing rules that pick an agent for every new client, whatever the insert
+  path (client form, import, or any future API), because routing runs in a
+  BEFORE INSERT trigger on `clients`.
+
+  ## New Tables
+  - `lead_routing_rules`
+    - `id` (uuid, primary key)
+    - `name` (text) - Admin-facing rule name
+    - `rule_type` (text) - round_robin, country, destination or language
+    - `match_value` (text, nullable) - Country name, destination keyword or language
+      code (ar, en, tr, fa, ru); unused for round_robin
+    - `agent_ids` (uuid[]) - Pool of agents the rule rotates through
+    - `priority` (integer) - Lower numbers are evaluated first
+    - `is_active` (boolean) - Inactive rules are skipped
+    - `last_assigned_index` (integer) - Round-robin cursor within the pool
+    - `created_at`, `updated_at` (timestamptz)
+
+  ## New Columns
+  - `clients.routing_rule_id` (uuid, nullable) - Rule that assigned the client
+  - `clients.routing_reason` (text, nullable) - Human-readable explanation
+
+  ## Routing
+  - Only runs when a client is inserted without `assigned_to`
+  - Rules are evaluated by priority; the first matching rule with at least one
+    active agent in its pool wins, and agents within the pool rotate round-robin
+  - Country rules match `clients.country`, which import fills via phone-prefix detection
+  - Language rules match the lead language derived from the client's country
+
+  ## Security
+  - Only admins can read or manage rules
+  - The routing trigger runs as SECURITY DEFINER so agents' inserts can advance
+    the round-robin cursor
+*/
+
+CREATE TABLE IF NOT EXISTS lead_routing_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  rule_type text NOT NULL CHECK (rule_type IN ('round_robin', 'country', 'destination', 'language')),
+  match_value text,
+  agent_ids uuid[] NOT NULL DEFAULT '{}',
+  priority integer NOT NULL DEFAULT 100,
+  is_active boolean NOT NULL DEFAULT true,
+  last_assigned_index integer NOT NULL DEFAULT -1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (rule_type = 'round_robin' OR coalesce(trim(match_value), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_routing_rules_priority ON lead_routing_rules(priority);
+
+ALTER TABLE lead_routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage routing rules"
+  ON lead_routing_rules FOR ALL
+  TO authenticated
+  USING (is_app_admin())
+  WITH CHECK (is_app_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'clients' AND column_name = 'routing_rule_id'
+  ) THEN
+    ALTER TABLE clients ADD COLUMN routing_rule_id uuid REFERENCES lead_routing_rules(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'clients' AND column_name = 'routing_reason'
+  ) THEN
+    ALTER TABLE clients ADD COLUMN routing_reason text;
+  END IF;
+END $$;
+
+-- Primary language spoken in a client's home country (names as produced by
+-- detectCountryFromPhone); used by language rules
+CREATE OR REPLACE FUNCTION lead_language_for_country(p_country text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_country IN (
+      'Iraq', 'Saudi Arabia', 'United Arab Emirates', 'Kuwait', 'Qatar', 'Bahrain',
+      'Oman', 'Yemen', 'Jordan', 'Lebanon', 'Syria', 'Palestine', 'Egypt', 'Libya',
+      'Tunisia', 'Algeria', 'Morocco', 'Sudan', 'Mauritania'
+    ) THEN 'ar'
+    WHEN p_country = 'Turkey' THEN 'tr'
+    WHEN p_country IN ('Iran', 'Afghanistan') THEN 'fa'
+    WHEN p_country IN ('Russia', 'Belarus', 'Kyrgyzstan') THEN 'ru'
+    ELSE 'en'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION route_new_client()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule lead_routing_rules%ROWTYPE;
+  pool uuid[];
+  next_index integer;
+  cursor_index integer;
+  lead_language text;
+  reason text;
+BEGIN
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  lead_language := lead_language_for_country(NEW.country);
+
+  FOR rule IN
+    SELECT * FROM lead_routing_rules
+    WHERE is_active = true
+    ORDER BY priority ASC, created_at ASC
+  LOOP
+    reason := CASE rule.rule_type
+      WHEN 'country' THEN
+        CASE WHEN lower(trim(NEW.country)) = lower(trim(rule.match_value))
+          THEN format('Country "%s" matched rule "%s"', NEW.country, rule.name) END
+      WHEN 'destination' THEN
+        CASE WHEN NEW.destination ILIKE '%' || trim(rule.match_value) || '%'
+          THEN format('Destination "%s" matched "%s" in rule "%s"', NEW.destination, rule.match_value, rule.name) END
+      WHEN 'language' THEN
+        CASE WHEN lead_language = lower(trim(rule.match_value))
+          THEN format('Lead language "%s" (from country "%s") matched rule "%s"', lead_language, NEW.country, rule.name) END
+      WHEN 'round_robin' THEN
+        format('Round-robin assignment by rule "%s"', rule.name)
+    END;
+
+    CONTINUE WHEN reason IS NULL;
+
+    -- Only rotate through agents that are still active, keeping the rule's order
+    SELECT array_agg(agent_id ORDER BY ord) INTO pool
+    FROM unnest(rule.agent_ids) WITH ORDINALITY AS pool_agents(agent_id, ord)
+    JOIN users u ON u.id = pool_agents.agent_id
+    WHERE u.is_active = true;
+
+    CONTINUE WHEN pool IS NULL OR array_length(pool, 1) IS NULL;
+
+    -- Only the matched rule is locked, so concurrent inserts routed by other
+    -- rules do not wait. The cursor is re-read under the lock.
+    SELECT last_assigned_index INTO cursor_index
+    FROM lead_routing_rules
+    WHERE id = rule.id
+    FOR UPDATE;
+
+    CONTINUE WHEN NOT FOUND;
+
+    next_index := (cursor_index + 1) % array_length(pool, 1);
+
+    UPDATE lead_routing_rules
+    SET last_assigned_index = next_index
+    WHERE id = rule.id;
+
+    NEW.assigned_to := pool[next_index + 1];
+    NEW.routing_rule_id := rule.id;
+    NEW.routing_reason := reason;
+    RETURN NEW;
+  END LOOP;
+
+  NEW.routing_reason := 'No routing rule matched';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS route_new_client ON clients;
+CREATE TRIGGER route_new_client
+  BEFORE INSERT ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION route_new_client();
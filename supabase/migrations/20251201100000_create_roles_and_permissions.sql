@@ -0,0 +1,238 @@
+/*
+  # Roles and Permissions
+
+  ## Overview
+  `users.role` was limited to 'admin' | 'agent' and features were gated on that
+  value. Roles now live in their own table and carry a list of named permissions,
+  so admins can define custom roles (team lead, read-only auditor, ...) and the
+  same permissions are enforced by the UI and by the policies below.
+
+  ## New Tables
+  - `roles`
+    - `key` (text, primary key) - Stored in `users.role`
+    - `name` (text) - Display name
+    - `description` (text, nullable)
+    - `permissions` (text[]) - Granted permission names
+    - `is_system` (boolean) - Built-in roles cannot be deleted
+    - `created_at`, `updated_at` (timestamptz)
+
+  ## Permissions
+  - `clients.view_all` - See every client, not only own/assigned ones
+  - `clients.create` - Add clients from the form
+  - `clients.edit` - Edit client details
+  - `clients.delete` - Delete clients
+  - `clients.assign` - Reassign clients to agents
+  - `import.run` - Import WhatsApp conversations
+  - `reports.view` - Open admin reports
+  - `users.manage` - Manage users, roles and read the agent audit log
+  - `settings.manage` - Manage lead routing and system settings
+
+  ## Changes
+  - Seed `admin`, `agent`, `team_lead` and `auditor` roles; `admin` and `agent`
+    keep their previous abilities
+  - Replace the `users.role` CHECK with a foreign key to `roles`
+  - Add `has_permission(permission)` for policies and server functions
+  - Rewrite `clients`, `users`, `agent_audit_logs` and `lead_routing_rules`
+    policies in terms of permissions
+  - Add a trigger so reassignment and editing are checked separately on update
+
+  ## Security
+  - Permissions are always read from the database, never from the client
+  - The `admin` role's permissions cannot be changed, so an admin cannot lock
+    everyone out of user management
+*/
+
+CREATE TABLE IF NOT EXISTS roles (
+  key text PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  name text NOT NULL,
+  description text,
+  permissions text[] NOT NULL DEFAULT '{}',
+  is_system boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO roles (key, name, description, permissions, is_system) VALUES
+  (
+    'admin', 'Administrator', 'Full access to every feature',
+    ARRAY['clients.view_all', 'clients.create', 'clients.edit', 'clients.delete', 'clients.assign',
+          'import.run', 'reports.view', 'users.manage', 'settings.manage'],
+    true
+  ),
+  (
+    'agent', 'Agent', 'Works on own and assigned clients',
+    ARRAY[]::text[],
+    true
+  ),
+  (
+    'team_lead', 'Team Lead', 'Sees and distributes all clients, runs imports and reports',
+    ARRAY['clients.view_all', 'clients.create', 'clients.edit', 'clients.assign', 'import.run', 'reports.view'],
+    false
+  ),
+  (
+    'auditor', 'Read-only Auditor', 'Reads every client and report without changing anything',
+    ARRAY['clients.view_all', 'reports.view'],
+    false
+  )
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users
+  ADD CONSTRAINT users_role_fkey FOREIGN KEY (role) REFERENCES roles(key) ON UPDATE CASCADE;
+
+-- True when the current session's user is active and their role grants the permission
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    JOIN roles r ON r.key = u.role
+    WHERE u.id = auth.uid()
+      AND u.is_active = true
+      AND p_permission = ANY(r.permissions)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_permission(text) TO authenticated;
+
+-- ============================================================
+-- roles
+-- ============================================================
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read roles"
+  ON roles FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "User managers can create roles"
+  ON roles FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('users.manage') AND is_system = false);
+
+CREATE POLICY "User managers can update roles except admin"
+  ON roles FOR UPDATE
+  TO authenticated
+  USING (has_permission('users.manage') AND key <> 'admin')
+  WITH CHECK (has_permission('users.manage') AND key <> 'admin');
+
+CREATE POLICY "User managers can delete custom roles"
+  ON roles FOR DELETE
+  TO authenticated
+  USING (has_permission('users.manage') AND is_system = false);
+
+-- ============================================================
+-- users
+-- ============================================================
+DROP POLICY IF EXISTS "Admins can insert users" ON users;
+DROP POLICY IF EXISTS "Admins can update users" ON users;
+DROP POLICY IF EXISTS "Admins can delete users" ON users;
+
+CREATE POLICY "User managers can insert users"
+  ON users FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('users.manage'));
+
+CREATE POLICY "User managers can update users"
+  ON users FOR UPDATE
+  TO authenticated
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+CREATE POLICY "User managers can delete users"
+  ON users FOR DELETE
+  TO authenticated
+  USING (has_permission('users.manage'));
+
+-- ============================================================
+-- clients
+-- ============================================================
+DROP POLICY IF EXISTS "Users can read own or assigned clients" ON clients;
+DROP POLICY IF EXISTS "Users can insert own clients" ON clients;
+DROP POLICY IF EXISTS "Users can update own or assigned clients" ON clients;
+DROP POLICY IF EXISTS "Users can delete own clients" ON clients;
+
+CREATE POLICY "Users can read permitted clients"
+  ON clients FOR SELECT
+  TO authenticated
+  USING (has_permission('clients.view_all') OR created_by = auth.uid() OR assigned_to = auth.uid());
+
+CREATE POLICY "Users with clients.create can insert clients"
+  ON clients FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('clients.create') AND created_by = auth.uid());
+
+-- Which columns may change is checked by enforce_client_update_permissions()
+CREATE POLICY "Users can update permitted clients"
+  ON clients FOR UPDATE
+  TO authenticated
+  USING (has_permission('clients.view_all') OR created_by = auth.uid() OR assigned_to = auth.uid())
+  WITH CHECK (has_permission('clients.view_all') OR created_by = auth.uid() OR assigned_to = auth.uid());
+
+CREATE POLICY "Users with clients.delete can delete clients"
+  ON clients FOR DELETE
+  TO authenticated
+  USING (has_permission('clients.delete') AND (has_permission('clients.view_all') OR created_by = auth.uid()));
+
+-- Reassignment needs clients.assign; any other change needs clients.edit.
+-- Requests without a session user (service role, migrations) are not restricted.
+CREATE OR REPLACE FUNCTION enforce_client_update_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_columns text[] := ARRAY['assigned_to', 'routing_rule_id', 'routing_reason', 'updated_at'];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to AND NOT has_permission('clients.assign') THEN
+    RAISE EXCEPTION 'Missing permission: clients.assign' USING ERRCODE = '42501';
+  END IF;
+
+  IF (to_jsonb(NEW) - assignment_columns) IS DISTINCT FROM (to_jsonb(OLD) - assignment_columns)
+     AND NOT has_permission('clients.edit') THEN
+    RAISE EXCEPTION 'Missing permission: clients.edit' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_client_update_permissions ON clients;
+CREATE TRIGGER enforce_client_update_permissions
+  BEFORE UPDATE ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_client_update_permissions();
+
+-- ============================================================
+-- agent_audit_logs and lead_routing_rules
+-- ============================================================
+DROP POLICY IF EXISTS "Admins can read audit logs" ON agent_audit_logs;
+DROP POLICY IF EXISTS "Admins can insert own audit logs" ON agent_audit_logs;
+
+CREATE POLICY "User managers can read audit logs"
+  ON agent_audit_logs FOR SELECT
+  TO authenticated
+  USING (has_permission('users.manage'));
+
+CREATE POLICY "User managers can insert own audit logs"
+  ON agent_audit_logs FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('users.manage') AND admin_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can manage routing rules" ON lead_routing_rules;
+
+CREATE POLICY "Settings managers can manage routing rules"
+  ON lead_routing_rules FOR ALL
+  TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
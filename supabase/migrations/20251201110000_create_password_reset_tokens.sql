@@ -0,0 +1,49 @@
+/*
+  # Password Reset Tokens
+
+  ## Overview
+  Agents can reset a forgotten password by email and change their own password
+  from the profile screen. Both flows run in Netlify functions with the service
+  role; the browser never touches these tables directly.
+
+  ## New Tables
+  - `password_reset_tokens`
+    - `id` (uuid, primary key)
+    - `user_id` (uuid) - User the reset link was issued for
+    - `token_hash` (text, unique) - SHA-256 of the emailed token
+    - `expires_at` (timestamptz) - Links are valid for 30 minutes
+    - `used_at` (timestamptz, nullable) - Set when the token is consumed or superseded
+    - `requested_ip` (text, nullable)
+    - `created_at` (timestamptz)
+
+  ## Changes
+  - Allow `password_reset_request` and `password_reset` in `agent_audit_logs.action_type`.
+    Self-service changes reuse `password_change` with the user as both actor and target.
+
+  ## Security
+  - RLS enabled with no policies: only the service role can read or write tokens
+  - Tokens are stored hashed and are single-use
+*/
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  requested_ip text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+
+ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE agent_audit_logs DROP CONSTRAINT IF EXISTS agent_audit_logs_action_type_check;
+ALTER TABLE agent_audit_logs ADD CONSTRAINT agent_audit_logs_action_type_check CHECK (
+  action_type IN (
+    'create', 'update', 'delete', 'password_change',
+    'email_change', 'activate', 'deactivate', 'role_change',
+    'password_reset_request', 'password_reset'
+  )
+);
@@ -0,0 +1,49 @@
+/*
+  # Login Events and Brute-Force Protection
+
+  ## Overview
+  Every login attempt is recorded by the `login` Netlify function. The same table
+  drives throttling: too many recent failures for one account or from one IP
+  address lock further attempts for a while.
+
+  ## New Tables
+  - `login_events`
+    - `id` (uuid, primary key)
+    - `user_id` (uuid, nullable) - Matching account, if the email exists
+    - `email` (text) - Email as typed (lower-cased)
+    - `success` (boolean)
+    - `failure_reason` (text, nullable) - invalid_credentials, inactive,
+      locked_account or locked_ip
+    - `ip_address` (text, nullable)
+    - `user_agent` (text, nullable)
+    - `created_at` (timestamptz)
+
+  ## Security
+  - Only the service role writes events
+  - Users with `users.manage` can read them (agent login history)
+*/
+
+CREATE TABLE IF NOT EXISTS login_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  email text NOT NULL,
+  success boolean NOT NULL,
+  failure_reason text CHECK (
+    failure_reason IS NULL
+    OR failure_reason IN ('invalid_credentials', 'inactive', 'locked_account', 'locked_ip')
+  ),
+  ip_address text,
+  user_agent text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_events_email_created_at ON login_events(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_events_ip_created_at ON login_events(ip_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_events_user_id_created_at ON login_events(user_id, created_at DESC);
+
+ALTER TABLE login_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User managers can read login events"
+  ON login_events FOR SELECT
+  TO authenticated
+  USING (has_permission('users.manage'));
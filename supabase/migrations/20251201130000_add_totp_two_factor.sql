@@ -0,0 +1,97 @@
+/*
+  # TOTP Two-Factor Authentication
+
+  ## Overview
+  Users can protect their account with a time-based one-time password (TOTP)
+  from an authenticator app, plus single-use recovery codes. Two-factor is
+  mandatory for the `admin` role: an admin without it must enroll during login
+  before a session is issued. All MFA work happens in Netlify functions with the
+  service role; secrets never reach the browser after enrollment.
+
+  ## New Tables
+  - `user_mfa`
+    - `user_id` (uuid, primary key)
+    - `totp_secret` (text) - Base32 shared secret
+    - `enabled_at` (timestamptz, nullable) - Null while enrollment is pending
+    - `last_used_step` (bigint, nullable) - Last accepted 30-second step, blocks code replay
+    - `created_at`, `updated_at` (timestamptz)
+  - `mfa_recovery_codes`
+    - `id` (uuid, primary key)
+    - `user_id` (uuid)
+    - `code_hash` (text) - SHA-256 of the normalized code
+    - `used_at` (timestamptz, nullable)
+    - `created_at` (timestamptz)
+  - `mfa_challenges` - Short-lived token linking the password step to the code step
+    - `id` (uuid, primary key)
+    - `user_id` (uuid)
+    - `token_hash` (text, unique)
+    - `purpose` (text) - `verify` (enrolled user) or `enroll` (admin without MFA)
+    - `attempts` (integer) - Codes tried; the challenge dies after 5
+    - `expires_at` (timestamptz) - Valid for 10 minutes
+    - `used_at` (timestamptz, nullable)
+    - `created_at` (timestamptz)
+
+  ## Changes
+  - `users.mfa_enabled` mirrors `user_mfa.enabled_at` for display in the admin panel
+  - `login_events.failure_reason` accepts `invalid_mfa_code`
+  - `agent_audit_logs.action_type` accepts `mfa_enroll`, `mfa_disable`, `mfa_reset`,
+    `mfa_recovery_codes_regenerated` and `mfa_recovery_code_used`
+
+  ## Security
+  - RLS enabled with no policies on the new tables: only the service role can access them
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_enabled boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS user_mfa (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  totp_secret text NOT NULL,
+  enabled_at timestamptz,
+  last_used_step bigint,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+CREATE TABLE IF NOT EXISTS mfa_challenges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  purpose text NOT NULL CHECK (purpose IN ('verify', 'enroll')),
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_challenges_user_id ON mfa_challenges(user_id);
+
+ALTER TABLE user_mfa ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mfa_challenges ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE login_events DROP CONSTRAINT IF EXISTS login_events_failure_reason_check;
+ALTER TABLE login_events ADD CONSTRAINT login_events_failure_reason_check CHECK (
+  failure_reason IS NULL
+  OR failure_reason IN ('invalid_credentials', 'inactive', 'locked_account', 'locked_ip', 'invalid_mfa_code')
+);
+
+ALTER TABLE agent_audit_logs DROP CONSTRAINT IF EXISTS agent_audit_logs_action_type_check;
+ALTER TABLE agent_audit_logs ADD CONSTRAINT agent_audit_logs_action_type_check CHECK (
+  action_type IN (
+    'create', 'update', 'delete', 'password_change',
+    'email_change', 'activate', 'deactivate', 'role_change',
+    'password_reset_request', 'password_reset',
+    'mfa_enroll', 'mfa_disable', 'mfa_reset',
+    'mfa_recovery_codes_regenerated', 'mfa_recovery_code_used'
+  )
+);
@@ -0,0 +1,85 @@
+/*
+  # Revoke Sessions on Account Changes
+
+  ## Problem
+  Deactivating an agent, changing their role or setting a new password only took
+  effect at the next login. Open sessions kept working: refresh tokens stayed
+  valid and PostgREST accepted the 15-minute access tokens until they expired.
+
+  ## Changes
+  - Trigger `revoke_sessions_on_account_change` on `users` revokes every open
+    session of the user when they are deactivated, their role changes, or their
+    password is changed by someone else. Password changes made by Netlify
+    functions (no session user) are skipped: those functions revoke sessions
+    themselves and keep the caller's own session on a self-service change.
+  - `check_request_session()` runs before every PostgREST request
+    (`pgrst.db_pre_request`) and rejects access tokens whose session is revoked,
+    expired or belongs to an inactive user with HTTP 401 and code `session_revoked`.
+    The app signs out as soon as it sees that response.
+
+  ## Security
+  - Anonymous and service-role requests are not affected
+*/
+
+CREATE OR REPLACE FUNCTION revoke_sessions_on_account_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (OLD.is_active = true AND NEW.is_active = false)
+     OR NEW.role IS DISTINCT FROM OLD.role
+     OR (NEW.password_hash IS DISTINCT FROM OLD.password_hash AND auth.uid() IS NOT NULL)
+  THEN
+    UPDATE user_sessions
+    SET revoked_at = now()
+    WHERE user_id = NEW.id
+      AND revoked_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS revoke_sessions_on_account_change ON users;
+CREATE TRIGGER revoke_sessions_on_account_change
+  AFTER UPDATE OF is_active, role, password_hash ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION revoke_sessions_on_account_change();
+
+CREATE OR REPLACE FUNCTION check_request_session()
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+BEGIN
+  IF claims IS NULL OR claims ->> 'role' IS DISTINCT FROM 'authenticated' THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.id::text = claims ->> 'sid'
+      AND s.user_id::text = claims ->> 'sub'
+      AND s.revoked_at IS NULL
+      AND s.expires_at > now()
+      AND u.is_active = true
+  ) THEN
+    RAISE SQLSTATE 'PGRST' USING
+      MESSAGE = '{"code":"session_revoked","message":"Session expired. Please log in again."}',
+      DETAIL = '{"status":401,"headers":{}}';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_request_session() TO authenticated, anon;
+
+ALTER ROLE authenticator SET pgrst.db_pre_request = 'public.check_request_session';
+NOTIFY pgrst, 'reload config';
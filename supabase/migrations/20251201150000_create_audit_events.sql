@@ -0,0 +1,163 @@
+/*
+  # Audit Trail for Clients, Notes and Tasks
+
+  ## Overview
+  `agent_audit_logs` only covers admin actions on users. Every create, update and
+  delete of a client, note or task is now recorded by database triggers, so the
+  history is complete no matter which screen, import or function made the change.
+
+  ## New Tables
+  - `audit_events` (append-only)
+    - `id` (uuid, primary key)
+    - `entity_type` (text) - client, note or task
+    - `entity_id` (uuid) - Row that changed (kept after the row is deleted)
+    - `client_id` (uuid, nullable) - The client itself, or the client a note/task belongs to
+    - `action` (text) - create, update or delete
+    - `changes` (jsonb) - `{ field: { old, new } }`; only changed fields on update,
+      all fields on create (`new`) and delete (`old`)
+    - `entity_label` (text, nullable) - Client name or note/task excerpt at the time
+    - `actor_id` (uuid, nullable) - Session user; null for service-role writes
+    - `actor_name` (text, nullable) - Actor's name at the time
+    - `created_at` (timestamptz)
+
+  ## Changes
+  - New permission `audit.view` to read the global trail, granted to the
+    `admin` and `auditor` roles
+  - Updates that only touch `updated_at` are not recorded
+
+  ## Security
+  - No insert, update or delete policies; rows are written by SECURITY DEFINER
+    triggers and a guard trigger rejects any update or delete, even by the service role
+  - Users can read events of clients they can see; `audit.view` reads everything
+*/
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL CHECK (entity_type IN ('client', 'note', 'task')),
+  entity_id uuid NOT NULL,
+  client_id uuid,
+  action text NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  changes jsonb NOT NULL DEFAULT '{}',
+  entity_label text,
+  actor_id uuid,
+  actor_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_client_id_created_at ON audit_events(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at DESC);
+
+CREATE OR REPLACE FUNCTION record_audit_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  row_data jsonb := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+  ignored_fields text[] := ARRAY['id', 'created_at', 'updated_at'];
+  v_entity_type text;
+  v_client_id uuid;
+  v_label text;
+  v_changes jsonb := '{}'::jsonb;
+  v_field text;
+BEGIN
+  IF TG_TABLE_NAME = 'clients' THEN
+    v_entity_type := 'client';
+    v_client_id := (row_data ->> 'id')::uuid;
+    v_label := row_data ->> 'name';
+  ELSIF TG_TABLE_NAME = 'notes' THEN
+    v_entity_type := 'note';
+    v_client_id := (row_data ->> 'client_id')::uuid;
+    v_label := left(row_data ->> 'content', 80);
+  ELSE
+    v_entity_type := 'task';
+    v_client_id := (row_data ->> 'client_id')::uuid;
+    v_label := left(row_data ->> 'description', 80);
+  END IF;
+
+  FOR v_field IN
+    SELECT key FROM jsonb_object_keys(old_row || new_row) AS key
+  LOOP
+    CONTINUE WHEN v_field = ANY(ignored_fields);
+
+    IF TG_OP = 'UPDATE' AND (old_row -> v_field) IS DISTINCT FROM (new_row -> v_field) THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field, jsonb_build_object('old', old_row -> v_field, 'new', new_row -> v_field)
+      );
+    ELSIF TG_OP = 'INSERT' AND jsonb_typeof(new_row -> v_field) <> 'null' THEN
+      v_changes := v_changes || jsonb_build_object(v_field, jsonb_build_object('new', new_row -> v_field));
+    ELSIF TG_OP = 'DELETE' AND jsonb_typeof(old_row -> v_field) <> 'null' THEN
+      v_changes := v_changes || jsonb_build_object(v_field, jsonb_build_object('old', old_row -> v_field));
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND v_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_events (entity_type, entity_id, client_id, action, changes, entity_label, actor_id, actor_name)
+  VALUES (
+    v_entity_type,
+    (row_data ->> 'id')::uuid,
+    v_client_id,
+    lower(CASE TG_OP WHEN 'INSERT' THEN 'create' ELSE TG_OP END),
+    v_changes,
+    v_label,
+    auth.uid(),
+    (SELECT full_name FROM users WHERE id = auth.uid())
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_audit_event ON clients;
+CREATE TRIGGER record_audit_event
+  AFTER INSERT OR UPDATE OR DELETE ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_event();
+
+DROP TRIGGER IF EXISTS record_audit_event ON notes;
+CREATE TRIGGER record_audit_event
+  AFTER INSERT OR UPDATE OR DELETE ON notes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_event();
+
+DROP TRIGGER IF EXISTS record_audit_event ON tasks;
+CREATE TRIGGER record_audit_event
+  AFTER INSERT OR UPDATE OR DELETE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_event();
+
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_audit_event_changes ON audit_events;
+CREATE TRIGGER prevent_audit_event_changes
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_event_changes();
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read audit events of visible clients"
+  ON audit_events FOR SELECT
+  TO authenticated
+  USING (has_permission('audit.view') OR client_id IN (SELECT id FROM clients));
+
+UPDATE roles
+SET permissions = array_append(permissions, 'audit.view'),
+    updated_at = now()
+WHERE key IN ('admin', 'auditor')
+  AND NOT ('audit.view' = ANY(permissions));
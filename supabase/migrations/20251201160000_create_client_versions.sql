@@ -0,0 +1,165 @@
+/*
+  # Client Version History
+
+  ## Overview
+  Saving a client overwrote the row and the previous values were lost. Every
+  insert and update of a client now stores a full snapshot, so the client's
+  history can be compared revision by revision and an earlier version restored.
+
+  ## New Tables
+  - `client_versions`
+    - `id` (uuid, primary key)
+    - `client_id` (uuid) - Versioned client; versions are removed with the client
+    - `version_number` (integer) - 1 for the inserted row, then +1 per change
+    - `data` (jsonb) - Full client row after the change
+    - `changed_fields` (text[]) - Columns that differ from the previous version
+    - `restored_from_version` (integer, nullable) - Set when the version was created by a restore
+    - `created_by` (uuid, nullable) - Session user; null for service-role writes
+    - `created_by_name` (text, nullable)
+    - `created_at` (timestamptz)
+
+  ## Changes
+  - New permission `clients.restore`, granted to the `admin` role
+  - `restore_client_version(version_id)` copies a snapshot back onto the client.
+    `id`, `created_by` and `created_at` are never restored. The restore goes
+    through the normal client update checks and itself becomes a new version,
+    so nothing is lost by restoring.
+
+  ## Security
+  - Versions are readable for clients the user can see; only triggers write them
+*/
+
+CREATE TABLE IF NOT EXISTS client_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  data jsonb NOT NULL,
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  restored_from_version integer,
+  created_by uuid,
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (client_id, version_number)
+);
+
+ALTER TABLE client_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read versions of visible clients"
+  ON client_versions FOR SELECT
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+CREATE OR REPLACE FUNCTION record_client_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row jsonb := to_jsonb(NEW);
+  old_row jsonb := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+  v_changed text[];
+  v_next integer;
+BEGIN
+  SELECT coalesce(array_agg(key ORDER BY key), '{}')
+  INTO v_changed
+  FROM jsonb_object_keys(new_row) AS key
+  WHERE key <> 'updated_at'
+    AND (old_row -> key) IS DISTINCT FROM (new_row -> key);
+
+  IF TG_OP = 'UPDATE' AND cardinality(v_changed) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT coalesce(max(version_number), 0) + 1
+  INTO v_next
+  FROM client_versions
+  WHERE client_id = NEW.id;
+
+  INSERT INTO client_versions (
+    client_id, version_number, data, changed_fields, restored_from_version, created_by, created_by_name
+  )
+  VALUES (
+    NEW.id,
+    v_next,
+    new_row,
+    v_changed,
+    nullif(current_setting('app.restored_from_version', true), '')::integer,
+    auth.uid(),
+    (SELECT full_name FROM users WHERE id = auth.uid())
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_client_version ON clients;
+CREATE TRIGGER record_client_version
+  AFTER INSERT OR UPDATE ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION record_client_version();
+
+-- Existing clients start their history from their current state
+INSERT INTO client_versions (client_id, version_number, data, changed_fields, created_by, created_at)
+SELECT c.id, 1, to_jsonb(c), '{}', c.created_by, coalesce(c.updated_at, c.created_at, now())
+FROM clients c
+WHERE NOT EXISTS (SELECT 1 FROM client_versions v WHERE v.client_id = c.id);
+
+CREATE OR REPLACE FUNCTION restore_client_version(p_version_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version client_versions%ROWTYPE;
+  v_set text;
+BEGIN
+  IF NOT has_permission('clients.restore') THEN
+    RAISE EXCEPTION 'Missing permission: clients.restore' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_version FROM client_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Same visibility rule as the clients policies (this function bypasses RLS)
+  IF NOT (
+    has_permission('clients.view_all')
+    OR EXISTS (
+      SELECT 1 FROM clients
+      WHERE id = v_version.client_id
+        AND (created_by = auth.uid() OR assigned_to = auth.uid())
+    )
+  ) THEN
+    RAISE EXCEPTION 'Version not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Columns added after the snapshot was taken keep their current value
+  SELECT string_agg(format('%I = r.%I', column_name, column_name), ', ')
+  INTO v_set
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+    AND table_name = 'clients'
+    AND column_name <> ALL (ARRAY['id', 'created_by', 'created_at', 'updated_at'])
+    AND v_version.data ? column_name;
+
+  PERFORM set_config('app.restored_from_version', v_version.version_number::text, true);
+
+  EXECUTE format(
+    'UPDATE clients c SET %s, updated_at = now() FROM jsonb_populate_record(NULL::clients, $1) r WHERE c.id = $2',
+    v_set
+  ) USING v_version.data, v_version.client_id;
+
+  PERFORM set_config('app.restored_from_version', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_client_version(uuid) TO authenticated;
+
+UPDATE roles
+SET permissions = array_append(permissions, 'clients.restore'),
+    updated_at = now()
+WHERE key = 'admin'
+  AND NOT ('clients.restore' = ANY(permissions));
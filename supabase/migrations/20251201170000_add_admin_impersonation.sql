@@ -0,0 +1,133 @@
+/*
+  # Admin "View as Agent" Impersonation
+
+  ## Overview
+  Admins investigating an agent's complaint could not see what the agent sees,
+  because every view and RLS policy depends on the signed-in user. An admin can
+  now open a short-lived session as the agent. The session is a normal
+  `user_sessions` row for the agent that also records who opened it.
+
+  ## Changes
+  - `user_sessions`
+    - `impersonator_id` (uuid, nullable) - Admin who opened the session; null for normal logins
+    - `allow_destructive` (boolean) - Whether deletes and restores are allowed; off by default
+  - `audit_events`
+    - `impersonator_id` (uuid, nullable) - Admin behind a change made while viewing as the actor
+    - `impersonator_name` (text, nullable)
+    Both are filled from the access token, so client, note and task history
+    shows who really made the change.
+  - `check_request_session()` additionally, for impersonation sessions:
+    - rejects DELETE requests and `restore_client_version` with HTTP 403 and code
+      `impersonation_blocked` unless destructive actions were allowed
+    - writes an `impersonation_write` entry to `agent_audit_logs` for every
+      other write (method in `field_changed`, request path in `new_value`)
+  - `agent_audit_logs.action_type` accepts `impersonation_start`,
+    `impersonation_end` and `impersonation_write`
+  - New permission `users.impersonate`, granted to the `admin` role
+
+  ## Security
+  - Impersonation sessions are only created by the `start-impersonation`
+    function after checking `users.impersonate`, and expire after 30 minutes
+*/
+
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS impersonator_id uuid REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS allow_destructive boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_impersonator_id ON user_sessions(impersonator_id);
+
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS impersonator_id uuid;
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS impersonator_name text;
+
+CREATE OR REPLACE FUNCTION set_audit_event_impersonator()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+BEGIN
+  IF claims ->> 'impersonator_id' IS NOT NULL THEN
+    NEW.impersonator_id := (claims ->> 'impersonator_id')::uuid;
+    NEW.impersonator_name := (SELECT full_name FROM users WHERE id = NEW.impersonator_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_audit_event_impersonator ON audit_events;
+CREATE TRIGGER set_audit_event_impersonator
+  BEFORE INSERT ON audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION set_audit_event_impersonator();
+
+ALTER TABLE agent_audit_logs DROP CONSTRAINT IF EXISTS agent_audit_logs_action_type_check;
+ALTER TABLE agent_audit_logs ADD CONSTRAINT agent_audit_logs_action_type_check CHECK (
+  action_type IN (
+    'create', 'update', 'delete', 'password_change',
+    'email_change', 'activate', 'deactivate', 'role_change',
+    'password_reset_request', 'password_reset',
+    'mfa_enroll', 'mfa_disable', 'mfa_reset',
+    'mfa_recovery_codes_regenerated', 'mfa_recovery_code_used',
+    'impersonation_start', 'impersonation_end', 'impersonation_write'
+  )
+);
+
+-- No longer STABLE: impersonated writes are logged from here
+CREATE OR REPLACE FUNCTION check_request_session()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+  v_method text := current_setting('request.method', true);
+  v_path text := current_setting('request.path', true);
+  v_session user_sessions%ROWTYPE;
+BEGIN
+  IF claims IS NULL OR claims ->> 'role' IS DISTINCT FROM 'authenticated' THEN
+    RETURN;
+  END IF;
+
+  SELECT s.* INTO v_session
+  FROM user_sessions s
+  JOIN users u ON u.id = s.user_id
+  WHERE s.id::text = claims ->> 'sid'
+    AND s.user_id::text = claims ->> 'sub'
+    AND s.revoked_at IS NULL
+    AND s.expires_at > now()
+    AND u.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE SQLSTATE 'PGRST' USING
+      MESSAGE = '{"code":"session_revoked","message":"Session expired. Please log in again."}',
+      DETAIL = '{"status":401,"headers":{}}';
+  END IF;
+
+  IF v_session.impersonator_id IS NULL OR v_method IN ('GET', 'HEAD', 'OPTIONS') THEN
+    RETURN;
+  END IF;
+
+  IF NOT v_session.allow_destructive
+     AND (v_method = 'DELETE' OR v_path = '/rpc/restore_client_version')
+  THEN
+    RAISE SQLSTATE 'PGRST' USING
+      MESSAGE = '{"code":"impersonation_blocked","message":"This action is blocked while viewing as another user."}',
+      DETAIL = '{"status":403,"headers":{}}';
+  END IF;
+
+  -- Rolled back together with the request if the write itself fails
+  INSERT INTO agent_audit_logs (admin_id, agent_id, action_type, field_changed, new_value)
+  VALUES (v_session.impersonator_id, v_session.user_id, 'impersonation_write', v_method, v_path);
+END;
+$$;
+
+NOTIFY pgrst, 'reload config';
+
+UPDATE roles
+SET permissions = array_append(permissions, 'users.impersonate'),
+    updated_at = now()
+WHERE key = 'admin'
+  AND NOT ('users.impersonate' = ANY(permissions));
@@ -0,0 +1,107 @@
+/*
+  # Configurable Pipeline Stages
+
+  ## Overview
+  The five client statuses were hardcoded in the app, the reports and the AI
+  prompts. They now live in `pipeline_stages`, which admins manage from the
+  admin panel. `clients.status` holds the stage key.
+
+  ## New Tables
+  - `pipeline_stages`
+    - `key` (text, primary key) - Stored in `clients.status`; never changes once created
+    - `label_en` (text) - English label
+    - `label_ar` (text) - Arabic label
+    - `position` (integer) - Order in the pipeline, lowest first
+    - `color` (text) - Palette name used for badges and charts
+    - `is_won` (boolean) - Clients in this stage count as booked
+    - `is_lost` (boolean) - Clients in this stage count as lost
+    - `win_probability` (integer) - 0-100, used for the weighted pipeline value
+    - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+  - Seed the existing five stages with their current labels and colours. Any
+    other status value found on clients gets its own stage so no data is lost.
+  - `clients.status` references `pipeline_stages(key)`. Stages still used by a
+    client cannot be deleted.
+  - The constant `'New Lead'` default is replaced by a trigger that puts new
+    clients without a status into the first open (not won, not lost) stage.
+
+  ## Security
+  - Every signed-in user can read the stages
+  - Only users with `settings.manage` can add, change or delete them
+*/
+
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  key text PRIMARY KEY CHECK (length(btrim(key)) > 0),
+  label_en text NOT NULL,
+  label_ar text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  color text NOT NULL DEFAULT 'gray' CHECK (
+    color IN ('gray', 'yellow', 'blue', 'red', 'green', 'purple', 'orange', 'teal', 'pink', 'indigo')
+  ),
+  is_won boolean NOT NULL DEFAULT false,
+  is_lost boolean NOT NULL DEFAULT false,
+  win_probability integer NOT NULL DEFAULT 0 CHECK (win_probability BETWEEN 0 AND 100),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (NOT (is_won AND is_lost))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_position ON pipeline_stages(position);
+
+INSERT INTO pipeline_stages (key, label_en, label_ar, position, color, is_won, is_lost, win_probability) VALUES
+  ('New Lead', 'New Lead', 'عميل جديد', 10, 'gray', false, false, 10),
+  ('Contacted', 'Contacted', 'تم التواصل', 20, 'yellow', false, false, 25),
+  ('Interested', 'Interested', 'مهتم', 30, 'blue', false, false, 50),
+  ('Not Interested', 'Not Interested', 'غير مهتم', 40, 'red', false, true, 0),
+  ('Booked', 'Booked', 'تم الحجز', 50, 'green', true, false, 100)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO pipeline_stages (key, label_en, label_ar, position)
+SELECT DISTINCT status, status, status, 100
+FROM clients
+WHERE status IS NOT NULL
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE clients ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_status_fkey;
+ALTER TABLE clients
+  ADD CONSTRAINT clients_status_fkey FOREIGN KEY (status) REFERENCES pipeline_stages(key);
+
+CREATE OR REPLACE FUNCTION set_default_client_stage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NULL THEN
+    SELECT key INTO NEW.status
+    FROM pipeline_stages
+    WHERE NOT is_won AND NOT is_lost
+    ORDER BY position, key
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_default_client_stage ON clients;
+CREATE TRIGGER set_default_client_stage
+  BEFORE INSERT ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION set_default_client_stage();
+
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read pipeline stages"
+  ON pipeline_stages FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Settings managers can manage pipeline stages"
+  ON pipeline_stages FOR ALL
+  TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
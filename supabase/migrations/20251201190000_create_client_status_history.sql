@@ -0,0 +1,101 @@
+/*
+  # Client Status History
+
+  ## Overview
+  There was no record of when a client moved between pipeline stages; the
+  dashboard guessed the booking date from `updated_at`. Every status change is
+  now written to `client_status_history` by a trigger on `clients`, so changes
+  from the app, imports, restores and service-role functions are all covered.
+
+  ## New Tables
+  - `client_status_history`
+    - `id` (uuid, primary key)
+    - `client_id` (uuid) - Client whose stage changed; removed with the client
+    - `from_status` (text, nullable) - Previous stage key; null when the client was created
+    - `to_status` (text) - New stage key
+    - `changed_by` (uuid, nullable) - Session user; null for service-role writes
+    - `changed_by_name` (text, nullable)
+    - `changed_at` (timestamptz)
+
+  ## Changes
+  - Existing clients get their history from `client_versions`: the first
+    version and every version that changed `status`. For clients that existed
+    before versioning, the first entry is dated at the client's `created_at`,
+    since the real date of their current stage is unknown.
+
+  ## Security
+  - History is readable for clients the user can see; only the trigger writes it
+*/
+
+CREATE TABLE IF NOT EXISTS client_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid,
+  changed_by_name text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_status_history_client_id ON client_status_history(client_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_client_status_history_changed_at ON client_status_history(changed_at DESC);
+
+ALTER TABLE client_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read status history of visible clients"
+  ON client_status_history FOR SELECT
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+CREATE OR REPLACE FUNCTION record_client_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO client_status_history (client_id, from_status, to_status, changed_by, changed_by_name)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    (SELECT full_name FROM users WHERE id = auth.uid())
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_client_status_change ON clients;
+CREATE TRIGGER record_client_status_change
+  AFTER INSERT OR UPDATE OF status ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION record_client_status_change();
+
+INSERT INTO client_status_history (client_id, from_status, to_status, changed_by, changed_by_name, changed_at)
+SELECT
+  h.client_id,
+  lag(h.status) OVER (PARTITION BY h.client_id ORDER BY h.version_number),
+  h.status,
+  h.created_by,
+  h.created_by_name,
+  h.changed_at
+FROM (
+  SELECT
+    v.client_id,
+    v.version_number,
+    v.data ->> 'status' AS status,
+    v.created_by,
+    v.created_by_name,
+    CASE WHEN v.version_number = 1 THEN coalesce(c.created_at, v.created_at) ELSE v.created_at END AS changed_at
+  FROM client_versions v
+  JOIN clients c ON c.id = v.client_id
+  WHERE v.version_number = 1 OR 'status' = ANY(v.changed_fields)
+) h
+WHERE h.status IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM client_status_history e WHERE e.client_id = h.client_id);
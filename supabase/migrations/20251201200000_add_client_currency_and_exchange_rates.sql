@@ -0,0 +1,108 @@
+/*
+  # Client Currency and Exchange Rates
+
+  ## Overview
+  `clients.price` was a bare number that the app always showed as USD, while
+  leads are quoted in lira, dinars, riyals and others. Each client now has a
+  currency, and admins keep an exchange-rate table so revenue totals can be
+  shown in one base currency.
+
+  ## New Tables
+  - `currencies`
+    - `code` (text, primary key) - ISO 4217 code, e.g. `TRY`
+    - `name` (text) - Display name
+    - `rate_to_base` (numeric, nullable) - Value of 1 unit in the base currency;
+      null until an admin enters it. Prices in a currency without a rate are
+      left out of converted totals.
+    - `is_base` (boolean) - Exactly one currency is the base; its rate is 1
+    - `updated_at` (timestamptz)
+    - `updated_by` (uuid, nullable)
+
+  ## Changes
+  - `clients.currency` (text, default `USD`) references `currencies(code)`.
+    Existing prices were always shown as USD, so they keep USD.
+  - USD is seeded as the base currency, together with the currencies leads
+    usually quote in (without rates).
+  - `set_base_currency(code)` makes another currency the base and rescales
+    every rate so existing conversions stay the same.
+
+  ## Security
+  - Every signed-in user can read currencies
+  - Only users with `settings.manage` can add, change or delete them
+*/
+
+CREATE TABLE IF NOT EXISTS currencies (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+  name text NOT NULL,
+  rate_to_base numeric(20, 10) CHECK (rate_to_base > 0),
+  is_base boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  CHECK (NOT is_base OR rate_to_base = 1)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_currencies_single_base ON currencies(is_base) WHERE is_base;
+
+INSERT INTO currencies (code, name, rate_to_base, is_base) VALUES
+  ('USD', 'US Dollar', 1, true),
+  ('EUR', 'Euro', NULL, false),
+  ('GBP', 'British Pound', NULL, false),
+  ('TRY', 'Turkish Lira', NULL, false),
+  ('IQD', 'Iraqi Dinar', NULL, false),
+  ('SAR', 'Saudi Riyal', NULL, false),
+  ('AED', 'UAE Dirham', NULL, false),
+  ('KWD', 'Kuwaiti Dinar', NULL, false),
+  ('QAR', 'Qatari Riyal', NULL, false),
+  ('JOD', 'Jordanian Dinar', NULL, false)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD';
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_currency_fkey;
+ALTER TABLE clients
+  ADD CONSTRAINT clients_currency_fkey FOREIGN KEY (currency) REFERENCES currencies(code);
+
+CREATE INDEX IF NOT EXISTS idx_clients_currency ON clients(currency);
+
+ALTER TABLE currencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read currencies"
+  ON currencies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Settings managers can manage currencies"
+  ON currencies FOR ALL
+  TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
+
+-- Runs with the caller's rights, so the policies above decide who may call it
+CREATE OR REPLACE FUNCTION set_base_currency(p_code text)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_rate numeric;
+BEGIN
+  SELECT rate_to_base INTO v_rate FROM currencies WHERE code = p_code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Currency not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'Enter an exchange rate for % before making it the base currency', p_code
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE currencies SET is_base = false, updated_at = now(), updated_by = auth.uid() WHERE is_base;
+
+  UPDATE currencies
+  SET rate_to_base = CASE WHEN code = p_code THEN 1 ELSE rate_to_base / v_rate END,
+      is_base = (code = p_code),
+      updated_at = now(),
+      updated_by = auth.uid()
+  WHERE rate_to_base IS NOT NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_base_currency(text) TO authenticated;
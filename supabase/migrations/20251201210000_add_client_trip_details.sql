@@ -0,0 +1,33 @@
+/*
+  # Client Trip Details
+
+  ## Overview
+  A client only had `destination` and `price`, so travel dates, party size and
+  the services a lead asked for (which the extraction prompts already pick up)
+  were lost on import. These are now stored on the client.
+
+  ## Changes
+  - `clients.travel_start_date` (date, nullable)
+  - `clients.travel_end_date` (date, nullable) - Not before the start date
+  - `clients.adults` (integer, nullable) - Number of adult travellers
+  - `clients.children` (integer, nullable) - Number of child travellers
+  - `clients.hotel_class` (smallint, nullable) - Hotel star rating, 1 to 5
+  - `clients.services` (text[], default empty) - e.g. `Flights`, `Hotel`, `Transfers`
+
+  ## Security
+  - No policy changes; the columns are covered by the existing client policies
+*/
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS travel_start_date date;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS travel_end_date date;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS adults integer CHECK (adults >= 0);
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS children integer CHECK (children >= 0);
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS hotel_class smallint CHECK (hotel_class BETWEEN 1 AND 5);
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS services text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_travel_dates_check;
+ALTER TABLE clients
+  ADD CONSTRAINT clients_travel_dates_check
+  CHECK (travel_end_date IS NULL OR travel_start_date IS NULL OR travel_end_date >= travel_start_date);
+
+CREATE INDEX IF NOT EXISTS idx_clients_travel_start_date ON clients(travel_start_date);
@@ -0,0 +1,119 @@
+/*
+  # Client Itinerary
+
+  ## Overview
+  Multi-city trips were written into the single `destination` text, e.g.
+  "Istanbul - Trabzon", so destination charts and filters counted each
+  combination as its own place. Clients now have an ordered itinerary of
+  stops with the number of nights at each.
+
+  ## Changes
+  - `clients.itinerary` (jsonb, default `[]`) - Ordered stops:
+    `[{"place": "Istanbul", "nights": 3}, {"place": "Trabzon", "nights": null}]`
+  - `destination` stays as a readable summary of the itinerary, so search,
+    lead routing rules and older imports keep working. The
+    `normalize_client_itinerary` trigger keeps the two in step:
+    - a new or changed `destination` without an itinerary is split into
+      stops; the text is kept as typed
+    - a new or changed itinerary without a new `destination` rewrites it as
+      "A - B - C"
+  - `split_destination(text)` splits a destination text only on explicit
+    itinerary separators (" - ", "→", "->") and reads "Istanbul 3 nights" as
+    a stop with nights. Commas, slashes, "and" and the like are kept, so
+    "Istanbul, Turkey" stays one stop.
+  - Split stops keep places as typed. The app canonicalises place names when
+    it reads them (`canonicalizePlace`), so "اسطنبول" and "Istanbul" still
+    count as one destination.
+  - Existing clients get their itinerary from their destination. Version and
+    audit triggers are paused for the backfill so it does not add a version
+    to every client.
+
+  ## Security
+  - No policy changes; the column is covered by the existing client policies
+*/
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS itinerary jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_itinerary_check;
+ALTER TABLE clients ADD CONSTRAINT clients_itinerary_check CHECK (jsonb_typeof(itinerary) = 'array');
+
+CREATE INDEX IF NOT EXISTS idx_clients_itinerary ON clients USING gin (itinerary);
+
+CREATE OR REPLACE FUNCTION split_destination(p_destination text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      CASE
+        WHEN m IS NULL THEN jsonb_build_object('place', part, 'nights', NULL)
+        ELSE jsonb_build_object('place', m[1], 'nights', m[2]::integer)
+      END
+      ORDER BY ord
+    ),
+    '[]'::jsonb
+  )
+  FROM (
+    SELECT trim(t.part) AS part, t.ord
+    FROM regexp_split_to_table(
+      coalesce(p_destination, ''),
+      '\s+[-–—]\s+|\s*(?:→|->)\s*'
+    ) WITH ORDINALITY AS t(part, ord)
+  ) parts
+  LEFT JOIN LATERAL regexp_match(
+    part,
+    '^(.+?)\s*\(?\s*(\d{1,3})\s*(?:nights?|n|gece|ليالي|ليال|ليلة)\s*\)?$',
+    'i'
+  ) AS m ON true
+  WHERE part <> ''
+    AND lower(part) NOT IN ('not specified', 'unknown', 'n/a');
+$$;
+
+ALTER TABLE clients DISABLE TRIGGER record_client_version;
+ALTER TABLE clients DISABLE TRIGGER record_audit_event;
+
+UPDATE clients
+SET itinerary = split_destination(destination)
+WHERE itinerary = '[]'::jsonb;
+
+ALTER TABLE clients ENABLE TRIGGER record_client_version;
+ALTER TABLE clients ENABLE TRIGGER record_audit_event;
+
+-- Named so it runs before route_new_client, whose destination rules read NEW.destination
+CREATE OR REPLACE FUNCTION normalize_client_itinerary()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.itinerary IS NOT DISTINCT FROM OLD.itinerary
+     AND NEW.destination IS NOT DISTINCT FROM OLD.destination THEN
+    RETURN NEW;
+  END IF;
+
+  -- Stops split from a typed destination leave the typed text as it is
+  IF jsonb_array_length(NEW.itinerary) = 0
+     OR (TG_OP = 'UPDATE' AND NEW.itinerary IS NOT DISTINCT FROM OLD.itinerary) THEN
+    NEW.itinerary := split_destination(NEW.destination);
+    RETURN NEW;
+  END IF;
+
+  -- When both were sent, the caller's destination text is kept
+  IF coalesce(trim(NEW.destination), '') = ''
+     OR (TG_OP = 'UPDATE' AND NEW.destination IS NOT DISTINCT FROM OLD.destination) THEN
+    NEW.destination := (
+      SELECT string_agg(stop ->> 'place', ' - ' ORDER BY ord)
+      FROM jsonb_array_elements(NEW.itinerary) WITH ORDINALITY AS s(stop, ord)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_client_itinerary ON clients;
+CREATE TRIGGER normalize_client_itinerary
+  BEFORE INSERT OR UPDATE OF destination, itinerary ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_client_itinerary();
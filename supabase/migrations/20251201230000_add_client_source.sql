@@ -0,0 +1,31 @@
+/*
+  # Client Lead Source
+
+  ## Overview
+  Nothing recorded whether a client was typed into the client form or came
+  from a WhatsApp or CSV import, and the import batch id was dropped once its
+  leads were inserted. Every client now records where it came from.
+
+  ## Changes
+  - `clients.source` (text, default `unknown`) - `manual`, `whatsapp`, `csv`
+    or `unknown`. Existing clients stay `unknown` because their origin was
+    never recorded; every insert path in the app sets it.
+  - `clients.source_batch_id` (uuid, nullable) - The `import_batches` row the
+    lead was extracted in. Not a foreign key: batches are created by the
+    extraction workflow and may be cleaned up after import.
+  - `clients.source_detail` (text, nullable) - e.g. the imported file name
+
+  ## Security
+  - No policy changes; the columns are covered by the existing client policies
+*/
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'unknown';
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS source_batch_id uuid;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS source_detail text;
+
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_source_check;
+ALTER TABLE clients
+  ADD CONSTRAINT clients_source_check CHECK (source IN ('manual', 'whatsapp', 'csv', 'unknown'));
+
+CREATE INDEX IF NOT EXISTS idx_clients_source ON clients(source);
+CREATE INDEX IF NOT EXISTS idx_clients_source_batch_id ON clients(source_batch_id) WHERE source_batch_id IS NOT NULL;
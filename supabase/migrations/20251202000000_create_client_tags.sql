@@ -0,0 +1,101 @@
+/*
+  # Client Tags
+
+  ## Overview
+  Agents kept labels such as "honeymoon", "VIP", "family" or "needs visa" in
+  free-text notes. Clients can now carry any number of coloured tags, which
+  the client list filters on.
+
+  ## New Tables
+  - `tags`
+    - `id` (uuid, primary key)
+    - `name` (text) - Unique regardless of case
+    - `color` (text) - Same palette as pipeline stages
+    - `created_by` (uuid, nullable)
+    - `created_at` (timestamptz)
+  - `client_tags`
+    - `client_id` (uuid) - Removed with the client
+    - `tag_id` (uuid) - Removed with the tag
+    - `created_by` (uuid, nullable)
+    - `created_at` (timestamptz)
+    - Primary key (`client_id`, `tag_id`)
+
+  ## Security
+  - Every signed-in user can read tags; users who can create or edit clients
+    can add new tags, and only `settings.manage` can rename or delete them
+  - Tags on a client are readable with the client. Adding or removing them
+    needs `clients.edit`, or `clients.create` for clients the user created,
+    so tags can be set while creating a client.
+*/
+
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  color text NOT NULL DEFAULT 'gray'
+    CHECK (color IN ('gray', 'yellow', 'blue', 'red', 'green', 'purple', 'orange', 'teal', 'pink', 'indigo')),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_name ON tags(lower(trim(name)));
+
+CREATE TABLE IF NOT EXISTS client_tags (
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (client_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_tags_tag_id ON client_tags(tag_id);
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read tags"
+  ON tags FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Client editors can create tags"
+  ON tags FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('clients.edit') OR has_permission('clients.create'));
+
+CREATE POLICY "Settings managers can update tags"
+  ON tags FOR UPDATE
+  TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
+
+CREATE POLICY "Settings managers can delete tags"
+  ON tags FOR DELETE
+  TO authenticated
+  USING (has_permission('settings.manage'));
+
+CREATE POLICY "Users can read tags of visible clients"
+  ON client_tags FOR SELECT
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Client editors can tag clients"
+  ON client_tags FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    client_id IN (SELECT id FROM clients)
+    AND (
+      has_permission('clients.edit')
+      OR (has_permission('clients.create') AND client_id IN (SELECT id FROM clients WHERE created_by = auth.uid()))
+    )
+  );
+
+CREATE POLICY "Client editors can untag clients"
+  ON client_tags FOR DELETE
+  TO authenticated
+  USING (
+    client_id IN (SELECT id FROM clients)
+    AND (
+      has_permission('clients.edit')
+      OR (has_permission('clients.create') AND client_id IN (SELECT id FROM clients WHERE created_by = auth.uid()))
+    )
+  );
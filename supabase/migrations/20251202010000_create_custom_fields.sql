@@ -0,0 +1,67 @@
+/*
+  # Custom Client Fields
+
+  ## Overview
+  Each team wants its own extra client data, such as passport number,
+  preferred airline or budget band. Adding one meant a migration and changes
+  to several components. Admins can now define extra fields themselves; the
+  client form, client view, client list, CSV export and import pick them up.
+
+  ## New Tables
+  - `custom_fields`
+    - `key` (text, primary key) - Key of the value in `clients.custom_fields`;
+      lower case letters, digits and underscores, never changes once created
+    - `label_en` (text) - English label
+    - `label_ar` (text) - Arabic label
+    - `field_type` (text) - `text`, `number`, `date` or `select`
+    - `options` (text[]) - Choices of a `select` field; empty for other types
+    - `position` (integer) - Order in forms and lists, lowest first
+    - `show_in_list` (boolean) - Shown as a column in the client list
+    - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+  - `clients.custom_fields` (jsonb, default `{}`) - Values by field key, e.g.
+    `{"passport_number": "U1234567", "budget_band": "Premium"}`. Numbers are
+    stored as JSON numbers and dates as `YYYY-MM-DD`.
+  - Deleting a field leaves its values on the clients, hidden, so recreating
+    a field with the same key brings them back. Version and audit triggers
+    record value changes like any other client column.
+
+  ## Security
+  - Every signed-in user can read the field definitions
+  - Only users with `settings.manage` can add, change or delete them
+  - Values are covered by the existing client policies
+*/
+
+CREATE TABLE IF NOT EXISTS custom_fields (
+  key text PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label_en text NOT NULL CHECK (length(trim(label_en)) > 0),
+  label_ar text NOT NULL CHECK (length(trim(label_ar)) > 0),
+  field_type text NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select')),
+  options text[] NOT NULL DEFAULT '{}',
+  position integer NOT NULL DEFAULT 0,
+  show_in_list boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (field_type = 'select' OR cardinality(options) = 0),
+  CHECK (field_type <> 'select' OR cardinality(options) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_fields_position ON custom_fields(position);
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_custom_fields_check;
+ALTER TABLE clients ADD CONSTRAINT clients_custom_fields_check CHECK (jsonb_typeof(custom_fields) = 'object');
+
+ALTER TABLE custom_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read custom fields"
+  ON custom_fields FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Settings managers can manage custom fields"
+  ON custom_fields FOR ALL
+  TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
@@ -0,0 +1,261 @@
+/*
+  # Bookings
+
+  ## Overview
+  A client row holds one destination, price and stage, so a returning
+  customer had to be duplicated or overwritten and earlier trips were lost
+  from revenue. Trips are now bookings linked to the client, each with its
+  own stage, value, dates and destination. Dashboards count bookings.
+
+  ## New Tables
+  - `bookings`
+    - `id` (uuid, primary key)
+    - `client_id` (uuid) - Removed with the client
+    - `is_primary` (boolean) - The booking that mirrors the client's own trip
+      fields; at most one per client
+    - `status` (text) - Stage key, references `pipeline_stages(key)`
+    - `price` (numeric), `currency` (text, references `currencies(code)`)
+    - `destination` (text)
+    - `travel_start_date`, `travel_end_date` (date, nullable)
+    - `booked_at` (timestamptz, nullable) - When the booking reached a won
+      stage; cleared if it leaves the won stages
+    - `created_by` (uuid, nullable)
+    - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+  - Every client gets a primary booking from its stage, price, currency,
+    destination and travel dates. The `sync_primary_booking` trigger keeps it
+    in step when those client fields change, so the client form, imports and
+    stage changes keep feeding the dashboards. Further trips are added as
+    separate bookings.
+  - Existing won clients get `booked_at` from their last move into a won
+    stage, or their last update when no history was recorded.
+  - `record_audit_event()` also records bookings. Primary bookings are
+    skipped because the same change is already recorded on the client.
+  - Stages and currencies used by a booking cannot be deleted.
+
+  ## Security
+  - Bookings are readable with their client
+  - Adding or changing bookings needs `clients.edit`, or `clients.create` for
+    clients the user created; deleting needs `clients.edit`
+  - Primary bookings can only be changed through their client
+*/
+
+CREATE TABLE IF NOT EXISTS bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  is_primary boolean NOT NULL DEFAULT false,
+  status text NOT NULL REFERENCES pipeline_stages(key),
+  price numeric(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  currency text NOT NULL DEFAULT 'USD' REFERENCES currencies(code),
+  destination text NOT NULL DEFAULT '',
+  travel_start_date date,
+  travel_end_date date,
+  booked_at timestamptz,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (travel_end_date IS NULL OR travel_start_date IS NULL OR travel_end_date >= travel_start_date)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_primary ON bookings(client_id) WHERE is_primary;
+CREATE INDEX IF NOT EXISTS idx_bookings_client_id ON bookings(client_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_status ON bookings(status);
+CREATE INDEX IF NOT EXISTS idx_bookings_booked_at ON bookings(booked_at) WHERE booked_at IS NOT NULL;
+
+INSERT INTO bookings (
+  client_id, is_primary, status, price, currency, destination,
+  travel_start_date, travel_end_date, booked_at, created_by, created_at, updated_at
+)
+SELECT
+  c.id, true, c.status, coalesce(c.price, 0), c.currency, coalesce(c.destination, ''),
+  c.travel_start_date, c.travel_end_date,
+  CASE
+    WHEN s.is_won THEN coalesce(
+      (SELECT max(h.changed_at) FROM client_status_history h WHERE h.client_id = c.id AND h.to_status = c.status),
+      c.updated_at
+    )
+  END,
+  c.created_by, c.created_at, c.updated_at
+FROM clients c
+JOIN pipeline_stages s ON s.key = c.status
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION set_booking_booked_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce((SELECT is_won FROM pipeline_stages WHERE key = NEW.status), false) THEN
+    -- Moving between won stages keeps the original date
+    NEW.booked_at := coalesce(CASE WHEN TG_OP = 'UPDATE' THEN OLD.booked_at END, NEW.booked_at, now());
+  ELSE
+    NEW.booked_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_booking_booked_at ON bookings;
+CREATE TRIGGER set_booking_booked_at
+  BEFORE INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_booked_at();
+
+CREATE OR REPLACE FUNCTION sync_primary_booking()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO bookings (
+    client_id, is_primary, status, price, currency, destination,
+    travel_start_date, travel_end_date, created_by
+  )
+  VALUES (
+    NEW.id, true, NEW.status, coalesce(NEW.price, 0), NEW.currency, coalesce(NEW.destination, ''),
+    NEW.travel_start_date, NEW.travel_end_date, NEW.created_by
+  )
+  ON CONFLICT (client_id) WHERE is_primary DO UPDATE
+  SET status = EXCLUDED.status,
+      price = EXCLUDED.price,
+      currency = EXCLUDED.currency,
+      destination = EXCLUDED.destination,
+      travel_start_date = EXCLUDED.travel_start_date,
+      travel_end_date = EXCLUDED.travel_end_date,
+      updated_at = now();
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_primary_booking ON clients;
+CREATE TRIGGER sync_primary_booking
+  AFTER INSERT OR UPDATE OF status, price, currency, destination, travel_start_date, travel_end_date ON clients
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_primary_booking();
+
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_entity_type_check;
+ALTER TABLE audit_events
+  ADD CONSTRAINT audit_events_entity_type_check CHECK (entity_type IN ('client', 'note', 'task', 'booking'));
+
+CREATE OR REPLACE FUNCTION record_audit_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  row_data jsonb := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+  ignored_fields text[] := ARRAY['id', 'created_at', 'updated_at'];
+  v_entity_type text;
+  v_client_id uuid;
+  v_label text;
+  v_changes jsonb := '{}'::jsonb;
+  v_field text;
+BEGIN
+  IF TG_TABLE_NAME = 'clients' THEN
+    v_entity_type := 'client';
+    v_client_id := (row_data ->> 'id')::uuid;
+    v_label := row_data ->> 'name';
+  ELSIF TG_TABLE_NAME = 'notes' THEN
+    v_entity_type := 'note';
+    v_client_id := (row_data ->> 'client_id')::uuid;
+    v_label := left(row_data ->> 'content', 80);
+  ELSIF TG_TABLE_NAME = 'bookings' THEN
+    -- The client's own event already records changes to its primary booking
+    IF (row_data ->> 'is_primary')::boolean THEN
+      RETURN NULL;
+    END IF;
+    v_entity_type := 'booking';
+    v_client_id := (row_data ->> 'client_id')::uuid;
+    v_label := left(row_data ->> 'destination', 80);
+  ELSE
+    v_entity_type := 'task';
+    v_client_id := (row_data ->> 'client_id')::uuid;
+    v_label := left(row_data ->> 'description', 80);
+  END IF;
+
+  FOR v_field IN
+    SELECT key FROM jsonb_object_keys(old_row || new_row) AS key
+  LOOP
+    CONTINUE WHEN v_field = ANY(ignored_fields);
+
+    IF TG_OP = 'UPDATE' AND (old_row -> v_field) IS DISTINCT FROM (new_row -> v_field) THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_field, jsonb_build_object('old', old_row -> v_field, 'new', new_row -> v_field)
+      );
+    ELSIF TG_OP = 'INSERT' AND jsonb_typeof(new_row -> v_field) <> 'null' THEN
+      v_changes := v_changes || jsonb_build_object(v_field, jsonb_build_object('new', new_row -> v_field));
+    ELSIF TG_OP = 'DELETE' AND jsonb_typeof(old_row -> v_field) <> 'null' THEN
+      v_changes := v_changes || jsonb_build_object(v_field, jsonb_build_object('old', old_row -> v_field));
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND v_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_events (entity_type, entity_id, client_id, action, changes, entity_label, actor_id, actor_name)
+  VALUES (
+    v_entity_type,
+    (row_data ->> 'id')::uuid,
+    v_client_id,
+    lower(CASE TG_OP WHEN 'INSERT' THEN 'create' ELSE TG_OP END),
+    v_changes,
+    v_label,
+    auth.uid(),
+    (SELECT full_name FROM users WHERE id = auth.uid())
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_audit_event ON bookings;
+CREATE TRIGGER record_audit_event
+  AFTER INSERT OR UPDATE OR DELETE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_event();
+
+ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read bookings of visible clients"
+  ON bookings FOR SELECT
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Client editors can add bookings"
+  ON bookings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT is_primary
+    AND client_id IN (SELECT id FROM clients)
+    AND (
+      has_permission('clients.edit')
+      OR (has_permission('clients.create') AND client_id IN (SELECT id FROM clients WHERE created_by = auth.uid()))
+    )
+  );
+
+CREATE POLICY "Client editors can update bookings"
+  ON bookings FOR UPDATE
+  TO authenticated
+  USING (
+    NOT is_primary
+    AND client_id IN (SELECT id FROM clients)
+    AND (
+      has_permission('clients.edit')
+      OR (has_permission('clients.create') AND client_id IN (SELECT id FROM clients WHERE created_by = auth.uid()))
+    )
+  )
+  WITH CHECK (NOT is_primary AND client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Client editors can delete bookings"
+  ON bookings FOR DELETE
+  TO authenticated
+  USING (NOT is_primary AND client_id IN (SELECT id FROM clients) AND has_permission('clients.edit'));
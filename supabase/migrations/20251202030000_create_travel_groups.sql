@@ -0,0 +1,216 @@
+/*
+  # Travel Groups
+
+  ## Overview
+  WhatsApp imports often bring in several members of one family, or a tour
+  group organised by one contact, as unrelated clients. Related clients can
+  now be linked in a travel group with a lead contact and a role per member,
+  so the whole party and its total value are seen together.
+
+  ## New Tables
+  - `travel_groups`
+    - `id` (uuid, primary key)
+    - `name` (text) - e.g. "Al-Sayed family"
+    - `created_by` (uuid, nullable)
+    - `created_at`, `updated_at` (timestamptz)
+  - `travel_group_members`
+    - `group_id` (uuid) - Removed with the group
+    - `client_id` (uuid) - Removed with the client; a client is in at most
+      one group
+    - `role` (text) - lead, spouse, child, parent, relative, friend or member;
+      at most one lead per group
+    - `created_by` (uuid, nullable)
+    - `created_at` (timestamptz)
+    - Primary key (`group_id`, `client_id`)
+
+  ## Changes
+  - `create_travel_group(name, lead_client_id)` creates a group with its lead
+    in one transaction, so a failed lead insert leaves no empty group
+  - `add_travel_group_member(group_id, client_id, role)` and
+    `set_travel_group_member_role(group_id, client_id, role)` hand the lead
+    over in one transaction: the old lead stays in the group as a member,
+    even when the caller cannot see that client
+
+  ## Security
+  - Every signed-in user can read group names
+  - Members are readable with their client, so agents only see the members
+    they can see
+  - Creating groups and changing their members needs `clients.edit`
+  - Renaming and deleting a group also needs `clients.view_all`, or every
+    member of the group to be visible to the caller
+  - `create_travel_group` runs with the caller's rights, so the same
+    policies apply
+  - The handover functions run as SECURITY DEFINER so they can demote a lead
+    the caller cannot see. They check `clients.edit` and that the caller
+    can see the client being added or changed themselves
+*/
+
+CREATE TABLE IF NOT EXISTS travel_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS travel_group_members (
+  group_id uuid NOT NULL REFERENCES travel_groups(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL UNIQUE REFERENCES clients(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member'
+    CHECK (role IN ('lead', 'spouse', 'child', 'parent', 'relative', 'friend', 'member')),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (group_id, client_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_travel_group_members_lead ON travel_group_members(group_id) WHERE role = 'lead';
+
+ALTER TABLE travel_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE travel_group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read travel groups"
+  ON travel_groups FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Client editors can create travel groups"
+  ON travel_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('clients.edit'));
+
+-- Runs as the owner because the member policy hides exactly the rows it has to find
+CREATE OR REPLACE FUNCTION can_see_whole_travel_group(p_group_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_permission('clients.view_all') OR NOT EXISTS (
+    SELECT 1
+    FROM travel_group_members m
+    JOIN clients c ON c.id = m.client_id
+    WHERE m.group_id = p_group_id
+      AND c.created_by IS DISTINCT FROM auth.uid()
+      AND c.assigned_to IS DISTINCT FROM auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_see_whole_travel_group(uuid) TO authenticated;
+
+-- Deleting a group removes all of its members, so it needs sight of every one
+CREATE POLICY "Client editors can update fully visible travel groups"
+  ON travel_groups FOR UPDATE
+  TO authenticated
+  USING (has_permission('clients.edit') AND can_see_whole_travel_group(id))
+  WITH CHECK (has_permission('clients.edit') AND can_see_whole_travel_group(id));
+
+CREATE POLICY "Client editors can delete fully visible travel groups"
+  ON travel_groups FOR DELETE
+  TO authenticated
+  USING (has_permission('clients.edit') AND can_see_whole_travel_group(id));
+
+CREATE POLICY "Users can read group members of visible clients"
+  ON travel_group_members FOR SELECT
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients));
+
+CREATE POLICY "Client editors can add group members"
+  ON travel_group_members FOR INSERT
+  TO authenticated
+  WITH CHECK (client_id IN (SELECT id FROM clients) AND has_permission('clients.edit'));
+
+CREATE POLICY "Client editors can change member roles"
+  ON travel_group_members FOR UPDATE
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients) AND has_permission('clients.edit'))
+  WITH CHECK (client_id IN (SELECT id FROM clients) AND has_permission('clients.edit'));
+
+CREATE POLICY "Client editors can remove group members"
+  ON travel_group_members FOR DELETE
+  TO authenticated
+  USING (client_id IN (SELECT id FROM clients) AND has_permission('clients.edit'));
+
+-- Runs with the caller's rights, so the policies above decide who may call it
+CREATE OR REPLACE FUNCTION create_travel_group(p_name text, p_lead_client_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id uuid;
+BEGIN
+  INSERT INTO travel_groups (name) VALUES (trim(p_name)) RETURNING id INTO v_group_id;
+  INSERT INTO travel_group_members (group_id, client_id, role) VALUES (v_group_id, p_lead_client_id, 'lead');
+
+  RETURN v_group_id;
+END;
+$$;
+
+-- The member policies, applied by hand for the SECURITY DEFINER functions below
+CREATE OR REPLACE FUNCTION check_travel_group_client(p_client_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('clients.edit') THEN
+    RAISE EXCEPTION 'Missing permission: clients.edit' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM clients
+    WHERE id = p_client_id
+      AND (has_permission('clients.view_all') OR created_by = auth.uid() OR assigned_to = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Client not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- A new lead replaces the old one, who stays in the group as a member. Runs as
+-- the owner so an old lead the caller cannot see is still demoted.
+CREATE OR REPLACE FUNCTION add_travel_group_member(p_group_id uuid, p_client_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM check_travel_group_client(p_client_id);
+
+  IF p_role = 'lead' THEN
+    UPDATE travel_group_members SET role = 'member' WHERE group_id = p_group_id AND role = 'lead';
+  END IF;
+
+  INSERT INTO travel_group_members (group_id, client_id, role) VALUES (p_group_id, p_client_id, p_role);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_travel_group_member_role(p_group_id uuid, p_client_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM check_travel_group_client(p_client_id);
+
+  IF p_role = 'lead' THEN
+    UPDATE travel_group_members
+    SET role = 'member'
+    WHERE group_id = p_group_id AND role = 'lead' AND client_id <> p_client_id;
+  END IF;
+
+  UPDATE travel_group_members SET role = p_role WHERE group_id = p_group_id AND client_id = p_client_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group member not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_travel_group(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_travel_group_member(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_travel_group_member_role(uuid, uuid, text) TO authenticated;
@@ -0,0 +1,46 @@
+/*
+  # Throttle Password Requests
+
+  ## Overview
+  Reset links could be requested for any address without limit, so the
+  endpoint could flood a user's inbox. The current password check of the
+  self-service password change could also be guessed without limit. Both
+  now count recent attempts over a sliding window, like logins do.
+
+  ## New Tables
+  - `password_reset_requests`
+    - `id` (uuid, primary key)
+    - `email` (text) - Email as typed (lower-cased), whether or not an
+      account exists
+    - `ip_address` (text, nullable)
+    - `created_at` (timestamptz)
+
+  ## Changes
+  - `login_events.failure_reason` accepts `invalid_current_password`. A
+    wrong current password counts towards the same account and IP lockout
+    as a failed login.
+
+  ## Security
+  - RLS enabled with no policies: only the service role reads or writes
+    reset requests
+*/
+
+CREATE TABLE IF NOT EXISTS password_reset_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  ip_address text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_requests_email_created_at ON password_reset_requests(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_password_reset_requests_ip_created_at ON password_reset_requests(ip_address, created_at DESC);
+
+ALTER TABLE password_reset_requests ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE login_events DROP CONSTRAINT IF EXISTS login_events_failure_reason_check;
+ALTER TABLE login_events ADD CONSTRAINT login_events_failure_reason_check CHECK (
+  failure_reason IS NULL
+  OR failure_reason IN (
+    'invalid_credentials', 'inactive', 'locked_account', 'locked_ip', 'invalid_mfa_code', 'invalid_current_password'
+  )
+);
@@ -0,0 +1,256 @@
+/*
+  # Row-Level Security for Session Users
+
+  pgTAP fixture for the policies on `clients`, `notes`, `tasks` and
+  `agent_audit_logs`. Each block signs in through JWT claims the way
+  PostgREST does (`role authenticated`, `request.jwt.claims.sub`) and checks
+  what that user can select, insert, update and delete.
+
+  - An admin sees and changes every client, note and task
+  - An agent sees only clients they created or are assigned to, and the notes
+    and tasks of those clients
+  - Audit logs are readable by admins only and are append-only
+
+  Run with `supabase test db`. Everything happens inside a transaction that
+  is rolled back.
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(36);
+
+-- ============================================================
+-- Fixture data, written as the superuser so no policy applies
+-- ============================================================
+INSERT INTO users (id, email, password_hash, full_name, role) VALUES
+  ('a0000000-0000-0000-0000-000000000001', 'rls-admin@example.com', 'x', 'RLS Admin', 'admin'),
+  ('a0000000-0000-0000-0000-000000000002', 'rls-agent@example.com', 'x', 'RLS Agent', 'agent'),
+  ('a0000000-0000-0000-0000-000000000003', 'rls-other@example.com', 'x', 'RLS Other Agent', 'agent');
+
+INSERT INTO clients (id, name, phone_number, destination, country, status, created_by, assigned_to)
+SELECT c.id, c.name, '+90 555 000 0000', 'Istanbul', 'Turkey',
+       (SELECT key FROM pipeline_stages ORDER BY position LIMIT 1), c.created_by, c.assigned_to
+FROM (VALUES
+  ('c0000000-0000-0000-0000-000000000001'::uuid, 'Own client', 'a0000000-0000-0000-0000-000000000002'::uuid, NULL::uuid),
+  ('c0000000-0000-0000-0000-000000000002'::uuid, 'Assigned client', 'a0000000-0000-0000-0000-000000000001'::uuid, 'a0000000-0000-0000-0000-000000000002'::uuid),
+  ('c0000000-0000-0000-0000-000000000003'::uuid, 'Other agent client', 'a0000000-0000-0000-0000-000000000003'::uuid, NULL::uuid)
+) AS c(id, name, created_by, assigned_to);
+
+INSERT INTO notes (id, client_id, content) VALUES
+  ('d0000000-0000-0000-0000-000000000001', 'c0000000-0000-0000-0000-000000000001', 'Own note'),
+  ('d0000000-0000-0000-0000-000000000002', 'c0000000-0000-0000-0000-000000000002', 'Assigned note'),
+  ('d0000000-0000-0000-0000-000000000003', 'c0000000-0000-0000-0000-000000000003', 'Other note');
+
+INSERT INTO tasks (id, client_id, description, due_date) VALUES
+  ('e0000000-0000-0000-0000-000000000001', 'c0000000-0000-0000-0000-000000000001', 'Own task', current_date),
+  ('e0000000-0000-0000-0000-000000000002', 'c0000000-0000-0000-0000-000000000002', 'Assigned task', current_date),
+  ('e0000000-0000-0000-0000-000000000003', 'c0000000-0000-0000-0000-000000000003', 'Other task', current_date);
+
+INSERT INTO agent_audit_logs (id, admin_id, agent_id, action_type) VALUES
+  ('f0000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000002', 'update');
+
+-- ============================================================
+-- Agent
+-- ============================================================
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" = '{"sub": "a0000000-0000-0000-0000-000000000002", "role": "authenticated"}';
+
+-- clients
+SELECT results_eq(
+  'SELECT name FROM clients WHERE id::text LIKE ''c0000000-%'' ORDER BY name',
+  ARRAY['Assigned client', 'Own client'],
+  'Agent reads own and assigned clients only'
+);
+SELECT is_empty(
+  'SELECT id FROM clients WHERE id = ''c0000000-0000-0000-0000-000000000003''',
+  'Agent cannot read another agent''s client'
+);
+SELECT throws_ok(
+  $$INSERT INTO clients (name, phone_number, destination, country, status)
+    VALUES ('New', '+90 555 111 1111', 'Antalya', 'Turkey', (SELECT key FROM pipeline_stages ORDER BY position LIMIT 1))$$,
+  '42501',
+  NULL,
+  'Agent without clients.create cannot insert clients'
+);
+SELECT is_empty(
+  $$UPDATE clients SET name = 'Taken' WHERE id = 'c0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Agent cannot update another agent''s client'
+);
+SELECT throws_ok(
+  $$UPDATE clients SET name = 'Renamed' WHERE id = 'c0000000-0000-0000-0000-000000000001'$$,
+  '42501',
+  'Missing permission: clients.edit',
+  'Agent without clients.edit cannot edit own client'
+);
+SELECT is_empty(
+  $$DELETE FROM clients WHERE id = 'c0000000-0000-0000-0000-000000000001' RETURNING id$$,
+  'Agent without clients.delete cannot delete own client'
+);
+SELECT is_empty(
+  $$DELETE FROM clients WHERE id = 'c0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Agent cannot delete another agent''s client'
+);
+
+-- notes
+SELECT results_eq(
+  'SELECT content FROM notes WHERE id::text LIKE ''d0000000-%'' ORDER BY content',
+  ARRAY['Assigned note', 'Own note'],
+  'Agent reads notes of visible clients only'
+);
+SELECT lives_ok(
+  $$INSERT INTO notes (client_id, content) VALUES ('c0000000-0000-0000-0000-000000000001', 'Agent note')$$,
+  'Agent can add a note to own client'
+);
+SELECT throws_ok(
+  $$INSERT INTO notes (client_id, content) VALUES ('c0000000-0000-0000-0000-000000000003', 'Sneaky note')$$,
+  '42501',
+  NULL,
+  'Agent cannot add a note to another agent''s client'
+);
+SELECT isnt_empty(
+  $$UPDATE notes SET content = 'Own note edited' WHERE id = 'd0000000-0000-0000-0000-000000000001' RETURNING id$$,
+  'Agent can update notes of own client'
+);
+SELECT is_empty(
+  $$UPDATE notes SET content = 'Edited' WHERE id = 'd0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Agent cannot update notes of another agent''s client'
+);
+SELECT isnt_empty(
+  $$DELETE FROM notes WHERE id = 'd0000000-0000-0000-0000-000000000002' RETURNING id$$,
+  'Agent can delete notes of an assigned client'
+);
+SELECT is_empty(
+  $$DELETE FROM notes WHERE id = 'd0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Agent cannot delete notes of another agent''s client'
+);
+
+-- tasks
+SELECT results_eq(
+  'SELECT description FROM tasks WHERE id::text LIKE ''e0000000-%'' ORDER BY description',
+  ARRAY['Assigned task', 'Own task'],
+  'Agent reads tasks of visible clients only'
+);
+SELECT lives_ok(
+  $$INSERT INTO tasks (client_id, description, due_date) VALUES ('c0000000-0000-0000-0000-000000000002', 'Agent task', current_date)$$,
+  'Agent can add a task to an assigned client'
+);
+SELECT throws_ok(
+  $$INSERT INTO tasks (client_id, description, due_date) VALUES ('c0000000-0000-0000-0000-000000000003', 'Sneaky task', current_date)$$,
+  '42501',
+  NULL,
+  'Agent cannot add a task to another agent''s client'
+);
+SELECT isnt_empty(
+  $$UPDATE tasks SET status = 'completed' WHERE id = 'e0000000-0000-0000-0000-000000000001' RETURNING id$$,
+  'Agent can update tasks of own client'
+);
+SELECT is_empty(
+  $$UPDATE tasks SET status = 'completed' WHERE id = 'e0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Agent cannot update tasks of another agent''s client'
+);
+SELECT is_empty(
+  $$DELETE FROM tasks WHERE id = 'e0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Agent cannot delete tasks of another agent''s client'
+);
+
+-- agent_audit_logs
+SELECT is_empty(
+  'SELECT id FROM agent_audit_logs',
+  'Agent cannot read audit logs, not even entries about themselves'
+);
+SELECT throws_ok(
+  $$INSERT INTO agent_audit_logs (admin_id, agent_id, action_type)
+    VALUES ('a0000000-0000-0000-0000-000000000002', 'a0000000-0000-0000-0000-000000000003', 'update')$$,
+  '42501',
+  NULL,
+  'Agent cannot write audit logs'
+);
+
+RESET ROLE;
+
+-- ============================================================
+-- Admin
+-- ============================================================
+SET LOCAL ROLE authenticated;
+SET LOCAL "request.jwt.claims" = '{"sub": "a0000000-0000-0000-0000-000000000001", "role": "authenticated"}';
+
+-- clients
+SELECT is(
+  (SELECT count(*)::int FROM clients WHERE id::text LIKE 'c0000000-%'),
+  3,
+  'Admin reads every client'
+);
+SELECT lives_ok(
+  $$INSERT INTO clients (id, name, phone_number, destination, country, status)
+    VALUES ('c0000000-0000-0000-0000-000000000004', 'Admin client', '+90 555 222 2222', 'Bodrum', 'Turkey',
+            (SELECT key FROM pipeline_stages ORDER BY position LIMIT 1))$$,
+  'Admin can insert clients'
+);
+SELECT is(
+  (SELECT created_by FROM clients WHERE id = 'c0000000-0000-0000-0000-000000000004'),
+  'a0000000-0000-0000-0000-000000000001'::uuid,
+  'New clients are owned by the session user'
+);
+SELECT isnt_empty(
+  $$UPDATE clients SET name = 'Renamed by admin' WHERE id = 'c0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Admin can update any client'
+);
+SELECT isnt_empty(
+  $$DELETE FROM clients WHERE id = 'c0000000-0000-0000-0000-000000000004' RETURNING id$$,
+  'Admin can delete any client'
+);
+
+-- notes and tasks
+SELECT is(
+  (SELECT count(*)::int FROM notes WHERE content = 'Other note'),
+  1,
+  'Admin reads notes of every client'
+);
+SELECT isnt_empty(
+  $$UPDATE notes SET content = 'Other note edited' WHERE id = 'd0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Admin can update notes of any client'
+);
+SELECT is(
+  (SELECT count(*)::int FROM tasks WHERE description = 'Other task'),
+  1,
+  'Admin reads tasks of every client'
+);
+SELECT isnt_empty(
+  $$DELETE FROM tasks WHERE id = 'e0000000-0000-0000-0000-000000000003' RETURNING id$$,
+  'Admin can delete tasks of any client'
+);
+
+-- agent_audit_logs
+SELECT is(
+  (SELECT count(*)::int FROM agent_audit_logs WHERE id = 'f0000000-0000-0000-0000-000000000001'),
+  1,
+  'Admin reads audit logs'
+);
+SELECT lives_ok(
+  $$INSERT INTO agent_audit_logs (admin_id, agent_id, action_type)
+    VALUES ('a0000000-0000-0000-0000-000000000001', 'a0000000-0000-0000-0000-000000000002', 'role_change')$$,
+  'Admin can write audit logs as themselves'
+);
+SELECT throws_ok(
+  $$INSERT INTO agent_audit_logs (admin_id, agent_id, action_type)
+    VALUES ('a0000000-0000-0000-0000-000000000003', 'a0000000-0000-0000-0000-000000000002', 'role_change')$$,
+  '42501',
+  NULL,
+  'Admin cannot write audit logs in another user''s name'
+);
+SELECT is_empty(
+  $$UPDATE agent_audit_logs SET new_value = 'changed' WHERE id = 'f0000000-0000-0000-0000-000000000001' RETURNING id$$,
+  'Audit logs cannot be updated, even by an admin'
+);
+SELECT is_empty(
+  $$DELETE FROM agent_audit_logs WHERE id = 'f0000000-0000-0000-0000-000000000001' RETURNING id$$,
+  'Audit logs cannot be deleted, even by an admin'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+
+ROLLBACK;